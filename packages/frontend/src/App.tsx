@@ -32,6 +32,7 @@ const ModpacksPage = lazy(() => import('./pages/modpacks/ModpacksPage').then(m =
 const BackupsPage = lazy(() => import('./pages/backups/BackupsPage').then(m => ({ default: m.BackupsPage })));
 const ConsolePage = lazy(() => import('./pages/console/ConsolePage').then(m => ({ default: m.ConsolePage })));
 const PlayersPage = lazy(() => import('./pages/players/PlayersPage').then(m => ({ default: m.PlayersPage })));
+const ChatPage = lazy(() => import('./pages/chat/ChatPage').then(m => ({ default: m.ChatPage })));
 const PlayerDetailPage = lazy(() => import('./pages/players/PlayerDetailPage').then(m => ({ default: m.PlayerDetailPage })));
 const BridgePage = lazy(() => import('./pages/bridge/BridgePage').then(m => ({ default: m.BridgePage })));
 const SettingsPage = lazy(() => import('./pages/settings/SettingsPage').then(m => ({ default: m.SettingsPage })));
@@ -323,6 +324,17 @@ function App() {
                 }
               />
 
+              <Route
+                path="chat"
+                element={
+                  <ProtectedRoute pageName="Chat">
+                    <RequirePermission permission={PERMISSIONS.PLAYERS_VIEW}>
+                      <ChatPage />
+                    </RequirePermission>
+                  </ProtectedRoute>
+                }
+              />
+
               <Route
                 path="automation"
                 element={
@@ -22,6 +22,7 @@ import {
   History,
   Construction,
   ScrollText,
+  MessageSquare,
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAppStore } from '../../stores/appStore';
@@ -42,6 +43,7 @@ const navigationItems: NavigationItem[] = [
   { path: '/dashboard', icon: LayoutDashboard, labelKey: 'nav.dashboard' }, // Always visible
   { path: '/servers', icon: Server, labelKey: 'nav.servers', permission: 'servers:view' },
   { path: '/console', icon: Terminal, labelKey: 'nav.console', permission: 'servers:console' },
+  { path: '/chat', icon: MessageSquare, labelKey: 'nav.chat', permission: 'players:view' },
   { path: '/mods', icon: Blocks, labelKey: 'nav.marketplace', permission: 'mods:view' },
   { path: '/modpacks', icon: Package, labelKey: 'nav.modpacks', permission: 'mods:view' },
   { path: '/backups', icon: Database, labelKey: 'nav.backups', permission: 'backups:view' },
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal, ModalFooter, Button, Input, Badge } from '../ui';
+import { RotateCcw } from 'lucide-react';
+import { useToast } from '../../stores/toastStore';
+import api from '../../services/api';
+import type { AlertPolicySettings, EffectiveAlertPolicy, PolicyAlertType } from '../../types';
+
+interface NetworkOption {
+  id: string;
+  name: string;
+}
+
+interface AlertPolicyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  server: { id: string; name: string };
+  /** Networks the server belongs to - each can hold a default policy */
+  networks: NetworkOption[];
+}
+
+type ThresholdKey = 'cpu' | 'memory' | 'disk' | 'players';
+
+// Form values are strings so thresholds can be left empty
+type PolicyForm = Record<`${ThresholdKey}${'Warning' | 'Critical'}`, string> & {
+  minDurationMinutes: string;
+  enabledTypes: PolicyAlertType[];
+};
+
+const THRESHOLD_ROWS: { type: PolicyAlertType; key: ThresholdKey; unit: string }[] = [
+  { type: 'high_cpu', key: 'cpu', unit: '%' },
+  { type: 'high_memory', key: 'memory', unit: '%' },
+  { type: 'high_disk', key: 'disk', unit: '%' },
+  { type: 'high_players', key: 'players', unit: '' },
+];
+
+const toForm = (policy: AlertPolicySettings): PolicyForm => ({
+  cpuWarning: String(policy.cpuWarning),
+  cpuCritical: String(policy.cpuCritical),
+  memoryWarning: String(policy.memoryWarning),
+  memoryCritical: String(policy.memoryCritical),
+  diskWarning: String(policy.diskWarning),
+  diskCritical: String(policy.diskCritical),
+  playersWarning: policy.playersWarning === null ? '' : String(policy.playersWarning),
+  playersCritical: policy.playersCritical === null ? '' : String(policy.playersCritical),
+  minDurationMinutes: String(policy.minDurationMinutes),
+  enabledTypes: policy.enabledTypes,
+});
+
+const fromForm = (form: PolicyForm): AlertPolicySettings => ({
+  cpuWarning: Number(form.cpuWarning),
+  cpuCritical: Number(form.cpuCritical),
+  memoryWarning: Number(form.memoryWarning),
+  memoryCritical: Number(form.memoryCritical),
+  diskWarning: Number(form.diskWarning),
+  diskCritical: Number(form.diskCritical),
+  playersWarning: form.playersWarning.trim() ? Number(form.playersWarning) : null,
+  playersCritical: form.playersCritical.trim() ? Number(form.playersCritical) : null,
+  minDurationMinutes: Number(form.minDurationMinutes),
+  enabledTypes: form.enabledTypes,
+});
+
+export const AlertPolicyModal = ({ isOpen, onClose, server, networks }: AlertPolicyModalProps) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  // 'server' or a network id
+  const [scope, setScope] = useState<string>('server');
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [source, setSource] = useState<EffectiveAlertPolicy['source'] | 'unset' | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      setLoading(true);
+      if (scope === 'server') {
+        const policy = await api.getAlertPolicy(server.id);
+        setForm(toForm(policy));
+        setSource(policy.source);
+      } else {
+        const { policy, defaults } = await api.getNetworkAlertPolicy(scope);
+        setForm(toForm(policy || defaults));
+        setSource(policy ? 'network' : 'unset');
+      }
+    } catch (error) {
+      toast.error(t('alerts.policy.messages.load_error'), error instanceof Error ? error.message : undefined);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, server.id, toast, t]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setScope('server');
+      setForm(null);
+      setSource(null);
+      return;
+    }
+    loadPolicy();
+  }, [isOpen, loadPolicy]);
+
+  const updateField = (field: keyof PolicyForm, value: string) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  const toggleType = (type: PolicyAlertType, enabled: boolean) => {
+    setForm(prev => prev && {
+      ...prev,
+      enabledTypes: enabled
+        ? [...prev.enabledTypes, type]
+        : prev.enabledTypes.filter(existing => existing !== type),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      if (scope === 'server') {
+        const policy = await api.updateAlertPolicy(server.id, fromForm(form));
+        setSource(policy.source);
+      } else {
+        await api.updateNetworkAlertPolicy(scope, fromForm(form));
+        setSource('network');
+      }
+      toast.success(t('alerts.policy.messages.saved'));
+    } catch (error) {
+      toast.error(t('alerts.policy.messages.save_error'), error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      setSaving(true);
+      if (scope === 'server') {
+        await api.resetAlertPolicy(server.id);
+      } else {
+        await api.deleteNetworkAlertPolicy(scope);
+      }
+      toast.success(t('alerts.policy.messages.reset'));
+      await loadPolicy();
+    } catch (error) {
+      toast.error(t('alerts.policy.messages.reset_error'), error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canReset = scope === 'server' ? source === 'server' : source === 'network';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${t('alerts.policy.title')} - ${server.name}`} size="lg">
+      {/* Scope selector */}
+      {networks.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Button
+            variant={scope === 'server' ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={() => setScope('server')}
+          >
+            {t('alerts.policy.scope.server')}
+          </Button>
+          {networks.map((network) => (
+            <Button
+              key={network.id}
+              variant={scope === network.id ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setScope(network.id)}
+            >
+              {t('alerts.policy.scope.network')}: {network.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {source && (
+        <div className="flex items-center gap-2 mb-4">
+          <Badge variant={source === 'server' || (scope !== 'server' && source === 'network') ? 'success' : 'default'} size="sm">
+            {t(`alerts.policy.source.${scope === 'server' ? source : source === 'network' ? 'network_set' : 'unset'}`)}
+          </Badge>
+          <span className="text-sm text-text-light-muted dark:text-text-muted">
+            {t(`alerts.policy.source_help.${scope === 'server' ? 'server' : 'network'}`)}
+          </span>
+        </div>
+      )}
+
+      {loading || !form ? (
+        <p className="text-center py-8 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+      ) : (
+        <div className="space-y-4">
+          <label className="flex items-center gap-3 p-3 rounded-lg bg-gray-100 dark:bg-primary-bg">
+            <input
+              type="checkbox"
+              checked={form.enabledTypes.includes('server_down')}
+              onChange={(e) => toggleType('server_down', e.target.checked)}
+              className="w-4 h-4 accent-accent-primary"
+            />
+            <span className="text-sm font-medium text-text-light-primary dark:text-text-primary">
+              {t('alerts.policy.types.server_down')}
+            </span>
+          </label>
+
+          {THRESHOLD_ROWS.map(({ type, key, unit }) => {
+            const enabled = form.enabledTypes.includes(type);
+            return (
+              <div key={type} className="p-3 rounded-lg bg-gray-100 dark:bg-primary-bg space-y-3">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => toggleType(type, e.target.checked)}
+                    className="w-4 h-4 accent-accent-primary"
+                  />
+                  <span className="text-sm font-medium text-text-light-primary dark:text-text-primary">
+                    {t(`alerts.policy.types.${type}`)}
+                  </span>
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    type="number"
+                    min={type === 'high_players' ? 1 : 0}
+                    max={unit === '%' ? 100 : undefined}
+                    label={`${t('alerts.stats.warning')}${unit ? ` (${unit})` : ''}`}
+                    placeholder={type === 'high_players' ? t('alerts.policy.players_off') : undefined}
+                    value={form[`${key}Warning`]}
+                    onChange={(e) => updateField(`${key}Warning`, e.target.value)}
+                    disabled={!enabled}
+                  />
+                  <Input
+                    type="number"
+                    min={type === 'high_players' ? 1 : 0}
+                    max={unit === '%' ? 100 : undefined}
+                    label={`${t('alerts.stats.critical')}${unit ? ` (${unit})` : ''}`}
+                    placeholder={type === 'high_players' ? t('alerts.policy.players_off') : undefined}
+                    value={form[`${key}Critical`]}
+                    onChange={(e) => updateField(`${key}Critical`, e.target.value)}
+                    disabled={!enabled}
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          <Input
+            type="number"
+            min={0}
+            label={t('alerts.policy.min_duration')}
+            value={form.minDurationMinutes}
+            onChange={(e) => updateField('minDurationMinutes', e.target.value)}
+          />
+          <p className="text-xs text-text-light-muted dark:text-text-muted -mt-2">
+            {t('alerts.policy.min_duration_help')}
+          </p>
+        </div>
+      )}
+
+      <ModalFooter>
+        {canReset && (
+          <Button variant="ghost" icon={<RotateCcw size={16} />} onClick={handleReset} disabled={saving}>
+            {t(scope === 'server' ? 'alerts.policy.actions.use_inherited' : 'alerts.policy.actions.remove_network_default')}
+          </Button>
+        )}
+        <Button variant="secondary" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Button variant="primary" onClick={handleSave} loading={saving} disabled={!form || loading}>
+          {t('common.save')}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Ban, ShieldCheck } from 'lucide-react';
+import { Button, Badge, Input, Modal, ModalFooter } from '../ui';
+import { PermissionGate } from '../auth';
+import { useNetworkBans, useCreateNetworkBan, useDeleteNetworkBan } from '../../hooks/api/useNetworks';
+import { PERMISSIONS } from '../../types';
+
+interface NetworkBansPanelProps {
+  networkId: string;
+}
+
+/**
+ * Bans that apply to every server in a network
+ */
+export const NetworkBansPanel = ({ networkId }: NetworkBansPanelProps) => {
+  const { t } = useTranslation();
+  const { data: bans = [], isLoading } = useNetworkBans(networkId);
+  const createBan = useCreateNetworkBan();
+  const deleteBan = useDeleteNetworkBan();
+
+  const [showModal, setShowModal] = useState(false);
+  const [uuid, setUuid] = useState('');
+  const [username, setUsername] = useState('');
+  const [reason, setReason] = useState('');
+  const [durationHours, setDurationHours] = useState('');
+
+  const openModal = () => {
+    setUuid('');
+    setUsername('');
+    setReason('');
+    setDurationHours('');
+    setShowModal(true);
+  };
+
+  const handleBan = async () => {
+    const hours = Number(durationHours);
+    try {
+      await createBan.mutateAsync({
+        networkId,
+        uuid: uuid.trim(),
+        username: username.trim() || undefined,
+        reason: reason || undefined,
+        // Empty means a permanent ban
+        duration: durationHours.trim() && hours > 0 ? Math.round(hours * 3600) : undefined,
+      });
+      setShowModal(false);
+    } catch {
+      // The mutation hook already shows an error toast - keep the dialog open
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <div className="flex items-center gap-2">
+          <Ban size={16} className="text-danger" />
+          <h4 className="font-medium text-text-light-primary dark:text-text-primary">{t('networks.bans.title')}</h4>
+          <Badge variant={bans.length > 0 ? 'danger' : 'default'} size="sm">{bans.length}</Badge>
+        </div>
+        <PermissionGate permission={PERMISSIONS.PLAYERS_BAN}>
+          <Button variant="ghost" size="sm" icon={<Ban size={14} />} onClick={openModal}>
+            {t('networks.bans.add')}
+          </Button>
+        </PermissionGate>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+      ) : bans.length === 0 ? (
+        <p className="text-sm text-text-light-muted dark:text-text-muted">{t('networks.bans.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+          {bans.map((ban) => (
+            <li key={ban.id} className="flex justify-between items-center py-2 text-sm">
+              <div>
+                <p className="font-medium text-text-light-primary dark:text-text-primary">{ban.username}</p>
+                <p className="text-xs text-text-light-muted dark:text-text-muted">
+                  {ban.reason || t('networks.bans.no_reason')}
+                  {' · '}
+                  {ban.bannedUntil
+                    ? t('networks.bans.until', { date: format(new Date(ban.bannedUntil), 'PPp') })
+                    : t('networks.bans.permanent')}
+                  {' · '}
+                  {ban.bannedBy
+                    ? t('networks.bans.by', { user: ban.bannedBy, time: formatDistanceToNow(new Date(ban.bannedAt), { addSuffix: true }) })
+                    : formatDistanceToNow(new Date(ban.bannedAt), { addSuffix: true })}
+                </p>
+              </div>
+              <PermissionGate permission={PERMISSIONS.PLAYERS_UNBAN}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={<ShieldCheck size={14} />}
+                  onClick={() => deleteBan.mutate({ networkId, uuid: ban.uuid })}
+                  disabled={deleteBan.isPending}
+                >
+                  {t('networks.bans.unban')}
+                </Button>
+              </PermissionGate>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal isOpen={showModal} onClose={() => setShowModal(false)} title={t('networks.bans.add')}>
+        <div className="space-y-4">
+          <p className="text-sm text-text-light-muted dark:text-text-muted">{t('networks.bans.description')}</p>
+          <Input
+            label={t('networks.bans.uuid')}
+            value={uuid}
+            onChange={(e) => setUuid(e.target.value)}
+          />
+          <Input
+            label={t('networks.bans.username')}
+            placeholder={t('networks.bans.username_hint')}
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <Input
+            label={t('players.actions.reason')}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <Input
+            type="number"
+            min={0}
+            label={t('players.actions.duration_hours')}
+            placeholder={t('players.actions.duration_permanent')}
+            value={durationHours}
+            onChange={(e) => setDurationHours(e.target.value)}
+          />
+        </div>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setShowModal(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="danger" onClick={handleBan} disabled={!uuid.trim()} loading={createBan.isPending}>
+            {t('players.actions.ban')}
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </div>
+  );
+};
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { Card, Button, Badge } from '../ui';
 import { NetworkServerRow } from './NetworkServerRow';
+import { NetworkBansPanel } from './NetworkBansPanel';
 import { ConfirmDialog } from '../ui/ConfirmDialog';
 import type {
   NetworkWithMembers,
@@ -285,6 +286,7 @@ export const NetworkCard = ({
                 />
               ))
             )}
+            <NetworkBansPanel networkId={network.id} />
           </div>
         )}
       </Card>
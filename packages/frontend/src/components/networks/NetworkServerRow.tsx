@@ -55,7 +55,7 @@ export const NetworkServerRow = ({
   const isStopped = serverStatus === 'stopped';
   const isStopping = serverStatus === 'stopping';
   const isStarting = serverStatus === 'starting';
-  const isCrashed = serverStatus === 'crashed';
+  const isCrashed = serverStatus === 'crashed' || serverStatus === 'crash_loop';
   const canStart = isStopped || isCrashed;
   const canDelete = isStopped || isCrashed;
 
@@ -69,6 +69,7 @@ export const NetworkServerRow = ({
       case 'stopping':
         return 'bg-warning';
       case 'crashed':
+      case 'crash_loop':
         return 'bg-danger';
       default:
         return 'bg-gray-500';
@@ -80,6 +81,10 @@ export const NetworkServerRow = ({
       case 'running':
         return <Badge variant="success" size="sm">{t('servers.status.running')}</Badge>;
       case 'stopped':
+        // Stopped by the idle policy
+        if (localServer?.idleSince) {
+          return <Badge variant="info" size="sm">{t('servers.idle.badge')}</Badge>;
+        }
         return <Badge variant="default" size="sm">{t('servers.status.stopped')}</Badge>;
       case 'starting':
         return <Badge variant="warning" size="sm">{t('servers.status.starting')}</Badge>;
@@ -87,6 +92,8 @@ export const NetworkServerRow = ({
         return <Badge variant="warning" size="sm">{t('servers.status.stopping')}</Badge>;
       case 'crashed':
         return <Badge variant="danger" size="sm">{t('servers.status.crashed')}</Badge>;
+      case 'crash_loop':
+        return <Badge variant="danger" size="sm">{t('servers.status.crash_loop')}</Badge>;
       default:
         return <Badge variant="default" size="sm">{t('networks.row.status.unknown')}</Badge>;
     }
@@ -1,2 +1,3 @@
 export { NetworkCard } from './NetworkCard';
 export { NetworkServerRow } from './NetworkServerRow';
+export { NetworkBansPanel } from './NetworkBansPanel';
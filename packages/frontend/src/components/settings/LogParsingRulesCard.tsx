@@ -0,0 +1,338 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FileText, Plus, Pencil, Trash2, FlaskConical } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, Input, TextArea, Modal, ModalFooter, ConfirmDialog } from '../ui';
+import { PermissionGate } from '../auth';
+import { useServers, useLogRules, useSaveLogRule, useDeleteLogRule, useTestLogRules } from '../../hooks/api';
+import { PERMISSIONS } from '../../types';
+import type { LogParseRule, LogParseRuleInput } from '../../types';
+
+const EMPTY_RULE: LogParseRuleInput = {
+  name: '',
+  pattern: '',
+  serverId: null,
+  adapterType: null,
+  priority: 0,
+  enabled: true,
+};
+
+const ADAPTER_TYPES = ['java'];
+
+const SAMPLE_LINES = '[2026/01/14 10:12:01   INFO]   [HytaleServer] Server started\n[12:00:00] [Server thread/WARN]: Can\'t keep up!';
+
+const selectClassName =
+  'w-full px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary';
+
+/** Encode a rule's scope for a single select */
+const toScope = (rule: Pick<LogParseRuleInput, 'serverId' | 'adapterType'>) =>
+  rule.serverId ? `server:${rule.serverId}` : rule.adapterType ? `adapter:${rule.adapterType}` : '';
+
+const fromScope = (scope: string): Pick<LogParseRuleInput, 'serverId' | 'adapterType'> => ({
+  serverId: scope.startsWith('server:') ? scope.slice('server:'.length) : null,
+  adapterType: scope.startsWith('adapter:') ? scope.slice('adapter:'.length) : null,
+});
+
+interface RuleTesterProps {
+  /** Test this pattern alone instead of the rules in effect */
+  pattern?: string;
+  serverId?: string;
+}
+
+/**
+ * Runs pasted sample lines through the parser and shows what each line becomes
+ */
+const RuleTester = ({ pattern, serverId }: RuleTesterProps) => {
+  const { t } = useTranslation();
+  const testRules = useTestLogRules();
+  const [lines, setLines] = useState(SAMPLE_LINES);
+
+  const handleTest = () => {
+    testRules.mutate({ lines: lines.split('\n'), pattern: pattern || undefined, serverId: serverId || undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <TextArea
+        label={t('settings.log_rules.samples')}
+        rows={4}
+        value={lines}
+        onChange={(e) => setLines(e.target.value)}
+        className="font-mono text-sm"
+      />
+      <Button
+        variant="secondary"
+        size="sm"
+        icon={<FlaskConical size={14} />}
+        onClick={handleTest}
+        loading={testRules.isPending}
+        disabled={!lines.trim()}
+      >
+        {t('settings.log_rules.test')}
+      </Button>
+      {testRules.error && <p className="text-sm text-danger">{testRules.error.message}</p>}
+      {testRules.data && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-800 text-sm">
+          {testRules.data.results.map((result, index) => (
+            <li key={index} className="py-2 space-y-1">
+              <code className="block text-xs text-text-light-muted dark:text-text-muted truncate">{result.line}</code>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={result.rule ? 'success' : 'default'} size="sm">
+                  {result.rule || t('settings.log_rules.no_match')}
+                </Badge>
+                {result.entry && (
+                  <>
+                    <Badge
+                      variant={result.entry.level === 'error' ? 'danger' : result.entry.level === 'warn' ? 'warning' : 'info'}
+                      size="sm"
+                    >
+                      {result.entry.level.toUpperCase()}
+                    </Badge>
+                    {result.groups.timestamp && (
+                      <span className="text-xs text-text-light-muted dark:text-text-muted">{result.groups.timestamp}</span>
+                    )}
+                    {result.entry.thread && (
+                      <span className="text-xs text-text-light-muted dark:text-text-muted">
+                        {t('settings.log_rules.thread')}: {result.entry.thread}
+                      </span>
+                    )}
+                    {result.entry.source && (
+                      <span className="text-xs text-text-light-muted dark:text-text-muted">
+                        {t('settings.log_rules.source')}: {result.entry.source}
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
+              {result.entry && (
+                <p className="text-text-light-primary dark:text-text-primary break-all">{result.entry.message}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Regex rules that turn console output into structured log entries
+ */
+export const LogParsingRulesCard = () => {
+  const { t } = useTranslation();
+  const { data: servers = [] } = useServers();
+  const { data, isLoading } = useLogRules();
+  const saveRule = useSaveLogRule();
+  const deleteRule = useDeleteLogRule();
+
+  const [editing, setEditing] = useState<{ id?: string; data: LogParseRuleInput } | null>(null);
+  const [deleting, setDeleting] = useState<LogParseRule | null>(null);
+  const [testServerId, setTestServerId] = useState('');
+
+  const rules = data?.rules || [];
+
+  const scopeLabel = (rule: LogParseRule) => {
+    if (rule.serverId) {
+      return servers.find((server) => server.id === rule.serverId)?.name || rule.serverId;
+    }
+    if (rule.adapterType) {
+      return t('settings.log_rules.adapter_scope', { type: rule.adapterType });
+    }
+    return t('settings.log_rules.all_servers');
+  };
+
+  const update = (changes: Partial<LogParseRuleInput>) => {
+    setEditing((current) => (current ? { ...current, data: { ...current.data, ...changes } } : current));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await saveRule.mutateAsync({ ruleId: editing.id, data: editing.data });
+      setEditing(null);
+    } catch {
+      // The mutation hook already shows an error toast - keep the dialog open
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteRule.mutateAsync(deleting.id);
+    setDeleting(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText size={20} />
+              {t('settings.log_rules.title')}
+            </CardTitle>
+            <CardDescription>{t('settings.log_rules.description')}</CardDescription>
+          </div>
+          <PermissionGate permission={PERMISSIONS.SERVERS_UPDATE}>
+            <Button variant="secondary" icon={<Plus size={16} />} onClick={() => setEditing({ data: EMPTY_RULE })}>
+              {t('settings.log_rules.add')}
+            </Button>
+          </PermissionGate>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {isLoading ? (
+            <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex justify-between items-center gap-4 py-3 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-text-light-primary dark:text-text-primary">{rule.name}</span>
+                      <Badge variant="info" size="sm">{scopeLabel(rule)}</Badge>
+                      {!rule.enabled && <Badge variant="default" size="sm">{t('settings.log_rules.disabled')}</Badge>}
+                    </div>
+                    <p className="text-xs text-text-light-muted dark:text-text-muted mt-1 truncate">
+                      <code>{rule.pattern}</code>
+                    </p>
+                  </div>
+                  <PermissionGate permission={PERMISSIONS.SERVERS_UPDATE}>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        icon={<Pencil size={14} />}
+                        onClick={() => setEditing({
+                          id: rule.id,
+                          data: {
+                            name: rule.name,
+                            pattern: rule.pattern,
+                            serverId: rule.serverId,
+                            adapterType: rule.adapterType,
+                            priority: rule.priority,
+                            enabled: rule.enabled,
+                          },
+                        })}
+                      >
+                        {t('settings.log_rules.edit_short')}
+                      </Button>
+                      <Button variant="ghost" size="sm" icon={<Trash2 size={14} />} onClick={() => setDeleting(rule)}>
+                        {t('common.delete')}
+                      </Button>
+                    </div>
+                  </PermissionGate>
+                </li>
+              ))}
+              {data?.builtin.map((rule) => (
+                <li key={rule.name} className="py-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-text-light-primary dark:text-text-primary">{rule.name}</span>
+                    <Badge variant="default" size="sm">{t('settings.log_rules.builtin')}</Badge>
+                  </div>
+                  <p className="text-xs text-text-light-muted dark:text-text-muted mt-1 truncate">
+                    <code>{rule.pattern}</code>
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-800 space-y-3">
+            <h3 className="font-medium text-text-light-primary dark:text-text-primary">{t('settings.log_rules.tester_title')}</h3>
+            <p className="text-sm text-text-light-muted dark:text-text-muted">{t('settings.log_rules.tester_description')}</p>
+            <select value={testServerId} onChange={(e) => setTestServerId(e.target.value)} className={selectClassName}>
+              <option value="">{t('settings.log_rules.all_servers')}</option>
+              {servers.map((server) => (
+                <option key={server.id} value={server.id}>{server.name}</option>
+              ))}
+            </select>
+            <RuleTester serverId={testServerId} />
+          </div>
+        </div>
+      </CardContent>
+
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.id ? t('settings.log_rules.edit') : t('settings.log_rules.add')}
+        size="lg"
+      >
+        {editing && (
+          <div className="space-y-4">
+            <Input
+              label={t('settings.log_rules.name')}
+              value={editing.data.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <div>
+              <Input
+                label={t('settings.log_rules.pattern')}
+                placeholder="^\[(?<timestamp>[^\]]+)\] (?<level>\w+): (?<message>.*)$"
+                value={editing.data.pattern}
+                onChange={(e) => update({ pattern: e.target.value })}
+                className="font-mono"
+              />
+              <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">{t('settings.log_rules.pattern_hint')}</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                {t('settings.log_rules.scope')}
+              </label>
+              <select
+                value={toScope(editing.data)}
+                onChange={(e) => update(fromScope(e.target.value))}
+                className={selectClassName}
+              >
+                <option value="">{t('settings.log_rules.all_servers')}</option>
+                {ADAPTER_TYPES.map((type) => (
+                  <option key={type} value={`adapter:${type}`}>{t('settings.log_rules.adapter_scope', { type })}</option>
+                ))}
+                {servers.map((server) => (
+                  <option key={server.id} value={`server:${server.id}`}>{server.name}</option>
+                ))}
+              </select>
+            </div>
+            <Input
+              type="number"
+              label={t('settings.log_rules.priority')}
+              value={editing.data.priority}
+              onChange={(e) => update({ priority: parseInt(e.target.value) || 0 })}
+            />
+            <label className="flex items-center gap-2 text-sm text-text-light-primary dark:text-text-primary">
+              <input
+                type="checkbox"
+                checked={editing.data.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="accent-accent-primary"
+              />
+              {t('settings.log_rules.enabled')}
+            </label>
+            <RuleTester pattern={editing.data.pattern} />
+          </div>
+        )}
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setEditing(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!editing?.data.name.trim() || !editing?.data.pattern.trim()}
+            loading={saveRule.isPending}
+          >
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('settings.log_rules.delete_title')}
+        message={t('settings.log_rules.delete_message', { name: deleting?.name })}
+        confirmLabel={t('common.delete')}
+        loading={deleteRule.isPending}
+      />
+    </Card>
+  );
+};
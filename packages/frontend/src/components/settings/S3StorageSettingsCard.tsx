@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Cloud, Save, Server, Eye, EyeOff, Check, X } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Input } from '../ui';
+import { useS3Settings, useS3Status, useUpdateS3Settings, useTestS3Connection } from '../../hooks/api';
+import type { S3StorageSettings } from '../../types';
+
+const DEFAULT_SETTINGS: S3StorageSettings = {
+  enabled: false,
+  endpoint: '',
+  region: 'us-east-1',
+  bucket: '',
+  prefix: '',
+  accessKeyId: '',
+  secretAccessKey: '',
+  forcePathStyle: true,
+  configured: false,
+};
+
+/**
+ * Endpoint, bucket and credentials of the S3-compatible backup storage
+ */
+export const S3StorageSettingsCard = () => {
+  const { t } = useTranslation();
+  const { data: saved } = useS3Settings();
+  const { data: status } = useS3Status();
+  const updateSettings = useUpdateS3Settings();
+  const testConnection = useTestS3Connection();
+  const [draft, setDraft] = useState<Partial<S3StorageSettings> | null>(null);
+  const [showSecret, setShowSecret] = useState(false);
+
+  const form: S3StorageSettings = { ...DEFAULT_SETTINGS, ...saved, ...draft };
+  const update = (changes: Partial<S3StorageSettings>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    testConnection.reset();
+  };
+
+  const handleSave = () => {
+    updateSettings.mutate(form, { onSuccess: () => setDraft(null) });
+  };
+
+  const canTest = !!(form.endpoint && form.bucket && form.accessKeyId && form.secretAccessKey);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Cloud size={20} />
+              {t('settings.s3.title')}
+            </CardTitle>
+            <CardDescription>{t('settings.s3.description')}</CardDescription>
+          </div>
+          {status && (
+            <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm ${status.connected
+              ? 'bg-green-500/10 text-green-500'
+              : status.enabled
+                ? 'bg-yellow-500/10 text-yellow-500'
+                : 'bg-gray-500/10 text-gray-500'
+              }`}>
+              <div className={`w-2 h-2 rounded-full ${status.connected
+                ? 'bg-green-500'
+                : status.enabled
+                  ? 'bg-yellow-500'
+                  : 'bg-gray-500'
+                }`} />
+              {status.connected ? t('settings.s3.status.connected') : status.enabled ? t('settings.s3.status.disconnected') : t('settings.s3.status.not_configured')}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {testConnection.data && (
+          <div className={`p-3 rounded mb-4 flex items-center justify-between ${testConnection.data.success
+            ? 'bg-green-500/10 text-green-500'
+            : 'bg-red-500/10 text-red-500'
+            }`}>
+            <span className="flex items-center gap-2">
+              {testConnection.data.success ? <Check size={16} /> : <X size={16} />}
+              {testConnection.data.message}
+            </span>
+            <button onClick={() => testConnection.reset()}>
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        {testConnection.error && (
+          <div className="bg-red-500/10 text-red-500 p-3 rounded mb-4">{testConnection.error.message}</div>
+        )}
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+            <span className="text-sm">{t('settings.s3.enabled')}</span>
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label={t('settings.s3.endpoint')}
+              placeholder="https://minio.example.com:9000"
+              value={form.endpoint}
+              onChange={(e) => update({ endpoint: e.target.value })}
+            />
+            <Input
+              label={t('settings.s3.region')}
+              placeholder="us-east-1"
+              value={form.region}
+              onChange={(e) => update({ region: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label={t('settings.s3.bucket')}
+              placeholder="hytale-backups"
+              value={form.bucket}
+              onChange={(e) => update({ bucket: e.target.value })}
+            />
+            <Input
+              label={t('settings.s3.prefix')}
+              placeholder="servers/"
+              value={form.prefix}
+              onChange={(e) => update({ prefix: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label={t('settings.s3.access_key_id')}
+              value={form.accessKeyId}
+              onChange={(e) => update({ accessKeyId: e.target.value })}
+            />
+            <div>
+              <label className="block text-sm font-medium mb-2">{t('settings.s3.secret_access_key')}</label>
+              <div className="relative">
+                <Input
+                  type={showSecret ? 'text' : 'password'}
+                  placeholder={t('settings.s3.secret_placeholder')}
+                  value={form.secretAccessKey}
+                  onChange={(e) => update({ secretAccessKey: e.target.value })}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowSecret(!showSecret)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-text-secondary hover:text-text-primary"
+                >
+                  {showSecret ? <EyeOff size={16} /> : <Eye size={16} />}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={form.forcePathStyle}
+                onChange={(e) => update({ forcePathStyle: e.target.checked })}
+              />
+              <span className="text-sm">{t('settings.s3.force_path_style')}</span>
+            </label>
+            <p className="text-xs text-text-light-muted dark:text-text-muted mt-1 ml-6">
+              {t('settings.s3.force_path_style_helper')}
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4 border-t">
+            <Button onClick={handleSave} disabled={updateSettings.isPending || !draft}>
+              <Save size={16} className="mr-2" />
+              {updateSettings.isPending ? t('settings.s3.saving') : t('settings.s3.save')}
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => testConnection.mutate(form)}
+              disabled={testConnection.isPending || !canTest}
+            >
+              <Server size={16} className="mr-2" />
+              {testConnection.isPending ? t('settings.s3.testing') : t('settings.s3.test')}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
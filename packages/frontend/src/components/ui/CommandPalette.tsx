@@ -31,6 +31,7 @@ export const CommandPalette = () => {
       { id: 'dashboard', title: t('nav.dashboard'), description: t('ui.command.pages.dashboard'), category: 'page', icon: <Activity size={18} />, path: '/dashboard' },
       { id: 'servers', title: t('nav.servers'), description: t('ui.command.pages.servers'), category: 'page', icon: <Server size={18} />, path: '/servers' },
       { id: 'players', title: t('nav.players'), description: t('ui.command.pages.players'), category: 'page', icon: <Users size={18} />, path: '/players' },
+      { id: 'chat', title: t('nav.chat'), description: t('ui.command.pages.chat'), category: 'page', icon: <FileText size={18} />, path: '/chat' },
       { id: 'mods', title: t('nav.mods', { defaultValue: 'Mods' }), description: t('ui.command.pages.mods'), category: 'page', icon: <Package size={18} />, path: '/mods' },
       { id: 'modpacks', title: t('nav.modpacks'), description: t('ui.command.pages.modpacks'), category: 'page', icon: <Package size={18} />, path: '/modpacks' },
       { id: 'backups', title: t('nav.backups'), description: t('ui.command.pages.backups'), category: 'page', icon: <Database size={18} />, path: '/backups' },
@@ -38,6 +38,10 @@ export const StatusIndicator = ({ status, showLabel = false, size = 'md' }: Stat
       className: 'status-error',
       label: t('servers.status.crashed'),
     },
+    crash_loop: {
+      className: 'status-error',
+      label: t('servers.status.crash_loop'),
+    },
     orphaned: {
       className: 'status-warning',
       label: t('servers.status.orphaned', 'Reconnecting'),
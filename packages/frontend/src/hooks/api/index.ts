@@ -13,6 +13,14 @@ export {
   useServer,
   useServerStatus,
   useServerMetrics,
+  useCrashReports,
+  useDeleteCrashReport,
+  useRestartPolicy,
+  useUpdateRestartPolicy,
+  useIdlePolicy,
+  useUpdateIdlePolicy,
+  useCreateWakeToken,
+  useRevokeWakeToken,
   useCreateServer,
   useUpdateServer,
   useDeleteServer,
@@ -31,17 +39,66 @@ export {
   useCreateBackup,
   useRestoreBackup,
   useDeleteBackup,
+  useBackupContents,
+  useRestoreBackupFiles,
+  useBackupDiff,
 } from './useBackups';
 
+// Storage hooks
+export {
+  storageKeys,
+  useS3Settings,
+  useS3Status,
+  useUpdateS3Settings,
+  useTestS3Connection,
+} from './useStorage';
+
 // Player hooks
 export {
   playerKeys,
   useServerPlayers,
+  usePlayerDirectory,
+  usePlayerProfile,
+  usePlayerSessions,
+  usePlayersOnlineAt,
   useKickPlayer,
   useBanPlayer,
   useUnbanPlayer,
+  usePlayerSyncConflicts,
+  useResolvePlayerSyncConflict,
+  usePlayerCases,
+  useAddPlayerCase,
 } from './usePlayers';
 
+// Console hooks
+export {
+  consoleKeys,
+  useConsoleSearch,
+  useLogRules,
+  useSaveLogRule,
+  useDeleteLogRule,
+  useTestLogRules,
+} from './useConsole';
+
+// Alert hooks
+export {
+  alertKeys,
+  useLogAlertRules,
+  useSaveLogAlertRule,
+  useDeleteLogAlertRule,
+  useAutomationRuleOptions,
+} from './useAlerts';
+
+// Chat hooks
+export {
+  chatKeys,
+  useChatMessages,
+  useReviewChatMessage,
+  useChatFilters,
+  useSaveChatFilter,
+  useDeleteChatFilter,
+} from './useChat';
+
 // Mod hooks
 export {
   modKeys,
@@ -66,3 +123,9 @@ export {
   type ActivityStats,
   type PaginatedResult,
 } from './useActivityLog';
+
+// Analytics hooks
+export {
+  analyticsKeys,
+  useAnalytics,
+} from './useAnalytics';
@@ -0,0 +1,131 @@
+/**
+ * Alert API Hooks
+ *
+ * React Query hooks for log watch rules.
+ *
+ * @module hooks/api/useAlerts
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import api from '../../services/api';
+import type { LogAlertRule, LogAlertRuleInput, AutomationRuleSummary } from '../../types';
+import { useToast } from '../../stores/toastStore';
+import { logger } from '../../config';
+
+/**
+ * Query key factory for alerts
+ */
+export const alertKeys = {
+  all: ['alerts'] as const,
+  logRules: () => [...alertKeys.all, 'log-rules'] as const,
+  automationRules: (serverId: string) => [...alertKeys.all, 'automation-rules', serverId] as const,
+};
+
+/**
+ * Hook to fetch log watch rules
+ *
+ * @param options - Additional query options
+ * @returns Query result with rules for every server
+ */
+export function useLogAlertRules(
+  options?: Omit<UseQueryOptions<LogAlertRule[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: alertKeys.logRules(),
+    queryFn: async () => {
+      logger.debug('Fetching log alert rules');
+      return api.getLogAlertRules<LogAlertRule>();
+    },
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+}
+
+/**
+ * Hook to create or update a log watch rule
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useSaveLogAlertRule(
+  options?: UseMutationOptions<LogAlertRule, Error, { ruleId?: string; data: Partial<LogAlertRuleInput> }>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ ruleId, data }) => {
+      logger.info('Saving log alert rule:', ruleId ?? data.name);
+      return ruleId
+        ? api.updateLogAlertRule<LogAlertRule>(ruleId, data)
+        : api.createLogAlertRule<LogAlertRule>(data);
+    },
+    onSuccess: (_, { ruleId }) => {
+      queryClient.invalidateQueries({ queryKey: alertKeys.logRules() });
+      if (!ruleId) {
+        toast.success('Log alert rule created');
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to save log alert rule', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to delete a log watch rule
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useDeleteLogAlertRule(
+  options?: UseMutationOptions<void, Error, string>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (ruleId) => {
+      logger.info('Deleting log alert rule:', ruleId);
+      return api.deleteLogAlertRule(ruleId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: alertKeys.logRules() });
+      toast.success('Log alert rule deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete log alert rule', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to list a server's automation rules, which its log watch rules can trigger
+ *
+ * @param serverId - Server ID
+ * @param options - Additional query options
+ * @returns Query result with the server's automation rules
+ */
+export function useAutomationRuleOptions(
+  serverId: string,
+  options?: Omit<UseQueryOptions<AutomationRuleSummary[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: alertKeys.automationRules(serverId),
+    queryFn: async () => {
+      logger.debug('Fetching automation rules for server:', serverId);
+      return api.getAutomationRules<AutomationRuleSummary>(serverId);
+    },
+    enabled: !!serverId,
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Analytics API Hooks
+ *
+ * React Query hooks for historical server and player analytics.
+ *
+ * @module hooks/api/useAnalytics
+ */
+
+import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+import api from '../../services/api';
+import type { AnalyticsFilters, AnalyticsReport } from '../../types';
+import { logger } from '../../config';
+
+/**
+ * Query key factory for analytics
+ */
+export const analyticsKeys = {
+  all: ['analytics'] as const,
+  reports: () => [...analyticsKeys.all, 'report'] as const,
+  report: (filters: AnalyticsFilters) => [...analyticsKeys.reports(), filters] as const,
+};
+
+/**
+ * Hook to fetch an analytics report for a date range
+ *
+ * @param filters - Date range, optional server and viewer timezone offset
+ * @param options - Additional query options
+ * @returns Query result with trends, peak times and uptime
+ */
+export function useAnalytics(
+  filters: AnalyticsFilters,
+  options?: Omit<UseQueryOptions<AnalyticsReport, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: analyticsKeys.report(filters),
+    queryFn: async () => {
+      logger.debug('Fetching analytics with filters:', filters);
+      return api.getAnalytics<AnalyticsReport>(filters);
+    },
+    staleTime: 60 * 1000, // 1 minute - samples are collected once a minute
+    ...options,
+  });
+}
@@ -14,7 +14,7 @@ import {
   type UseMutationOptions,
 } from '@tanstack/react-query';
 import api from '../../services/api';
-import type { Backup } from '../../types';
+import type { Backup, BackupTreeNode, BackupRestoreTarget, BackupRestoreFilesResult, BackupDiff } from '../../types';
 import { useToast } from '../../stores/toastStore';
 import { logger } from '../../config';
 
@@ -28,6 +28,8 @@ export const backupKeys = {
   details: () => [...backupKeys.all, 'detail'] as const,
   detail: (id: string) => [...backupKeys.details(), id] as const,
   stats: (serverId: string) => [...backupKeys.all, 'stats', serverId] as const,
+  contents: (id: string) => [...backupKeys.detail(id), 'contents'] as const,
+  diff: (id: string, baseId?: string) => [...backupKeys.detail(id), 'diff', baseId ?? 'server'] as const,
 };
 
 /**
@@ -165,3 +167,75 @@ export function useDeleteBackup(
     ...options,
   });
 }
+
+/**
+ * Hook to fetch the file tree of a backup
+ *
+ * @param backupId - Backup ID
+ * @param options - Additional query options
+ * @returns Query result with the backup's file tree
+ */
+export function useBackupContents(
+  backupId: string,
+  options?: Omit<UseQueryOptions<BackupTreeNode[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: backupKeys.contents(backupId),
+    queryFn: () => api.getBackupContents<BackupTreeNode>(backupId),
+    enabled: !!backupId,
+    staleTime: Infinity, // A completed backup never changes
+    ...options,
+  });
+}
+
+/**
+ * Hook to compare a backup with another backup, or with the live server when no base is given
+ *
+ * @param backupId - Backup ID
+ * @param baseBackupId - Backup to compare against, omitted for a restore preview
+ * @param options - Additional query options
+ * @returns Query result with the added, removed and modified files
+ */
+export function useBackupDiff(
+  backupId: string,
+  baseBackupId?: string,
+  options?: Omit<UseQueryOptions<BackupDiff, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: backupKeys.diff(backupId, baseBackupId),
+    queryFn: () => api.getBackupDiff<BackupDiff>(backupId, baseBackupId),
+    enabled: !!backupId,
+    staleTime: 0, // The live server changes all the time
+    ...options,
+  });
+}
+
+/**
+ * Hook to restore selected files from a backup
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useRestoreBackupFiles(
+  options?: UseMutationOptions<
+    BackupRestoreFilesResult,
+    Error,
+    { backupId: string; paths: string[]; target: BackupRestoreTarget }
+  >
+) {
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: ({ backupId, paths, target }) => {
+      logger.info('Restoring files from backup:', backupId, paths);
+      return api.restoreBackupFiles<BackupRestoreFilesResult>(backupId, paths, target);
+    },
+    onSuccess: (result) => {
+      toast.success(`Restored ${result.restoredFiles} files`, result.destination);
+    },
+    onError: (error) => {
+      toast.error('Failed to restore files', error.message);
+    },
+    ...options,
+  });
+}
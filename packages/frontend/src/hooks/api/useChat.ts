@@ -0,0 +1,158 @@
+/**
+ * Chat API Hooks
+ *
+ * React Query hooks for the captured chat log and chat filters.
+ *
+ * @module hooks/api/useChat
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import api from '../../services/api';
+import type { ChatMessage, ChatSearchFilters, ChatFilter, ChatFilterInput } from '../../types';
+import { useToast } from '../../stores/toastStore';
+import { logger } from '../../config';
+
+/**
+ * Query key factory for chat
+ */
+export const chatKeys = {
+  all: ['chat'] as const,
+  messages: () => [...chatKeys.all, 'messages'] as const,
+  search: (filters: ChatSearchFilters) => [...chatKeys.messages(), filters] as const,
+  filters: () => [...chatKeys.all, 'filters'] as const,
+};
+
+/**
+ * Hook to search the chat log
+ *
+ * @param filters - Server, player, text, time range, reports only and paging
+ * @param options - Additional query options
+ * @returns Query result with messages (newest first) and the total match count
+ */
+export function useChatMessages(
+  filters: ChatSearchFilters = {},
+  options?: Omit<UseQueryOptions<{ messages: ChatMessage[]; total: number }, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: chatKeys.search(filters),
+    queryFn: async () => {
+      logger.debug('Searching chat with filters:', filters);
+      return api.getChatMessages<ChatMessage>(filters);
+    },
+    staleTime: 15 * 1000, // 15 seconds
+    ...options,
+  });
+}
+
+/**
+ * Hook to mark a filtered chat message as reviewed
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useReviewChatMessage(
+  options?: UseMutationOptions<ChatMessage, Error, string>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (messageId) => {
+      logger.info('Reviewing chat message:', messageId);
+      return api.reviewChatMessage<ChatMessage>(messageId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chatKeys.messages() });
+    },
+    onError: (error) => {
+      toast.error('Failed to mark as reviewed', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch chat filters
+ *
+ * @param options - Additional query options
+ * @returns Query result with filters
+ */
+export function useChatFilters(
+  options?: Omit<UseQueryOptions<ChatFilter[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: chatKeys.filters(),
+    queryFn: async () => {
+      logger.debug('Fetching chat filters');
+      return api.getChatFilters<ChatFilter>();
+    },
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+}
+
+/**
+ * Hook to create or update a chat filter
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useSaveChatFilter(
+  options?: UseMutationOptions<ChatFilter, Error, { filterId?: string; data: Partial<ChatFilterInput> }>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ filterId, data }) => {
+      logger.info('Saving chat filter:', filterId ?? data.name);
+      return filterId
+        ? api.updateChatFilter<ChatFilter>(filterId, data)
+        : api.createChatFilter<ChatFilter>(data);
+    },
+    onSuccess: (_, { filterId }) => {
+      queryClient.invalidateQueries({ queryKey: chatKeys.filters() });
+      if (!filterId) {
+        toast.success('Chat filter created');
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to save chat filter', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to delete a chat filter
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useDeleteChatFilter(
+  options?: UseMutationOptions<void, Error, string>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (filterId) => {
+      logger.info('Deleting chat filter:', filterId);
+      return api.deleteChatFilter(filterId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chatKeys.filters() });
+      toast.success('Chat filter deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete chat filter', error.message);
+    },
+    ...options,
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Console API Hooks
+ *
+ * React Query hooks for persisted console history and log parsing rules.
+ *
+ * @module hooks/api/useConsole
+ */
+
+import {
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import api from '../../services/api';
+import type {
+  ConsoleSearchFilters,
+  ConsoleSearchPage,
+  LogParseRule,
+  LogParseRuleInput,
+  LogParseTestResult,
+} from '../../types';
+import { useToast } from '../../stores/toastStore';
+import { logger } from '../../config';
+
+const SEARCH_PAGE_SIZE = 200;
+
+/**
+ * Query key factory for console history
+ */
+export const consoleKeys = {
+  all: ['console'] as const,
+  search: (serverId: string, filters: ConsoleSearchFilters) =>
+    [...consoleKeys.all, 'search', serverId, filters] as const,
+  rules: () => [...consoleKeys.all, 'rules'] as const,
+};
+
+interface LogRulesResponse {
+  rules: LogParseRule[];
+  /** Formats recognized when no configured rule matches */
+  builtin: { name: string; pattern: string }[];
+}
+
+/**
+ * Hook to search a server's console history, newest first.
+ * Older pages are loaded with fetchNextPage.
+ *
+ * @param serverId - Server ID
+ * @param filters - Text/regex, levels, source and time range
+ * @param enabled - Set false until the user runs a search
+ * @returns Infinite query result with pages of log lines
+ */
+export function useConsoleSearch(serverId: string, filters: ConsoleSearchFilters, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: consoleKeys.search(serverId, filters),
+    queryFn: async ({ pageParam }) => {
+      logger.debug('Searching console history:', serverId, filters, pageParam);
+      return api.searchConsoleLogs<ConsoleSearchPage>(serverId, {
+        ...filters,
+        cursor: pageParam,
+        limit: SEARCH_PAGE_SIZE,
+      });
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!serverId && enabled,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Hook to fetch log parsing rules and the built-in formats
+ *
+ * @param options - Additional query options
+ * @returns Query result with rules and built-in formats
+ */
+export function useLogRules(
+  options?: Omit<UseQueryOptions<LogRulesResponse, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: consoleKeys.rules(),
+    queryFn: async () => {
+      logger.debug('Fetching log parsing rules');
+      return api.getLogRules<LogRulesResponse>();
+    },
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+}
+
+/**
+ * Hook to create or update a log parsing rule
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useSaveLogRule(
+  options?: UseMutationOptions<LogParseRule, Error, { ruleId?: string; data: Partial<LogParseRuleInput> }>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ ruleId, data }) => {
+      logger.info('Saving log parsing rule:', ruleId ?? data.name);
+      return ruleId
+        ? api.updateLogRule<LogParseRule>(ruleId, data)
+        : api.createLogRule<LogParseRule>(data);
+    },
+    onSuccess: (_, { ruleId }) => {
+      queryClient.invalidateQueries({ queryKey: consoleKeys.rules() });
+      if (!ruleId) {
+        toast.success('Log parsing rule created');
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to save log parsing rule', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to delete a log parsing rule
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useDeleteLogRule(
+  options?: UseMutationOptions<void, Error, string>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (ruleId) => {
+      logger.info('Deleting log parsing rule:', ruleId);
+      return api.deleteLogRule(ruleId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: consoleKeys.rules() });
+      toast.success('Log parsing rule deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete log parsing rule', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to run sample lines through a candidate pattern, or the rules in effect for a server
+ *
+ * @param options - Mutation options
+ * @returns Mutation result with one parse result per non-blank line
+ */
+export function useTestLogRules(
+  options?: UseMutationOptions<
+    { results: LogParseTestResult[] },
+    Error,
+    { lines: string[]; pattern?: string; serverId?: string; adapterType?: string }
+  >
+) {
+  return useMutation({
+    mutationFn: async (data) => {
+      logger.debug('Testing log parsing rules on', data.lines.length, 'lines');
+      return api.testLogRules<{ results: LogParseTestResult[] }>(data);
+    },
+    ...options,
+  });
+}
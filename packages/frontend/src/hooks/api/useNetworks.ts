@@ -24,6 +24,9 @@ import type {
   CreateNetworkDto,
   UpdateNetworkDto,
   NetworkBackup,
+  NetworkBan,
+  CreateNetworkBanDto,
+  ServerOperationResult,
 } from '../../types';
 import { useToast } from '../../stores/toastStore';
 import { logger } from '../../config';
@@ -41,6 +44,7 @@ export const networkKeys = {
   metrics: (id: string) => [...networkKeys.detail(id), 'metrics'] as const,
   players: (id: string) => [...networkKeys.detail(id), 'players'] as const,
   backups: (id: string) => [...networkKeys.detail(id), 'backups'] as const,
+  bans: (id: string) => [...networkKeys.detail(id), 'bans'] as const,
   ungrouped: () => [...networkKeys.all, 'ungrouped'] as const,
 };
 
@@ -178,6 +182,25 @@ export function useNetworkBackups(
   });
 }
 
+/**
+ * Hook to fetch active network bans
+ */
+export function useNetworkBans(
+  id: string,
+  options?: Omit<UseQueryOptions<NetworkBan[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: networkKeys.bans(id),
+    queryFn: async () => {
+      const data = await api.getNetworkBans<NetworkBan>(id);
+      return data;
+    },
+    enabled: !!id,
+    staleTime: 30 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Hook to create a new network
  */
@@ -443,3 +466,72 @@ export function useCreateNetworkBackup(
     ...options,
   });
 }
+
+/**
+ * Hook to ban a player on every server in a network
+ */
+export function useCreateNetworkBan(
+  options?: UseMutationOptions<
+    { ban: NetworkBan; results: ServerOperationResult[] },
+    Error,
+    { networkId: string } & CreateNetworkBanDto
+  >
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ networkId, ...data }) => {
+      logger.info('Banning player on network:', networkId, data.uuid);
+      return api.createNetworkBan<{ ban: NetworkBan; results: ServerOperationResult[] }>(networkId, data);
+    },
+    onSuccess: ({ ban, results }, { networkId }) => {
+      queryClient.invalidateQueries({ queryKey: networkKeys.bans(networkId) });
+      queryClient.invalidateQueries({ queryKey: ['players'] });
+      const failed = results.filter(r => !r.success);
+      if (failed.length > 0) {
+        toast.warning('Network ban partially applied', `Failed on: ${failed.map(r => r.serverName).join(', ')}`);
+      } else {
+        toast.error('Player banned on network', ban.username);
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to ban player on network', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to lift a network ban from every server in a network
+ */
+export function useDeleteNetworkBan(
+  options?: UseMutationOptions<BulkOperationResult, Error, { networkId: string; uuid: string }>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ networkId, uuid }) => {
+      logger.info('Lifting network ban:', networkId, uuid);
+      return api.deleteNetworkBan<BulkOperationResult>(networkId, uuid);
+    },
+    onSuccess: (result, { networkId }) => {
+      queryClient.invalidateQueries({ queryKey: networkKeys.bans(networkId) });
+      queryClient.invalidateQueries({ queryKey: ['players'] });
+      if (result.success) {
+        toast.success('Network ban lifted');
+      } else {
+        toast.warning('Network ban lifted with errors', 'Some servers could not be updated');
+      }
+      const kept = result.results.filter((r) => r.skipped).map((r) => r.serverName);
+      if (kept.length > 0) {
+        toast.info('Local bans kept', `Still banned on ${kept.join(', ')} by a server moderator`);
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to lift network ban', error.message);
+    },
+    ...options,
+  });
+}
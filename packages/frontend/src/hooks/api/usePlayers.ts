@@ -14,7 +14,17 @@ import {
   type UseMutationOptions,
 } from '@tanstack/react-query';
 import api from '../../services/api';
-import type { Player } from '../../types';
+import type {
+  Player,
+  PlayerDirectoryFilters,
+  PlayerSummary,
+  PlayerProfile,
+  PlayerSession,
+  PlayerSyncConflict,
+  PlayerSyncResolution,
+  ModerationCase,
+  ModerationSummary,
+} from '../../types';
 import { useToast } from '../../stores/toastStore';
 import { logger } from '../../config';
 
@@ -26,8 +36,15 @@ export const playerKeys = {
   lists: () => [...playerKeys.all, 'list'] as const,
   list: (serverId: string, onlineOnly?: boolean) =>
     [...playerKeys.lists(), serverId, { onlineOnly }] as const,
+  directories: () => [...playerKeys.all, 'directory'] as const,
+  directory: (filters: PlayerDirectoryFilters) => [...playerKeys.directories(), filters] as const,
   details: () => [...playerKeys.all, 'detail'] as const,
   detail: (uuid: string) => [...playerKeys.details(), uuid] as const,
+  sessions: (uuid: string, serverId?: string) => [...playerKeys.detail(uuid), 'sessions', { serverId }] as const,
+  cases: (uuid: string) => [...playerKeys.detail(uuid), 'cases'] as const,
+  onlineAt: (serverId: string, at: string) => [...playerKeys.all, 'online-at', serverId, at] as const,
+  syncConflicts: (filters?: { serverId?: string; uuid?: string }) =>
+    [...playerKeys.all, 'sync-conflicts', filters ?? {}] as const,
 };
 
 /**
@@ -57,6 +74,215 @@ export function useServerPlayers(
   });
 }
 
+/**
+ * Hook to search players across all servers
+ *
+ * @param filters - Search, status filter, sorting and paging
+ * @param options - Additional query options
+ * @returns Query result with one entry per player and the total match count
+ */
+export function usePlayerDirectory(
+  filters: PlayerDirectoryFilters = {},
+  options?: Omit<UseQueryOptions<{ players: PlayerSummary[]; total: number }, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: playerKeys.directory(filters),
+    queryFn: async () => {
+      logger.debug('Fetching player directory with filters:', filters);
+      return api.getPlayers<PlayerSummary>(filters);
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch a player with their record on each server
+ *
+ * @param uuid - Player UUID
+ * @param options - Additional query options
+ * @returns Query result with player profile
+ */
+export function usePlayerProfile(
+  uuid: string,
+  options?: Omit<UseQueryOptions<PlayerProfile, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: playerKeys.detail(uuid),
+    queryFn: async () => {
+      logger.debug('Fetching player profile:', uuid);
+      return api.getPlayer<PlayerProfile>(uuid);
+    },
+    enabled: !!uuid,
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch a player's session timeline
+ *
+ * @param uuid - Player UUID
+ * @param serverId - Only sessions on this server
+ * @param options - Additional query options
+ * @returns Query result with sessions, newest first
+ */
+export function usePlayerSessions(
+  uuid: string,
+  serverId?: string,
+  options?: Omit<UseQueryOptions<PlayerSession[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: playerKeys.sessions(uuid, serverId),
+    queryFn: async () => {
+      logger.debug('Fetching sessions for player:', uuid);
+      return api.getPlayerSessions<PlayerSession>(uuid, { serverId });
+    },
+    enabled: !!uuid,
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch a player's moderation history and escalation guidance
+ *
+ * @param uuid - Player UUID
+ * @param options - Additional query options
+ * @returns Query result with cases (newest first) and the summary
+ */
+export function usePlayerCases(
+  uuid: string,
+  options?: Omit<
+    UseQueryOptions<{ cases: ModerationCase[]; summary: ModerationSummary }, Error>,
+    'queryKey' | 'queryFn'
+  >
+) {
+  return useQuery({
+    queryKey: playerKeys.cases(uuid),
+    queryFn: async () => {
+      logger.debug('Fetching moderation cases for player:', uuid);
+      return api.getPlayerCases<{ cases: ModerationCase[]; summary: ModerationSummary }>(uuid);
+    },
+    enabled: !!uuid,
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  });
+}
+
+/**
+ * Hook to warn a player or add a staff note
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useAddPlayerCase(
+  options?: UseMutationOptions<
+    ModerationCase,
+    Error,
+    { uuid: string; type: 'warning' | 'note'; reason: string; serverId?: string }
+  >
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ uuid, ...data }) => {
+      logger.info('Adding moderation case:', uuid, data.type);
+      return api.addPlayerCase<ModerationCase>(uuid, data);
+    },
+    onSuccess: (record) => {
+      queryClient.invalidateQueries({ queryKey: playerKeys.cases(record.uuid) });
+      toast.success(record.type === 'warning' ? 'Warning recorded' : 'Note added');
+    },
+    onError: (error) => {
+      toast.error('Failed to save', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch the players that were connected to a server at a point in time
+ *
+ * @param serverId - Server ID
+ * @param at - ISO timestamp
+ * @param options - Additional query options
+ * @returns Query result with the sessions open at that time
+ */
+export function usePlayersOnlineAt(
+  serverId: string,
+  at: string,
+  options?: Omit<UseQueryOptions<PlayerSession[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: playerKeys.onlineAt(serverId, at),
+    queryFn: async () => {
+      logger.debug('Fetching players online at:', serverId, at);
+      return api.getPlayersOnlineAt<PlayerSession>(serverId, at);
+    },
+    enabled: !!serverId && !!at,
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch unresolved ban/whitelist/operator sync conflicts
+ *
+ * @param filters - Only conflicts on this server or for this player
+ * @param options - Additional query options
+ * @returns Query result with conflicts, newest first
+ */
+export function usePlayerSyncConflicts(
+  filters: { serverId?: string; uuid?: string } = {},
+  options?: Omit<UseQueryOptions<PlayerSyncConflict[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: playerKeys.syncConflicts(filters),
+    queryFn: async () => {
+      logger.debug('Fetching player sync conflicts:', filters);
+      return api.getPlayerSyncConflicts<PlayerSyncConflict>(filters);
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000, // File edits can land at any time
+    ...options,
+  });
+}
+
+/**
+ * Hook to resolve a sync conflict by keeping the file's or the manager's value
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useResolvePlayerSyncConflict(
+  options?: UseMutationOptions<
+    PlayerSyncConflict,
+    Error,
+    { conflictId: string; resolution: PlayerSyncResolution }
+  >
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async ({ conflictId, resolution }) => {
+      logger.info('Resolving player sync conflict:', conflictId, resolution);
+      return api.resolvePlayerSyncConflict<PlayerSyncConflict>(conflictId, resolution);
+    },
+    onSuccess: (conflict) => {
+      queryClient.invalidateQueries({ queryKey: [...playerKeys.all, 'sync-conflicts'] });
+      queryClient.invalidateQueries({ queryKey: playerKeys.directories() });
+      queryClient.invalidateQueries({ queryKey: playerKeys.detail(conflict.uuid) });
+      toast.success('Conflict resolved');
+    },
+    onError: (error) => {
+      toast.error('Failed to resolve conflict', error.message);
+    },
+    ...options,
+  });
+}
+
 /**
  * Hook to kick a player
  *
@@ -78,8 +304,10 @@ export function useKickPlayer(
       logger.info('Kicking player:', uuid);
       return api.kickPlayer(serverId, uuid, reason);
     },
-    onSuccess: (_, { serverId }) => {
+    onSuccess: (_, { serverId, uuid }) => {
       queryClient.invalidateQueries({ queryKey: playerKeys.list(serverId) });
+      queryClient.invalidateQueries({ queryKey: playerKeys.directories() });
+      queryClient.invalidateQueries({ queryKey: playerKeys.detail(uuid) });
       toast.warning('Player kicked');
     },
     onError: (error) => {
@@ -113,6 +341,7 @@ export function useBanPlayer(
     },
     onSuccess: (_, { serverId, uuid }) => {
       queryClient.invalidateQueries({ queryKey: playerKeys.list(serverId) });
+      queryClient.invalidateQueries({ queryKey: playerKeys.directories() });
       queryClient.invalidateQueries({ queryKey: playerKeys.detail(uuid) });
       toast.error('Player banned');
     },
@@ -143,6 +372,7 @@ export function useUnbanPlayer(
     },
     onSuccess: (_, { serverId, uuid }) => {
       queryClient.invalidateQueries({ queryKey: playerKeys.list(serverId) });
+      queryClient.invalidateQueries({ queryKey: playerKeys.directories() });
       queryClient.invalidateQueries({ queryKey: playerKeys.detail(uuid) });
       toast.success('Player unbanned');
     },
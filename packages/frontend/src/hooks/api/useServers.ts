@@ -15,7 +15,7 @@ import {
   type UseMutationOptions,
 } from '@tanstack/react-query';
 import api from '../../services/api';
-import type { Server, ServerStatus } from '../../types';
+import type { Server, ServerStatus, CrashReport, RestartPolicy, IdlePolicy } from '../../types';
 import { useToast } from '../../stores/toastStore';
 import { logger } from '../../config';
 
@@ -31,6 +31,9 @@ export const serverKeys = {
   status: (id: string) => [...serverKeys.detail(id), 'status'] as const,
   metrics: (id: string) => [...serverKeys.detail(id), 'metrics'] as const,
   config: (id: string) => [...serverKeys.detail(id), 'config'] as const,
+  crashes: (id: string) => [...serverKeys.detail(id), 'crashes'] as const,
+  restartPolicy: (id: string) => [...serverKeys.detail(id), 'restart-policy'] as const,
+  idlePolicy: (id: string) => [...serverKeys.detail(id), 'idle-policy'] as const,
 };
 
 
@@ -137,6 +140,188 @@ export function useServerMetrics(
   });
 }
 
+/**
+ * Hook to fetch a server's crash history (newest first)
+ *
+ * @param id - Server ID
+ * @returns Query result with crash reports
+ */
+export function useCrashReports(id: string) {
+  return useQuery({
+    queryKey: serverKeys.crashes(id),
+    queryFn: async () => {
+      const data = await api.getCrashReports(id);
+      return data as CrashReport[];
+    },
+    enabled: !!id,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to delete a crash report and its bundle
+ *
+ * @param serverId - Server the report belongs to
+ * @returns Mutation result
+ */
+export function useDeleteCrashReport(serverId: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (reportId: string) => {
+      await api.deleteCrashReport(reportId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: serverKeys.crashes(serverId) });
+      toast.success('Crash report deleted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete crash report', error.message);
+      logger.error('Crash report deletion failed:', error);
+    },
+  });
+}
+
+/**
+ * Hook to fetch a server's automatic restart policy
+ *
+ * @param id - Server ID
+ * @returns Query result with the policy and current backoff state
+ */
+export function useRestartPolicy(id: string) {
+  return useQuery({
+    queryKey: serverKeys.restartPolicy(id),
+    queryFn: async () => {
+      const data = await api.getRestartPolicy(id);
+      return data as RestartPolicy;
+    },
+    enabled: !!id,
+    staleTime: 10 * 1000,
+  });
+}
+
+/**
+ * Hook to update a server's automatic restart policy
+ *
+ * @param id - Server ID
+ * @returns Mutation result
+ */
+export function useUpdateRestartPolicy(id: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (data: Partial<RestartPolicy>) => {
+      const result = await api.updateRestartPolicy(id, data);
+      return result as RestartPolicy;
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(serverKeys.restartPolicy(id), policy);
+      toast.success('Restart policy saved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save restart policy', error.message);
+      logger.error('Restart policy update failed:', error);
+    },
+  });
+}
+
+/**
+ * Hook to fetch a server's idle policy and idle state
+ *
+ * @param id - Server ID
+ * @returns Query result with the idle policy
+ */
+export function useIdlePolicy(id: string) {
+  return useQuery({
+    queryKey: serverKeys.idlePolicy(id),
+    queryFn: async () => {
+      const data = await api.getIdlePolicy(id);
+      return data as IdlePolicy;
+    },
+    enabled: !!id,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * Hook to update a server's idle policy
+ *
+ * @param id - Server ID
+ * @returns Mutation result
+ */
+export function useUpdateIdlePolicy(id: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (data: Partial<IdlePolicy>) => {
+      const result = await api.updateIdlePolicy(id, data);
+      return result as IdlePolicy;
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(serverKeys.idlePolicy(id), policy);
+      toast.success('Idle policy saved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save idle policy', error.message);
+      logger.error('Idle policy update failed:', error);
+    },
+  });
+}
+
+/**
+ * Hook to issue a new wake link token, replacing the previous one.
+ * The token is only returned here, so show it to the user straight away.
+ *
+ * @param id - Server ID
+ * @returns Mutation result resolving to the token
+ */
+export function useCreateWakeToken(id: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { token } = await api.createWakeToken(id);
+      return token;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: serverKeys.idlePolicy(id) });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to create wake link', error.message);
+      logger.error('Wake token creation failed:', error);
+    },
+  });
+}
+
+/**
+ * Hook to disable a server's wake link and webhook
+ *
+ * @param id - Server ID
+ * @returns Mutation result
+ */
+export function useRevokeWakeToken(id: string) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      await api.revokeWakeToken(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: serverKeys.idlePolicy(id) });
+      toast.success('Wake link disabled');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to disable wake link', error.message);
+      logger.error('Wake token revocation failed:', error);
+    },
+  });
+}
+
 /**
  * Server creation data
  */
@@ -0,0 +1,114 @@
+/**
+ * Storage API Hooks
+ *
+ * React Query hooks for remote backup storage settings.
+ *
+ * @module hooks/api/useStorage
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import api from '../../services/api';
+import type { S3StorageSettings, StorageConnectionStatus } from '../../types';
+import { useToast } from '../../stores/toastStore';
+import { logger } from '../../config';
+
+/**
+ * Query key factory for storage settings
+ */
+export const storageKeys = {
+  all: ['storage'] as const,
+  s3: () => [...storageKeys.all, 's3'] as const,
+  s3Status: () => [...storageKeys.all, 's3', 'status'] as const,
+};
+
+/**
+ * Hook to fetch the S3 storage settings (secret masked)
+ *
+ * @param options - Additional query options
+ * @returns Query result with S3 settings
+ */
+export function useS3Settings(
+  options?: Omit<UseQueryOptions<S3StorageSettings, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: storageKeys.s3(),
+    queryFn: async () => {
+      logger.debug('Fetching S3 settings');
+      return api.getS3Settings<S3StorageSettings>();
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    ...options,
+  });
+}
+
+/**
+ * Hook to check whether the saved S3 settings can reach the bucket
+ *
+ * @param options - Additional query options
+ * @returns Query result with connection status
+ */
+export function useS3Status(
+  options?: Omit<UseQueryOptions<StorageConnectionStatus, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: storageKeys.s3Status(),
+    queryFn: async () => {
+      logger.debug('Checking S3 connection');
+      return api.getS3Status<StorageConnectionStatus>();
+    },
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  });
+}
+
+/**
+ * Hook to save the S3 storage settings
+ *
+ * @param options - Mutation options
+ * @returns Mutation result
+ */
+export function useUpdateS3Settings(
+  options?: UseMutationOptions<{ success: boolean; message: string }, Error, Partial<S3StorageSettings>>
+) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  return useMutation({
+    mutationFn: async (data) => {
+      logger.info('Saving S3 settings');
+      return api.updateS3Settings(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: storageKeys.s3() });
+      toast.success('S3 settings saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save S3 settings', error.message);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to test S3 credentials before saving them
+ *
+ * @param options - Mutation options
+ * @returns Mutation result with the test outcome
+ */
+export function useTestS3Connection(
+  options?: UseMutationOptions<{ success: boolean; message: string }, Error, Partial<S3StorageSettings>>
+) {
+  return useMutation({
+    mutationFn: async (data) => {
+      logger.debug('Testing S3 connection to', data.endpoint);
+      return api.testS3Connection(data);
+    },
+    ...options,
+  });
+}
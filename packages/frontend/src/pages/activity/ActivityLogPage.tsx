@@ -41,6 +41,8 @@ const ACTION_LABELS: Record<string, string> = {
   'server:restart': 'activity.actions.server_restart',
   'server:kill': 'activity.actions.server_kill',
   'server:command': 'activity.actions.server_command',
+  'server:idle_stop': 'activity.actions.server_idle_stop',
+  'server:wake': 'activity.actions.server_wake',
   'backup:create': 'activity.actions.backup_create',
   'backup:restore': 'activity.actions.backup_restore',
   'backup:delete': 'activity.actions.backup_delete',
@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, DataTable, type Column } from '../../components/ui';
-import { Bell, AlertCircle, AlertTriangle, Info, Check, CheckCheck, RefreshCw, Trash2 } from 'lucide-react';
+import { Bell, AlertCircle, AlertTriangle, Info, Check, CheckCheck, RefreshCw, Trash2, SlidersHorizontal, Download } from 'lucide-react';
+import { AlertPolicyModal } from '../../components/modals/AlertPolicyModal';
+import { LogAlertRules } from './components/LogAlertRules';
 import { useToast } from '../../stores/toastStore';
 import api from '../../services/api';
+import type { NetworkWithMembers } from '../../types';
 import { formatDistanceToNow } from 'date-fns';
 import { useTranslation } from 'react-i18next';
 
@@ -16,6 +19,7 @@ interface Alert {
   message: string;
   isRead: boolean;
   isResolved: boolean;
+  metadata?: { crashReportId?: string };
   createdAt: string;
   resolvedAt?: string;
 }
@@ -35,6 +39,8 @@ export const AlertsPage = () => {
   const [loading, setLoading] = useState(false);
   const [selectedAlerts, setSelectedAlerts] = useState<Alert[]>([]);
   const [filter, setFilter] = useState<'all' | 'unread' | 'unresolved'>('all');
+  const [networks, setNetworks] = useState<NetworkWithMembers[]>([]);
+  const [showPolicyModal, setShowPolicyModal] = useState(false);
 
   const handleSelectionChange = useCallback((items: Alert[]) => {
     setSelectedAlerts(items);
@@ -52,6 +58,7 @@ export const AlertsPage = () => {
 
   useEffect(() => {
     fetchServers();
+    fetchNetworks();
   }, []);
 
   useEffect(() => {
@@ -71,6 +78,15 @@ export const AlertsPage = () => {
     }
   };
 
+  const fetchNetworks = async () => {
+    try {
+      setNetworks(await api.getNetworks<NetworkWithMembers>());
+    } catch (error) {
+      // Networks only add inherited policy options - the page works without them
+      console.error('Error fetching networks:', error);
+    }
+  };
+
   const fetchAlerts = async () => {
     try {
       setLoading(true);
@@ -206,6 +222,8 @@ export const AlertsPage = () => {
     }
   };
 
+  const selectedServerInfo = servers.find(s => s.id === selectedServer);
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -297,6 +315,16 @@ export const AlertsPage = () => {
       sortable: false,
       render: (alert) => (
         <div className="flex gap-1">
+          {alert.metadata?.crashReportId && (
+            <a href={api.getCrashReportDownloadUrl(alert.metadata.crashReportId)} download>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<Download size={14} />}
+                title={t('alerts.actions.download_crash_tooltip')}
+              />
+            </a>
+          )}
           {!alert.isRead && (
             <Button
               variant="ghost"
@@ -339,14 +367,25 @@ export const AlertsPage = () => {
             {t('alerts.subtitle')}
           </p>
         </div>
-        <Button
-          variant="secondary"
-          icon={<RefreshCw size={18} className={loading ? 'animate-spin' : ''} />}
-          onClick={fetchAlerts}
-          disabled={loading}
-        >
-          {t('common.refresh')}
-        </Button>
+        <div className="flex gap-2">
+          {selectedServerInfo && (
+            <Button
+              variant="secondary"
+              icon={<SlidersHorizontal size={18} />}
+              onClick={() => setShowPolicyModal(true)}
+            >
+              {t('alerts.policy.button')}
+            </Button>
+          )}
+          <Button
+            variant="secondary"
+            icon={<RefreshCw size={18} className={loading ? 'animate-spin' : ''} />}
+            onClick={fetchAlerts}
+            disabled={loading}
+          >
+            {t('common.refresh')}
+          </Button>
+        </div>
       </div>
 
       {/* Server Selector */}
@@ -507,6 +546,20 @@ export const AlertsPage = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Log Watch Rules */}
+      <LogAlertRules />
+
+      {selectedServerInfo && (
+        <AlertPolicyModal
+          isOpen={showPolicyModal}
+          onClose={() => setShowPolicyModal(false)}
+          server={selectedServerInfo}
+          networks={networks
+            .filter(network => network.members.some(member => member.serverId === selectedServerInfo.id))
+            .map(network => ({ id: network.id, name: network.name }))}
+        />
+      )}
     </div>
   );
 };
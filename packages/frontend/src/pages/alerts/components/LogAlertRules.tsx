@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, Input, Modal, ModalFooter, ConfirmDialog } from '../../../components/ui';
+import { PermissionGate } from '../../../components/auth';
+import { useServers, useLogAlertRules, useSaveLogAlertRule, useDeleteLogAlertRule, useAutomationRuleOptions } from '../../../hooks/api';
+import { PERMISSIONS } from '../../../types';
+import type { LogAlertRule, LogAlertRuleInput } from '../../../types';
+
+const EMPTY_RULE: LogAlertRuleInput = {
+  name: '',
+  pattern: '',
+  serverId: null,
+  level: null,
+  threshold: 1,
+  windowMinutes: 5,
+  severity: 'warning',
+  notifyDiscord: true,
+  automationRuleId: null,
+  enabled: true,
+};
+
+const selectClassName =
+  'w-full px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary';
+
+/**
+ * User-defined patterns watched in server output
+ */
+export const LogAlertRules = () => {
+  const { t } = useTranslation();
+  const { data: servers = [] } = useServers();
+  const { data: rules = [], isLoading } = useLogAlertRules();
+  const saveRule = useSaveLogAlertRule();
+  const deleteRule = useDeleteLogAlertRule();
+
+  const [editing, setEditing] = useState<{ id?: string; data: LogAlertRuleInput } | null>(null);
+  const [deleting, setDeleting] = useState<LogAlertRule | null>(null);
+
+  const { data: automationRules = [] } = useAutomationRuleOptions(editing?.data.serverId || '');
+
+  const serverName = (serverId: string | null) =>
+    serverId ? servers.find((server) => server.id === serverId)?.name || serverId : t('alerts.log_rules.all_servers');
+
+  const update = (changes: Partial<LogAlertRuleInput>) => {
+    setEditing((current) => (current ? { ...current, data: { ...current.data, ...changes } } : current));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await saveRule.mutateAsync({ ruleId: editing.id, data: editing.data });
+      setEditing(null);
+    } catch {
+      // The mutation hook already shows an error toast - keep the dialog open
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteRule.mutateAsync(deleting.id);
+    setDeleting(null);
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>{t('alerts.log_rules.title')}</CardTitle>
+            <CardDescription>{t('alerts.log_rules.description')}</CardDescription>
+          </div>
+          <PermissionGate permission={PERMISSIONS.ALERTS_MANAGE}>
+            <Button variant="secondary" icon={<Plus size={16} />} onClick={() => setEditing({ data: EMPTY_RULE })}>
+              {t('alerts.log_rules.add')}
+            </Button>
+          </PermissionGate>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+        ) : rules.length === 0 ? (
+          <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('alerts.log_rules.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex justify-between items-center gap-4 py-3 text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-text-light-primary dark:text-text-primary">{rule.name}</span>
+                    <Badge variant={rule.severity === 'critical' ? 'danger' : rule.severity === 'warning' ? 'warning' : 'info'} size="sm">
+                      {t(`alerts.stats.${rule.severity}`)}
+                    </Badge>
+                    {!rule.enabled && <Badge variant="default" size="sm">{t('alerts.log_rules.disabled')}</Badge>}
+                  </div>
+                  <p className="text-xs text-text-light-muted dark:text-text-muted mt-1 truncate">
+                    <code>{rule.pattern}</code>
+                    {` · ${t('alerts.log_rules.rate', { count: rule.threshold, minutes: rule.windowMinutes })}`}
+                    {rule.level && ` · ${rule.level.toUpperCase()}`}
+                    {` · ${serverName(rule.serverId)}`}
+                  </p>
+                </div>
+                <PermissionGate permission={PERMISSIONS.ALERTS_MANAGE}>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={<Pencil size={14} />}
+                      onClick={() => setEditing({
+                        id: rule.id,
+                        data: {
+                          name: rule.name,
+                          pattern: rule.pattern,
+                          serverId: rule.serverId,
+                          level: rule.level,
+                          threshold: rule.threshold,
+                          windowMinutes: rule.windowMinutes,
+                          severity: rule.severity,
+                          notifyDiscord: rule.notifyDiscord,
+                          automationRuleId: rule.automationRuleId,
+                          enabled: rule.enabled,
+                        },
+                      })}
+                    >
+                      {t('alerts.log_rules.edit_short')}
+                    </Button>
+                    <Button variant="ghost" size="sm" icon={<Trash2 size={14} />} onClick={() => setDeleting(rule)}>
+                      {t('common.delete')}
+                    </Button>
+                  </div>
+                </PermissionGate>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.id ? t('alerts.log_rules.edit') : t('alerts.log_rules.add')}
+      >
+        {editing && (
+          <div className="space-y-4">
+            <Input
+              label={t('alerts.log_rules.name')}
+              value={editing.data.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <div>
+              <Input
+                label={t('alerts.log_rules.pattern')}
+                placeholder="OutOfMemoryError|Can't keep up!"
+                value={editing.data.pattern}
+                onChange={(e) => update({ pattern: e.target.value })}
+                className="font-mono"
+              />
+              <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">{t('alerts.log_rules.pattern_hint')}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                  {t('alerts.log_rules.level')}
+                </label>
+                <select
+                  value={editing.data.level || ''}
+                  onChange={(e) => update({ level: (e.target.value || null) as LogAlertRuleInput['level'] })}
+                  className={selectClassName}
+                >
+                  <option value="">{t('alerts.log_rules.any_level')}</option>
+                  <option value="error">ERROR</option>
+                  <option value="warn">WARN</option>
+                  <option value="info">INFO</option>
+                  <option value="debug">DEBUG</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                  {t('alerts.log_rules.severity')}
+                </label>
+                <select
+                  value={editing.data.severity}
+                  onChange={(e) => update({ severity: e.target.value as LogAlertRuleInput['severity'] })}
+                  className={selectClassName}
+                >
+                  <option value="info">{t('alerts.stats.info')}</option>
+                  <option value="warning">{t('alerts.stats.warning')}</option>
+                  <option value="critical">{t('alerts.stats.critical')}</option>
+                </select>
+              </div>
+              <Input
+                type="number"
+                min={1}
+                label={t('alerts.log_rules.threshold')}
+                value={editing.data.threshold}
+                onChange={(e) => update({ threshold: parseInt(e.target.value) || 1 })}
+              />
+              <Input
+                type="number"
+                min={1}
+                label={t('alerts.log_rules.window')}
+                value={editing.data.windowMinutes}
+                onChange={(e) => update({ windowMinutes: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                {t('alerts.log_rules.server')}
+              </label>
+              <select
+                value={editing.data.serverId || ''}
+                onChange={(e) => update({ serverId: e.target.value || null, automationRuleId: null })}
+                className={selectClassName}
+              >
+                <option value="">{t('alerts.log_rules.all_servers')}</option>
+                {servers.map((server) => (
+                  <option key={server.id} value={server.id}>{server.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                {t('alerts.log_rules.automation')}
+              </label>
+              <select
+                value={editing.data.automationRuleId || ''}
+                onChange={(e) => update({ automationRuleId: e.target.value || null })}
+                className={selectClassName}
+                disabled={!editing.data.serverId}
+              >
+                <option value="">{t('alerts.log_rules.no_automation')}</option>
+                {automationRules.map((rule) => (
+                  <option key={rule.id} value={rule.id}>{rule.name}</option>
+                ))}
+              </select>
+              {!editing.data.serverId && (
+                <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">{t('alerts.log_rules.automation_hint')}</p>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-text-light-primary dark:text-text-primary">
+              <input
+                type="checkbox"
+                checked={editing.data.notifyDiscord}
+                onChange={(e) => update({ notifyDiscord: e.target.checked })}
+                className="accent-accent-primary"
+              />
+              {t('alerts.log_rules.notify_discord')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-text-light-primary dark:text-text-primary">
+              <input
+                type="checkbox"
+                checked={editing.data.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="accent-accent-primary"
+              />
+              {t('alerts.log_rules.enabled')}
+            </label>
+          </div>
+        )}
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setEditing(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!editing?.data.name.trim() || !editing?.data.pattern.trim()}
+            loading={saveRule.isPending}
+          >
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('alerts.log_rules.delete_title')}
+        message={t('alerts.log_rules.delete_message', { name: deleting?.name })}
+        confirmLabel={t('common.delete')}
+        loading={deleteRule.isPending}
+      />
+    </Card>
+  );
+};
@@ -1,35 +1,361 @@
+import { useState, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Card } from '../../components/ui';
-import { BarChart3, Construction } from 'lucide-react';
+import { format } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '../../components/ui';
+import { RefreshCw, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { useServers, useAnalytics } from '../../hooks/api';
+import type { AnalyticsFilters, AnalyticsReport } from '../../types';
+import { TrendChart, PeakTimesChart, PeakHeatmap, type TrendSeries } from './components';
+
+type RangePreset = '24h' | '7d' | '30d' | 'custom';
+type CompareMode = 'none' | 'previous' | 'custom';
+
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+const PRESET_HOURS: Record<Exclude<RangePreset, 'custom'>, number> = {
+  '24h': 24,
+  '7d': 7 * 24,
+  '30d': 30 * 24,
+};
+
+// The server keeps metric samples for this many days, so older ranges have no data
+const METRICS_RETENTION_DAYS = 30;
+const retentionStart = () => new Date(Date.now() - METRICS_RETENTION_DAYS * 24 * 3600000);
+
+const presetRange = (preset: Exclude<RangePreset, 'custom'>): DateRange => {
+  const end = new Date();
+  return { start: new Date(end.getTime() - PRESET_HOURS[preset] * 3600000), end };
+};
+
+// Date inputs are whole local days: start at midnight, end at the end of the day
+const dayStart = (value: string) => new Date(`${value}T00:00:00`);
+const dayEnd = (value: string) => new Date(`${value}T23:59:59`);
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
 
 export const AnalyticsPage = () => {
   const { t } = useTranslation();
- 
+  const { data: servers = [] } = useServers();
+
+  const [serverId, setServerId] = useState('');
+  const [preset, setPreset] = useState<RangePreset>('7d');
+  const [range, setRange] = useState<DateRange>(() => presetRange('7d'));
+  const [compareMode, setCompareMode] = useState<CompareMode>('none');
+  const [compareRange, setCompareRange] = useState<DateRange>(() => {
+    const primary = presetRange('7d');
+    const length = primary.end.getTime() - primary.start.getTime();
+    return { start: new Date(primary.start.getTime() - length), end: primary.start };
+  });
+
+  const tzOffset = new Date().getTimezoneOffset();
+  const oldestSample = retentionStart();
+  // First whole day that is still inside the retention period
+  const earliestDate = toDateInput(new Date(oldestSample.getTime() + 24 * 3600000));
+  const previousStart = range.start.getTime() - (range.end.getTime() - range.start.getTime());
+  const canComparePrevious = previousStart >= oldestSample.getTime();
+
+  const filters = useMemo<AnalyticsFilters>(() => ({
+    serverId: serverId || undefined,
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    tzOffset,
+  }), [serverId, range, tzOffset]);
+
+  const comparisonFilters = useMemo<AnalyticsFilters>(() => {
+    if (compareMode === 'previous') {
+      const length = range.end.getTime() - range.start.getTime();
+      return {
+        ...filters,
+        start: new Date(range.start.getTime() - length).toISOString(),
+        end: range.start.toISOString(),
+      };
+    }
+    return { ...filters, start: compareRange.start.toISOString(), end: compareRange.end.toISOString() };
+  }, [compareMode, filters, range, compareRange]);
+
+  const { data: report, isLoading, isFetching, refetch } = useAnalytics(filters);
+  const comparing = compareMode === 'custom' || (compareMode === 'previous' && canComparePrevious);
+  const { data: comparison } = useAnalytics(comparisonFilters, { enabled: comparing });
+  const compared = comparing ? comparison : undefined;
+
+  const selectPreset = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') {
+      setRange(presetRange(value));
+    }
+  };
+
+  const handleRefresh = () => {
+    if (preset !== 'custom') {
+      // Slide the preset window forward to now
+      setRange(presetRange(preset));
+    } else {
+      refetch();
+    }
+  };
+
+  const weekdayLabels = WEEKDAY_KEYS.map(key => t(`analytics.weekdays.${key}`));
+  const hourLabels = Array.from({ length: 24 }, (_, hour) => String(hour));
+
+  const selectClassName =
+    'px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50';
+
+  const summaryCards: { key: keyof AnalyticsReport['summary']; label: string; unit: string }[] = [
+    { key: 'avgPlayers', label: t('analytics.summary.avg_players'), unit: '' },
+    { key: 'peakPlayers', label: t('analytics.summary.peak_players'), unit: '' },
+    { key: 'avgCpu', label: t('analytics.summary.avg_cpu'), unit: '%' },
+    { key: 'avgMemory', label: t('analytics.summary.avg_memory'), unit: '%' },
+    { key: 'uptimePercent', label: t('analytics.summary.uptime'), unit: '%' },
+  ];
+
+  const withComparison = (key: string, label: string, color: string, values: number[], comparisonValues?: number[]): TrendSeries[] => [
+    { key, label, color, values },
+    ...(comparisonValues
+      ? [{ key: `${key}Comparison`, label: `${label} (${t('analytics.compare.comparison')})`, color, values: comparisonValues, dashed: true }]
+      : []),
+  ];
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-heading font-bold text-text-light-primary dark:text-text-primary">{t('analytics.title')}</h1>
-        <p className="text-text-light-muted dark:text-text-muted mt-1">{t('analytics.subtitle')}</p>
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-text-light-primary dark:text-text-primary">{t('analytics.title')}</h1>
+          <p className="text-text-light-muted dark:text-text-muted mt-1">{t('analytics.subtitle')}</p>
+        </div>
+        <Button variant="secondary" onClick={handleRefresh} disabled={isFetching}>
+          <RefreshCw className={isFetching ? 'animate-spin' : ''} size={16} />
+          {t('common.refresh')}
+        </Button>
       </div>
 
-      {/* Coming Soon */}
-      <Card variant="glass" className="p-12">
-        <div className="flex flex-col items-center justify-center text-center">
-          <div className="w-20 h-20 bg-accent-primary/20 rounded-full flex items-center justify-center mb-6">
-            <BarChart3 size={40} className="text-accent-primary" />
-          </div>
-          <div className="flex items-center gap-2 mb-4">
-            <Construction size={24} className="text-warning" />
-            <h2 className="text-2xl font-heading font-bold text-text-light-primary dark:text-text-primary">
-              {t('analytics.coming_soon')}
-            </h2>
+      {/* Filters */}
+      <Card variant="glass">
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm text-text-light-muted dark:text-text-muted mb-1">{t('analytics.filters.server')}</label>
+              <select value={serverId} onChange={(e) => setServerId(e.target.value)} className={selectClassName}>
+                <option value="">{t('analytics.filters.all_servers')}</option>
+                {servers.map((server) => (
+                  <option key={server.id} value={server.id}>{server.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm text-text-light-muted dark:text-text-muted mb-1">{t('analytics.filters.range')}</label>
+              <div className="flex gap-2">
+                {(['24h', '7d', '30d', 'custom'] as RangePreset[]).map((value) => (
+                  <Button
+                    key={value}
+                    variant={preset === value ? 'primary' : 'secondary'}
+                    size="sm"
+                    onClick={() => selectPreset(value)}
+                  >
+                    {t(`analytics.ranges.${value}`)}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">
+                {t('analytics.filters.retention', { days: METRICS_RETENTION_DAYS })}
+              </p>
+            </div>
+
+            {preset === 'custom' && (
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={toDateInput(range.start)}
+                  min={earliestDate}
+                  max={toDateInput(range.end)}
+                  onChange={(e) => e.target.value && setRange(prev => ({ ...prev, start: dayStart(e.target.value) }))}
+                  className={selectClassName}
+                />
+                <input
+                  type="date"
+                  value={toDateInput(range.end)}
+                  min={toDateInput(range.start)}
+                  onChange={(e) => e.target.value && setRange(prev => ({ ...prev, end: dayEnd(e.target.value) }))}
+                  className={selectClassName}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm text-text-light-muted dark:text-text-muted mb-1">{t('analytics.compare.label')}</label>
+              <select
+                value={compareMode}
+                onChange={(e) => setCompareMode(e.target.value as CompareMode)}
+                className={selectClassName}
+              >
+                <option value="none">{t('analytics.compare.none')}</option>
+                <option value="previous" disabled={!canComparePrevious}>{t('analytics.compare.previous')}</option>
+                <option value="custom">{t('analytics.compare.custom')}</option>
+              </select>
+            </div>
+
+            {compareMode === 'custom' && (
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={toDateInput(compareRange.start)}
+                  min={earliestDate}
+                  max={toDateInput(compareRange.end)}
+                  onChange={(e) => e.target.value && setCompareRange(prev => ({ ...prev, start: dayStart(e.target.value) }))}
+                  className={selectClassName}
+                />
+                <input
+                  type="date"
+                  value={toDateInput(compareRange.end)}
+                  min={toDateInput(compareRange.start)}
+                  onChange={(e) => e.target.value && setCompareRange(prev => ({ ...prev, end: dayEnd(e.target.value) }))}
+                  className={selectClassName}
+                />
+              </div>
+            )}
           </div>
-          <p className="text-text-light-muted dark:text-text-muted max-w-md">
-            {t('analytics.description')}
-          </p>
-        </div>
+        </CardContent>
       </Card>
+
+      {isLoading || !report ? (
+        <div className="flex items-center justify-center py-12">
+          <RefreshCw className="animate-spin text-accent-primary" size={24} />
+          <span className="ml-2 text-text-light-muted dark:text-text-muted">{t('common.loading')}</span>
+        </div>
+      ) : (
+        <>
+          {report.summary.sampleCount === 0 && (
+            <p className="text-sm text-text-light-muted dark:text-text-muted">{t('analytics.empty')}</p>
+          )}
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {summaryCards.map(({ key, label, unit }) => {
+              const value = report.summary[key] as number | null;
+              const previous = compared ? (compared.summary[key] as number | null) : null;
+              const delta = value !== null && previous !== null ? Math.round((value - previous) * 100) / 100 : null;
+
+              return (
+                <Card key={key} variant="glass" className="p-4">
+                  <p className="text-sm text-text-light-muted dark:text-text-muted">{label}</p>
+                  <p className="text-2xl font-semibold text-text-light-primary dark:text-text-primary mt-1">
+                    {value !== null ? `${value}${unit}` : '-'}
+                  </p>
+                  {delta !== null && (
+                    <p className={`flex items-center gap-1 text-xs mt-1 ${delta > 0 ? 'text-success' : delta < 0 ? 'text-danger' : 'text-text-light-muted dark:text-text-muted'}`}>
+                      {delta > 0 ? <TrendingUp size={12} /> : delta < 0 ? <TrendingDown size={12} /> : <Minus size={12} />}
+                      {delta > 0 ? '+' : ''}{delta}{unit} {t('analytics.compare.vs_comparison')}
+                    </p>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+
+          {/* Trends */}
+          <TrendChart
+            title={t('analytics.charts.players')}
+            timestamps={report.trends.timestamps}
+            bucketMinutes={report.range.bucketMinutes}
+            series={[
+              ...withComparison('players', t('analytics.series.avg_players'), '#10B981', report.trends.players, compared?.trends.players),
+              { key: 'peakPlayers', label: t('analytics.series.peak_players'), color: '#F59E0B', values: report.trends.peakPlayers },
+            ]}
+          />
+
+          <TrendChart
+            title={t('analytics.charts.resources')}
+            timestamps={report.trends.timestamps}
+            bucketMinutes={report.range.bucketMinutes}
+            unit="%"
+            series={[
+              ...withComparison('cpu', t('analytics.series.cpu'), '#3B82F6', report.trends.cpu, compared?.trends.cpu),
+              ...withComparison('memory', t('analytics.series.memory'), '#8B5CF6', report.trends.memory, compared?.trends.memory),
+            ]}
+          />
+
+          {/* Peak times */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <PeakTimesChart
+              title={t('analytics.charts.peak_by_hour')}
+              labels={hourLabels}
+              values={report.peakByHour}
+              valueLabel={t('analytics.series.peak_players')}
+              comparison={compared?.peakByHour}
+              comparisonLabel={t('analytics.compare.comparison')}
+            />
+            <PeakTimesChart
+              title={t('analytics.charts.peak_by_weekday')}
+              labels={weekdayLabels}
+              values={report.peakByWeekday}
+              valueLabel={t('analytics.series.peak_players')}
+              comparison={compared?.peakByWeekday}
+              comparisonLabel={t('analytics.compare.comparison')}
+            />
+          </div>
+
+          <PeakHeatmap
+            title={t('analytics.charts.heatmap')}
+            values={report.peakByWeekdayHour}
+            weekdayLabels={weekdayLabels}
+          />
+
+          {/* Per-server breakdown */}
+          <Card variant="glass">
+            <CardHeader>
+              <CardTitle>{t('analytics.servers.title')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-text-light-muted dark:text-text-muted border-b border-gray-200 dark:border-gray-800">
+                      <th className="py-2 pr-4">{t('analytics.servers.server')}</th>
+                      <th className="py-2 pr-4">{t('analytics.summary.uptime')}</th>
+                      <th className="py-2 pr-4">{t('analytics.summary.peak_players')}</th>
+                      <th className="py-2 pr-4">{t('analytics.summary.avg_cpu')}</th>
+                      <th className="py-2">{t('analytics.summary.avg_memory')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.servers.map((server) => {
+                      const previous = compared?.servers.find(s => s.serverId === server.serverId);
+                      return (
+                        <tr key={server.serverId} className="border-b border-gray-100 dark:border-gray-800/50 text-text-light-primary dark:text-text-primary">
+                          <td className="py-3 pr-4 font-medium">{server.name}</td>
+                          <td className="py-3 pr-4">
+                            {server.uptimePercent !== null ? (
+                              <Badge
+                                variant={server.uptimePercent >= 99 ? 'success' : server.uptimePercent >= 90 ? 'warning' : 'danger'}
+                                size="sm"
+                              >
+                                {server.uptimePercent}%
+                              </Badge>
+                            ) : '-'}
+                            {previous && previous.uptimePercent !== null && (
+                              <span className="ml-2 text-xs text-text-light-muted dark:text-text-muted">
+                                ({previous.uptimePercent}%)
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3 pr-4">{server.peakPlayers}</td>
+                          <td className="py-3 pr-4">{server.avgCpu}%</td>
+                          <td className="py-3">{server.avgMemory}%</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
     </div>
   );
 };
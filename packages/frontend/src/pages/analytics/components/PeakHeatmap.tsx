@@ -0,0 +1,51 @@
+import { Card, CardHeader, CardTitle, CardContent } from '../../../components/ui';
+
+interface PeakHeatmapProps {
+  title: string;
+  /** Peak players indexed by [weekday][hour], weekday 0 = Sunday */
+  values: number[][];
+  weekdayLabels: string[];
+}
+
+export const PeakHeatmap = ({ title, values, weekdayLabels }: PeakHeatmapProps) => {
+  const max = Math.max(1, ...values.flat());
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th />
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <th key={hour} className="font-normal text-text-light-muted dark:text-text-muted w-6">
+                    {hour % 3 === 0 ? hour : ''}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {values.map((hours, weekday) => (
+                <tr key={weekday}>
+                  <td className="pr-2 text-text-light-muted dark:text-text-muted">{weekdayLabels[weekday]}</td>
+                  {hours.map((players, hour) => (
+                    <td
+                      key={hour}
+                      title={`${weekdayLabels[weekday]} ${hour}:00 - ${players}`}
+                      className="w-6 h-6 rounded bg-accent-primary"
+                      style={{ opacity: players > 0 ? 0.15 + (players / max) * 0.85 : 0.05 }}
+                    />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
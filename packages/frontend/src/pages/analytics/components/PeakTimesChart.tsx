@@ -0,0 +1,60 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Card, CardHeader, CardTitle, CardContent } from '../../../components/ui';
+
+interface PeakTimesChartProps {
+  title: string;
+  labels: string[];
+  values: number[];
+  valueLabel: string;
+  comparison?: number[];
+  comparisonLabel?: string;
+}
+
+export const PeakTimesChart = ({ title, labels, values, valueLabel, comparison, comparisonLabel }: PeakTimesChartProps) => {
+  const chartData = labels.map((label, index) => ({
+    label,
+    peak: values[index] ?? 0,
+    ...(comparison && { comparison: comparison[index] ?? 0 }),
+  }));
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+              <XAxis dataKey="label" stroke="#6B7280" fontSize={12} tickLine={false} />
+              <YAxis stroke="#6B7280" fontSize={12} tickLine={false} allowDecimals={false} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'rgba(17, 24, 39, 0.95)',
+                  border: '1px solid #374151',
+                  borderRadius: '8px',
+                  color: '#F9FAFB',
+                }}
+              />
+              {comparison && <Legend />}
+              <Bar dataKey="peak" name={valueLabel} fill="#10B981" radius={[4, 4, 0, 0]} />
+              {comparison && (
+                <Bar dataKey="comparison" name={comparisonLabel} fill="#6B7280" radius={[4, 4, 0, 0]} />
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,113 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { useTranslation } from 'react-i18next';
+import { Card, CardHeader, CardTitle, CardContent } from '../../../components/ui';
+import { format } from 'date-fns';
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  color: string;
+  values: number[];
+  /** Comparison-period series are drawn dashed */
+  dashed?: boolean;
+}
+
+interface TrendChartProps {
+  title: string;
+  timestamps: string[];
+  bucketMinutes: number;
+  series: TrendSeries[];
+  unit?: string;
+  loading?: boolean;
+}
+
+export const TrendChart = ({ title, timestamps, bucketMinutes, series, unit = '', loading }: TrendChartProps) => {
+  const { t } = useTranslation();
+
+  // Comparison series line up with the primary range by bucket position
+  const chartData = timestamps.map((timestamp, index) => {
+    const point: Record<string, string | number | null> = { time: timestamp };
+    for (const line of series) {
+      point[line.key] = line.values[index] ?? null;
+    }
+    return point;
+  });
+
+  const formatTime = (value: string) => {
+    const date = new Date(value);
+    if (bucketMinutes < 60) return format(date, 'HH:mm');
+    if (bucketMinutes < 1440) return format(date, 'MMM d HH:mm');
+    return format(date, 'MMM d');
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-text-light-muted dark:text-text-muted">
+            {t('common.loading')}
+          </div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+                <XAxis
+                  dataKey="time"
+                  tickFormatter={formatTime}
+                  stroke="#6B7280"
+                  fontSize={12}
+                  tickLine={false}
+                  minTickGap={24}
+                />
+                <YAxis
+                  stroke="#6B7280"
+                  fontSize={12}
+                  tickLine={false}
+                  allowDecimals={false}
+                  tickFormatter={(value) => `${value}${unit}`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'rgba(17, 24, 39, 0.95)',
+                    border: '1px solid #374151',
+                    borderRadius: '8px',
+                    color: '#F9FAFB',
+                  }}
+                  labelFormatter={(value) => format(new Date(value), 'PPp')}
+                  formatter={(value, name) => [`${value}${unit}`, name]}
+                />
+                <Legend />
+                {series.map((line) => (
+                  <Line
+                    key={line.key}
+                    type="monotone"
+                    dataKey={line.key}
+                    name={line.label}
+                    stroke={line.color}
+                    strokeWidth={2}
+                    strokeDasharray={line.dashed ? '5 5' : undefined}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
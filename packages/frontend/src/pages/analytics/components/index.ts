@@ -0,0 +1,3 @@
+export { TrendChart, type TrendSeries } from './TrendChart';
+export { PeakTimesChart } from './PeakTimesChart';
+export { PeakHeatmap } from './PeakHeatmap';
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronRight, ChevronDown, Folder, File, Download, RotateCcw, FolderInput } from 'lucide-react';
+import { Modal, ModalFooter, Button } from '../../components/ui';
+import { useBackupContents, useRestoreBackupFiles } from '../../hooks/api';
+import api from '../../services/api';
+import type { BackupTreeNode, BackupRestoreTarget } from '../../types';
+
+interface BackupBrowserModalProps {
+  backup: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+};
+
+/**
+ * Browse a backup's files and restore or download a selection of them
+ */
+export const BackupBrowserModal = ({ backup, onClose }: BackupBrowserModalProps) => {
+  const { t } = useTranslation();
+  const backupId = backup?.id ?? '';
+  const { data: tree, isLoading, error } = useBackupContents(backupId);
+  const restoreFiles = useRestoreBackupFiles();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const handleClose = () => {
+    setExpanded(new Set());
+    setSelected(new Set());
+    onClose();
+  };
+
+  const toggle = (set: Set<string>, value: string) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    return next;
+  };
+
+  // A node is covered when it or one of its parent directories is selected
+  const isCovered = (nodePath: string) =>
+    [...selected].some((selectedPath) => nodePath === selectedPath || nodePath.startsWith(`${selectedPath}/`));
+
+  const handleRestore = (target: BackupRestoreTarget) => {
+    if (target === 'server' && !confirm(t('backups.browser.confirm_restore', { count: selected.size }))) {
+      return;
+    }
+    restoreFiles.mutate(
+      { backupId, paths: [...selected], target },
+      { onSuccess: () => setSelected(new Set()) }
+    );
+  };
+
+  const handleDownload = (filePath: string) => {
+    const a = document.createElement('a');
+    a.href = api.getBackupFileDownloadUrl(backupId, filePath);
+    a.download = filePath.split('/').pop() || filePath;
+    a.click();
+  };
+
+  const renderNode = (node: BackupTreeNode, depth: number) => {
+    const isDirectory = node.type === 'directory';
+    const isExpanded = expanded.has(node.path);
+    const covered = isCovered(node.path);
+
+    return (
+      <div key={node.path}>
+        <div
+          className="flex items-center gap-2 py-1 pr-2 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}
+        >
+          <input
+            type="checkbox"
+            checked={covered}
+            disabled={covered && !selected.has(node.path)}
+            onChange={() => setSelected(toggle(selected, node.path))}
+            className="rounded border-gray-300 dark:border-gray-700"
+          />
+          {isDirectory ? (
+            <button
+              className="flex items-center gap-1 flex-1 min-w-0 text-left"
+              onClick={() => setExpanded(toggle(expanded, node.path))}
+            >
+              {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              <Folder size={14} className="text-accent-primary flex-shrink-0" />
+              <span className="text-sm truncate text-text-light-primary dark:text-text-primary">{node.name}</span>
+            </button>
+          ) : (
+            <span className="flex items-center gap-1 flex-1 min-w-0 pl-[18px]">
+              <File size={14} className="text-text-light-muted dark:text-text-muted flex-shrink-0" />
+              <span className="text-sm truncate text-text-light-primary dark:text-text-primary">{node.name}</span>
+            </span>
+          )}
+          <span className="text-xs text-text-light-muted dark:text-text-muted whitespace-nowrap">
+            {formatBytes(node.size)}
+          </span>
+          {!isDirectory && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="!p-1"
+              icon={<Download size={14} />}
+              onClick={() => handleDownload(node.path)}
+              title={t('backups.browser.download_file')}
+            />
+          )}
+        </div>
+        {isDirectory && isExpanded && node.children?.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <Modal isOpen={!!backup} onClose={handleClose} title={t('backups.browser.title')} size="xl">
+      <div className="space-y-3">
+        <p className="text-sm font-mono text-text-light-muted dark:text-text-muted">{backup?.name}</p>
+
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-2 max-h-[50vh] overflow-y-auto">
+          {isLoading && (
+            <p className="text-sm text-text-light-muted dark:text-text-muted text-center py-8">
+              {t('backups.browser.loading')}
+            </p>
+          )}
+          {error && <p className="text-sm text-danger text-center py-8">{error.message}</p>}
+          {tree?.length === 0 && (
+            <p className="text-sm text-text-light-muted dark:text-text-muted text-center py-8">
+              {t('backups.browser.empty')}
+            </p>
+          )}
+          {tree?.map((node) => renderNode(node, 0))}
+        </div>
+
+        <p className="text-xs text-text-light-muted dark:text-text-muted">
+          {t('backups.browser.selected', { count: selected.size })}
+        </p>
+      </div>
+
+      <ModalFooter>
+        <Button variant="ghost" onClick={handleClose}>
+          {t('common.close')}
+        </Button>
+        <Button
+          variant="secondary"
+          icon={<FolderInput size={16} />}
+          onClick={() => handleRestore('folder')}
+          disabled={selected.size === 0 || restoreFiles.isPending}
+        >
+          {t('backups.browser.restore_folder')}
+        </Button>
+        <Button
+          variant="primary"
+          icon={<RotateCcw size={16} />}
+          onClick={() => handleRestore('server')}
+          disabled={selected.size === 0 || restoreFiles.isPending}
+        >
+          {t('backups.browser.restore_server')}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RotateCcw } from 'lucide-react';
+import { Modal, ModalFooter, Button, Badge } from '../../components/ui';
+import { useBackupDiff } from '../../hooks/api';
+import type { BackupDiffEntry } from '../../types';
+
+interface BackupDiffModalProps {
+  /** The backup to compare, or null when the modal is closed */
+  backup: { id: string; name: string; server: { name: string } } | null;
+  /** Older backup to compare against; without it the backup is compared with the live server */
+  base?: { id: string; name: string } | null;
+  onClose: () => void;
+  /** Shown as a restore preview with a confirm button when set */
+  onRestore?: () => void;
+}
+
+type ChangeFilter = 'all' | BackupDiffEntry['change'];
+
+// Rendering every entry of a large universe would freeze the page
+const MAX_VISIBLE_ENTRIES = 500;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+};
+
+const formatDelta = (bytes: number): string => (bytes > 0 ? `+${formatBytes(bytes)}` : formatBytes(bytes));
+
+const changeVariant = {
+  added: 'success',
+  removed: 'danger',
+  modified: 'warning',
+} as const;
+
+/**
+ * Added, removed and modified files between two backups, or between the live server and a backup
+ */
+export const BackupDiffModal = ({ backup, base, onClose, onRestore }: BackupDiffModalProps) => {
+  const { t } = useTranslation();
+  const { data: diff, isLoading, error } = useBackupDiff(backup?.id ?? '', base?.id);
+  const [filter, setFilter] = useState<ChangeFilter>('all');
+
+  const handleClose = () => {
+    setFilter('all');
+    onClose();
+  };
+
+  const entries = diff?.entries.filter((entry) => filter === 'all' || entry.change === filter) ?? [];
+
+  return (
+    <Modal
+      isOpen={!!backup}
+      onClose={handleClose}
+      title={onRestore ? t('backups.diff.restore_title') : t('backups.diff.compare_title')}
+      size="xl"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-text-light-muted dark:text-text-muted">
+          {base
+            ? t('backups.diff.comparing', { base: base.name, backup: backup?.name })
+            : t('backups.diff.against_server', { backup: backup?.name, server: backup?.server.name })}
+        </p>
+
+        {isLoading && (
+          <p className="text-sm text-text-light-muted dark:text-text-muted text-center py-8">{t('backups.diff.loading')}</p>
+        )}
+        {error && <p className="text-sm text-danger text-center py-8">{error.message}</p>}
+
+        {diff && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'added', 'removed', 'modified'] as const).map((change) => (
+                <button
+                  key={change}
+                  onClick={() => setFilter(change)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors ${filter === change
+                    ? 'bg-accent-primary text-black'
+                    : 'bg-gray-100 dark:bg-gray-800 text-text-light-muted dark:text-text-muted'
+                    }`}
+                >
+                  {t(`backups.diff.filters.${change}`, { count: change === 'all' ? diff.entries.length : diff[change] })}
+                </button>
+              ))}
+              <span className="ml-auto text-sm text-text-light-muted dark:text-text-muted self-center">
+                {t('backups.diff.summary', { unchanged: diff.unchanged, delta: formatDelta(diff.sizeDelta) })}
+              </span>
+            </div>
+
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg max-h-[45vh] overflow-y-auto">
+              {entries.length === 0 ? (
+                <p className="text-sm text-text-light-muted dark:text-text-muted text-center py-8">{t('backups.diff.no_changes')}</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {entries.slice(0, MAX_VISIBLE_ENTRIES).map((entry) => (
+                    <li key={entry.path} className="flex items-center gap-3 px-3 py-1.5">
+                      <Badge variant={changeVariant[entry.change]} size="sm">
+                        {t(`backups.diff.changes.${entry.change}`)}
+                      </Badge>
+                      <span className="flex-1 min-w-0 truncate text-xs font-mono text-text-light-primary dark:text-text-primary">
+                        {entry.path}
+                      </span>
+                      <span className="text-xs text-text-light-muted dark:text-text-muted whitespace-nowrap">
+                        {formatDelta(entry.sizeDelta)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {entries.length > MAX_VISIBLE_ENTRIES && (
+                <p className="text-xs text-text-light-muted dark:text-text-muted text-center py-2">
+                  {t('backups.diff.more', { count: entries.length - MAX_VISIBLE_ENTRIES })}
+                </p>
+              )}
+            </div>
+
+            {onRestore && (
+              <div className="bg-warning/10 text-warning p-3 rounded text-sm">
+                {t('backups.diff.restore_warning', { removed: diff.removed, modified: diff.modified })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="ghost" onClick={handleClose}>
+          {t('common.close')}
+        </Button>
+        {onRestore && (
+          <Button variant="danger" icon={<RotateCcw size={16} />} onClick={onRestore} disabled={!diff}>
+            {t('backups.actions.restore')}
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -2,10 +2,12 @@ import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, DataTable, type Column } from '../../components/ui';
-import { Database, RotateCcw, Plus, Calendar, Trash2, AlertCircle, X, Download } from 'lucide-react';
+import { Database, RotateCcw, Plus, Calendar, Trash2, AlertCircle, X, Download, FolderSearch, GitCompare } from 'lucide-react';
 import { useToast } from '../../stores/toastStore';
 import api from '../../services/api';
 import { CreateBackupModal } from './CreateBackupModal';
+import { BackupBrowserModal } from './BackupBrowserModal';
+import { BackupDiffModal } from './BackupDiffModal';
 
 interface Backup {
   id: string;
@@ -14,6 +16,7 @@ interface Backup {
   description: string | null;
   filePath: string;
   fileSize: number;
+  format: string; // "zip" or "incremental"
   status: string;
   error: string | null;
   createdAt: string;
@@ -45,6 +48,9 @@ export const BackupsPage = () => {
   const [selectedBackups, setSelectedBackups] = useState<Backup[]>([]);
   const [deletingMultiple, setDeletingMultiple] = useState(false);
   const [viewingSkippedFiles, setViewingSkippedFiles] = useState<Backup | null>(null);
+  const [browsingBackup, setBrowsingBackup] = useState<Backup | null>(null);
+  const [restorePreview, setRestorePreview] = useState<Backup | null>(null);
+  const [comparing, setComparing] = useState<{ backup: Backup; base: Backup } | null>(null);
 
   // Memoize callbacks to prevent infinite loops in DataTable
   const handleSelectionChange = useCallback((items: Backup[]) => {
@@ -139,11 +145,9 @@ export const BackupsPage = () => {
     }
   };
 
+  // Confirmed from the restore preview
   const handleRestore = async (backup: Backup) => {
-    if (!confirm(t('backups.confirm.restore', { server: backup.server.name }))) {
-      return;
-    }
-
+    setRestorePreview(null);
     try {
       await api.restoreBackup(backup.id);
       toast.success(
@@ -170,6 +174,14 @@ export const BackupsPage = () => {
     }
   };
 
+  // Compare the two selected backups, older one as the base
+  const handleCompareSelected = () => {
+    const [first, second] = [...selectedBackups].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    setComparing({ base: first, backup: second });
+  };
+
   const handleBulkDelete = async () => {
     if (selectedBackups.length === 0) return;
 
@@ -239,13 +251,22 @@ export const BackupsPage = () => {
       key: 'name',
       label: t('backups.columns.name'),
       render: (backup) => (
-        <span className="text-sm font-mono text-text-light-primary dark:text-text-primary">{backup.name}</span>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-mono text-text-light-primary dark:text-text-primary">{backup.name}</span>
+          {backup.format === 'incremental' && (
+            <Badge variant="info" size="sm">{t('backups.incremental')}</Badge>
+          )}
+        </div>
       ),
     },
     {
       key: 'fileSize',
       label: t('backups.columns.size'),
-      render: (backup) => <span>{formatBytes(backup.fileSize)}</span>,
+      render: (backup) => (
+        <span title={backup.format === 'incremental' ? t('backups.tooltips.incremental_size') : undefined}>
+          {formatBytes(backup.fileSize)}
+        </span>
+      ),
     },
     {
       key: 'files',
@@ -328,11 +349,19 @@ export const BackupsPage = () => {
               >
                 {t('backups.actions.download')}
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<FolderSearch size={14} />}
+                onClick={() => setBrowsingBackup(backup)}
+              >
+                {t('backups.actions.browse')}
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
                 icon={<RotateCcw size={14} />}
-                onClick={() => handleRestore(backup)}
+                onClick={() => setRestorePreview(backup)}
               >
                 {t('backups.actions.restore')}
               </Button>
@@ -469,16 +498,28 @@ export const BackupsPage = () => {
               selectable
               onSelectionChange={handleSelectionChange}
               bulkActions={
-                <Button
-                  variant="danger"
-                  size="sm"
-                  icon={<Trash2 size={14} />}
-                  onClick={handleBulkDelete}
-                  loading={deletingMultiple}
-                  disabled={deletingMultiple}
-                >
-                  {t('backups.actions.delete_selected')}
-                </Button>
+                <>
+                  {selectedBackups.length === 2 && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      icon={<GitCompare size={14} />}
+                      onClick={handleCompareSelected}
+                    >
+                      {t('backups.actions.compare')}
+                    </Button>
+                  )}
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    icon={<Trash2 size={14} />}
+                    onClick={handleBulkDelete}
+                    loading={deletingMultiple}
+                    disabled={deletingMultiple}
+                  >
+                    {t('backups.actions.delete_selected')}
+                  </Button>
+                </>
               }
             />
           )}
@@ -492,6 +533,20 @@ export const BackupsPage = () => {
         servers={servers}
       />
 
+      <BackupBrowserModal backup={browsingBackup} onClose={() => setBrowsingBackup(null)} />
+
+      <BackupDiffModal
+        backup={restorePreview}
+        onClose={() => setRestorePreview(null)}
+        onRestore={() => restorePreview && handleRestore(restorePreview)}
+      />
+
+      <BackupDiffModal
+        backup={comparing?.backup ?? null}
+        base={comparing?.base}
+        onClose={() => setComparing(null)}
+      />
+
       {/* Skipped Files Modal */}
       {viewingSkippedFiles && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,250 @@
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { MessageSquare, RefreshCw, Search, Filter, CheckCircle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge } from '../../components/ui';
+import { PermissionGate } from '../../components/auth';
+import { useServers, useChatMessages, useReviewChatMessage } from '../../hooks/api';
+import { PERMISSIONS } from '../../types';
+import { ChatFilters } from './components/ChatFilters';
+
+const PAGE_SIZE = 50;
+
+type ReportFilter = 'all' | 'flagged' | 'unreviewed';
+
+export const ChatPage = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { data: servers = [] } = useServers();
+  const reviewMessage = useReviewChatMessage();
+
+  const [searchValue, setSearchValue] = useState('');
+  const [usernameValue, setUsernameValue] = useState('');
+  const [search, setSearch] = useState('');
+  const [username, setUsername] = useState('');
+  const [serverId, setServerId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [reports, setReports] = useState<ReportFilter>('all');
+  const [page, setPage] = useState(1);
+
+  const filters = useMemo(() => ({
+    serverId: serverId || undefined,
+    username: username || undefined,
+    search: search || undefined,
+    from: from ? new Date(from).toISOString() : undefined,
+    to: to ? new Date(to).toISOString() : undefined,
+    flagged: reports === 'flagged' || undefined,
+    unreviewed: reports === 'unreviewed' || undefined,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  }), [serverId, username, search, from, to, reports, page]);
+
+  const { data, isLoading, refetch, isFetching } = useChatMessages(filters);
+  const totalPages = Math.max(1, Math.ceil((data?.total || 0) / PAGE_SIZE));
+  const serverNames = useMemo(() => Object.fromEntries(servers.map((server) => [server.id, server.name])), [servers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchValue.trim());
+    setUsername(usernameValue.trim());
+    setPage(1);
+  };
+
+  const inputClassName =
+    'px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-text-light-primary dark:text-text-primary">{t('chat.title')}</h1>
+        <p className="text-text-light-muted dark:text-text-muted mt-1">{t('chat.subtitle')}</p>
+      </div>
+
+      <Card variant="glass">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>{t('chat.log.title')}</CardTitle>
+              <CardDescription>
+                {data ? t('chat.log.total', { count: data.total }) : t('chat.log.description')}
+              </CardDescription>
+            </div>
+            <Button variant="secondary" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={isFetching ? 'animate-spin' : ''} size={16} />
+              {t('common.refresh')}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="flex flex-wrap gap-4 mb-6">
+            <form onSubmit={handleSearch} className="flex flex-wrap gap-2">
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-text-light-muted dark:text-text-muted" />
+                <input
+                  type="text"
+                  placeholder={t('chat.filters.search_placeholder')}
+                  value={searchValue}
+                  onChange={(e) => setSearchValue(e.target.value)}
+                  className={`${inputClassName} pl-9 w-64`}
+                />
+              </div>
+              <input
+                type="text"
+                placeholder={t('chat.filters.player_placeholder')}
+                value={usernameValue}
+                onChange={(e) => setUsernameValue(e.target.value)}
+                className={`${inputClassName} w-40`}
+              />
+              <Button type="submit" variant="secondary">
+                {t('players.filters.search')}
+              </Button>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Filter size={16} className="text-text-light-muted dark:text-text-muted" />
+              <select
+                value={serverId}
+                onChange={(e) => {
+                  setServerId(e.target.value);
+                  setPage(1);
+                }}
+                className={inputClassName}
+              >
+                <option value="">{t('chat.filters.all_servers')}</option>
+                {servers.map((server) => (
+                  <option key={server.id} value={server.id}>{server.name}</option>
+                ))}
+              </select>
+
+              <select
+                value={reports}
+                onChange={(e) => {
+                  setReports(e.target.value as ReportFilter);
+                  setPage(1);
+                }}
+                className={inputClassName}
+              >
+                <option value="all">{t('chat.filters.all_messages')}</option>
+                <option value="flagged">{t('chat.filters.flagged')}</option>
+                <option value="unreviewed">{t('chat.filters.unreviewed')}</option>
+              </select>
+
+              <input
+                type="datetime-local"
+                aria-label={t('chat.filters.from')}
+                value={from}
+                onChange={(e) => {
+                  setFrom(e.target.value);
+                  setPage(1);
+                }}
+                className={inputClassName}
+              />
+              <span className="text-text-light-muted dark:text-text-muted">-</span>
+              <input
+                type="datetime-local"
+                aria-label={t('chat.filters.to')}
+                value={to}
+                onChange={(e) => {
+                  setTo(e.target.value);
+                  setPage(1);
+                }}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="animate-spin text-accent-primary" size={24} />
+              <span className="ml-2 text-text-light-muted dark:text-text-muted">{t('common.loading')}</span>
+            </div>
+          ) : data && data.messages.length > 0 ? (
+            <>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+                {data.messages.map((message) => (
+                  <li key={message.id} className="flex items-start gap-4 py-2 text-sm">
+                    <span className="w-40 shrink-0 text-xs text-text-light-muted dark:text-text-muted pt-0.5">
+                      {format(new Date(message.timestamp), 'PPp')}
+                    </span>
+                    <span className="w-32 shrink-0 truncate text-text-light-muted dark:text-text-muted">
+                      {serverNames[message.serverId] || message.serverId}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      {message.uuid ? (
+                        <button
+                          onClick={() => navigate(`/players/${message.uuid}`)}
+                          className="font-medium text-text-light-primary dark:text-text-primary hover:text-accent-primary transition-colors"
+                        >
+                          {message.username}
+                        </button>
+                      ) : (
+                        <span className="font-medium text-text-light-primary dark:text-text-primary">{message.username}</span>
+                      )}
+                      <span className="text-text-light-primary dark:text-text-primary break-words">: {message.message}</span>
+                      {message.matchedFilter && (
+                        <div className="flex flex-wrap items-center gap-2 mt-1">
+                          <Badge variant={message.reviewedAt ? 'default' : 'warning'} size="sm">
+                            {message.matchedFilter}
+                          </Badge>
+                          {message.filterAction && (
+                            <span className="text-xs text-text-light-muted dark:text-text-muted">
+                              {t(`chat.actions.${message.filterAction}`)}
+                            </span>
+                          )}
+                          {message.reviewedAt && (
+                            <span className="text-xs text-text-light-muted dark:text-text-muted">
+                              {t('chat.log.reviewed_by', { user: message.reviewedBy })}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {message.matchedFilter && !message.reviewedAt && (
+                      <PermissionGate permission={PERMISSIONS.PLAYERS_KICK}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={<CheckCircle size={14} />}
+                          loading={reviewMessage.isPending && reviewMessage.variables === message.id}
+                          onClick={() => reviewMessage.mutate(message.id)}
+                        >
+                          {t('chat.log.mark_reviewed')}
+                        </Button>
+                      </PermissionGate>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex justify-center items-center gap-2 mt-6">
+                  <Button variant="secondary" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                    {t('table.pagination.previous')}
+                  </Button>
+                  <span className="text-text-light-muted dark:text-text-muted px-4">
+                    {page} / {totalPages}
+                  </span>
+                  <Button variant="secondary" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                    {t('table.pagination.next')}
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12">
+              <MessageSquare size={48} className="mx-auto text-text-light-muted dark:text-text-muted mb-4" />
+              <p className="text-text-light-primary dark:text-text-primary">{t('chat.log.empty')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChatFilters />
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, Input, Modal, ModalFooter, ConfirmDialog } from '../../../components/ui';
+import { PermissionGate } from '../../../components/auth';
+import { useServers, useChatFilters, useSaveChatFilter, useDeleteChatFilter } from '../../../hooks/api';
+import { PERMISSIONS } from '../../../types';
+import type { ChatFilter, ChatFilterAction, ChatFilterInput } from '../../../types';
+
+const EMPTY_FILTER: ChatFilterInput = {
+  name: '',
+  pattern: '',
+  isRegex: false,
+  action: 'alert',
+  command: null,
+  serverId: null,
+  enabled: true,
+};
+
+/**
+ * Word/regex filters applied to incoming chat
+ */
+export const ChatFilters = () => {
+  const { t } = useTranslation();
+  const { data: servers = [] } = useServers();
+  const { data: filters = [], isLoading } = useChatFilters();
+  const saveFilter = useSaveChatFilter();
+  const deleteFilter = useDeleteChatFilter();
+
+  const [editing, setEditing] = useState<{ id?: string; data: ChatFilterInput } | null>(null);
+  const [deleting, setDeleting] = useState<ChatFilter | null>(null);
+
+  const serverName = (serverId: string | null) =>
+    serverId ? servers.find((server) => server.id === serverId)?.name || serverId : t('chat.filters.all_servers');
+
+  const update = (changes: Partial<ChatFilterInput>) => {
+    setEditing((current) => (current ? { ...current, data: { ...current.data, ...changes } } : current));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await saveFilter.mutateAsync({ filterId: editing.id, data: editing.data });
+      setEditing(null);
+    } catch {
+      // The mutation hook already shows an error toast - keep the dialog open
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteFilter.mutateAsync(deleting.id);
+    setDeleting(null);
+  };
+
+  const selectClassName =
+    'w-full px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary';
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>{t('chat.rules.title')}</CardTitle>
+            <CardDescription>{t('chat.rules.description')}</CardDescription>
+          </div>
+          <PermissionGate permission={PERMISSIONS.PLAYERS_BAN}>
+            <Button variant="secondary" icon={<Plus size={16} />} onClick={() => setEditing({ data: EMPTY_FILTER })}>
+              {t('chat.rules.add')}
+            </Button>
+          </PermissionGate>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+        ) : filters.length === 0 ? (
+          <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('chat.rules.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+            {filters.map((filter) => (
+              <li key={filter.id} className="flex justify-between items-center gap-4 py-3 text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-text-light-primary dark:text-text-primary">{filter.name}</span>
+                    <Badge variant={filter.action === 'alert' ? 'info' : filter.action === 'mute' ? 'danger' : 'warning'} size="sm">
+                      {t(`chat.actions.${filter.action}`)}
+                    </Badge>
+                    {!filter.enabled && <Badge variant="default" size="sm">{t('chat.rules.disabled')}</Badge>}
+                  </div>
+                  <p className="text-xs text-text-light-muted dark:text-text-muted mt-1 truncate">
+                    <code>{filter.pattern}</code>
+                    {filter.isRegex && ` · ${t('chat.rules.regex')}`}
+                    {` · ${serverName(filter.serverId)}`}
+                  </p>
+                </div>
+                <PermissionGate permission={PERMISSIONS.PLAYERS_BAN}>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={<Pencil size={14} />}
+                      onClick={() => setEditing({
+                        id: filter.id,
+                        data: {
+                          name: filter.name,
+                          pattern: filter.pattern,
+                          isRegex: filter.isRegex,
+                          action: filter.action,
+                          command: filter.command,
+                          serverId: filter.serverId,
+                          enabled: filter.enabled,
+                        },
+                      })}
+                    >
+                      {t('chat.rules.edit_short')}
+                    </Button>
+                    <Button variant="ghost" size="sm" icon={<Trash2 size={14} />} onClick={() => setDeleting(filter)}>
+                      {t('common.delete')}
+                    </Button>
+                  </div>
+                </PermissionGate>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.id ? t('chat.rules.edit') : t('chat.rules.add')}
+      >
+        {editing && (
+          <div className="space-y-4">
+            <Input
+              label={t('chat.rules.name')}
+              value={editing.data.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <Input
+              label={t('chat.rules.pattern')}
+              placeholder={editing.data.isRegex ? 'discord\\.gg/\\w+' : t('chat.rules.pattern_placeholder')}
+              value={editing.data.pattern}
+              onChange={(e) => update({ pattern: e.target.value })}
+            />
+            <label className="flex items-center gap-2 text-sm text-text-light-primary dark:text-text-primary">
+              <input
+                type="checkbox"
+                checked={editing.data.isRegex}
+                onChange={(e) => update({ isRegex: e.target.checked })}
+                className="accent-accent-primary"
+              />
+              {t('chat.rules.is_regex')}
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                {t('chat.rules.action')}
+              </label>
+              <select
+                value={editing.data.action}
+                onChange={(e) => update({ action: e.target.value as ChatFilterAction })}
+                className={selectClassName}
+              >
+                <option value="warn">{t('chat.actions.warn')}</option>
+                <option value="mute">{t('chat.actions.mute')}</option>
+                <option value="alert">{t('chat.actions.alert')}</option>
+              </select>
+            </div>
+            {editing.data.action === 'mute' && (
+              <div>
+                <Input
+                  label={t('chat.rules.command')}
+                  placeholder="mute {player}"
+                  value={editing.data.command || ''}
+                  onChange={(e) => update({ command: e.target.value || null })}
+                />
+                <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">{t('chat.rules.command_hint')}</p>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-text-light-primary dark:text-text-primary mb-2">
+                {t('chat.rules.server')}
+              </label>
+              <select
+                value={editing.data.serverId || ''}
+                onChange={(e) => update({ serverId: e.target.value || null })}
+                className={selectClassName}
+              >
+                <option value="">{t('chat.filters.all_servers')}</option>
+                {servers.map((server) => (
+                  <option key={server.id} value={server.id}>{server.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-text-light-primary dark:text-text-primary">
+              <input
+                type="checkbox"
+                checked={editing.data.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="accent-accent-primary"
+              />
+              {t('chat.rules.enabled')}
+            </label>
+          </div>
+        )}
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setEditing(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!editing?.data.name.trim() || !editing?.data.pattern.trim()}
+            loading={saveFilter.isPending}
+          >
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('chat.rules.delete_title')}
+        message={t('chat.rules.delete_message', { name: deleting?.name })}
+        confirmLabel={t('common.delete')}
+        loading={deleteFilter.isPending}
+      />
+    </Card>
+  );
+};
@@ -6,6 +6,7 @@ import { Send, Download, Trash2 } from 'lucide-react';
 import { useToast } from '../../stores/toastStore';
 import api from '../../services/api';
 import websocket from '../../services/websocket';
+import { ConsoleSearch } from './components/ConsoleSearch';
 
 interface LogEntry {
   id?: string;
@@ -261,6 +262,8 @@ export const ConsolePage = () => {
           )}
         </CardContent>
       </Card>
+
+      {selectedServer && <ConsoleSearch key={selectedServer} serverId={selectedServer} />}
     </div>
   );
 };
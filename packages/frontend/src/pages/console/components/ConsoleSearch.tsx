@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Search, Download, RefreshCw } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button } from '../../../components/ui';
+import { useConsoleSearch } from '../../../hooks/api';
+import api from '../../../services/api';
+import type { ConsoleHistoryEntry, ConsoleSearchFilters } from '../../../types';
+
+const LEVELS: ConsoleHistoryEntry['level'][] = ['error', 'warn', 'info', 'debug'];
+
+interface ConsoleSearchProps {
+  serverId: string;
+}
+
+/**
+ * Search and export a server's persisted console history
+ */
+export const ConsoleSearch = ({ serverId }: ConsoleSearchProps) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [levels, setLevels] = useState<ConsoleHistoryEntry['level'][]>([]);
+  const [source, setSource] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [filters, setFilters] = useState<ConsoleSearchFilters | null>(null);
+
+  const { data, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage, error } = useConsoleSearch(
+    serverId,
+    filters ?? {},
+    !!filters
+  );
+  const logs = data?.pages.flatMap((page) => page.logs) ?? [];
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({
+      q: query.trim() || undefined,
+      regex: regex || undefined,
+      level: levels.length ? levels.join(',') : undefined,
+      source: source.trim() || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+    });
+  };
+
+  const toggleLevel = (level: ConsoleHistoryEntry['level']) => {
+    setLevels((current) => (current.includes(level) ? current.filter((l) => l !== level) : [...current, level]));
+  };
+
+  const handleExport = () => {
+    const a = document.createElement('a');
+    a.href = api.getConsoleExportUrl(serverId, filters ?? {});
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const getLogLevelColor = (level: string) => {
+    switch (level) {
+      case 'error': return 'text-danger';
+      case 'warn': return 'text-warning';
+      case 'debug': return 'text-accent-secondary';
+      default: return 'text-text-light-primary dark:text-text-primary';
+    }
+  };
+
+  const inputClassName =
+    'px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50';
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>{t('console.search.title')}</CardTitle>
+            <CardDescription>{t('console.search.description')}</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" icon={<Download size={16} />} onClick={handleExport} disabled={!filters}>
+            {t('console.search.export')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSearch} className="space-y-3 mb-4">
+          <div className="flex flex-wrap gap-2">
+            <div className="relative flex-1 min-w-64">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-text-light-muted dark:text-text-muted" />
+              <input
+                type="text"
+                placeholder={regex ? t('console.search.regex_placeholder') : t('console.search.placeholder')}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className={`${inputClassName} pl-9 w-full font-mono`}
+              />
+            </div>
+            <Button type="submit" variant="secondary" loading={isFetching && !isFetchingNextPage}>
+              {t('console.search.search')}
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-text-light-primary dark:text-text-primary">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} className="accent-accent-primary" />
+              {t('console.search.regex')}
+            </label>
+            {LEVELS.map((level) => (
+              <label key={level} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={levels.includes(level)}
+                  onChange={() => toggleLevel(level)}
+                  className="accent-accent-primary"
+                />
+                <span className={getLogLevelColor(level)}>{level.toUpperCase()}</span>
+              </label>
+            ))}
+            <input
+              type="text"
+              placeholder={t('console.search.source_placeholder')}
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className={`${inputClassName} w-40`}
+            />
+            <input
+              type="datetime-local"
+              aria-label={t('console.search.from')}
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={inputClassName}
+            />
+            <span className="text-text-light-muted dark:text-text-muted">-</span>
+            <input
+              type="datetime-local"
+              aria-label={t('console.search.to')}
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </form>
+
+        {!filters ? (
+          <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('console.search.prompt')}</p>
+        ) : error ? (
+          <p className="text-center py-6 text-danger">{error.message}</p>
+        ) : (
+          <>
+            <div className="bg-white dark:bg-primary-bg rounded-lg p-4 font-mono text-sm max-h-[32rem] overflow-y-auto custom-scrollbar">
+              {logs.length === 0 && !isFetching ? (
+                <div className="text-text-light-muted dark:text-text-muted text-center py-8">{t('console.search.no_results')}</div>
+              ) : (
+                logs.map((log) => (
+                  <div key={log.id} className="mb-1 flex gap-2">
+                    <span className="text-text-light-muted dark:text-text-muted whitespace-nowrap">
+                      [{format(new Date(log.timestamp), 'yyyy-MM-dd HH:mm:ss')}]
+                    </span>
+                    <span className={getLogLevelColor(log.level)}>[{log.level.toUpperCase()}]</span>
+                    <span className="text-text-light-primary dark:text-text-primary whitespace-pre-wrap break-all">{log.message}</span>
+                  </div>
+                ))
+              )}
+            </div>
+            {hasNextPage && (
+              <div className="flex justify-center mt-4">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon={<RefreshCw size={14} />}
+                  onClick={() => fetchNextPage()}
+                  loading={isFetchingNextPage}
+                >
+                  {t('console.search.load_older')}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,47 +1,354 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Card } from '../../components/ui';
-import { Users, Construction } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge, Input, Modal, ModalFooter } from '../../components/ui';
+import { PermissionGate } from '../../components/auth';
+import { ArrowLeft, RefreshCw, UserX, Ban, ShieldCheck, AlertCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  usePlayerProfile,
+  usePlayerSessions,
+  usePlayerCases,
+  useKickPlayer,
+  useBanPlayer,
+  useUnbanPlayer,
+} from '../../hooks/api';
+import { PERMISSIONS } from '../../types';
+import type { PlayerServerRecord } from '../../types';
+import { SyncConflicts } from './components/SyncConflicts';
+import { ModerationHistory, EscalationNotice } from './components/ModerationHistory';
+
+/**
+ * Format a playtime in seconds as hours and minutes
+ */
+function formatPlaytime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+type ModerationAction = 'kick' | 'ban';
 
 export const PlayerDetailPage = () => {
+  const { id: uuid = '' } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const { data: player, isLoading, error, refetch, isFetching } = usePlayerProfile(uuid);
+  const kickPlayer = useKickPlayer();
+  const banPlayer = useBanPlayer();
+  const unbanPlayer = useUnbanPlayer();
+
+  const [action, setAction] = useState<{ type: ModerationAction; record: PlayerServerRecord } | null>(null);
+  const [reason, setReason] = useState('');
+  const [durationHours, setDurationHours] = useState('');
+  const [sessionServerId, setSessionServerId] = useState('');
+  const { data: sessions = [], isLoading: sessionsLoading } = usePlayerSessions(uuid, sessionServerId || undefined);
+  const { data: moderation } = usePlayerCases(uuid);
+
+  const openAction = (type: ModerationAction, record: PlayerServerRecord) => {
+    setReason('');
+    setDurationHours('');
+    setAction({ type, record });
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+
+    const { serverId } = action.record;
+    try {
+      if (action.type === 'kick') {
+        await kickPlayer.mutateAsync({ serverId, uuid, reason: reason || undefined });
+      } else {
+        const hours = Number(durationHours);
+        await banPlayer.mutateAsync({
+          serverId,
+          uuid,
+          reason: reason || undefined,
+          // Empty means a permanent ban
+          duration: durationHours.trim() && hours > 0 ? Math.round(hours * 3600) : undefined,
+        });
+      }
+      setAction(null);
+    } catch {
+      // The mutation hooks already show an error toast - keep the dialog open
+    }
+  };
+
+  const backButton = (
+    <Button variant="ghost" icon={<ArrowLeft size={16} />} onClick={() => navigate('/players')}>
+      {t('players.detail.back')}
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <RefreshCw className="animate-spin text-accent-primary" size={24} />
+        <span className="ml-2 text-text-light-muted dark:text-text-muted">{t('common.loading')}</span>
+      </div>
+    );
+  }
+
+  if (error || !player) {
+    return (
+      <div className="space-y-6">
+        {backButton}
+        <Card variant="glass" className="p-12">
+          <div className="flex flex-col items-center justify-center text-center">
+            <AlertCircle size={48} className="text-text-light-muted dark:text-text-muted mb-4" />
+            <p className="text-text-light-primary dark:text-text-primary">{t('players.detail.not_found')}</p>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: t('players.table.status'), value: player.isOnline ? t('players.status.online') : t('players.status.offline') },
+    { label: t('players.table.servers'), value: player.serverCount },
+    { label: t('players.table.playtime'), value: formatPlaytime(player.playtime) },
+    { label: t('players.detail.first_joined'), value: new Date(player.firstJoined).toLocaleDateString() },
+    {
+      label: t('players.table.last_seen'),
+      value: player.isOnline
+        ? t('players.status.online_now')
+        : formatDistanceToNow(new Date(player.lastSeen), { addSuffix: true }),
+    },
+  ];
 
   return (
     <div className="space-y-6">
+      {backButton}
+
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-heading font-bold text-text-light-primary dark:text-text-primary">
-          {t('players.detail.title')}
-        </h1>
-        <p className="text-text-light-muted dark:text-text-muted mt-1">
-          {t('players.detail.subtitle')}
-        </p>
+      <div className="flex justify-between items-start">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-heading font-bold text-text-light-primary dark:text-text-primary">
+              {player.username}
+            </h1>
+            {player.isBanned && <Badge variant="danger">{t('players.status.banned')}</Badge>}
+          </div>
+          <p className="text-sm font-mono text-text-light-muted dark:text-text-muted mt-1">{player.uuid}</p>
+        </div>
+        <Button variant="secondary" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={isFetching ? 'animate-spin' : ''} size={16} />
+          {t('common.refresh')}
+        </Button>
       </div>
 
-      {/* Coming Soon */}
-      <Card variant="glass" className="p-12">
-        <div className="flex flex-col items-center justify-center text-center">
-          <div className="w-20 h-20 bg-accent-primary/20 rounded-full flex items-center justify-center mb-6">
-            <Users size={40} className="text-accent-primary" />
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} variant="glass" className="p-4">
+            <p className="text-sm text-text-light-muted dark:text-text-muted">{stat.label}</p>
+            <p className="text-lg font-semibold text-text-light-primary dark:text-text-primary mt-1">{stat.value}</p>
+          </Card>
+        ))}
+      </div>
+
+      <SyncConflicts uuid={player.uuid} />
+
+      {/* Per-server records */}
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>{t('players.detail.records')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-text-light-muted dark:text-text-muted border-b border-gray-200 dark:border-gray-800">
+                  <th className="py-2 pr-4">{t('players.detail.server')}</th>
+                  <th className="py-2 pr-4">{t('players.table.status')}</th>
+                  <th className="py-2 pr-4">{t('players.table.playtime')}</th>
+                  <th className="py-2 pr-4">{t('players.table.last_seen')}</th>
+                  <th className="py-2 pr-4">{t('players.detail.ban')}</th>
+                  <th className="py-2 text-right">{t('players.detail.actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {player.records.map((record) => (
+                  <tr key={record.id} className="border-b border-gray-100 dark:border-gray-800/50 text-text-light-primary dark:text-text-primary">
+                    <td className="py-3 pr-4">
+                      <button
+                        onClick={() => navigate(`/servers/${record.serverId}`)}
+                        className="font-medium hover:text-accent-primary transition-colors"
+                      >
+                        {record.server.name}
+                      </button>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <Badge variant={record.isOnline ? 'success' : 'default'} size="sm">
+                        {record.isOnline ? t('players.status.online') : t('players.status.offline')}
+                      </Badge>
+                    </td>
+                    <td className="py-3 pr-4">{formatPlaytime(record.playtime)}</td>
+                    <td className="py-3 pr-4 text-text-light-muted dark:text-text-muted">
+                      {formatDistanceToNow(new Date(record.lastSeen), { addSuffix: true })}
+                    </td>
+                    <td className="py-3 pr-4">
+                      {record.isBanned ? (
+                        <div>
+                          <Badge variant="danger" size="sm">
+                            {record.bannedUntil
+                              ? `${t('players.detail.until')} ${new Date(record.bannedUntil).toLocaleString()}`
+                              : t('players.detail.permanent')}
+                          </Badge>
+                          {record.banReason && (
+                            <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">{record.banReason}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-text-light-muted dark:text-text-muted">-</span>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex justify-end gap-2">
+                        {record.isOnline && (
+                          <PermissionGate permission={PERMISSIONS.PLAYERS_KICK}>
+                            <Button variant="secondary" size="sm" icon={<UserX size={14} />} onClick={() => openAction('kick', record)}>
+                              {t('players.actions.kick')}
+                            </Button>
+                          </PermissionGate>
+                        )}
+                        {record.isBanned ? (
+                          <PermissionGate permission={PERMISSIONS.PLAYERS_UNBAN}>
+                            <Button
+                              variant="success"
+                              size="sm"
+                              icon={<ShieldCheck size={14} />}
+                              loading={unbanPlayer.isPending && unbanPlayer.variables?.serverId === record.serverId}
+                              onClick={() => unbanPlayer.mutate({ serverId: record.serverId, uuid })}
+                            >
+                              {t('players.actions.unban')}
+                            </Button>
+                          </PermissionGate>
+                        ) : (
+                          <PermissionGate permission={PERMISSIONS.PLAYERS_BAN}>
+                            <Button variant="danger" size="sm" icon={<Ban size={14} />} onClick={() => openAction('ban', record)}>
+                              {t('players.actions.ban')}
+                            </Button>
+                          </PermissionGate>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
-          <div className="flex items-center gap-2 mb-4">
-            <Construction size={24} className="text-warning" />
-            <h2 className="text-2xl font-heading font-bold text-text-light-primary dark:text-text-primary">
-              {t('common.coming_soon')}
-            </h2>
+        </CardContent>
+      </Card>
+
+      <ModerationHistory
+        uuid={player.uuid}
+        serverNames={Object.fromEntries(player.records.map((record) => [record.serverId, record.server.name]))}
+      />
+
+      {/* Session history */}
+      <Card variant="glass">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>{t('players.sessions.title')}</CardTitle>
+            {player.records.length > 1 && (
+              <select
+                value={sessionServerId}
+                onChange={(e) => setSessionServerId(e.target.value)}
+                className="px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-sm text-text-light-primary dark:text-text-primary"
+              >
+                <option value="">{t('players.sessions.all_servers')}</option>
+                {player.records.map((record) => (
+                  <option key={record.serverId} value={record.serverId}>{record.server.name}</option>
+                ))}
+              </select>
+            )}
           </div>
-          <p className="text-text-light-muted dark:text-text-muted max-w-md mb-6">
-            {t('players.detail.description')}
-          </p>
-          <button
-            onClick={() => navigate('/players')}
-            className="px-4 py-2 bg-accent-primary text-black rounded-lg font-medium hover:bg-accent-primary/90 transition-colors"
-          >
-            {t('players.detail.back')}
-          </button>
-        </div>
+        </CardHeader>
+        <CardContent>
+          {sessionsLoading ? (
+            <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('players.sessions.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-text-light-muted dark:text-text-muted border-b border-gray-200 dark:border-gray-800">
+                    <th className="py-2 pr-4">{t('players.detail.server')}</th>
+                    <th className="py-2 pr-4">{t('players.sessions.joined')}</th>
+                    <th className="py-2 pr-4">{t('players.sessions.left')}</th>
+                    <th className="py-2 pr-4">{t('players.sessions.duration')}</th>
+                    <th className="py-2">{t('players.sessions.reason')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => (
+                    <tr key={session.id} className="border-b border-gray-100 dark:border-gray-800/50 text-text-light-primary dark:text-text-primary">
+                      <td className="py-2 pr-4">{session.server?.name || session.serverId}</td>
+                      <td className="py-2 pr-4">{format(new Date(session.joinedAt), 'PPp')}</td>
+                      <td className="py-2 pr-4">
+                        {session.leftAt ? (
+                          format(new Date(session.leftAt), 'PPp')
+                        ) : (
+                          <Badge variant="success" size="sm">{t('players.sessions.connected')}</Badge>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {session.duration !== null
+                          ? formatPlaytime(session.duration)
+                          : formatDistanceToNow(new Date(session.joinedAt))}
+                      </td>
+                      <td className="py-2 text-text-light-muted dark:text-text-muted">
+                        {session.disconnectReason ? t(`players.sessions.reasons.${session.disconnectReason}`) : '-'}
+                        {session.disconnectMessage && ` (${session.disconnectMessage})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
       </Card>
+
+      {/* Kick / ban dialog */}
+      <Modal
+        isOpen={!!action}
+        onClose={() => setAction(null)}
+        title={action ? `${t(`players.actions.${action.type}`)} ${player.username} - ${action.record.server.name}` : ''}
+      >
+        <div className="space-y-4">
+          <EscalationNotice summary={moderation?.summary} />
+          <Input
+            label={t('players.actions.reason')}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          {action?.type === 'ban' && (
+            <Input
+              type="number"
+              min={0}
+              label={t('players.actions.duration_hours')}
+              placeholder={t('players.actions.duration_permanent')}
+              value={durationHours}
+              onChange={(e) => setDurationHours(e.target.value)}
+            />
+          )}
+        </div>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setAction(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleConfirm}
+            loading={kickPlayer.isPending || banPlayer.isPending}
+          >
+            {action ? t(`players.actions.${action.type}`) : ''}
+          </Button>
+        </ModalFooter>
+      </Modal>
     </div>
   );
 };
@@ -1,9 +1,103 @@
+import { useState, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Card } from '../../components/ui';
-import { Users, Construction } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge } from '../../components/ui';
+import { DataTable, type Column } from '../../components/ui/DataTable';
+import { Users, RefreshCw, Search, Filter, ArrowUpDown, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { usePlayerDirectory } from '../../hooks/api';
+import type { PlayerSortField, PlayerStatusFilter, PlayerSummary } from '../../types';
+import { OnlineAtLookup } from './components/OnlineAtLookup';
+import { SyncConflicts } from './components/SyncConflicts';
+
+const PAGE_SIZE = 25;
+
+/**
+ * Format a playtime in seconds as hours and minutes
+ */
+function formatPlaytime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
 
 export const PlayersPage = () => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchValue, setSearchValue] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<PlayerStatusFilter>('all');
+  const [sortBy, setSortBy] = useState<PlayerSortField>('lastSeen');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+
+  const filters = useMemo(() => ({
+    search: search || undefined,
+    status,
+    sortBy,
+    sortOrder,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  }), [search, status, sortBy, sortOrder, page]);
+
+  const { data, isLoading, refetch, isFetching } = usePlayerDirectory(filters);
+  const totalPages = Math.max(1, Math.ceil((data?.total || 0) / PAGE_SIZE));
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchValue.trim());
+    setPage(1);
+  };
+
+  const columns: Column<PlayerSummary>[] = [
+    {
+      key: 'username',
+      label: t('players.table.player'),
+      render: (player) => (
+        <div>
+          <p className="font-medium text-text-light-primary dark:text-text-primary">{player.username}</p>
+          <p className="text-xs font-mono text-text-light-muted dark:text-text-muted">{player.uuid}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'isOnline',
+      label: t('players.table.status'),
+      render: (player) => (
+        <div className="flex flex-wrap gap-1">
+          <Badge variant={player.isOnline ? 'success' : 'default'} size="sm">
+            {player.isOnline ? t('players.status.online') : t('players.status.offline')}
+          </Badge>
+          {player.isBanned && (
+            <Badge variant="danger" size="sm">{t('players.status.banned')}</Badge>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'serverCount',
+      label: t('players.table.servers'),
+    },
+    {
+      key: 'playtime',
+      label: t('players.table.playtime'),
+      render: (player) => formatPlaytime(player.playtime),
+    },
+    {
+      key: 'lastSeen',
+      label: t('players.table.last_seen'),
+      render: (player) => (
+        <span className="text-sm text-text-light-muted dark:text-text-muted">
+          {player.isOnline
+            ? t('players.status.online_now')
+            : formatDistanceToNow(new Date(player.lastSeen), { addSuffix: true })}
+        </span>
+      ),
+    },
+  ];
+
+  const selectClassName =
+    'px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50';
 
   return (
     <div className="space-y-6">
@@ -13,23 +107,128 @@ export const PlayersPage = () => {
         <p className="text-text-light-muted dark:text-text-muted mt-1">{t('players.subtitle')}</p>
       </div>
 
-      {/* Coming Soon */}
-      <Card variant="glass" className="p-12">
-        <div className="flex flex-col items-center justify-center text-center">
-          <div className="w-20 h-20 bg-accent-primary/20 rounded-full flex items-center justify-center mb-6">
-            <Users size={40} className="text-accent-primary" />
+      <SyncConflicts />
+
+      <Card variant="glass">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>{t('players.directory.title')}</CardTitle>
+              <CardDescription>
+                {data ? `${data.total} ${t('players.directory.total')}` : t('players.directory.description')}
+              </CardDescription>
+            </div>
+            <Button variant="secondary" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={isFetching ? 'animate-spin' : ''} size={16} />
+              {t('common.refresh')}
+            </Button>
           </div>
-          <div className="flex items-center gap-2 mb-4">
-            <Construction size={24} className="text-warning" />
-            <h2 className="text-2xl font-heading font-bold text-text-light-primary dark:text-text-primary">
-              {t('players.coming_soon.title')}
-            </h2>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="flex flex-wrap gap-4 mb-6">
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-text-light-muted dark:text-text-muted" />
+                <input
+                  type="text"
+                  placeholder={t('players.filters.search_placeholder')}
+                  value={searchValue}
+                  onChange={(e) => setSearchValue(e.target.value)}
+                  className={`${selectClassName} pl-9 w-64`}
+                />
+              </div>
+              <Button type="submit" variant="secondary">
+                {t('players.filters.search')}
+              </Button>
+            </form>
+
+            <div className="flex items-center gap-2">
+              <Filter size={16} className="text-text-light-muted dark:text-text-muted" />
+              <select
+                value={status}
+                onChange={(e) => {
+                  setStatus(e.target.value as PlayerStatusFilter);
+                  setPage(1);
+                }}
+                className={selectClassName}
+              >
+                <option value="all">{t('players.filters.all')}</option>
+                <option value="online">{t('players.status.online')}</option>
+                <option value="offline">{t('players.status.offline')}</option>
+                <option value="banned">{t('players.status.banned')}</option>
+              </select>
+
+              <select
+                value={sortBy}
+                onChange={(e) => {
+                  setSortBy(e.target.value as PlayerSortField);
+                  setPage(1);
+                }}
+                className={selectClassName}
+              >
+                <option value="lastSeen">{t('players.sort.last_seen')}</option>
+                <option value="playtime">{t('players.sort.playtime')}</option>
+                <option value="username">{t('players.sort.username')}</option>
+              </select>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<ArrowUpDown size={16} />}
+                onClick={() => setSortOrder(prev => (prev === 'asc' ? 'desc' : 'asc'))}
+              >
+                {sortOrder === 'asc' ? t('players.sort.asc') : t('players.sort.desc')}
+              </Button>
+            </div>
           </div>
-          <p className="text-text-light-muted dark:text-text-muted max-w-md">
-            {t('players.coming_soon.description')}
-          </p>
-        </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="animate-spin text-accent-primary" size={24} />
+              <span className="ml-2 text-text-light-muted dark:text-text-muted">{t('common.loading')}</span>
+            </div>
+          ) : data && data.players.length > 0 ? (
+            <>
+              <DataTable<PlayerSummary>
+                data={data.players}
+                columns={columns}
+                keyExtractor={(player) => player.uuid}
+                itemsPerPage={PAGE_SIZE}
+                searchable={false}
+                onRowClick={(player) => navigate(`/players/${player.uuid}`)}
+              />
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex justify-center items-center gap-2 mt-6">
+                  <Button variant="secondary" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                    {t('table.pagination.previous')}
+                  </Button>
+                  <span className="text-text-light-muted dark:text-text-muted px-4">
+                    {page} / {totalPages}
+                  </span>
+                  <Button variant="secondary" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                    {t('table.pagination.next')}
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12">
+              {search || status !== 'all' ? (
+                <AlertCircle size={48} className="mx-auto text-text-light-muted dark:text-text-muted mb-4" />
+              ) : (
+                <Users size={48} className="mx-auto text-text-light-muted dark:text-text-muted mb-4" />
+              )}
+              <p className="text-text-light-primary dark:text-text-primary">{t('players.empty.title')}</p>
+              <p className="text-text-light-muted dark:text-text-muted text-sm mt-1">{t('players.empty.description')}</p>
+            </div>
+          )}
+        </CardContent>
       </Card>
+
+      <OnlineAtLookup />
     </div>
   );
 };
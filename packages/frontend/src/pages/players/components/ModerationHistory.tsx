@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { AlertTriangle, MessageSquareWarning, StickyNote } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge, Input, Modal, ModalFooter } from '../../../components/ui';
+import { PermissionGate } from '../../../components/auth';
+import { usePlayerCases, useAddPlayerCase } from '../../../hooks/api';
+import { PERMISSIONS } from '../../../types';
+import type { ModerationCaseType, ModerationSummary } from '../../../types';
+
+const CASE_VARIANTS: Record<ModerationCaseType, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  kick: 'warning',
+  ban: 'danger',
+  unban: 'success',
+  warning: 'warning',
+  note: 'info',
+};
+
+/**
+ * Counts of recent warnings/kicks/bans and the suggested next step, if any.
+ * Renders nothing for players with a clean recent record.
+ */
+export const EscalationNotice = ({ summary }: { summary?: ModerationSummary }) => {
+  const { t } = useTranslation();
+
+  if (!summary || summary.warnings + summary.kicks + summary.bans === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+        summary.suggestion ? 'bg-danger/10 text-danger' : 'bg-warning/10 text-warning'
+      }`}
+    >
+      <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+      <div>
+        <p>
+          {t('players.moderation.recent', {
+            warnings: summary.warnings,
+            kicks: summary.kicks,
+            bans: summary.bans,
+            days: summary.windowDays,
+          })}
+        </p>
+        {summary.suggestion && (
+          <p className="font-medium mt-1">{t(`players.moderation.suggestions.${summary.suggestion}`)}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ModerationHistoryProps {
+  uuid: string;
+  /** Server names by id, for cases tied to a server */
+  serverNames: Record<string, string>;
+}
+
+/**
+ * A player's kicks, bans, warnings and staff notes, newest first
+ */
+export const ModerationHistory = ({ uuid, serverNames }: ModerationHistoryProps) => {
+  const { t } = useTranslation();
+  const { data, isLoading } = usePlayerCases(uuid);
+  const addCase = useAddPlayerCase();
+
+  const [caseType, setCaseType] = useState<'warning' | 'note' | null>(null);
+  const [reason, setReason] = useState('');
+
+  const cases = data?.cases ?? [];
+
+  const openModal = (type: 'warning' | 'note') => {
+    setReason('');
+    setCaseType(type);
+  };
+
+  const handleSave = async () => {
+    if (!caseType) return;
+    try {
+      await addCase.mutateAsync({ uuid, type: caseType, reason: reason.trim() });
+      setCaseType(null);
+    } catch {
+      // The mutation hook already shows an error toast - keep the dialog open
+    }
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>{t('players.moderation.title')}</CardTitle>
+          <PermissionGate permission={PERMISSIONS.PLAYERS_KICK}>
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" icon={<MessageSquareWarning size={14} />} onClick={() => openModal('warning')}>
+                {t('players.moderation.warn')}
+              </Button>
+              <Button variant="ghost" size="sm" icon={<StickyNote size={14} />} onClick={() => openModal('note')}>
+                {t('players.moderation.add_note')}
+              </Button>
+            </div>
+          </PermissionGate>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <EscalationNotice summary={data?.summary} />
+          {isLoading ? (
+            <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+          ) : cases.length === 0 ? (
+            <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('players.moderation.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+              {cases.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-3 py-3 text-sm">
+                  <Badge variant={CASE_VARIANTS[entry.type]} size="sm">
+                    {t(`players.moderation.types.${entry.type}`)}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-text-light-primary dark:text-text-primary break-words">
+                      {entry.reason || t('players.moderation.no_reason')}
+                    </p>
+                    <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">
+                      {t('players.moderation.by', { user: entry.actorName, date: format(new Date(entry.createdAt), 'PPp') })}
+                      {entry.serverId && ` · ${serverNames[entry.serverId] || entry.serverId}`}
+                      {entry.networkId && ` · ${t('players.moderation.network_wide')}`}
+                      {entry.type === 'ban' &&
+                        ` · ${entry.duration
+                          ? t('players.moderation.duration_hours', { hours: Math.round((entry.duration / 3600) * 10) / 10 })
+                          : t('players.detail.permanent')}`}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      <Modal
+        isOpen={!!caseType}
+        onClose={() => setCaseType(null)}
+        title={caseType === 'warning' ? t('players.moderation.warn') : t('players.moderation.add_note')}
+      >
+        <div className="space-y-4">
+          {caseType === 'warning' && <EscalationNotice summary={data?.summary} />}
+          <Input
+            label={caseType === 'warning' ? t('players.actions.reason') : t('players.moderation.note')}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setCaseType(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!reason.trim()} loading={addCase.isPending}>
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Card>
+  );
+};
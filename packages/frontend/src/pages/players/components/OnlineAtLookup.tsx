@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button } from '../../../components/ui';
+import { useServers, usePlayersOnlineAt } from '../../../hooks/api';
+
+/**
+ * Answers "who was online on server X at time T" from the session history
+ */
+export const OnlineAtLookup = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { data: servers = [] } = useServers();
+  const [serverId, setServerId] = useState('');
+  const [time, setTime] = useState('');
+  const [query, setQuery] = useState<{ serverId: string; at: string } | null>(null);
+
+  const { data: sessions = [], isFetching } = usePlayersOnlineAt(query?.serverId || '', query?.at || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverId || !time) return;
+    // datetime-local values are in the viewer's timezone
+    setQuery({ serverId, at: new Date(time).toISOString() });
+  };
+
+  const inputClassName =
+    'px-3 py-2 rounded-lg bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 text-text-light-primary dark:text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/50';
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{t('players.online_at.title')}</CardTitle>
+        <CardDescription>{t('players.online_at.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-wrap gap-2 mb-4">
+          <select value={serverId} onChange={(e) => setServerId(e.target.value)} className={inputClassName}>
+            <option value="">{t('players.online_at.select_server')}</option>
+            {servers.map((server) => (
+              <option key={server.id} value={server.id}>{server.name}</option>
+            ))}
+          </select>
+          <input
+            type="datetime-local"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className={inputClassName}
+          />
+          <Button type="submit" variant="secondary" icon={<Clock size={16} />} disabled={!serverId || !time} loading={isFetching}>
+            {t('players.online_at.lookup')}
+          </Button>
+        </form>
+
+        {query && !isFetching && (
+          sessions.length === 0 ? (
+            <p className="text-sm text-text-light-muted dark:text-text-muted">{t('players.online_at.nobody')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+              {sessions.map((session) => (
+                <li key={session.id} className="flex justify-between items-center py-2 text-sm">
+                  <button
+                    onClick={() => navigate(`/players/${session.uuid}`)}
+                    className="font-medium text-text-light-primary dark:text-text-primary hover:text-accent-primary transition-colors"
+                  >
+                    {session.username}
+                  </button>
+                  <span className="text-text-light-muted dark:text-text-muted">
+                    {format(new Date(session.joinedAt), 'PPp')}
+                    {' - '}
+                    {session.leftAt ? format(new Date(session.leftAt), 'PPp') : t('players.sessions.connected')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
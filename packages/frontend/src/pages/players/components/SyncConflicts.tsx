@@ -0,0 +1,107 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, FileText, Server } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge } from '../../../components/ui';
+import { PermissionGate } from '../../../components/auth';
+import { useServers, usePlayerSyncConflicts, useResolvePlayerSyncConflict } from '../../../hooks/api';
+import { PERMISSIONS } from '../../../types';
+import type { PlayerSyncConflict } from '../../../types';
+
+interface SyncConflictsProps {
+  /** Only show conflicts for this player */
+  uuid?: string;
+}
+
+/**
+ * Ban/whitelist/operator flags that were changed both in a server's files and in the manager.
+ * Renders nothing while there are no conflicts.
+ */
+export const SyncConflicts = ({ uuid }: SyncConflictsProps) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { data: servers = [] } = useServers();
+  const { data: conflicts = [] } = usePlayerSyncConflicts({ uuid });
+  const resolveConflict = useResolvePlayerSyncConflict();
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const describe = (conflict: PlayerSyncConflict, value: string | null) => {
+    if (value === null) return t(`players.sync.values.${conflict.field}_off`);
+    if (conflict.field === 'banned' && value !== 'permanent') {
+      return t('players.sync.values.banned_until', { date: format(new Date(value), 'PPp') });
+    }
+    return t(`players.sync.values.${conflict.field}_on`);
+  };
+
+  return (
+    <Card variant="glass" className="border border-warning/40">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <AlertTriangle size={20} className="text-warning" />
+          <CardTitle>{t('players.sync.title')}</CardTitle>
+          <Badge variant="warning" size="sm">{conflicts.length}</Badge>
+        </div>
+        <CardDescription>{t('players.sync.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+          {conflicts.map((conflict) => (
+            <li key={conflict.id} className="flex flex-wrap justify-between items-center gap-4 py-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  {!uuid && (
+                    <button
+                      onClick={() => navigate(`/players/${conflict.uuid}`)}
+                      className="font-medium text-text-light-primary dark:text-text-primary hover:text-accent-primary transition-colors"
+                    >
+                      {conflict.username || conflict.uuid}
+                    </button>
+                  )}
+                  <Badge variant="default" size="sm">{t(`players.sync.fields.${conflict.field}`)}</Badge>
+                  <span className="text-xs text-text-light-muted dark:text-text-muted">
+                    {servers.find((s) => s.id === conflict.serverId)?.name || conflict.serverId}
+                    {' · '}
+                    {formatDistanceToNow(new Date(conflict.detectedAt), { addSuffix: true })}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm text-text-light-muted dark:text-text-muted">
+                  <span className="flex items-center gap-1">
+                    <FileText size={14} />
+                    {t('players.sync.file')}: {describe(conflict, conflict.fileValue)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Server size={14} />
+                    {t('players.sync.manager')}: {describe(conflict, conflict.managerValue)}
+                  </span>
+                </div>
+              </div>
+              <PermissionGate permission={PERMISSIONS.PLAYERS_BAN}>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={resolveConflict.isPending}
+                    onClick={() => resolveConflict.mutate({ conflictId: conflict.id, resolution: 'file' })}
+                  >
+                    {t('players.sync.keep_file')}
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={resolveConflict.isPending}
+                    onClick={() => resolveConflict.mutate({ conflictId: conflict.id, resolution: 'manager' })}
+                  >
+                    {t('players.sync.keep_manager')}
+                  </Button>
+                </div>
+              </PermissionGate>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
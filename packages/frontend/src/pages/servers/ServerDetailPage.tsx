@@ -8,6 +8,9 @@ import api from '../../services/api';
 import websocket from '../../services/websocket';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ServerUpdateBadge, ServerUpdateModal, UpdateHistoryModal } from '../../components/update';
+import { PermissionGate } from '../../components/auth';
+import { PERMISSIONS } from '../../types';
+import { CrashHistory } from './components/CrashHistory';
 
 interface Server {
   id: string;
@@ -796,6 +799,11 @@ export const ServerDetailPage = () => {
         </CardContent>
       </Card>
 
+      {/* Crash History */}
+      <PermissionGate permission={PERMISSIONS.SERVERS_CONSOLE}>
+        <CrashHistory serverId={server.id} />
+      </PermissionGate>
+
       {/* Update Modals */}
       <ServerUpdateModal
         isOpen={showUpdateModal}
@@ -5,6 +5,10 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Inpu
 import { ArrowLeft, Save, RotateCw, HardDrive, FolderOpen, Server, Plus, X, FileX } from 'lucide-react';
 import api from '../../services/api';
 import { useToast } from '../../stores/toastStore';
+import { useS3Status } from '../../hooks/api';
+import type { BackupStorageType } from '../../types';
+import { RestartPolicyCard } from './components/RestartPolicyCard';
+import { IdlePolicyCard } from './components/IdlePolicyCard';
 
 type SettingsTab = 'general' | 'storage' | 'network' | 'advanced';
 
@@ -21,6 +25,7 @@ interface ServerData {
   backupPath: string | null;
   backupType: string;
   backupExclusions: string | null;
+  backupMode: string;
   jvmArgs: string | null;
   serverArgs: string | null;
   adapterConfig: string | null;
@@ -41,9 +46,10 @@ interface NetworkSettings {
 
 interface StorageSettings {
   serverPath: string;
-  backupType: 'local' | 'ftp';
+  backupType: BackupStorageType;
   backupPath: string;
   backupExclusions: string[];
+  backupMode: 'full' | 'incremental';
 }
 
 interface AdvancedSettings {
@@ -52,6 +58,18 @@ interface AdvancedSettings {
   jarFile: string;
   assetsPath: string;
   javaPath: string;
+  readyLogPattern: string;
+  readyUdpCheck: boolean;
+  readyTimeoutSeconds: number;
+}
+
+interface StoredAdapterConfig {
+  jarFile?: string;
+  assetsPath?: string;
+  javaPath?: string;
+  readyLogPattern?: string;
+  readyUdpCheck?: boolean;
+  readyTimeoutSeconds?: number;
 }
 
 interface FtpStatus {
@@ -93,9 +111,11 @@ export const ServerSettingsPage = () => {
     backupType: 'local',
     backupPath: '',
     backupExclusions: [],
+    backupMode: 'full',
   });
   const [newExclusion, setNewExclusion] = useState('');
   const [ftpStatus, setFtpStatus] = useState<FtpStatus | null>(null);
+  const { data: s3Status } = useS3Status();
   const [storageSaving, setStorageSaving] = useState(false);
 
   // Advanced settings state
@@ -105,6 +125,9 @@ export const ServerSettingsPage = () => {
     jarFile: 'Server/HytaleServer.jar',
     assetsPath: '../Assets.zip',
     javaPath: 'java',
+    readyLogPattern: '',
+    readyUdpCheck: false,
+    readyTimeoutSeconds: 120,
   });
 
   // Load server data
@@ -149,13 +172,14 @@ export const ServerSettingsPage = () => {
       // Populate storage settings
       setStorageSettings({
         serverPath: serverData.serverPath || '',
-        backupType: (serverData.backupType as 'local' | 'ftp') || 'local',
+        backupType: (serverData.backupType as BackupStorageType) || 'local',
         backupPath: serverData.backupPath || '',
         backupExclusions: exclusions,
+        backupMode: serverData.backupMode === 'incremental' ? 'incremental' : 'full',
       });
 
       // Parse adapter config
-      let adapterConfig: { jarFile?: string; assetsPath?: string; javaPath?: string } = {};
+      let adapterConfig: StoredAdapterConfig = {};
       if (serverData.adapterConfig) {
         try {
           adapterConfig = JSON.parse(serverData.adapterConfig);
@@ -171,6 +195,9 @@ export const ServerSettingsPage = () => {
         jarFile: adapterConfig.jarFile || 'Server/HytaleServer.jar',
         assetsPath: adapterConfig.assetsPath || '../Assets.zip',
         javaPath: adapterConfig.javaPath || 'java',
+        readyLogPattern: adapterConfig.readyLogPattern || '',
+        readyUdpCheck: !!adapterConfig.readyUdpCheck,
+        readyTimeoutSeconds: adapterConfig.readyTimeoutSeconds || 120,
       });
     } catch (err: any) {
       console.error('Failed to load server:', err);
@@ -198,6 +225,7 @@ export const ServerSettingsPage = () => {
         backupPath: storageSettings.backupPath || null,
         backupType: storageSettings.backupType,
         backupExclusions: storageSettings.backupExclusions.length > 0 ? storageSettings.backupExclusions : null,
+        backupMode: storageSettings.backupMode,
       });
       toast.success(t('servers.settings.storage.toast.saved.title'), t('servers.settings.storage.toast.saved.description'));
       setHasChanges(false);
@@ -295,6 +323,9 @@ export const ServerSettingsPage = () => {
             jarFile: advancedSettings.jarFile,
             assetsPath: advancedSettings.assetsPath,
             javaPath: advancedSettings.javaPath,
+            readyLogPattern: advancedSettings.readyLogPattern,
+            readyUdpCheck: advancedSettings.readyUdpCheck,
+            readyTimeoutSeconds: advancedSettings.readyTimeoutSeconds,
           },
         };
       }
@@ -343,13 +374,14 @@ export const ServerSettingsPage = () => {
 
     setStorageSettings({
       serverPath: server.serverPath || '',
-      backupType: (server.backupType as 'local' | 'ftp') || 'local',
+      backupType: (server.backupType as BackupStorageType) || 'local',
       backupPath: server.backupPath || '',
       backupExclusions: exclusions,
+      backupMode: server.backupMode === 'incremental' ? 'incremental' : 'full',
     });
 
     // Parse adapter config for reset
-    let adapterConfig: { jarFile?: string; assetsPath?: string; javaPath?: string } = {};
+    let adapterConfig: StoredAdapterConfig = {};
     if (server.adapterConfig) {
       try {
         adapterConfig = JSON.parse(server.adapterConfig);
@@ -364,6 +396,9 @@ export const ServerSettingsPage = () => {
       jarFile: adapterConfig.jarFile || 'Server/HytaleServer.jar',
       assetsPath: adapterConfig.assetsPath || '../Assets.zip',
       javaPath: adapterConfig.javaPath || 'java',
+      readyLogPattern: adapterConfig.readyLogPattern || '',
+      readyUdpCheck: !!adapterConfig.readyUdpCheck,
+      readyTimeoutSeconds: adapterConfig.readyTimeoutSeconds || 120,
     });
 
     setHasChanges(false);
@@ -493,6 +528,9 @@ export const ServerSettingsPage = () => {
         </Card>
       )}
 
+      {activeTab === 'general' && id && <RestartPolicyCard serverId={id} />}
+      {activeTab === 'general' && id && <IdlePolicyCard serverId={id} />}
+
       {/* Storage Settings */}
       {activeTab === 'storage' && (
         <Card variant="glass">
@@ -517,6 +555,18 @@ export const ServerSettingsPage = () => {
                   {ftpStatus.connected ? t('servers.settings.storage.ftp.connected') : t('servers.settings.storage.ftp.disconnected')}
                 </div>
               )}
+              {s3Status && storageSettings.backupType === 's3' && (
+                <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
+                  s3Status.connected
+                    ? 'bg-green-500/10 text-green-500'
+                    : 'bg-yellow-500/10 text-yellow-500'
+                }`}>
+                  <div className={`w-2 h-2 rounded-full ${
+                    s3Status.connected ? 'bg-green-500' : 'bg-yellow-500'
+                  }`} />
+                  {s3Status.connected ? t('servers.settings.storage.s3.connected') : t('servers.settings.storage.s3.disconnected')}
+                </div>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -551,8 +601,10 @@ export const ServerSettingsPage = () => {
                     onChange={(e) => {
                       setStorageSettings(prev => ({
                         ...prev,
-                        backupType: e.target.value as 'local' | 'ftp',
+                        backupType: e.target.value as BackupStorageType,
                         backupPath: '', // Reset path when changing type
+                        // Incremental backups need the local chunk store
+                        backupMode: e.target.value !== 'local' ? 'full' : prev.backupMode,
                       }));
                       setHasChanges(true);
                     }}
@@ -562,15 +614,41 @@ export const ServerSettingsPage = () => {
                     <option value="ftp" disabled={!ftpStatus?.enabled}>
                       {t('servers.settings.storage.type_ftp')} {!ftpStatus?.enabled && `(${t('servers.settings.storage.ftp.not_configured')})`}
                     </option>
+                    <option value="s3" disabled={!s3Status?.enabled}>
+                      {t('servers.settings.storage.type_s3')} {!s3Status?.enabled && `(${t('servers.settings.storage.s3.not_configured')})`}
+                    </option>
                   </select>
                 </div>
 
+                {/* Backup Mode */}
+                <div>
+                  <label className="block text-sm font-medium text-text-light-muted dark:text-text-muted mb-2">
+                    {t('servers.settings.storage.mode')}
+                  </label>
+                  <select
+                    value={storageSettings.backupMode}
+                    onChange={(e) => {
+                      setStorageSettings(prev => ({ ...prev, backupMode: e.target.value as 'full' | 'incremental' }));
+                      setHasChanges(true);
+                    }}
+                    className="w-full bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-2 text-text-light-primary dark:text-text-primary focus:outline-none focus:border-accent-primary"
+                  >
+                    <option value="full">{t('servers.settings.storage.mode_full')}</option>
+                    <option value="incremental" disabled={storageSettings.backupType !== 'local'}>
+                      {t('servers.settings.storage.mode_incremental')}
+                    </option>
+                  </select>
+                  <p className="text-xs text-text-secondary mt-1">
+                    {storageSettings.backupMode === 'incremental'
+                      ? t('servers.settings.storage.mode_incremental_helper')
+                      : t('servers.settings.storage.mode_full_helper')}
+                  </p>
+                </div>
+
                 {/* Backup Path */}
                 <div>
                   <label className="block text-sm font-medium text-text-light-muted dark:text-text-muted mb-2">
-                    {storageSettings.backupType === 'ftp'
-                      ? t('servers.settings.storage.backup_path_ftp')
-                      : t('servers.settings.storage.backup_path_local')}
+                    {t(`servers.settings.storage.backup_path_${storageSettings.backupType}`)}
                   </label>
                   <Input
                     value={storageSettings.backupPath}
@@ -578,16 +656,10 @@ export const ServerSettingsPage = () => {
                       setStorageSettings(prev => ({ ...prev, backupPath: e.target.value }));
                       setHasChanges(true);
                     }}
-                    placeholder={
-                      storageSettings.backupType === 'ftp'
-                        ? t('servers.settings.storage.backup_path_ftp_placeholder')
-                        : t('servers.settings.storage.backup_path_local_placeholder')
-                    }
+                    placeholder={t(`servers.settings.storage.backup_path_${storageSettings.backupType}_placeholder`)}
                   />
                   <p className="text-xs text-text-secondary mt-1">
-                    {storageSettings.backupType === 'ftp'
-                      ? t('servers.settings.storage.backup_path_ftp_helper')
-                      : t('servers.settings.storage.backup_path_local_helper')}
+                    {t(`servers.settings.storage.backup_path_${storageSettings.backupType}_helper`)}
                   </p>
                 </div>
 
@@ -660,6 +732,13 @@ export const ServerSettingsPage = () => {
                   </div>
                 )}
 
+                {/* S3 Warning */}
+                {storageSettings.backupType === 's3' && (
+                  <div className="bg-blue-500/10 text-blue-400 p-3 rounded text-sm">
+                    <strong>{t('servers.settings.storage.s3.note_label')}</strong> {t('servers.settings.storage.s3.note')}
+                  </div>
+                )}
+
                 {/* Save Button */}
                 <div className="flex gap-3 pt-4 border-t">
                   <Button
@@ -830,6 +909,58 @@ export const ServerSettingsPage = () => {
                 />
               </div>
 
+              {/* Readiness Probe */}
+              <div>
+                <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+                  {t('servers.settings.advanced.readiness.title')}
+                </label>
+                <p className="text-xs text-text-light-muted dark:text-text-muted mb-3">
+                  {t('servers.settings.advanced.readiness.helper')}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="md:col-span-2">
+                    <Input
+                      value={advancedSettings.readyLogPattern}
+                      onChange={(e) => {
+                        setAdvancedSettings(prev => ({ ...prev, readyLogPattern: e.target.value }));
+                        setHasChanges(true);
+                      }}
+                      placeholder={t('servers.settings.advanced.readiness.log_pattern_placeholder')}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div>
+                    <Input
+                      type="number"
+                      min={5}
+                      value={advancedSettings.readyTimeoutSeconds}
+                      onChange={(e) => {
+                        setAdvancedSettings(prev => ({ ...prev, readyTimeoutSeconds: Math.max(5, parseInt(e.target.value) || 120) }));
+                        setHasChanges(true);
+                      }}
+                      title={t('servers.settings.advanced.readiness.timeout')}
+                    />
+                    <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">
+                      {t('servers.settings.advanced.readiness.timeout')}
+                    </p>
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer mt-3">
+                  <input
+                    type="checkbox"
+                    checked={advancedSettings.readyUdpCheck}
+                    onChange={(e) => {
+                      setAdvancedSettings(prev => ({ ...prev, readyUdpCheck: e.target.checked }));
+                      setHasChanges(true);
+                    }}
+                    className="rounded border-gray-300 dark:border-gray-700"
+                  />
+                  <span className="text-sm text-text-light-primary dark:text-text-primary">
+                    {t('servers.settings.advanced.readiness.udp_check', { port: networkSettings.port })}
+                  </span>
+                </label>
+              </div>
+
               {/* Command Preview */}
               <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
                 <label className="block text-sm font-medium text-text-light-muted dark:text-text-muted mb-2">
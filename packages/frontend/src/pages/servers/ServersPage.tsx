@@ -2,7 +2,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Card, CardHeader, CardTitle, CardContent, Button, Badge, StatusIndicator, DataTable, ConfirmDialog, type Column } from '../../components/ui';
-import { Play, Square, RotateCw, Eye, Plus, Trash2, Network, List, LayoutGrid, Skull } from 'lucide-react';
+import { Play, Square, RotateCw, Eye, Plus, Trash2, Network, List, LayoutGrid, Skull, Moon } from 'lucide-react';
 import { useToast } from '../../stores/toastStore';
 import api from '../../services/api';
 import websocket from '../../services/websocket';
@@ -30,17 +30,38 @@ interface Server {
   port: number;
   version: string;
   maxPlayers: number;
-  status: 'stopped' | 'starting' | 'running' | 'stopping' | 'crashed' | 'orphaned';
+  status: 'stopped' | 'starting' | 'running' | 'stopping' | 'crashed' | 'crash_loop' | 'orphaned';
   currentPlayers?: number;
   tps?: number;
   cpuUsage?: number;
   memoryUsage?: number;
   memoryAllocated?: number;
   uptime?: number;
+  /** Set while stopped by the idle policy */
+  idleSince?: string | null;
 }
 
 type ViewMode = 'grouped' | 'flat';
 
+/** Status with an idle marker for servers stopped by the idle policy */
+const ServerStatusCell = ({ status, idleSince }: { status: string; idleSince?: string | null }) => {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center gap-2">
+      <StatusIndicator status={status as Server['status']} showLabel />
+      {status === 'stopped' && idleSince && (
+        <Badge variant="info" size="sm" title={t('servers.idle.since', { time: new Date(idleSince).toLocaleString() })}>
+          <Moon size={12} className="inline mr-1" />
+          {t('servers.idle.badge')}
+        </Badge>
+      )}
+    </div>
+  );
+};
+
+/** Not running, so it can be started or deleted */
+const isDown = (status: string) => status === 'stopped' || status === 'crashed' || status === 'crash_loop';
+
 export const ServersPage = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
@@ -116,7 +137,12 @@ export const ServersPage = () => {
       setServers((prev) =>
         prev.map((s) =>
           s.id === data.serverId
-            ? { ...s, status: data.status.status, currentPlayers: data.status.playerCount }
+            ? {
+              ...s,
+              status: data.status.status,
+              currentPlayers: data.status.playerCount,
+              idleSince: data.idleSince ?? null,
+            }
             : s
         )
       );
@@ -167,6 +193,7 @@ export const ServersPage = () => {
         memoryUsage: 0,
         memoryAllocated: 8192,
         uptime: 0,
+        idleSince: server.idleSince,
       }));
 
       setServers(transformedServers);
@@ -423,7 +450,7 @@ export const ServersPage = () => {
     {
       key: 'status',
       label: t('servers.columns.status'),
-      render: (server) => <StatusIndicator status={server.status} showLabel />,
+      render: (server) => <ServerStatusCell status={server.status} idleSince={server.idleSince} />,
     },
     {
       key: 'currentPlayers',
@@ -535,7 +562,7 @@ export const ServersPage = () => {
                 {t('servers.actions.restart')}
               </Button>
             </>
-          ) : server.status === 'stopped' || server.status === 'crashed' ? (
+          ) : isDown(server.status) ? (
             <Button
               variant="ghost"
               size="sm"
@@ -573,8 +600,8 @@ export const ServersPage = () => {
             size="sm"
             icon={<Trash2 size={14} />}
             onClick={() => setServerToDelete(server)}
-            disabled={server.status !== 'stopped' && server.status !== 'crashed'}
-            title={server.status !== 'stopped' && server.status !== 'crashed'
+            disabled={!isDown(server.status)}
+            title={!isDown(server.status)
               ? t('servers.tooltips.stop_before_delete')
               : t('servers.tooltips.delete_server')}
           >
@@ -606,7 +633,7 @@ export const ServersPage = () => {
         // Use status from local servers state if available for immediate updates
         const fullServer = servers.find(s => s.id === server.id);
         const currentStatus = fullServer?.status || server.status;
-        return <StatusIndicator status={currentStatus as any} showLabel />;
+        return <ServerStatusCell status={currentStatus} idleSince={fullServer?.idleSince} />;
       },
     },
     {
@@ -637,7 +664,7 @@ export const ServersPage = () => {
                   {t('servers.actions.restart')}
                 </Button>
               </>
-            ) : currentStatus === 'stopped' || currentStatus === 'crashed' ? (
+            ) : isDown(currentStatus) ? (
               <Button
                 variant="ghost"
                 size="sm"
@@ -675,8 +702,8 @@ export const ServersPage = () => {
               size="sm"
               icon={<Trash2 size={14} />}
               onClick={() => fullServer && setServerToDelete(fullServer)}
-              disabled={currentStatus !== 'stopped' && currentStatus !== 'crashed'}
-              title={currentStatus !== 'stopped' && currentStatus !== 'crashed' ? 'Stop the server before deleting' : 'Delete server'}
+              disabled={!isDown(currentStatus)}
+              title={!isDown(currentStatus) ? 'Stop the server before deleting' : 'Delete server'}
             >
               {t('servers.actions.delete')}
             </Button>
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatDistanceToNow } from 'date-fns';
+import { Download, Trash2, Bug } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, ConfirmDialog } from '../../../components/ui';
+import { PermissionGate } from '../../../components/auth';
+import { useCrashReports, useDeleteCrashReport } from '../../../hooks/api';
+import api from '../../../services/api';
+import { PERMISSIONS } from '../../../types';
+import type { CrashReport } from '../../../types';
+
+interface CrashHistoryProps {
+  serverId: string;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+};
+
+/**
+ * Crash bundles captured for a server
+ */
+export const CrashHistory = ({ serverId }: CrashHistoryProps) => {
+  const { t } = useTranslation();
+  const { data: reports = [], isLoading } = useCrashReports(serverId);
+  const deleteReport = useDeleteCrashReport(serverId);
+  const [deleting, setDeleting] = useState<CrashReport | null>(null);
+
+  const handleDownload = (report: CrashReport) => {
+    const a = document.createElement('a');
+    a.href = api.getCrashReportDownloadUrl(report.id);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteReport.mutateAsync(deleting.id);
+    setDeleting(null);
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{t('servers.detail.crashes.title')}</CardTitle>
+        <CardDescription>{t('servers.detail.crashes.subtitle')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center py-6 text-text-light-muted dark:text-text-muted">{t('common.loading')}</p>
+        ) : reports.length === 0 ? (
+          <div className="text-center py-6 text-text-light-muted dark:text-text-muted">
+            <Bug size={32} className="mx-auto mb-2 opacity-50" />
+            <p>{t('servers.detail.crashes.empty')}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+            {reports.map((report) => (
+              <li key={report.id} className="flex justify-between items-center gap-4 py-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-text-light-primary dark:text-text-primary">
+                    {new Date(report.createdAt).toLocaleString()}
+                    <span className="ml-2 text-xs font-normal text-text-light-muted dark:text-text-muted">
+                      {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+                    </span>
+                  </p>
+                  <p className="text-xs font-mono text-danger mt-1 truncate">
+                    {report.summary || t('servers.detail.crashes.no_summary')}
+                  </p>
+                  <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">
+                    {t('servers.detail.crashes.details', { lines: report.logLines, files: report.files.length })}
+                    {` · ${formatBytes(report.fileSize)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button variant="secondary" size="sm" icon={<Download size={14} />} onClick={() => handleDownload(report)}>
+                    {t('servers.detail.crashes.download')}
+                  </Button>
+                  <PermissionGate permission={PERMISSIONS.SERVERS_UPDATE}>
+                    <Button variant="ghost" size="sm" icon={<Trash2 size={14} />} onClick={() => setDeleting(report)}>
+                      {t('common.delete')}
+                    </Button>
+                  </PermissionGate>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title={t('servers.detail.crashes.delete_title')}
+        message={t('servers.detail.crashes.delete_message')}
+        confirmLabel={t('common.delete')}
+        loading={deleteReport.isPending}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Save, Copy, Link2, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Input } from '../../../components/ui';
+import { useIdlePolicy, useUpdateIdlePolicy, useCreateWakeToken, useRevokeWakeToken } from '../../../hooks/api';
+import { useToast } from '../../../stores/toastStore';
+import api from '../../../services/api';
+import type { IdlePolicy } from '../../../types';
+
+interface IdlePolicyCardProps {
+  serverId: string;
+}
+
+type IdlePolicyForm = Pick<IdlePolicy, 'idleStopEnabled' | 'idleStopMinutes' | 'idleWakeCron'>;
+
+/**
+ * Stop-when-empty settings, wake schedule and wake link
+ */
+export const IdlePolicyCard = ({ serverId }: IdlePolicyCardProps) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { data: policy } = useIdlePolicy(serverId);
+  const updatePolicy = useUpdateIdlePolicy(serverId);
+  const createToken = useCreateWakeToken(serverId);
+  const revokeToken = useRevokeWakeToken(serverId);
+  const [draft, setDraft] = useState<IdlePolicyForm | null>(null);
+  const [wakeUrl, setWakeUrl] = useState<string | null>(null);
+
+  if (!policy) return null;
+
+  const form: IdlePolicyForm = draft ?? {
+    idleStopEnabled: policy.idleStopEnabled,
+    idleStopMinutes: policy.idleStopMinutes,
+    idleWakeCron: policy.idleWakeCron,
+  };
+
+  const handleCreateLink = async () => {
+    const token = await createToken.mutateAsync();
+    setWakeUrl(new URL(api.getWakeUrl(token), window.location.origin).toString());
+  };
+
+  const handleRevokeLink = async () => {
+    await revokeToken.mutateAsync();
+    setWakeUrl(null);
+  };
+
+  const handleCopy = async () => {
+    if (!wakeUrl) return;
+    await navigator.clipboard.writeText(wakeUrl);
+    toast.success(t('servers.settings.idle.link_copied'));
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{t('servers.settings.idle.title')}</CardTitle>
+        <CardDescription>{t('servers.settings.idle.subtitle')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.idleStopEnabled}
+              onChange={(e) => setDraft({ ...form, idleStopEnabled: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-700"
+            />
+            <span className="text-sm text-text-light-primary dark:text-text-primary">
+              {t('servers.settings.idle.enabled')}
+            </span>
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+                {t('servers.settings.idle.minutes')}
+              </label>
+              <Input
+                type="number"
+                min={1}
+                max={1440}
+                value={form.idleStopMinutes}
+                disabled={!form.idleStopEnabled}
+                onChange={(e) => setDraft({ ...form, idleStopMinutes: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+                {t('servers.settings.idle.wake_cron')}
+              </label>
+              <Input
+                value={form.idleWakeCron || ''}
+                onChange={(e) => setDraft({ ...form, idleWakeCron: e.target.value || null })}
+                placeholder="0 8 * * *"
+                className="font-mono"
+              />
+              <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">
+                {t('servers.settings.idle.wake_cron_helper')}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-sm text-text-light-muted dark:text-text-muted">
+              {policy.idleSince
+                ? t('servers.settings.idle.idle_since', { time: new Date(policy.idleSince).toLocaleString() })
+                : policy.emptySince
+                  ? t('servers.settings.idle.empty_since', { time: new Date(policy.emptySince).toLocaleTimeString() })
+                  : null}
+            </p>
+            <Button
+              variant="primary"
+              icon={<Save size={18} />}
+              onClick={() => updatePolicy.mutate(form, { onSuccess: () => setDraft(null) })}
+              disabled={updatePolicy.isPending}
+            >
+              {updatePolicy.isPending ? t('common.saving') : t('common.save')}
+            </Button>
+          </div>
+
+          {/* Wake link */}
+          <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+            <label className="block text-sm font-medium text-text-light-muted dark:text-text-muted mb-2">
+              {t('servers.settings.idle.wake_link')}
+            </label>
+            <p className="text-xs text-text-light-muted dark:text-text-muted mb-3">
+              {t('servers.settings.idle.wake_link_helper')}
+            </p>
+
+            {wakeUrl && (
+              <>
+                <div className="flex gap-2 mb-2">
+                  <Input value={wakeUrl} readOnly className="font-mono text-xs" />
+                  <Button variant="secondary" icon={<Copy size={16} />} onClick={handleCopy}>
+                    {t('servers.settings.idle.copy')}
+                  </Button>
+                </div>
+                <p className="text-xs text-warning mb-3">{t('servers.settings.idle.wake_link_once')}</p>
+              </>
+            )}
+            {!wakeUrl && policy.hasWakeToken && (
+              <p className="text-xs text-text-light-muted dark:text-text-muted mb-3">{t('servers.settings.idle.wake_link_active')}</p>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                icon={<Link2 size={14} />}
+                onClick={handleCreateLink}
+                disabled={createToken.isPending}
+              >
+                {policy.hasWakeToken ? t('servers.settings.idle.regenerate_link') : t('servers.settings.idle.create_link')}
+              </Button>
+              {policy.hasWakeToken && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon={<Trash2 size={14} />}
+                  onClick={handleRevokeLink}
+                  disabled={revokeToken.isPending}
+                >
+                  {t('servers.settings.idle.disable_link')}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Save } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Input } from '../../../components/ui';
+import { useRestartPolicy, useUpdateRestartPolicy } from '../../../hooks/api';
+import type { RestartPolicy, RestartPolicyMode } from '../../../types';
+
+interface RestartPolicyCardProps {
+  serverId: string;
+}
+
+type RestartPolicyForm = Pick<RestartPolicy, 'restartPolicy' | 'restartMaxAttempts' | 'restartWindowMinutes' | 'restartBackoffSeconds'>;
+
+/**
+ * Automatic restart settings with the current backoff state
+ */
+export const RestartPolicyCard = ({ serverId }: RestartPolicyCardProps) => {
+  const { t } = useTranslation();
+  const { data: policy } = useRestartPolicy(serverId);
+  const updatePolicy = useUpdateRestartPolicy(serverId);
+  const [draft, setDraft] = useState<RestartPolicyForm | null>(null);
+
+  if (!policy) return null;
+
+  const form: RestartPolicyForm = draft ?? {
+    restartPolicy: policy.restartPolicy,
+    restartMaxAttempts: policy.restartMaxAttempts,
+    restartWindowMinutes: policy.restartWindowMinutes,
+    restartBackoffSeconds: policy.restartBackoffSeconds,
+  };
+
+  const disabled = form.restartPolicy === 'never';
+  const updateNumber = (field: keyof Omit<RestartPolicyForm, 'restartPolicy'>, value: string, min: number) => {
+    setDraft({ ...form, [field]: Math.max(min, parseInt(value) || min) });
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>{t('servers.settings.restart.title')}</CardTitle>
+        <CardDescription>{t('servers.settings.restart.subtitle')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="md:col-span-2">
+            <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+              {t('servers.settings.restart.mode')}
+            </label>
+            <select
+              value={form.restartPolicy}
+              onChange={(e) => setDraft({ ...form, restartPolicy: e.target.value as RestartPolicyMode })}
+              className="w-full bg-white dark:bg-primary-bg border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-2 text-text-light-primary dark:text-text-primary focus:outline-none focus:border-accent-primary"
+            >
+              <option value="never">{t('servers.settings.restart.modes.never')}</option>
+              <option value="on-crash">{t('servers.settings.restart.modes.on_crash')}</option>
+              <option value="always">{t('servers.settings.restart.modes.always')}</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+              {t('servers.settings.restart.max_attempts')}
+            </label>
+            <Input
+              type="number"
+              min={1}
+              value={form.restartMaxAttempts}
+              disabled={disabled}
+              onChange={(e) => updateNumber('restartMaxAttempts', e.target.value, 1)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+              {t('servers.settings.restart.window_minutes')}
+            </label>
+            <Input
+              type="number"
+              min={1}
+              value={form.restartWindowMinutes}
+              disabled={disabled}
+              onChange={(e) => updateNumber('restartWindowMinutes', e.target.value, 1)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-text-light-muted dark:text-text-muted mb-2">
+              {t('servers.settings.restart.backoff_seconds')}
+            </label>
+            <Input
+              type="number"
+              min={0}
+              value={form.restartBackoffSeconds}
+              disabled={disabled}
+              onChange={(e) => updateNumber('restartBackoffSeconds', e.target.value, 0)}
+            />
+            <p className="text-xs text-text-light-muted dark:text-text-muted mt-1">
+              {t('servers.settings.restart.backoff_helper')}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-6">
+          <p className="text-sm text-text-light-muted dark:text-text-muted">
+            {t('servers.settings.restart.recent', { restarts: policy.recentRestarts, minutes: policy.restartWindowMinutes })}
+            {policy.nextRestartAt && (
+              <span className="ml-2 text-warning">
+                {t('servers.settings.restart.next', { time: new Date(policy.nextRestartAt).toLocaleTimeString() })}
+              </span>
+            )}
+          </p>
+          <Button
+            variant="primary"
+            icon={<Save size={18} />}
+            onClick={() => updatePolicy.mutate(form, { onSuccess: () => setDraft(null) })}
+            disabled={updatePolicy.isPending}
+          >
+            {updatePolicy.isPending ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -4,6 +4,8 @@ import { useTranslation } from 'react-i18next';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Input } from '../../components/ui';
 import { UpdateSettingsCard } from '../../components/settings/UpdateSettingsCard';
 import { HytaleDownloaderSettingsCard } from '../../components/settings/HytaleDownloaderSettingsCard';
+import { LogParsingRulesCard } from '../../components/settings/LogParsingRulesCard';
+import { S3StorageSettingsCard } from '../../components/settings/S3StorageSettingsCard';
 import { Save, Bell, Check, X, ExternalLink, Lock, Eye, EyeOff, HardDrive, Server, Package } from 'lucide-react';
 import { api } from '../../services/api';
 import { useModProviderStore } from '../../stores/modProviderStore';
@@ -780,6 +782,10 @@ export const SettingsPage = () => {
           </div>
         </CardContent>
       </Card>
+
+      <S3StorageSettingsCard />
+
+      <LogParsingRulesCard />
     </div>
   );
 };
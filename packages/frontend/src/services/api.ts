@@ -9,7 +9,7 @@
 
 import { env, logger } from '../config';
 import { authService, AuthError } from './auth';
-import type { ServerStatus, ServerConfig, VersionCheckResult, UpdateSession, ServerUpdateHistory } from '../types';
+import type { ServerStatus, ServerConfig, VersionCheckResult, UpdateSession, ServerUpdateHistory, AlertPolicySettings, EffectiveAlertPolicy, NetworkAlertPolicyResponse, RestartPolicy, IdlePolicy } from '../types';
 
 /**
  * Server status response from API
@@ -90,6 +90,19 @@ class ApiService {
     this.refreshSubscribers = [];
   }
 
+  /**
+   * Builds a query string, skipping undefined and empty values
+   */
+  private toSearchParams(params: Record<string, string | number | boolean | undefined>): URLSearchParams {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value));
+      }
+    });
+    return searchParams;
+  }
+
   /**
    * Makes an authenticated request to the API
    *
@@ -316,8 +329,9 @@ class ApiService {
     gameMode: string;
     serverPath: string;
     backupPath: string | null;
-    backupType: 'local' | 'ftp';
+    backupType: 'local' | 'ftp' | 's3';
     backupExclusions: string[] | null;
+    backupMode: 'full' | 'incremental';
     jvmArgs: string;
     serverArgs: string;
     adapterConfig: {
@@ -403,6 +417,66 @@ class ApiService {
     return this.request<T[]>(`/api/servers/${serverId}/console/logs?${params}`);
   }
 
+  async searchConsoleLogs<T = unknown>(serverId: string, params: {
+    q?: string;
+    regex?: boolean;
+    level?: string;
+    source?: string;
+    from?: string;
+    to?: string;
+    cursor?: string;
+    limit?: number;
+  }): Promise<T> {
+    return this.request<T>(`/api/servers/${serverId}/console/search?${this.toSearchParams(params)}`);
+  }
+
+  getConsoleExportUrl(serverId: string, params: {
+    q?: string;
+    regex?: boolean;
+    level?: string;
+    source?: string;
+    from?: string;
+    to?: string;
+  }): string {
+    return `${this.baseUrl}/api/servers/${serverId}/console/export?${this.toSearchParams(params)}`;
+  }
+
+  async getLogRules<T = unknown>(): Promise<T> {
+    return this.request<T>('/api/log-rules');
+  }
+
+  async createLogRule<T = unknown>(data: unknown): Promise<T> {
+    return this.request<T>('/api/log-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateLogRule<T = unknown>(ruleId: string, data: unknown): Promise<T> {
+    return this.request<T>(`/api/log-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteLogRule(ruleId: string): Promise<void> {
+    return this.request<void>(`/api/log-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async testLogRules<T = unknown>(data: {
+    lines: string[];
+    pattern?: string;
+    serverId?: string;
+    adapterType?: string;
+  }): Promise<T> {
+    return this.request<T>('/api/log-rules/test', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   // ============================================
   // Mods
   // ============================================
@@ -472,6 +546,85 @@ class ApiService {
     return this.request<T[]>(`/api/servers/${serverId}/players?${params}`);
   }
 
+  async getPlayers<T = unknown>(params?: {
+    search?: string;
+    status?: 'all' | 'online' | 'offline' | 'banned';
+    sortBy?: 'lastSeen' | 'playtime' | 'username';
+    sortOrder?: 'asc' | 'desc';
+    limit?: number;
+    offset?: number;
+  }): Promise<{ players: T[]; total: number }> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          searchParams.append(key, String(value));
+        }
+      });
+    }
+    return this.request<{ players: T[]; total: number }>(`/api/players?${searchParams}`);
+  }
+
+  async getPlayer<T = unknown>(uuid: string): Promise<T> {
+    return this.request<T>(`/api/players/${uuid}`);
+  }
+
+  async getPlayerSessions<T = unknown>(uuid: string, params?: {
+    serverId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+  }): Promise<T[]> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          searchParams.append(key, String(value));
+        }
+      });
+    }
+    return this.request<T[]>(`/api/players/${uuid}/sessions?${searchParams}`);
+  }
+
+  async getPlayersOnlineAt<T = unknown>(serverId: string, at: string): Promise<T[]> {
+    return this.request<T[]>(`/api/servers/${serverId}/players/online-at?at=${encodeURIComponent(at)}`);
+  }
+
+  async getPlayerSyncConflicts<T = unknown>(params?: {
+    serverId?: string;
+    uuid?: string;
+    includeResolved?: boolean;
+  }): Promise<T[]> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          searchParams.append(key, String(value));
+        }
+      });
+    }
+    return this.request<T[]>(`/api/players/sync-conflicts?${searchParams}`);
+  }
+
+  async resolvePlayerSyncConflict<T = unknown>(conflictId: string, resolution: 'file' | 'manager'): Promise<T> {
+    return this.request<T>(`/api/players/sync-conflicts/${conflictId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ resolution }),
+    });
+  }
+
+  async getPlayerCases<T = unknown>(uuid: string, serverId?: string): Promise<T> {
+    const query = serverId ? `?serverId=${encodeURIComponent(serverId)}` : '';
+    return this.request<T>(`/api/players/${uuid}/cases${query}`);
+  }
+
+  async addPlayerCase<T = unknown>(uuid: string, data: { type: 'warning' | 'note'; reason: string; serverId?: string }): Promise<T> {
+    return this.request<T>(`/api/players/${uuid}/cases`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   async kickPlayer(serverId: string, uuid: string, reason?: string) {
     return this.request<{ message: string }>(`/api/servers/${serverId}/players/${uuid}/kick`, {
       method: 'POST',
@@ -492,6 +645,63 @@ class ApiService {
     });
   }
 
+  // ============================================
+  // Chat
+  // ============================================
+
+  async getChatMessages<T = unknown>(params?: {
+    serverId?: string;
+    uuid?: string;
+    username?: string;
+    search?: string;
+    from?: string;
+    to?: string;
+    flagged?: boolean;
+    unreviewed?: boolean;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ messages: T[]; total: number }> {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          searchParams.append(key, String(value));
+        }
+      });
+    }
+    return this.request<{ messages: T[]; total: number }>(`/api/chat?${searchParams}`);
+  }
+
+  async reviewChatMessage<T = unknown>(messageId: string): Promise<T> {
+    return this.request<T>(`/api/chat/messages/${messageId}/review`, {
+      method: 'POST',
+    });
+  }
+
+  async getChatFilters<T = unknown>(): Promise<T[]> {
+    return this.request<T[]>('/api/chat/filters');
+  }
+
+  async createChatFilter<T = unknown>(data: unknown): Promise<T> {
+    return this.request<T>('/api/chat/filters', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateChatFilter<T = unknown>(filterId: string, data: unknown): Promise<T> {
+    return this.request<T>(`/api/chat/filters/${filterId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteChatFilter(filterId: string): Promise<void> {
+    return this.request<void>(`/api/chat/filters/${filterId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // ============================================
   // Backups
   // ============================================
@@ -531,6 +741,26 @@ class ApiService {
     return `${this.baseUrl}/api/servers/backups/${backupId}/download`;
   }
 
+  async getBackupContents<T = unknown>(backupId: string): Promise<T[]> {
+    return this.request<T[]>(`/api/servers/backups/${backupId}/contents`);
+  }
+
+  async restoreBackupFiles<T = unknown>(backupId: string, paths: string[], target: 'server' | 'folder'): Promise<T> {
+    return this.request<T>(`/api/servers/backups/${backupId}/restore-files`, {
+      method: 'POST',
+      body: JSON.stringify({ paths, target }),
+    });
+  }
+
+  async getBackupDiff<T = unknown>(backupId: string, baseBackupId?: string): Promise<T> {
+    const query = baseBackupId ? `?base=${encodeURIComponent(baseBackupId)}` : '';
+    return this.request<T>(`/api/servers/backups/${backupId}/diff${query}`);
+  }
+
+  getBackupFileDownloadUrl(backupId: string, filePath: string): string {
+    return `${this.baseUrl}/api/servers/backups/${backupId}/file?path=${encodeURIComponent(filePath)}`;
+  }
+
   async deleteBackups(backupIds: string[]): Promise<{ deleted: number; failed: number; errors?: string[] }> {
     return this.request<{ deleted: number; failed: number; errors?: string[] }>('/api/servers/bulk/delete-backups', {
       method: 'POST',
@@ -1033,6 +1263,117 @@ class ApiService {
     });
   }
 
+  async getAlertPolicy(serverId: string): Promise<EffectiveAlertPolicy> {
+    return this.request<EffectiveAlertPolicy>(`/api/servers/${serverId}/alerts/policy`);
+  }
+
+  async updateAlertPolicy(serverId: string, policy: Partial<AlertPolicySettings>): Promise<EffectiveAlertPolicy> {
+    return this.request<EffectiveAlertPolicy>(`/api/servers/${serverId}/alerts/policy`, {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  }
+
+  async resetAlertPolicy(serverId: string): Promise<EffectiveAlertPolicy> {
+    return this.request<EffectiveAlertPolicy>(`/api/servers/${serverId}/alerts/policy`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getNetworkAlertPolicy(networkId: string): Promise<NetworkAlertPolicyResponse> {
+    return this.request<NetworkAlertPolicyResponse>(`/api/networks/${networkId}/alerts/policy`);
+  }
+
+  async updateNetworkAlertPolicy(networkId: string, policy: Partial<AlertPolicySettings>): Promise<NetworkAlertPolicyResponse> {
+    return this.request<NetworkAlertPolicyResponse>(`/api/networks/${networkId}/alerts/policy`, {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  }
+
+  async deleteNetworkAlertPolicy(networkId: string) {
+    return this.request<{ message: string }>(`/api/networks/${networkId}/alerts/policy`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getLogAlertRules<T = unknown>(serverId?: string): Promise<T[]> {
+    const params = serverId ? `?${new URLSearchParams({ serverId })}` : '';
+    return this.request<T[]>(`/api/alerts/log-rules${params}`);
+  }
+
+  async createLogAlertRule<T = unknown>(data: unknown): Promise<T> {
+    return this.request<T>('/api/alerts/log-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateLogAlertRule<T = unknown>(ruleId: string, data: unknown): Promise<T> {
+    return this.request<T>(`/api/alerts/log-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteLogAlertRule(ruleId: string): Promise<void> {
+    return this.request<void>(`/api/alerts/log-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getCrashReports<T = unknown>(serverId: string): Promise<T> {
+    return this.request<T>(`/api/crashes?${this.toSearchParams({ serverId })}`);
+  }
+
+  getCrashReportDownloadUrl(reportId: string): string {
+    return `${this.baseUrl}/api/crashes/${reportId}/download`;
+  }
+
+  async deleteCrashReport(reportId: string): Promise<void> {
+    return this.request<void>(`/api/crashes/${reportId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getRestartPolicy<T = unknown>(serverId: string): Promise<T> {
+    return this.request<T>(`/api/servers/${serverId}/restart-policy`);
+  }
+
+  async updateRestartPolicy<T = unknown>(serverId: string, data: Partial<RestartPolicy>): Promise<T> {
+    return this.request<T>(`/api/servers/${serverId}/restart-policy`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getIdlePolicy<T = unknown>(serverId: string): Promise<T> {
+    return this.request<T>(`/api/idle/${serverId}`);
+  }
+
+  async updateIdlePolicy<T = unknown>(serverId: string, data: Partial<IdlePolicy>): Promise<T> {
+    return this.request<T>(`/api/idle/${serverId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async createWakeToken(serverId: string): Promise<{ token: string }> {
+    return this.request<{ token: string }>(`/api/idle/${serverId}/wake-token`, {
+      method: 'POST',
+    });
+  }
+
+  async revokeWakeToken(serverId: string): Promise<void> {
+    return this.request<void>(`/api/idle/${serverId}/wake-token`, {
+      method: 'DELETE',
+    });
+  }
+
+  getWakeUrl(token: string): string {
+    return `${this.baseUrl}/api/wake/${token}`;
+  }
+
   // ===================================
   // Automation Rules
   // ===================================
@@ -1203,6 +1544,29 @@ class ApiService {
     return this.request<T[]>(`/api/networks/${networkId}/players`);
   }
 
+  // Network bans
+  async getNetworkBans<T = unknown>(networkId: string): Promise<T[]> {
+    return this.request<T[]>(`/api/networks/${networkId}/bans`);
+  }
+
+  async createNetworkBan<T = unknown>(networkId: string, data: {
+    uuid: string;
+    username?: string;
+    reason?: string;
+    duration?: number;
+  }): Promise<T> {
+    return this.request<T>(`/api/networks/${networkId}/bans`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteNetworkBan<T = unknown>(networkId: string, uuid: string): Promise<T> {
+    return this.request<T>(`/api/networks/${networkId}/bans/${uuid}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Network backups
   async getNetworkBackups<T = unknown>(networkId: string): Promise<T[]> {
     return this.request<T[]>(`/api/networks/${networkId}/backups`);
@@ -1242,6 +1606,28 @@ class ApiService {
     });
   }
 
+  async getS3Settings<T = unknown>(): Promise<T> {
+    return this.request<T>('/api/settings/s3');
+  }
+
+  async getS3Status<T = unknown>(): Promise<T> {
+    return this.request<T>('/api/settings/s3/status');
+  }
+
+  async updateS3Settings(data: unknown) {
+    return this.request<{ success: boolean; message: string }>('/api/settings/s3', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async testS3Connection(data: unknown) {
+    return this.request<{ success: boolean; message: string }>('/api/settings/s3/test', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   // ============================================
   // Permissions Endpoints
   // ============================================
@@ -1470,6 +1856,24 @@ class ApiService {
     return this.request(`/api/dashboard/metrics/history?range=${range}`);
   }
 
+  /**
+   * Get aggregated trends, peak player times and uptime for a date range
+   */
+  async getAnalytics<T = unknown>(params: {
+    serverId?: string;
+    start: string;
+    end: string;
+    tzOffset?: number;
+  }): Promise<T> {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        queryParams.append(key, String(value));
+      }
+    });
+    return this.request<T>(`/api/analytics?${queryParams}`);
+  }
+
   /**
    * Get server health overview
    */
@@ -53,6 +53,7 @@ class WebSocketService {
   subscribeToServer(serverId: string, callbacks: {
     onStatus?: (data: any) => void;
     onMetrics?: (data: any) => void;
+    onPlayer?: (data: any) => void;
   }): () => void {
     const socket = this.connectToServers();
 
@@ -78,6 +79,14 @@ class WebSocketService {
       });
     }
 
+    if (callbacks.onPlayer) {
+      const onPlayer = (data: any) => {
+        if (data.serverId === serverId) callbacks.onPlayer!(data);
+      };
+      socket.on('player:joined', onPlayer);
+      socket.on('player:left', onPlayer);
+    }
+
     return () => {
       socket.emit('unsubscribe', { serverId });
     };
@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
@@ -44,11 +45,12 @@ export const useToastStore = create<ToastStore>((set) => ({
   clearAll: () => set({ toasts: [] }),
 }));
 
-// Convenience hook for easier toast usage
+// Convenience hook for easier toast usage. The returned object is stable, so it can be
+// listed in hook dependencies.
 export const useToast = () => {
   const addToast = useToastStore((state) => state.addToast);
 
-  return {
+  return useMemo(() => ({
     success: (title: string, message?: string, duration?: number) =>
       addToast({ type: 'success', title, message, duration }),
     error: (title: string, message?: string, duration?: number) =>
@@ -57,5 +59,5 @@ export const useToast = () => {
       addToast({ type: 'warning', title, message, duration }),
     info: (title: string, message?: string, duration?: number) =>
       addToast({ type: 'info', title, message, duration }),
-  };
+  }), [addToast]);
 };
@@ -2,7 +2,7 @@
 // SERVER TYPES
 // ============================================================================
 
-export type ServerStatus = 'running' | 'stopped' | 'starting' | 'stopping' | 'crashed' | 'orphaned';
+export type ServerStatus = 'running' | 'stopped' | 'starting' | 'stopping' | 'crashed' | 'crash_loop' | 'orphaned';
 export type GameMode = 'exploration' | 'creative' | 'custom';
 export type WorldType = 'normal' | 'nether' | 'end' | 'custom';
 export type Difficulty = 'peaceful' | 'easy' | 'normal' | 'hard';
@@ -257,6 +257,59 @@ export interface Backup {
   downloadUrl?: string;
 }
 
+export interface BackupTreeNode {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size: number; // total size of everything below a directory
+  modifiedAt?: string;
+  children?: BackupTreeNode[];
+}
+
+export type BackupRestoreTarget = 'server' | 'folder';
+
+export interface BackupRestoreFilesResult {
+  restoredFiles: number;
+  destination: string;
+}
+
+export interface BackupDiffEntry {
+  path: string;
+  change: 'added' | 'removed' | 'modified';
+  oldSize: number | null;
+  newSize: number | null;
+  sizeDelta: number;
+}
+
+export interface BackupDiff {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  sizeDelta: number;
+  entries: BackupDiffEntry[];
+}
+
+export type BackupStorageType = 'local' | 'ftp' | 's3';
+
+export interface S3StorageSettings {
+  enabled: boolean;
+  endpoint: string;
+  region: string;
+  bucket: string;
+  prefix: string;
+  accessKeyId: string;
+  secretAccessKey: string; // '***' when set and unchanged
+  forcePathStyle: boolean;
+  configured: boolean;
+}
+
+export interface StorageConnectionStatus {
+  enabled: boolean;
+  connected: boolean;
+  message: string;
+}
+
 export interface BackupSchedule {
   id: string;
   serverId: string;
@@ -320,6 +373,65 @@ export interface ConsoleLog {
   message: string;
 }
 
+/** A persisted console line as returned by the history API */
+export interface ConsoleHistoryEntry {
+  id: string;
+  timestamp: string;
+  level: 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  source?: string;
+}
+
+export interface ConsoleSearchFilters {
+  /** Text to find; a regular expression when regex is set */
+  q?: string;
+  regex?: boolean;
+  /** Comma-separated levels */
+  level?: string;
+  source?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ConsoleSearchPage {
+  logs: ConsoleHistoryEntry[];
+  /** null once there is no older history */
+  nextCursor: string | null;
+}
+
+/** Regex rule turning raw console lines into structured entries */
+export interface LogParseRule {
+  id: string;
+  /** Set for a single server */
+  serverId: string | null;
+  /** Set for every server of an adapter type; both null applies everywhere */
+  adapterType: string | null;
+  name: string;
+  /** Named groups: timestamp, level, thread, source, message */
+  pattern: string;
+  /** Higher runs first within the same scope */
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LogParseRuleInput = Pick<LogParseRule, 'name' | 'pattern' | 'serverId' | 'adapterType' | 'priority' | 'enabled'>;
+
+export interface LogParseTestResult {
+  line: string;
+  /** Name of the matching rule, null when no rule matched */
+  rule: string | null;
+  groups: Record<string, string>;
+  entry: {
+    timestamp: string;
+    level: 'info' | 'warn' | 'error' | 'debug';
+    message: string;
+    source?: string;
+    thread?: string;
+  } | null;
+}
+
 export interface LogFile {
   id: string;
   serverId: string;
@@ -591,6 +703,24 @@ export interface NetworkPlayerInfo {
   isOnline: boolean;
 }
 
+export interface NetworkBan {
+  id: string;
+  networkId: string;
+  uuid: string;
+  username: string;
+  reason: string | null;
+  bannedBy: string | null;
+  bannedAt: string;
+  bannedUntil: string | null; // null for a permanent ban
+}
+
+export interface CreateNetworkBanDto {
+  uuid: string;
+  username?: string;
+  reason?: string;
+  duration?: number; // seconds
+}
+
 export interface BulkOperationResult {
   networkId: string;
   results: ServerOperationResult[];
@@ -602,6 +732,8 @@ export interface ServerOperationResult {
   serverName: string;
   success: boolean;
   error?: string;
+  /** Why the server was left untouched, when it was */
+  skipped?: string;
 }
 
 export interface NetworkBackup {
@@ -720,3 +852,341 @@ export const SUPPORTED_LANGUAGES: Language[] = [
   { code: 'es', label: 'Español' },
   { code: 'pt-BR', label: 'Português (Brasil)' },
 ];
+
+// ============================================================================
+// ALERT POLICY TYPES
+// ============================================================================
+
+export type PolicyAlertType = 'server_down' | 'high_cpu' | 'high_memory' | 'high_disk' | 'high_players';
+
+export interface AlertPolicySettings {
+  cpuWarning: number;
+  cpuCritical: number;
+  memoryWarning: number;
+  memoryCritical: number;
+  diskWarning: number;
+  diskCritical: number;
+  playersWarning: number | null;
+  playersCritical: number | null;
+  minDurationMinutes: number;
+  enabledTypes: PolicyAlertType[];
+}
+
+export interface EffectiveAlertPolicy extends AlertPolicySettings {
+  /** Where the policy comes from: the server itself, a network default, or built-in defaults */
+  source: 'server' | 'network' | 'default';
+  networkId?: string;
+}
+
+export interface NetworkAlertPolicyResponse {
+  policy: AlertPolicySettings | null;
+  defaults: AlertPolicySettings;
+}
+
+// ============================================================================
+// LOG ALERT TYPES
+// ============================================================================
+
+/** Watches server output for a pattern and raises a custom alert */
+export interface LogAlertRule {
+  id: string;
+  /** null watches every server */
+  serverId: string | null;
+  name: string;
+  /** Regular expression, case-insensitive */
+  pattern: string;
+  /** Only lines at this level */
+  level: 'info' | 'warn' | 'error' | 'debug' | null;
+  /** Fires after this many matches within windowMinutes */
+  threshold: number;
+  windowMinutes: number;
+  severity: 'info' | 'warning' | 'critical';
+  notifyDiscord: boolean;
+  /** Automation rule to run when the alert fires */
+  automationRuleId: string | null;
+  enabled: boolean;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LogAlertRuleInput = Pick<
+  LogAlertRule,
+  'name' | 'pattern' | 'serverId' | 'level' | 'threshold' | 'windowMinutes' | 'severity' | 'notifyDiscord' | 'automationRuleId' | 'enabled'
+>;
+
+/** Enough of an automation rule to pick it from a list */
+export interface AutomationRuleSummary {
+  id: string;
+  serverId: string;
+  name: string;
+  enabled: boolean;
+}
+
+// ============================================================================
+// CRASH REPORT TYPES
+// ============================================================================
+
+/** Diagnostics captured when a server crashed */
+export interface CrashReport {
+  id: string;
+  serverId: string;
+  /** Last error line before the crash */
+  summary: string | null;
+  /** Console lines in the bundle */
+  logLines: number;
+  /** JVM error logs and crash reports found in the server directory */
+  files: string[];
+  /** Bundle size in bytes */
+  fileSize: number;
+  createdAt: string;
+}
+
+// ============================================================================
+// RESTART POLICY TYPES
+// ============================================================================
+
+export type RestartPolicyMode = 'never' | 'on-crash' | 'always';
+
+/** Automatic restart settings and current backoff state for a server */
+export interface RestartPolicy {
+  restartPolicy: RestartPolicyMode;
+  /** Restarts allowed within the window before the server is put in crash_loop */
+  restartMaxAttempts: number;
+  restartWindowMinutes: number;
+  /** Base delay, doubled for each recent restart */
+  restartBackoffSeconds: number;
+  recentRestarts: number;
+  /** When a scheduled restart will fire, if one is pending */
+  nextRestartAt: string | null;
+}
+
+// ============================================================================
+// IDLE POLICY TYPES
+// ============================================================================
+
+/** Stop-when-empty settings and current idle state for a server */
+export interface IdlePolicy {
+  idleStopEnabled: boolean;
+  /** Minutes with zero players before the server is stopped */
+  idleStopMinutes: number;
+  /** Cron expression (UTC) for starting the server again after an idle stop */
+  idleWakeCron: string | null;
+  /** Set while the server is stopped by the idle policy */
+  idleSince: string | null;
+  hasWakeToken: boolean;
+  /** When the running server was first seen empty */
+  emptySince: string | null;
+}
+
+// ============================================================================
+// PLAYER DIRECTORY TYPES
+// ============================================================================
+
+export type PlayerStatusFilter = 'all' | 'online' | 'offline' | 'banned';
+export type PlayerSortField = 'lastSeen' | 'playtime' | 'username';
+
+export interface PlayerDirectoryFilters {
+  search?: string;
+  status?: PlayerStatusFilter;
+  sortBy?: PlayerSortField;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+/** A player across every server they have joined */
+export interface PlayerSummary {
+  uuid: string;
+  username: string;
+  isOnline: boolean;
+  onlineServerIds: string[];
+  isBanned: boolean;
+  bannedServerIds: string[];
+  serverCount: number;
+  playtime: number; // seconds, summed over servers
+  firstJoined: string;
+  lastSeen: string;
+}
+
+/** A player's record on a single server */
+export interface PlayerServerRecord {
+  id: string;
+  serverId: string;
+  uuid: string;
+  username: string;
+  firstJoined: string;
+  lastSeen: string;
+  playtime: number; // seconds
+  isOnline: boolean;
+  isBanned: boolean;
+  banReason: string | null;
+  bannedAt: string | null;
+  bannedUntil: string | null;
+  isWhitelisted: boolean;
+  server: { id: string; name: string; status: string };
+}
+
+export interface PlayerProfile extends PlayerSummary {
+  records: PlayerServerRecord[];
+}
+
+export type SessionEndReason = 'left' | 'kicked' | 'banned' | 'server_stopped' | 'server_crashed';
+
+/** One connection of a player to a server */
+export interface PlayerSession {
+  id: string;
+  serverId: string;
+  uuid: string;
+  username: string;
+  joinedAt: string;
+  leftAt: string | null; // null while connected
+  duration: number | null; // seconds
+  disconnectReason: SessionEndReason | null;
+  disconnectMessage: string | null;
+  server?: { id: string; name: string };
+}
+
+export type PlayerSyncField = 'banned' | 'whitelisted' | 'operator';
+export type PlayerSyncResolution = 'file' | 'manager';
+
+/**
+ * A ban/whitelist/operator flag changed both in the server's files and in the manager
+ */
+export interface PlayerSyncConflict {
+  id: string;
+  serverId: string;
+  uuid: string;
+  username: string | null;
+  field: PlayerSyncField;
+  // Bans hold "permanent" or the ISO expiry, other flags "true"; null when not set
+  fileValue: string | null;
+  managerValue: string | null;
+  detectedAt: string;
+  resolvedAt: string | null;
+  resolution: PlayerSyncResolution | 'converged' | null;
+}
+
+export type ModerationCaseType = 'kick' | 'ban' | 'unban' | 'warning' | 'note';
+
+/**
+ * One entry in a player's moderation history
+ */
+export interface ModerationCase {
+  id: string;
+  uuid: string;
+  username: string;
+  type: ModerationCaseType;
+  reason: string | null;
+  duration: number | null; // seconds, bans only
+  serverId: string | null;
+  networkId: string | null;
+  actorId: string | null; // null for system actions such as ban expiry
+  actorName: string;
+  createdAt: string;
+}
+
+export interface ModerationSummary {
+  windowDays: number;
+  warnings: number;
+  kicks: number;
+  bans: number;
+  suggestion: 'temp_ban' | 'permanent_ban' | null;
+}
+
+// ============================================================================
+// CHAT TYPES
+// ============================================================================
+
+export type ChatFilterAction = 'warn' | 'mute' | 'alert';
+
+/** A chat line captured from server output */
+export interface ChatMessage {
+  id: string;
+  serverId: string;
+  uuid: string | null;
+  username: string;
+  message: string;
+  timestamp: string;
+  /** Name of the filter that matched, if any - such lines are reports until reviewed */
+  matchedFilter: string | null;
+  filterAction: ChatFilterAction | null;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+}
+
+export interface ChatSearchFilters {
+  serverId?: string;
+  uuid?: string;
+  username?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  flagged?: boolean;
+  unreviewed?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ChatFilter {
+  id: string;
+  /** null applies to every server */
+  serverId: string | null;
+  name: string;
+  pattern: string;
+  isRegex: boolean;
+  action: ChatFilterAction;
+  /** Console command for mute, with {player} and {uuid} placeholders */
+  command: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ChatFilterInput = Pick<ChatFilter, 'name' | 'pattern' | 'isRegex' | 'action' | 'command' | 'serverId' | 'enabled'>;
+
+// ============================================================================
+// ANALYTICS TYPES
+// ============================================================================
+
+export interface AnalyticsFilters {
+  /** Omit for fleet-wide analytics */
+  serverId?: string;
+  start: string;
+  end: string;
+  /** Minutes from UTC as returned by Date.getTimezoneOffset() */
+  tzOffset?: number;
+}
+
+export interface ServerAnalytics {
+  serverId: string;
+  name: string;
+  avgCpu: number;
+  avgMemory: number;
+  peakPlayers: number;
+  uptimePercent: number | null;
+}
+
+export interface AnalyticsReport {
+  range: { start: string; end: string; bucketMinutes: number };
+  trends: {
+    timestamps: string[];
+    cpu: number[];
+    memory: number[];
+    players: number[];
+    peakPlayers: number[];
+  };
+  peakByHour: number[]; // 24 entries, local hour of day
+  peakByWeekday: number[]; // 7 entries, 0 = Sunday
+  peakByWeekdayHour: number[][]; // [weekday][hour]
+  summary: {
+    avgCpu: number;
+    avgMemory: number;
+    avgPlayers: number;
+    peakPlayers: number;
+    peakAt: string | null;
+    uptimePercent: number | null;
+    sampleCount: number;
+  };
+  servers: ServerAnalytics[];
+}
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ServerEventDispatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "payload" TEXT,
+    "results" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ServerEventDispatch_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ServerEventDispatch_serverId_idx" ON "ServerEventDispatch"("serverId");
+
+-- CreateIndex
+CREATE INDEX "ServerEventDispatch_eventType_idx" ON "ServerEventDispatch"("eventType");
+
+-- CreateIndex
+CREATE INDEX "ServerEventDispatch_createdAt_idx" ON "ServerEventDispatch"("createdAt");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "AlertPolicy" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT,
+    "networkId" TEXT,
+    "cpuWarning" REAL NOT NULL DEFAULT 80,
+    "cpuCritical" REAL NOT NULL DEFAULT 95,
+    "memoryWarning" REAL NOT NULL DEFAULT 85,
+    "memoryCritical" REAL NOT NULL DEFAULT 95,
+    "diskWarning" REAL NOT NULL DEFAULT 85,
+    "diskCritical" REAL NOT NULL DEFAULT 95,
+    "playersWarning" INTEGER,
+    "playersCritical" INTEGER,
+    "minDurationMinutes" INTEGER NOT NULL DEFAULT 0,
+    "enabledTypes" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AlertPolicy_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AlertPolicy_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "ServerNetwork" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AlertPolicy_serverId_key" ON "AlertPolicy"("serverId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AlertPolicy_networkId_key" ON "AlertPolicy"("networkId");
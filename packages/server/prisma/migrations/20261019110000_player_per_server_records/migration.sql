@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "Player_uuid_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_serverId_uuid_key" ON "Player"("serverId", "uuid");
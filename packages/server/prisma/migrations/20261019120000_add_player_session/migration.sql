@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PlayerSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" DATETIME,
+    "duration" INTEGER,
+    "disconnectReason" TEXT,
+    "disconnectMessage" TEXT,
+    CONSTRAINT "PlayerSession_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PlayerSession_serverId_joinedAt_idx" ON "PlayerSession"("serverId", "joinedAt");
+
+-- CreateIndex
+CREATE INDEX "PlayerSession_uuid_joinedAt_idx" ON "PlayerSession"("uuid", "joinedAt");
+
+-- CreateIndex
+CREATE INDEX "PlayerSession_leftAt_idx" ON "PlayerSession"("leftAt");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "PlayerFileSnapshot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT NOT NULL,
+    "file" TEXT NOT NULL,
+    "entries" TEXT NOT NULL,
+    "syncedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PlayerFileSnapshot_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PlayerSyncConflict" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "username" TEXT,
+    "field" TEXT NOT NULL,
+    "fileValue" TEXT,
+    "managerValue" TEXT,
+    "detectedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" DATETIME,
+    "resolution" TEXT,
+    CONSTRAINT "PlayerSyncConflict_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlayerFileSnapshot_serverId_file_key" ON "PlayerFileSnapshot"("serverId", "file");
+
+-- CreateIndex
+CREATE INDEX "PlayerSyncConflict_serverId_resolvedAt_idx" ON "PlayerSyncConflict"("serverId", "resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "PlayerSyncConflict_uuid_idx" ON "PlayerSyncConflict"("uuid");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "NetworkBan" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "networkId" TEXT NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "reason" TEXT,
+    "bannedBy" TEXT,
+    "bannedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bannedUntil" DATETIME,
+    CONSTRAINT "NetworkBan_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "ServerNetwork" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NetworkBan_networkId_uuid_key" ON "NetworkBan"("networkId", "uuid");
+
+-- CreateIndex
+CREATE INDEX "NetworkBan_bannedUntil_idx" ON "NetworkBan"("bannedUntil");
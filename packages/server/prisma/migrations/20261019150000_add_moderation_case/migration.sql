@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ModerationCase" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "uuid" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "reason" TEXT,
+    "duration" INTEGER,
+    "serverId" TEXT,
+    "networkId" TEXT,
+    "actorId" TEXT,
+    "actorName" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ModerationCase_uuid_createdAt_idx" ON "ModerationCase"("uuid", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationCase_serverId_idx" ON "ModerationCase"("serverId");
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "ChatMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT NOT NULL,
+    "uuid" TEXT,
+    "username" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "matchedFilter" TEXT,
+    "filterAction" TEXT,
+    "reviewedAt" DATETIME,
+    "reviewedBy" TEXT,
+    CONSTRAINT "ChatMessage_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ChatFilter" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT,
+    "name" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "isRegex" BOOLEAN NOT NULL DEFAULT false,
+    "action" TEXT NOT NULL,
+    "command" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ChatFilter_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_serverId_timestamp_idx" ON "ChatMessage"("serverId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_uuid_timestamp_idx" ON "ChatMessage"("uuid", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_matchedFilter_reviewedAt_idx" ON "ChatMessage"("matchedFilter", "reviewedAt");
+
+-- CreateIndex
+CREATE INDEX "ChatFilter_serverId_idx" ON "ChatFilter"("serverId");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ConsoleLog_serverId_timestamp_idx" ON "ConsoleLog"("serverId", "timestamp");
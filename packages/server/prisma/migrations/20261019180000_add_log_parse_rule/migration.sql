@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "LogParseRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT,
+    "adapterType" TEXT,
+    "name" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LogParseRule_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LogParseRule_serverId_idx" ON "LogParseRule"("serverId");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "LogAlertRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT,
+    "name" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "level" TEXT,
+    "threshold" INTEGER NOT NULL DEFAULT 1,
+    "windowMinutes" INTEGER NOT NULL DEFAULT 5,
+    "severity" TEXT NOT NULL,
+    "notifyDiscord" BOOLEAN NOT NULL DEFAULT true,
+    "automationRuleId" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastTriggeredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LogAlertRule_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LogAlertRule_automationRuleId_fkey" FOREIGN KEY ("automationRuleId") REFERENCES "AutomationRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LogAlertRule_serverId_idx" ON "LogAlertRule"("serverId");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "CrashReport" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serverId" TEXT NOT NULL,
+    "summary" TEXT,
+    "logLines" INTEGER NOT NULL,
+    "files" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CrashReport_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "Server" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CrashReport_serverId_createdAt_idx" ON "CrashReport"("serverId", "createdAt");
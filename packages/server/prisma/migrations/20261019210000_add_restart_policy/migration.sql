@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Server" ADD COLUMN "restartPolicy" TEXT NOT NULL DEFAULT 'never';
+ALTER TABLE "Server" ADD COLUMN "restartMaxAttempts" INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE "Server" ADD COLUMN "restartWindowMinutes" INTEGER NOT NULL DEFAULT 10;
+ALTER TABLE "Server" ADD COLUMN "restartBackoffSeconds" INTEGER NOT NULL DEFAULT 10;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Server" ADD COLUMN "idleStopEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Server" ADD COLUMN "idleStopMinutes" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "Server" ADD COLUMN "idleWakeCron" TEXT;
+ALTER TABLE "Server" ADD COLUMN "wakeTokenHash" TEXT;
+ALTER TABLE "Server" ADD COLUMN "idleSince" DATETIME;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Server_wakeTokenHash_key" ON "Server"("wakeTokenHash");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Server" ADD COLUMN "backupMode" TEXT NOT NULL DEFAULT 'full';
+
+-- AlterTable
+ALTER TABLE "Backup" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'zip';
@@ -9,6 +9,7 @@ import {
   ModMetadata,
   InstalledFile,
   Backup,
+  ProcessExit,
 } from '../types';
 
 /**
@@ -26,7 +27,8 @@ export interface IServerAdapter {
   // ============================================
 
   /**
-   * Start the server
+   * Start the server. Resolves once the process is up; the status stays
+   * 'starting' until the server reports ready, then moves to 'running'.
    */
   start(): Promise<void>;
 
@@ -86,6 +88,18 @@ export interface IServerAdapter {
    */
   getMetrics(): Promise<ServerMetrics>;
 
+  /**
+   * Subscribe to process status transitions (e.g. running -> crashed)
+   * @returns Function that removes the listener
+   */
+  onStatusChange(callback: (status: ServerStatus['status']) => void): () => void;
+
+  /**
+   * Subscribe to server process exits, including whether the manager asked for it
+   * @returns Function that removes the listener
+   */
+  onExit(callback: (exit: ProcessExit) => void): () => void;
+
   // ============================================
   // Configuration
   // ============================================
@@ -120,6 +134,13 @@ export interface IServerAdapter {
    */
   stopLogStream(): void;
 
+  /**
+   * Subscribe to log output for internal consumers.
+   * Unlike streamLogs, these listeners are not cleared by stopLogStream.
+   * @returns Function that removes the listener
+   */
+  onLog(callback: (log: LogEntry) => void): () => void;
+
   /**
    * Get historical logs
    */
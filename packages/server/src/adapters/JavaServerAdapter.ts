@@ -1,4 +1,4 @@
-import { ChildProcess, spawn, execSync } from 'child_process';
+import { ChildProcess, StdioOptions, spawn, execSync, execFileSync } from 'child_process';
 import path from 'path';
 import fs from 'fs-extra';
 import pidusage from 'pidusage';
@@ -16,13 +16,23 @@ import {
   ModMetadata,
   InstalledFile,
   Backup,
+  ProcessExit,
 } from '../types';
 import { IServerAdapter } from './IServerAdapter';
+import { LogTailService } from '../services/LogTailService';
+import { LogLineParser, createDefaultLogParser } from '../services/LogParserService';
+import { ReadinessConfig, ReadinessProbe } from '../services/ReadinessProbe';
 import logger from '../utils/logger';
 
+// Size at which the detached console log is copied aside and truncated
+const CONSOLE_LOG_MAX_BYTES = 50 * 1024 * 1024;
+const CONSOLE_LOG_CHECK_MS = 60 * 1000;
+
 /**
  * Java Server Adapter - Simplified
- * Uses stdin for commands and stdout/stderr for logs. No RCON, no log tailing.
+ * Uses stdin for commands and stdout/stderr for logs. No RCON.
+ * Outside Windows the server reads stdin from a named FIFO and writes to a console log
+ * under <serverPath>/.hsm, so commands and live console survive a manager restart.
  */
 export class JavaServerAdapter implements IServerAdapter {
   private serverId: string;
@@ -30,6 +40,9 @@ export class JavaServerAdapter implements IServerAdapter {
   private status: ServerStatus;
   private process: ChildProcess | null = null;
   private logCallbacks: ((log: LogEntry) => void)[] = [];
+  private logListeners: ((log: LogEntry) => void)[] = [];
+  private statusListeners: ((status: ServerStatus['status']) => void)[] = [];
+  private exitListeners: ((exit: ProcessExit) => void)[] = [];
   private startTime: Date | null = null;
   private logBuffer: LogEntry[] = [];
   private maxLogBuffer = 1000;
@@ -45,13 +58,29 @@ export class JavaServerAdapter implements IServerAdapter {
   private hasCustomJvmArgs: boolean;
 
   private prisma: PrismaClient;
+  private logTailService: LogTailService | null;
+  private parseLogLine: LogLineParser;
+
+  // Set when reconnected to a process this manager did not spawn
+  private reconnectedPid: number | null = null;
+  private pidWatchInterval: NodeJS.Timeout | null = null;
+
+  // Write end of the stdin FIFO when the server runs with a detached console
+  private stdinFd: number | null = null;
+  private consoleLogInterval: NodeJS.Timeout | null = null;
+
+  // Set by stop/kill so the exit that follows is not treated as a crash
+  private stopRequested = false;
+
+  private readiness: ReadinessConfig;
+  private readinessProbe: ReadinessProbe | null = null;
 
   constructor(
     serverId: string,
     config: ServerConfig,
     prisma: PrismaClient,
     _rconService: any, // Unused but kept for interface compatibility
-    _logTailService: any, // Unused but kept for interface compatibility
+    logTailService: LogTailService | null,
     adapterConfig?: {
       javaPath?: string;
       jarFile?: string;
@@ -60,12 +89,20 @@ export class JavaServerAdapter implements IServerAdapter {
       maxMemory?: string;
       javaArgs?: string[];
       serverArgs?: string[];
-    }
+    } & ReadinessConfig,
+    logParser?: LogLineParser
   ) {
     this.serverId = serverId;
     this.config = config;
     this.workingDirectory = config.serverPath;
     this.prisma = prisma;
+    this.logTailService = logTailService;
+    this.parseLogLine = logParser || createDefaultLogParser('server');
+    this.readiness = {
+      readyLogPattern: adapterConfig?.readyLogPattern,
+      readyUdpCheck: adapterConfig?.readyUdpCheck,
+      readyTimeoutSeconds: adapterConfig?.readyTimeoutSeconds,
+    };
 
     // Java configuration with defaults
     this.javaPath = adapterConfig?.javaPath || 'java';
@@ -153,19 +190,35 @@ export class JavaServerAdapter implements IServerAdapter {
     logger.info(`[JavaAdapter] Starting server ${this.serverId}`);
     logger.info(`[JavaAdapter] Command: ${this.javaPath} ${this.javaArgs.join(' ')} ${jarFileName} ${this.serverArgs.join(' ')}`);
 
-    this.status.status = 'starting';
+    this.setStatus('starting');
+    this.stopRequested = false;
 
     try {
-      this.process = spawn(
-        this.javaPath,
-        [...this.javaArgs, jarFileName, ...this.serverArgs],
-        {
-          cwd: jarDir,
-          stdio: ['pipe', 'pipe', 'pipe'],
-          env: { ...process.env },
-          windowsHide: true,
+      const detached = await this.prepareDetachedConsole();
+      const stdio: StdioOptions = detached
+        ? [detached.stdinFd, detached.outputFd, detached.outputFd]
+        : ['pipe', 'pipe', 'pipe'];
+
+      try {
+        this.process = spawn(
+          this.javaPath,
+          [...this.javaArgs, jarFileName, ...this.serverArgs],
+          {
+            cwd: jarDir,
+            stdio,
+            env: { ...process.env },
+            windowsHide: true,
+            // Own process group so the server outlives the manager
+            detached: !!detached,
+          }
+        );
+      } finally {
+        if (detached) {
+          // The child holds its own copies now
+          fs.closeSync(detached.stdinFd);
+          fs.closeSync(detached.outputFd);
         }
-      );
+      }
 
       this.startTime = new Date();
 
@@ -173,21 +226,34 @@ export class JavaServerAdapter implements IServerAdapter {
       if (this.process.pid) {
         await this.prisma.server.update({
           where: { id: this.serverId },
-          data: { pid: this.process.pid, startedAt: this.startTime },
+          data: {
+            pid: this.process.pid,
+            startedAt: this.startTime,
+            logFilePath: detached ? this.getConsoleLogPath() : null,
+          },
         });
       }
 
+      if (detached) {
+        this.process.unref();
+        this.openStdinFifo();
+        await this.logTailService!.startTailing(
+          this.serverId,
+          this.getConsoleLogPath(),
+          (log) => this.handleOutput(log),
+          0,
+          this.parseLogLine
+        );
+        this.startConsoleLogRotation();
+      }
+
       // Handle stdout
       this.process.stdout?.on('data', (data: Buffer) => {
         const lines = data.toString().split('\n').filter(line => line.trim());
         lines.forEach(line => {
-          const logEntry = this.parseLogLine(line);
-          this.emitLog(logEntry);
-
-          // Detect server ready
-          if (line.includes('Done') && line.includes('For help')) {
-            this.status.status = 'running';
-            logger.info(`[JavaAdapter] Server ${this.serverId} is now running`);
+          const log = this.parseLogLine(line);
+          if (log) {
+            this.handleOutput(log);
           }
         });
       });
@@ -209,15 +275,20 @@ export class JavaServerAdapter implements IServerAdapter {
       this.process.on('exit', async (code) => {
         logger.info(`[JavaAdapter] Server ${this.serverId} exited with code ${code}`);
         this.process = null;
+        this.stopReadinessProbe();
+        await this.closeDetachedConsole();
         this.status.playerCount = 0;
         this.startTime = null;
 
+        const requested = this.stopRequested;
+        const crashed = !requested && code !== 0 && code !== 8;
+
         // Exit code 8 = server requests restart for update (Hytale convention)
         if (code === 8) {
-          this.status.status = 'stopped';
+          this.setStatus('stopped');
           logger.info(`[JavaAdapter] Server ${this.serverId} requested update (exit code 8)`);
         } else {
-          this.status.status = code === 0 ? 'stopped' : 'crashed';
+          this.setStatus(crashed ? 'crashed' : 'stopped');
         }
 
         await this.prisma.server.update({
@@ -227,12 +298,14 @@ export class JavaServerAdapter implements IServerAdapter {
 
         this.emitLog({
           timestamp: new Date(),
-          level: code === 0 || code === 8 ? 'info' : 'error',
+          level: crashed ? 'error' : 'info',
           message: code === 8
             ? 'Server stopped for update (exit code: 8)'
-            : `Server ${code === 0 ? 'stopped' : 'crashed'} (exit code: ${code})`,
+            : `Server ${crashed ? 'crashed' : 'stopped'} (exit code: ${code})`,
           source: 'system',
         });
+
+        this.emitExit({ code, crashed, requested });
       });
 
       this.process.on('error', (error) => {
@@ -251,17 +324,14 @@ export class JavaServerAdapter implements IServerAdapter {
         throw new Error('Server process terminated unexpectedly');
       }
 
-      // Auto-set to running after 30 seconds if not detected
-      setTimeout(() => {
-        if (this.process && this.status.status === 'starting') {
-          this.status.status = 'running';
-        }
-      }, 30000);
+      this.startReadinessProbe();
 
       logger.info(`[JavaAdapter] Server ${this.serverId} started (PID: ${this.process.pid})`);
     } catch (error: any) {
-      this.status.status = 'stopped';
+      this.stopReadinessProbe();
+      this.setStatus('stopped');
       this.process = null;
+      await this.closeDetachedConsole();
       await this.prisma.server.update({
         where: { id: this.serverId },
         data: { pid: null, startedAt: null },
@@ -272,11 +342,15 @@ export class JavaServerAdapter implements IServerAdapter {
 
   async stop(): Promise<void> {
     if (!this.process) {
+      if (this.reconnectedPid) {
+        await this.stopReconnected();
+      }
       return;
     }
 
     logger.info(`[JavaAdapter] Stopping server ${this.serverId}`);
-    this.status.status = 'stopping';
+    this.stopRequested = true;
+    this.setStatus('stopping');
 
     // Send stop command via stdin
     await this.sendCommand('stop');
@@ -297,7 +371,7 @@ export class JavaServerAdapter implements IServerAdapter {
       this.process = null;
     }
 
-    this.status.status = 'stopped';
+    this.setStatus('stopped');
     await this.prisma.server.update({
       where: { id: this.serverId },
       data: { pid: null, startedAt: null },
@@ -311,11 +385,21 @@ export class JavaServerAdapter implements IServerAdapter {
   }
 
   async kill(): Promise<void> {
+    this.stopRequested = true;
     if (this.process) {
       this.process.kill('SIGKILL');
       this.process = null;
+    } else if (this.reconnectedPid) {
+      this.stopPidWatch();
+      try {
+        process.kill(this.reconnectedPid, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+      this.reconnectedPid = null;
+      await this.closeDetachedConsole();
     }
-    this.status.status = 'stopped';
+    this.setStatus('stopped');
     this.status.playerCount = 0;
     this.startTime = null;
     await this.prisma.server.update({
@@ -332,6 +416,10 @@ export class JavaServerAdapter implements IServerAdapter {
     if (this.startTime && this.status.status === 'running') {
       this.status.uptime = Math.floor((Date.now() - this.startTime.getTime()) / 1000);
     }
+    // Presence is tracked from log output and persisted on the Player table
+    this.status.playerCount = this.status.status === 'running'
+      ? await this.prisma.player.count({ where: { serverId: this.serverId, isOnline: true } })
+      : 0;
     return { ...this.status };
   }
 
@@ -353,7 +441,7 @@ export class JavaServerAdapter implements IServerAdapter {
       }
     }
 
-    const pid = this.process?.pid;
+    const pid = this.getPid();
     if (pid && this.status.status === 'running') {
       try {
         if (os.platform() === 'win32') {
@@ -428,7 +516,8 @@ export class JavaServerAdapter implements IServerAdapter {
   // ============================================
 
   async sendCommand(command: string): Promise<CommandResponse> {
-    if (!this.process || !this.process.stdin || !this.process.stdin.writable) {
+    const stdin = this.process?.stdin;
+    if (this.stdinFd === null && (!stdin || !stdin.writable)) {
       return {
         success: false,
         output: 'Server is not running',
@@ -437,7 +526,11 @@ export class JavaServerAdapter implements IServerAdapter {
     }
 
     try {
-      this.process.stdin.write(command + '\n');
+      if (this.stdinFd !== null) {
+        fs.writeSync(this.stdinFd, command + '\n');
+      } else {
+        stdin!.write(command + '\n');
+      }
       return {
         success: true,
         output: `Command sent: ${command}`,
@@ -462,6 +555,27 @@ export class JavaServerAdapter implements IServerAdapter {
     this.logCallbacks = [];
   }
 
+  onLog(callback: (log: LogEntry) => void): () => void {
+    this.logListeners.push(callback);
+    return () => {
+      this.logListeners = this.logListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  onStatusChange(callback: (status: ServerStatus['status']) => void): () => void {
+    this.statusListeners.push(callback);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  onExit(callback: (exit: ProcessExit) => void): () => void {
+    this.exitListeners.push(callback);
+    return () => {
+      this.exitListeners = this.exitListeners.filter(cb => cb !== callback);
+    };
+  }
+
   async getLogs(limit: number = 100): Promise<LogEntry[]> {
     return this.logBuffer.slice(-limit);
   }
@@ -471,14 +585,38 @@ export class JavaServerAdapter implements IServerAdapter {
   // ============================================
 
   async getPlayers(): Promise<Player[]> {
-    return [];
+    const players = await this.prisma.player.findMany({
+      where: { serverId: this.serverId, isOnline: true },
+      orderBy: { lastSeen: 'desc' },
+    });
+
+    return players.map(p => ({
+      id: p.id,
+      serverId: p.serverId,
+      uuid: p.uuid,
+      username: p.username,
+      isOnline: p.isOnline,
+      firstJoined: p.firstJoined,
+      lastSeen: p.lastSeen,
+      playtime: p.playtime,
+      isBanned: p.isBanned,
+      banReason: p.banReason || undefined,
+      bannedAt: p.bannedAt || undefined,
+      bannedUntil: p.bannedUntil || undefined,
+      isWhitelisted: p.isWhitelisted,
+      isOperator: p.isOperator,
+    }));
   }
 
   async kickPlayer(uuid: string, reason?: string): Promise<void> {
     await this.sendCommand(`kick ${uuid} ${reason || ''}`);
   }
 
-  async banPlayer(uuid: string, reason?: string): Promise<void> {
+  async banPlayer(uuid: string, reason?: string, duration?: number): Promise<void> {
+    // The ban command has no duration - BanExpiryService pardons the player once it is up
+    if (duration) {
+      logger.info(`[JavaAdapter] Temporary ban for ${uuid} (${duration}s), expiry handled by the manager`);
+    }
     await this.sendCommand(`ban ${uuid} ${reason || ''}`);
   }
 
@@ -691,49 +829,113 @@ export class JavaServerAdapter implements IServerAdapter {
   }
 
   // ============================================
-  // Reconnect (simplified - just check if process exists)
+  // Reconnect (reattach stdin FIFO and console log)
   // ============================================
 
   async reconnect(pid: number): Promise<boolean> {
     try {
       process.kill(pid, 0); // Check if process exists
-      this.status.status = 'running';
-      const server = await this.prisma.server.findUnique({ where: { id: this.serverId } });
-      if (server?.startedAt) {
-        this.startTime = server.startedAt;
-      }
-      return true;
     } catch {
       return false;
     }
+
+    this.reconnectedPid = pid;
+    this.setStatus('running');
+    const server = await this.prisma.server.findUnique({ where: { id: this.serverId } });
+    if (server?.startedAt) {
+      this.startTime = server.startedAt;
+    }
+
+    // Servers launched with a detached console still read commands from the FIFO
+    if (await fs.pathExists(this.getStdinFifoPath())) {
+      try {
+        this.openStdinFifo();
+      } catch (error) {
+        logger.warn(`[JavaAdapter] Failed to reopen stdin for ${this.serverId}, commands unavailable:`, error);
+      }
+    }
+
+    // Follow the console log it writes to, falling back to the server's own log file
+    if (this.logTailService) {
+      const logPath = server?.logFilePath || LogTailService.findLogFile(this.workingDirectory);
+      if (logPath) {
+        try {
+          await this.logTailService.startTailing(this.serverId, logPath, (log) => this.handleOutput(log), 0, this.parseLogLine);
+          if (logPath === this.getConsoleLogPath()) {
+            this.startConsoleLogRotation();
+          }
+        } catch (error) {
+          logger.warn(`[JavaAdapter] Failed to tail log file for ${this.serverId}:`, error);
+        }
+      }
+    }
+
+    // No exit event for a process we didn't spawn - poll for it instead
+    this.pidWatchInterval = setInterval(() => this.checkReconnectedProcess(), 5000);
+
+    return true;
   }
 
   async disconnect(): Promise<void> {
-    // Nothing to disconnect - no RCON/log tail
+    this.stopPidWatch();
+    this.stopConsoleLogRotation();
+    this.closeStdinFifo();
+    if (this.logTailService) {
+      await this.logTailService.stopTailing(this.serverId);
+    }
   }
 
   isConnected(): boolean {
-    return !!this.process;
+    return !!this.process || !!this.reconnectedPid;
   }
 
   getPid(): number | null {
-    return this.process?.pid || null;
+    return this.process?.pid || this.reconnectedPid || null;
   }
 
   // ============================================
   // Private Helpers
   // ============================================
 
-  private parseLogLine(line: string): LogEntry {
-    let level: 'info' | 'warn' | 'error' | 'debug' = 'info';
-    if (line.includes('/WARN') || line.includes('[WARN]') || line.includes('WARN]')) {
-      level = 'warn';
-    } else if (line.includes('/ERROR') || line.includes('[ERROR]') || line.includes('SEVERE]')) {
-      level = 'error';
-    } else if (line.includes('/DEBUG') || line.includes('[DEBUG]')) {
-      level = 'debug';
-    }
-    return { timestamp: new Date(), level, message: line, source: 'server' };
+  /**
+   * Handle a line of server output, whether piped or tailed from the console log
+   */
+  private handleOutput(log: LogEntry): void {
+    this.emitLog(log);
+    this.readinessProbe?.handleLog(log.message);
+  }
+
+  /**
+   * Stay in 'starting' until the readiness checks pass; a configured probe that
+   * times out stops the server so callers waiting on the start see it fail
+   */
+  private startReadinessProbe(): void {
+    this.stopReadinessProbe();
+    const probe = new ReadinessProbe(this.readiness, this.config.address, this.config.port, {
+      onReady: () => {
+        this.readinessProbe = null;
+        if (!this.process || this.status.status !== 'starting') return;
+        this.setStatus('running');
+        logger.info(`[JavaAdapter] Server ${this.serverId} is now running`);
+      },
+      onTimeout: () => {
+        this.readinessProbe = null;
+        if (!this.process || this.status.status !== 'starting') return;
+        const message = `Server did not become ready within ${probe.timeoutSeconds} seconds, stopping it`;
+        logger.warn(`[JavaAdapter] ${this.serverId}: ${message}`);
+        this.emitLog({ timestamp: new Date(), level: 'error', message, source: 'system' });
+        this.kill().catch((error) => {
+          logger.error(`[JavaAdapter] Failed to stop server ${this.serverId} after readiness timeout:`, error);
+        });
+      },
+    });
+    this.readinessProbe = probe;
+    probe.start();
+  }
+
+  private stopReadinessProbe(): void {
+    this.readinessProbe?.stop();
+    this.readinessProbe = null;
   }
 
   private emitLog(log: LogEntry): void {
@@ -741,7 +943,7 @@ export class JavaServerAdapter implements IServerAdapter {
     if (this.logBuffer.length > this.maxLogBuffer) {
       this.logBuffer.shift();
     }
-    this.logCallbacks.forEach(callback => {
+    [...this.logCallbacks, ...this.logListeners].forEach(callback => {
       try {
         callback(log);
       } catch (error) {
@@ -749,4 +951,203 @@ export class JavaServerAdapter implements IServerAdapter {
       }
     });
   }
+
+  private setStatus(status: ServerStatus['status']): void {
+    if (this.status.status === status) return;
+    this.status.status = status;
+    this.statusListeners.forEach(callback => {
+      try {
+        callback(status);
+      } catch (error) {
+        logger.error('Error in status callback:', error);
+      }
+    });
+  }
+
+  private emitExit(exit: ProcessExit): void {
+    this.exitListeners.forEach(callback => {
+      try {
+        callback(exit);
+      } catch (error) {
+        logger.error('Error in exit callback:', error);
+      }
+    });
+  }
+
+  private async checkReconnectedProcess(): Promise<void> {
+    if (!this.reconnectedPid) return;
+    try {
+      process.kill(this.reconnectedPid, 0);
+    } catch {
+      logger.warn(`[JavaAdapter] Reconnected server ${this.serverId} (PID: ${this.reconnectedPid}) is gone`);
+      this.stopPidWatch();
+      this.reconnectedPid = null;
+      this.startTime = null;
+      await this.closeDetachedConsole();
+      this.setStatus('crashed');
+      await this.prisma.server.update({
+        where: { id: this.serverId },
+        data: { pid: null, startedAt: null, status: 'crashed' },
+      });
+      this.emitExit({ code: null, crashed: true, requested: false });
+    }
+  }
+
+  private stopPidWatch(): void {
+    if (this.pidWatchInterval) {
+      clearInterval(this.pidWatchInterval);
+      this.pidWatchInterval = null;
+    }
+  }
+
+  /**
+   * Stop a server we reconnected to: send "stop" through the FIFO, then wait for the PID to go away
+   */
+  private async stopReconnected(): Promise<void> {
+    const pid = this.reconnectedPid!;
+    logger.info(`[JavaAdapter] Stopping reconnected server ${this.serverId} (PID: ${pid})`);
+    this.stopRequested = true;
+    this.stopPidWatch();
+    this.setStatus('stopping');
+
+    await this.sendCommand('stop');
+
+    const deadline = Date.now() + 30000;
+    while (Date.now() < deadline && this.isPidAlive(pid)) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    if (this.isPidAlive(pid)) {
+      logger.warn(`[JavaAdapter] Force killing server ${this.serverId}`);
+      try {
+        process.kill(pid, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }
+
+    this.reconnectedPid = null;
+    this.startTime = null;
+    this.status.playerCount = 0;
+    await this.closeDetachedConsole();
+    this.setStatus('stopped');
+    await this.prisma.server.update({
+      where: { id: this.serverId },
+      data: { pid: null, startedAt: null },
+    });
+  }
+
+  private isPidAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // ============================================
+  // Detached Console (FIFO stdin + file-backed stdout)
+  // ============================================
+
+  private getConsoleDir(): string {
+    return path.join(this.workingDirectory, '.hsm');
+  }
+
+  private getStdinFifoPath(): string {
+    return path.join(this.getConsoleDir(), 'stdin');
+  }
+
+  private getConsoleLogPath(): string {
+    return path.join(this.getConsoleDir(), 'console.log');
+  }
+
+  /**
+   * Create the stdin FIFO and a fresh console log so the server doesn't depend on
+   * pipes owned by this process. Returns null (use pipes) where FIFOs aren't available.
+   */
+  private async prepareDetachedConsole(): Promise<{ stdinFd: number; outputFd: number } | null> {
+    if (os.platform() === 'win32' || !this.logTailService) {
+      return null;
+    }
+
+    const fifoPath = this.getStdinFifoPath();
+    try {
+      await fs.ensureDir(this.getConsoleDir());
+      await fs.remove(fifoPath);
+      execFileSync('mkfifo', ['-m', '600', fifoPath]);
+    } catch (error) {
+      logger.warn(`[JavaAdapter] Could not create stdin FIFO for ${this.serverId}, using pipes:`, error);
+      return null;
+    }
+
+    // Read-write so opening doesn't block and the server never sees EOF when no writer is attached
+    const stdinFd = fs.openSync(fifoPath, fs.constants.O_RDWR);
+    // Append mode, so the server's writes land at the start again after the log is truncated
+    const outputFd = fs.openSync(
+      this.getConsoleLogPath(),
+      fs.constants.O_WRONLY | fs.constants.O_CREAT | fs.constants.O_TRUNC | fs.constants.O_APPEND
+    );
+    return { stdinFd, outputFd };
+  }
+
+  private startConsoleLogRotation(): void {
+    this.stopConsoleLogRotation();
+    this.consoleLogInterval = setInterval(() => {
+      this.rotateConsoleLog().catch((error) => {
+        logger.warn(`[JavaAdapter] Failed to rotate console log for ${this.serverId}:`, error);
+      });
+    }, CONSOLE_LOG_CHECK_MS);
+  }
+
+  private stopConsoleLogRotation(): void {
+    if (this.consoleLogInterval) {
+      clearInterval(this.consoleLogInterval);
+      this.consoleLogInterval = null;
+    }
+  }
+
+  /**
+   * Keep the previous chunk of console output in console.log.1 and truncate the live log.
+   * The server still holds the file open, so it is truncated in place rather than renamed;
+   * the log tail starts over from the top once it sees the file shrink.
+   */
+  private async rotateConsoleLog(): Promise<void> {
+    const logPath = this.getConsoleLogPath();
+    const stats = await fs.stat(logPath);
+    if (stats.size < CONSOLE_LOG_MAX_BYTES) return;
+
+    await fs.copy(logPath, `${logPath}.1`, { overwrite: true });
+    await fs.truncate(logPath, 0);
+    logger.info(`[JavaAdapter] Rotated console log for ${this.serverId} at ${Math.round(stats.size / 1024 / 1024)} MB`);
+  }
+
+  private openStdinFifo(): void {
+    this.closeStdinFifo();
+    // Non-blocking: fails with ENXIO instead of hanging if nothing holds the read end
+    this.stdinFd = fs.openSync(this.getStdinFifoPath(), fs.constants.O_WRONLY | fs.constants.O_NONBLOCK);
+  }
+
+  private closeStdinFifo(): void {
+    if (this.stdinFd !== null) {
+      try {
+        fs.closeSync(this.stdinFd);
+      } catch {
+        // Already closed
+      }
+      this.stdinFd = null;
+    }
+  }
+
+  /**
+   * Release the FIFO and stop tailing once the last lines of output have been read
+   */
+  private async closeDetachedConsole(): Promise<void> {
+    this.stopConsoleLogRotation();
+    this.closeStdinFifo();
+    if (this.logTailService?.isTailing(this.serverId)) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      await this.logTailService.stopTailing(this.serverId);
+    }
+  }
 }
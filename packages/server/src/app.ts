@@ -17,6 +17,16 @@ import { ServerService } from './services/ServerService';
 import { ConsoleService } from './services/ConsoleService';
 import { ModService } from './services/ModService';
 import { PlayerService } from './services/PlayerService';
+import { PlayerPresenceService } from './services/PlayerPresenceService';
+import { PlayerFileSyncService } from './services/PlayerFileSyncService';
+import { BanExpiryService } from './services/BanExpiryService';
+import { ModerationService } from './services/ModerationService';
+import { ChatService } from './services/ChatService';
+import { LogParserService } from './services/LogParserService';
+import { LogAlertService } from './services/LogAlertService';
+import { CrashReportService } from './services/CrashReportService';
+import { IdleService } from './services/IdleService';
+import { ServerEventBus, ServerEventType } from './services/ServerEventBus';
 import { BackupService } from './services/BackupService';
 import { SchedulerService } from './services/SchedulerService';
 import { TaskGroupService } from './services/TaskGroupService';
@@ -24,12 +34,13 @@ import { FileService } from './services/FileService';
 import { MetricsService } from './services/MetricsService';
 import { WorldsService } from './services/WorldsService';
 import { AlertsService } from './services/AlertsService';
-import { AutomationRulesService } from './services/AutomationRulesService';
-import { DiscordNotificationService } from './services/DiscordNotificationService';
+import { AutomationRulesService, AUTOMATION_EVENT_TYPES } from './services/AutomationRulesService';
+import { DiscordNotificationService, NotificationEvent } from './services/DiscordNotificationService';
 import { NetworkService } from './services/NetworkService';
 import { PermissionService } from './services/PermissionService';
 import { SettingsService } from './services/SettingsService';
 import { FtpStorageService } from './services/FtpStorageService';
+import { S3StorageService } from './services/S3StorageService';
 import { ActivityLogService } from './services/ActivityLogService';
 import { ModProviderService } from './services/ModProviderService';
 import { hytaleDownloaderService } from './services/HytaleDownloaderService';
@@ -37,15 +48,21 @@ import { serverUpdateService } from './services/ServerUpdateService';
 
 // Routes
 import { createServerRoutes } from './routes/servers';
-import { createSettingsRoutes, applyDiscordSettings, applyFtpSettings } from './routes/settings';
+import { createSettingsRoutes, applyDiscordSettings, applyFtpSettings, applyS3Settings } from './routes/settings';
 import { createModtaleRoutes } from './routes/modtale';
 import { createModsRouter } from './routes/mods';
 import { createAuthRoutes } from './routes/auth';
 import { createUserRoutes } from './routes/users';
 import { createNetworkRoutes } from './routes/networks';
+import { createPlayerRoutes } from './routes/players';
+import { createChatRoutes } from './routes/chat';
+import { createLogRuleRoutes } from './routes/log-rules';
 import { createPermissionRoutes } from './routes/permissions';
 import { createAlertsRoutes } from './routes/alerts';
+import { createCrashReportRoutes } from './routes/crashes';
+import { createIdleRoutes, createWakeRoutes } from './routes/idle';
 import { createDashboardRoutes } from './routes/dashboard';
+import { createAnalyticsRoutes } from './routes/analytics';
 import { createTaskGroupRoutes } from './routes/task-groups';
 import activityRoutes from './routes/activity';
 import systemRoutes from './routes/system';
@@ -80,7 +97,17 @@ export class App {
   private serverService: ServerService;
   private consoleService: ConsoleService;
   private modService: ModService;
+  private moderationService: ModerationService;
   private playerService: PlayerService;
+  private playerPresenceService: PlayerPresenceService;
+  private playerFileSyncService: PlayerFileSyncService;
+  private chatService: ChatService;
+  private logParserService: LogParserService;
+  private logAlertService: LogAlertService;
+  private crashReportService: CrashReportService;
+  private idleService: IdleService;
+  private banExpiryService: BanExpiryService;
+  private eventBus: ServerEventBus;
   private backupService: BackupService;
   private schedulerService: SchedulerService;
   private taskGroupService: TaskGroupService;
@@ -94,6 +121,7 @@ export class App {
   private permissionService: PermissionService;
   private settingsService: SettingsService;
   private ftpService: FtpStorageService;
+  private s3Service: S3StorageService;
   private activityLogService: ActivityLogService;
   private modProviderService: ModProviderService;
 
@@ -145,16 +173,39 @@ export class App {
       mentionRoleId: config.discord.mentionRoleId,
     });
 
-    // Initialize FTP service (will be updated with DB settings on start)
+    // Initialize FTP and S3 services (will be updated with DB settings on start)
     this.ftpService = new FtpStorageService();
+    this.s3Service = new S3StorageService();
+
+    // Initialize event bus (lifecycle, alert and player events)
+    this.eventBus = new ServerEventBus(this.prisma);
 
     // Initialize services
-    this.serverService = new ServerService(this.prisma, this.discordService);
+    this.logParserService = new LogParserService(this.prisma);
+    this.serverService = new ServerService(this.prisma, this.eventBus, this.logParserService);
     this.consoleService = new ConsoleService(this.prisma);
     this.modService = new ModService(this.prisma);
-    this.playerService = new PlayerService(this.prisma, this.discordService);
-    this.backupService = new BackupService(this.discordService);
-    this.networkService = new NetworkService(this.prisma, this.serverService, this.backupService);
+    this.moderationService = new ModerationService(this.prisma);
+    this.playerService = new PlayerService(this.prisma, this.discordService, this.moderationService);
+    this.playerPresenceService = new PlayerPresenceService(this.prisma, this.playerService, this.eventBus);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.playerPresenceService.attach(serverId, adapter));
+    this.playerFileSyncService = new PlayerFileSyncService(this.prisma, this.playerService);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.playerFileSyncService.attach(serverId, adapter));
+    this.banExpiryService = new BanExpiryService(
+      this.prisma,
+      this.serverService,
+      this.playerService,
+      this.activityLogService
+    );
+    this.backupService = new BackupService(this.discordService, this.s3Service);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.backupService.attach(serverId, adapter));
+    this.networkService = new NetworkService(
+      this.prisma,
+      this.serverService,
+      this.backupService,
+      this.playerService,
+      this.moderationService
+    );
     this.schedulerService = new SchedulerService(
       this.serverService,
       this.backupService,
@@ -164,8 +215,18 @@ export class App {
     this.fileService = new FileService();
     this.metricsService = new MetricsService();
     this.worldsService = new WorldsService();
-    this.alertsService = new AlertsService(this.discordService);
+    this.alertsService = new AlertsService(this.discordService, this.eventBus);
+    this.chatService = new ChatService(this.prisma, this.moderationService, this.alertsService);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.chatService.attach(serverId, adapter));
     this.automationRulesService = new AutomationRulesService(this.serverService as any, this.backupService, this.activityLogService);
+    this.metricsService.onSample((serverId, metrics) => this.automationRulesService.evaluateConditionRules(serverId, metrics));
+    this.logAlertService = new LogAlertService(this.prisma, this.alertsService, this.automationRulesService);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.logAlertService.attach(serverId, adapter));
+    this.crashReportService = new CrashReportService(this.prisma, this.modService, this.metricsService, this.alertsService);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.crashReportService.attach(serverId, adapter));
+    this.idleService = new IdleService(this.prisma, this.serverService, this.activityLogService);
+    this.serverService.onAdapterCreated((serverId, adapter) => this.idleService.attach(serverId, adapter));
+    this.metricsService.onSample((serverId, metrics) => this.idleService.handleSample(serverId, metrics));
 
     // Initialize WebSocket handlers
     this.serverEvents = new ServerEvents(this.io, this.serverService, this.consoleService);
@@ -176,12 +237,58 @@ export class App {
     // Initialize server update service with dependencies
     serverUpdateService.initialize(this.serverService, this.backupService, this.discordService);
 
+    this.initializeEventBus();
     this.initializeMiddleware();
     this.initializeRoutes();
     this.initializeWebSocket();
     this.initializeErrorHandlers();
   }
 
+  /**
+   * Subscribe automation, Discord and WebSocket to server events
+   */
+  private initializeEventBus(): void {
+    this.eventBus.subscribe('automation', AUTOMATION_EVENT_TYPES, (event) =>
+      this.automationRulesService.handleEvent(event)
+    );
+
+    this.eventBus.subscribe('crash_capture', ['server_crash'], async (event) => {
+      const report = await this.crashReportService.captureCrash(event.serverId);
+      return { status: 'handled', detail: `Crash report ${report.id}` };
+    });
+
+    this.eventBus.subscribe('alerts', ['server_crash_loop'], async (event) => {
+      await this.alertsService.createAlert({
+        serverId: event.serverId,
+        type: 'crash_loop',
+        severity: 'critical',
+        title: `Server ${event.data?.serverName} is in a crash loop`,
+        message: `The server was restarted ${event.data?.restarts} time(s) within ${event.data?.windowMinutes} minute(s) and crashed again. Automatic restarts are paused until it is started manually.`,
+        metadata: event.data,
+      });
+    });
+
+    // Resource alerts notify Discord through AlertsService, so only lifecycle and player events here
+    const discordEvents: Array<ServerEventType & NotificationEvent> = [
+      'server_start', 'server_stop', 'server_restart', 'server_crash', 'player_join', 'player_leave',
+    ];
+    this.eventBus.subscribe('discord', discordEvents, async (event) => {
+      const type = event.type as ServerEventType & NotificationEvent;
+      if (!this.discordService.isEnabled() || !this.discordService.isEventEnabled(type)) {
+        return { status: 'skipped', detail: 'Discord notifications disabled for this event' };
+      }
+      const server = await this.prisma.server.findUnique({ where: { id: event.serverId } });
+      await this.discordService.notify(type, {
+        serverName: event.data?.serverName || server?.name,
+        playerName: event.data?.playerName,
+      });
+      return { status: 'handled' };
+    });
+
+    // serverEvents is recreated when HTTPS is enabled, so resolve it at dispatch time
+    this.eventBus.subscribe('websocket', null, (event) => this.serverEvents.handleServerEvent(event));
+  }
+
   /**
    * Load SSL certificates for HTTPS
    */
@@ -292,13 +399,14 @@ export class App {
       this.worldsService,
       this.alertsService,
       this.automationRulesService,
-      this.modProviderService
+      this.modProviderService,
+      this.eventBus
     ));
 
     this.express.use(
       '/api/settings',
       authenticate,
-      createSettingsRoutes(this.settingsService, this.discordService, this.ftpService)
+      createSettingsRoutes(this.settingsService, this.discordService, this.ftpService, this.s3Service)
     );
 
     this.express.use('/api/modtale', authenticate, createModtaleRoutes());
@@ -308,7 +416,11 @@ export class App {
 
     this.express.use('/api/users', authenticate, createUserRoutes());
 
-    this.express.use('/api/networks', authenticate, createNetworkRoutes(this.networkService));
+    this.express.use('/api/networks', authenticate, createNetworkRoutes(this.networkService, this.alertsService));
+
+    this.express.use('/api/players', authenticate, createPlayerRoutes(this.playerService, this.playerFileSyncService, this.moderationService));
+    this.express.use('/api/chat', authenticate, createChatRoutes(this.chatService));
+    this.express.use('/api/log-rules', authenticate, createLogRuleRoutes(this.logParserService));
 
     this.express.use('/api/task-groups', authenticate, createTaskGroupRoutes(this.taskGroupService));
 
@@ -320,7 +432,11 @@ export class App {
 
     this.express.use('/api/activity', activityRoutes);
 
-    this.express.use('/api/alerts', authenticate, createAlertsRoutes(this.alertsService));
+    this.express.use('/api/alerts', authenticate, createAlertsRoutes(this.alertsService, this.logAlertService));
+    this.express.use('/api/crashes', authenticate, createCrashReportRoutes(this.crashReportService));
+    this.express.use('/api/idle', authenticate, createIdleRoutes(this.idleService));
+    // Wake links/webhooks (public - authenticated by the server's wake token)
+    this.express.use('/api/wake', createWakeRoutes(this.idleService));
 
     this.express.use(
       '/api/dashboard',
@@ -328,6 +444,8 @@ export class App {
       createDashboardRoutes(this.metricsService, this.alertsService)
     );
 
+    this.express.use('/api/analytics', authenticate, createAnalyticsRoutes(this.metricsService));
+
     // System routes (version, health - no auth required for basic endpoints)
     this.express.use('/api/system', systemRoutes);
 
@@ -450,16 +568,37 @@ export class App {
       // Apply settings to services from database
       await applyDiscordSettings(this.settingsService, this.discordService);
       await applyFtpSettings(this.settingsService, this.ftpService);
+      await applyS3Settings(this.settingsService, this.s3Service);
       logger.info('Settings applied to services');
 
       // Initialize mod provider service (loads API keys and registers providers)
       await this.modProviderService.initialize();
       logger.info('Mod provider service initialized');
 
+      // Load log parsing rules before any server output is read
+      await this.logParserService.initialize();
+      logger.info('Log parsing rules loaded');
+
       // Recover orphaned servers (servers that were running before manager restart)
       await this.serverService.recoverOrphanedServers();
       logger.info('Server recovery complete');
 
+      // Reconcile player presence with recovered server state
+      await this.playerPresenceService.reconcile();
+      logger.info('Player presence reconciled');
+
+      // Sync bans, whitelist and operators with the servers' files
+      await this.playerFileSyncService.initialize();
+      logger.info('Player file sync started');
+
+      // Lift temporary bans, including any that expired while the manager was down
+      await this.banExpiryService.start();
+      logger.info('Ban expiry checks started');
+
+      // Make sure every member server carries its network's bans
+      await this.networkService.enforceNetworkBans();
+      logger.info('Network bans enforced');
+
       // Recover any stuck server updates
       await serverUpdateService.recoverStuckUpdates();
       logger.info('Server update recovery complete');
@@ -472,8 +611,13 @@ export class App {
       await this.taskGroupService.loadTaskGroups();
       logger.info('Task groups loaded');
 
+      // Schedule wakes for idle-stopped servers
+      await this.idleService.loadWakeSchedules();
+      logger.info('Idle wake schedules loaded');
+
       // Start metrics collection
       await this.metricsService.startCollection();
+      this.eventBus.startCleanup();
       logger.info('Metrics collection started');
 
       // Start alert monitoring
@@ -533,6 +677,14 @@ export class App {
       this.alertsService.stopMonitoring();
       await this.consoleService.cleanup();
       this.automationRulesService.cleanup();
+      this.playerPresenceService.cleanup();
+      this.playerFileSyncService.cleanup();
+      this.chatService.cleanup();
+      this.logAlertService.cleanup();
+      this.crashReportService.cleanup();
+      this.idleService.cleanup();
+      this.banExpiryService.stop();
+      this.eventBus.cleanup();
       await this.serverService.cleanup();
       await this.consoleEvents.cleanup();
       this.serverEvents.cleanup();
@@ -27,6 +27,20 @@ export const VERSION_NAME = 'Beta';
 /**
  * Configuration interface
  */
+/**
+ * Commands sent to a running server around a backup so the files on disk are consistent
+ */
+export interface ConsistentSnapshotConfig {
+  enabled: boolean;
+  /** Sent before archiving, e.g. flush all saves and turn off autosave */
+  preCommands: string[];
+  /** Regular expression matching the log line that confirms the save finished */
+  confirmPattern: string;
+  confirmTimeoutMs: number;
+  /** Sent after archiving, even if the backup failed */
+  postCommands: string[];
+}
+
 export interface AppConfig {
   // Application
   version: string;
@@ -96,6 +110,8 @@ export interface AppConfig {
     excludePatterns: string[];
     retryAttempts: number;
     retryDelayMs: number;
+    /** Consistent snapshot settings per adapter type */
+    consistentSnapshot: Record<string, ConsistentSnapshotConfig>;
   };
 
   // Updates
@@ -210,6 +226,15 @@ const defaults: AppConfig = {
     ],
     retryAttempts: 3,
     retryDelayMs: 1000,
+    consistentSnapshot: {
+      java: {
+        enabled: false,
+        preCommands: ['save-off', 'save-all flush'],
+        confirmPattern: 'Saved the game',
+        confirmTimeoutMs: 60000,
+        postCommands: ['save-on'],
+      },
+    },
   },
 
   // Updates
@@ -66,6 +66,8 @@ export const ACTIVITY_ACTIONS = {
   SERVER_RESTART: 'server:restart',
   SERVER_KILL: 'server:kill',
   SERVER_COMMAND: 'server:command',
+  SERVER_IDLE_STOP: 'server:idle_stop',
+  SERVER_WAKE: 'server:wake',
 
   // Backup actions
   BACKUP_CREATE: 'backup:create',
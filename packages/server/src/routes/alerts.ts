@@ -1,10 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { AlertsService } from '../services/AlertsService';
+import { LogAlertService, validateLogAlertRule } from '../services/LogAlertService';
 import { requirePermission } from '../middleware/auth';
 import { PERMISSIONS } from '../permissions/definitions';
 import logger from '../utils/logger';
 
-export function createAlertsRoutes(alertsService: AlertsService): Router {
+export function createAlertsRoutes(alertsService: AlertsService, logAlertService: LogAlertService): Router {
   const router = Router();
 
   /**
@@ -79,5 +80,108 @@ export function createAlertsRoutes(alertsService: AlertsService): Router {
     }
   });
 
+  /**
+   * GET /api/alerts/log-rules
+   * List log watch rules
+   * Query: serverId (rules for that server plus rules for every server)
+   */
+  router.get('/log-rules', requirePermission(PERMISSIONS.ALERTS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const rules = await logAlertService.getRules(req.query.serverId as string | undefined);
+      res.json(rules);
+    } catch (error: any) {
+      logger.error('Error getting log alert rules:', error);
+      res.status(500).json({ error: error.message || 'Failed to get log alert rules' });
+    }
+  });
+
+  /**
+   * POST /api/alerts/log-rules
+   * Create a log watch rule
+   * Body: { name, pattern, severity, serverId?, level?, threshold?, windowMinutes?, notifyDiscord?, automationRuleId?, enabled? }
+   */
+  router.post('/log-rules', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const { name, pattern, severity, serverId, level, threshold, windowMinutes, notifyDiscord, automationRuleId, enabled } = req.body;
+      const data = {
+        name: name ?? '',
+        pattern: pattern ?? '',
+        severity: severity ?? 'warning',
+        serverId,
+        level,
+        threshold,
+        windowMinutes,
+        notifyDiscord,
+        automationRuleId,
+        enabled,
+      };
+
+      const validationError = validateLogAlertRule(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const rule = await logAlertService.createRule(data);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      logger.error('Error creating log alert rule:', error);
+      if (error.message === 'Automation rule must belong to the watched server') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to create log alert rule' });
+    }
+  });
+
+  /**
+   * PUT /api/alerts/log-rules/:id
+   * Update a log watch rule
+   */
+  router.put('/log-rules/:id', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const { name, pattern, severity, serverId, level, threshold, windowMinutes, notifyDiscord, automationRuleId, enabled } = req.body;
+      const data = { name, pattern, severity, serverId, level, threshold, windowMinutes, notifyDiscord, automationRuleId, enabled };
+
+      const validationError = validateLogAlertRule(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const rule = await logAlertService.updateRule(req.params.id, data);
+      res.json(rule);
+    } catch (error: any) {
+      logger.error('Error updating log alert rule:', error);
+      if (error.message === 'Log alert rule not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Automation rule must belong to the watched server') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to update log alert rule' });
+    }
+  });
+
+  /**
+   * DELETE /api/alerts/log-rules/:id
+   * Delete a log watch rule
+   */
+  router.delete('/log-rules/:id', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      await logAlertService.deleteRule(req.params.id);
+      res.json({ message: 'Log alert rule deleted' });
+    } catch (error: any) {
+      logger.error('Error deleting log alert rule:', error);
+      if (error.message === 'Log alert rule not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to delete log alert rule' });
+    }
+  });
+
   return router;
 }
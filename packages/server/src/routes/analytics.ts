@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { MetricsService, METRICS_RETENTION_DAYS } from '../services/MetricsService';
+import { requirePermission } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
+import logger from '../utils/logger';
+
+// Allowance for the client clock running behind when it asks for the full retention period
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export function createAnalyticsRoutes(metricsService: MetricsService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/analytics
+   * Aggregated trends, peak player times and uptime for a date range
+   * Query: start, end (ISO dates, default last 7 days), serverId (optional, fleet-wide if omitted),
+   *        tzOffset (minutes from UTC as returned by Date.getTimezoneOffset())
+   */
+  router.get('/', requirePermission(PERMISSIONS.SERVERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const { serverId, start, end, tzOffset } = req.query;
+
+      const endTime = end ? new Date(end as string) : new Date();
+      const startTime = start ? new Date(start as string) : new Date(endTime.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const timezoneOffset = tzOffset !== undefined ? parseInt(tzOffset as string) : 0;
+
+      if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+        res.status(400).json({ error: 'start and end must be valid dates' });
+        return;
+      }
+      if (startTime >= endTime) {
+        res.status(400).json({ error: 'start must be before end' });
+        return;
+      }
+      if (startTime.getTime() < Date.now() - METRICS_RETENTION_DAYS * 24 * 60 * 60 * 1000 - CLOCK_SKEW_MS) {
+        res.status(400).json({ error: `Metrics are only kept for ${METRICS_RETENTION_DAYS} days, so start cannot be earlier than that` });
+        return;
+      }
+      if (isNaN(timezoneOffset) || Math.abs(timezoneOffset) > 14 * 60) {
+        res.status(400).json({ error: 'tzOffset must be a UTC offset in minutes' });
+        return;
+      }
+
+      const report = await metricsService.getAnalytics({
+        serverId: serverId as string | undefined,
+        startTime,
+        endTime,
+        timezoneOffset,
+      });
+
+      res.json(report);
+    } catch (error: any) {
+      logger.error('Error getting analytics:', error);
+      res.status(500).json({ error: error.message || 'Failed to get analytics' });
+    }
+  });
+
+  return router;
+}
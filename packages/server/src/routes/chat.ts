@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { ChatService, validateChatFilter } from '../services/ChatService';
+import { requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
+import logger from '../utils/logger';
+
+export function createChatRoutes(chatService: ChatService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/chat
+   * Search captured chat, newest first
+   * Query: serverId, uuid, username, search, from, to (ISO dates), flagged, unreviewed, limit, offset
+   */
+  router.get('/', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const { serverId, uuid, username, search, from, to, flagged, unreviewed, limit, offset } = req.query;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ error: 'from and to must be valid dates' });
+        return;
+      }
+
+      const result = await chatService.searchMessages({
+        serverId: serverId as string | undefined,
+        uuid: uuid as string | undefined,
+        username: username as string | undefined,
+        search: search as string | undefined,
+        from: fromDate,
+        to: toDate,
+        flaggedOnly: flagged === 'true',
+        unreviewedOnly: unreviewed === 'true',
+        limit: limit ? Math.min(parseInt(limit as string), 500) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Error searching chat:', error);
+      res.status(500).json({ error: error.message || 'Failed to search chat' });
+    }
+  });
+
+  /**
+   * POST /api/chat/messages/:id/review
+   * Mark a filtered message as reviewed
+   */
+  router.post('/messages/:id/review', requirePermission(PERMISSIONS.PLAYERS_KICK), async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    try {
+      const message = await chatService.reviewMessage(req.params.id, authReq.user!.username);
+      res.json(message);
+    } catch (error: any) {
+      logger.error('Error reviewing chat message:', error);
+      if (error.message === 'Chat message not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to review chat message' });
+    }
+  });
+
+  /**
+   * GET /api/chat/filters
+   * List chat filters
+   */
+  router.get('/filters', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (_req: Request, res: Response) => {
+    try {
+      const filters = await chatService.getFilters();
+      res.json(filters);
+    } catch (error: any) {
+      logger.error('Error getting chat filters:', error);
+      res.status(500).json({ error: error.message || 'Failed to get chat filters' });
+    }
+  });
+
+  /**
+   * POST /api/chat/filters
+   * Create a chat filter
+   * Body: { name, pattern, isRegex?, action: 'warn' | 'mute' | 'alert', command?, serverId?, enabled? }
+   */
+  router.post('/filters', requirePermission(PERMISSIONS.PLAYERS_BAN), async (req: Request, res: Response) => {
+    try {
+      const { name, pattern, isRegex, action, command, serverId, enabled } = req.body;
+      const data = { name: name ?? '', pattern: pattern ?? '', isRegex: !!isRegex, action, command, serverId, enabled };
+
+      const validationError = validateChatFilter(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const filter = await chatService.createFilter(data);
+      res.status(201).json(filter);
+    } catch (error: any) {
+      logger.error('Error creating chat filter:', error);
+      res.status(500).json({ error: error.message || 'Failed to create chat filter' });
+    }
+  });
+
+  /**
+   * PUT /api/chat/filters/:id
+   * Update a chat filter
+   */
+  router.put('/filters/:id', requirePermission(PERMISSIONS.PLAYERS_BAN), async (req: Request, res: Response) => {
+    try {
+      const { name, pattern, isRegex, action, command, serverId, enabled } = req.body;
+      const data = { name, pattern, isRegex, action, command, serverId, enabled };
+
+      const existing = await chatService.getFilter(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: 'Chat filter not found' });
+        return;
+      }
+
+      // Validate the filter as it will be saved, so a new pattern is checked against the stored isRegex too
+      const validationError = validateChatFilter({
+        ...data,
+        pattern: pattern ?? existing.pattern,
+        isRegex: isRegex ?? existing.isRegex,
+      });
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const filter = await chatService.updateFilter(req.params.id, data);
+      res.json(filter);
+    } catch (error: any) {
+      logger.error('Error updating chat filter:', error);
+      if (error.message === 'Chat filter not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to update chat filter' });
+    }
+  });
+
+  /**
+   * DELETE /api/chat/filters/:id
+   * Delete a chat filter
+   */
+  router.delete('/filters/:id', requirePermission(PERMISSIONS.PLAYERS_BAN), async (req: Request, res: Response) => {
+    try {
+      await chatService.deleteFilter(req.params.id);
+      res.json({ message: 'Chat filter deleted' });
+    } catch (error: any) {
+      logger.error('Error deleting chat filter:', error);
+      if (error.message === 'Chat filter not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to delete chat filter' });
+    }
+  });
+
+  return router;
+}
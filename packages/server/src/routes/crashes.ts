@@ -0,0 +1,79 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs-extra';
+import path from 'path';
+import { CrashReportService } from '../services/CrashReportService';
+import { requirePermission } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
+import logger from '../utils/logger';
+
+export function createCrashReportRoutes(crashReportService: CrashReportService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/crashes
+   * Crash history for a server, newest first
+   * Query: serverId (required), limit
+   */
+  router.get('/', requirePermission(PERMISSIONS.SERVERS_CONSOLE), async (req: Request, res: Response) => {
+    try {
+      const { serverId, limit } = req.query;
+      if (!serverId) {
+        res.status(400).json({ error: 'serverId is required' });
+        return;
+      }
+
+      const reports = await crashReportService.getReports(serverId as string, limit ? parseInt(limit as string) : undefined);
+      res.json(reports);
+    } catch (error: any) {
+      logger.error('Error getting crash reports:', error);
+      res.status(500).json({ error: error.message || 'Failed to get crash reports' });
+    }
+  });
+
+  /**
+   * GET /api/crashes/:id/download
+   * Download a crash bundle (zip)
+   */
+  router.get('/:id/download', requirePermission(PERMISSIONS.SERVERS_CONSOLE), async (req: Request, res: Response) => {
+    try {
+      const report = await crashReportService.getReport(req.params.id);
+
+      if (!await fs.pathExists(report.filePath)) {
+        res.status(404).json({ error: 'Crash bundle not found on disk' });
+        return;
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${path.basename(report.filePath)}"`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Length', report.fileSize);
+      fs.createReadStream(report.filePath).pipe(res);
+    } catch (error: any) {
+      logger.error('Error downloading crash report:', error);
+      if (error.message === 'Crash report not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to download crash report' });
+    }
+  });
+
+  /**
+   * DELETE /api/crashes/:id
+   * Delete a crash report and its bundle
+   */
+  router.delete('/:id', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      await crashReportService.deleteReport(req.params.id);
+      res.json({ message: 'Crash report deleted' });
+    } catch (error: any) {
+      logger.error('Error deleting crash report:', error);
+      if (error.message === 'Crash report not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to delete crash report' });
+    }
+  });
+
+  return router;
+}
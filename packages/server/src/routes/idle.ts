@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { IdleService, IdlePolicySettings, validateIdlePolicy } from '../services/IdleService';
+import { requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
+import logger from '../utils/logger';
+
+export function createIdleRoutes(idleService: IdleService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/idle/:serverId
+   * Idle policy and current idle state for a server
+   */
+  router.get('/:serverId', requirePermission(PERMISSIONS.SERVERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const policy = await idleService.getPolicy(req.params.serverId);
+      res.json(policy);
+    } catch (error: any) {
+      logger.error('Error getting idle policy:', error);
+      if (error.message === 'Server not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to get idle policy' });
+    }
+  });
+
+  /**
+   * PUT /api/idle/:serverId
+   * Update the idle policy
+   * Body: idleStopEnabled, idleStopMinutes, idleWakeCron
+   */
+  router.put('/:serverId', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      const { idleStopEnabled, idleStopMinutes, idleWakeCron } = req.body;
+      const data: Partial<IdlePolicySettings> = { idleStopEnabled, idleStopMinutes, idleWakeCron };
+
+      const validationError = validateIdlePolicy(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const policy = await idleService.setPolicy(req.params.serverId, data);
+      res.json(policy);
+    } catch (error: any) {
+      logger.error('Error updating idle policy:', error);
+      res.status(500).json({ error: error.message || 'Failed to update idle policy' });
+    }
+  });
+
+  /**
+   * POST /api/idle/:serverId/wake-token
+   * Issue a new wake token, invalidating the previous one. The token is only returned once.
+   */
+  router.post('/:serverId/wake-token', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      const token = await idleService.createWakeToken(req.params.serverId);
+      res.json({ token });
+    } catch (error: any) {
+      logger.error('Error creating wake token:', error);
+      res.status(500).json({ error: error.message || 'Failed to create wake token' });
+    }
+  });
+
+  /**
+   * DELETE /api/idle/:serverId/wake-token
+   * Disable the wake link/webhook
+   */
+  router.delete('/:serverId/wake-token', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      await idleService.revokeWakeToken(req.params.serverId);
+      res.json({ message: 'Wake token revoked' });
+    } catch (error: any) {
+      logger.error('Error revoking wake token:', error);
+      res.status(500).json({ error: error.message || 'Failed to revoke wake token' });
+    }
+  });
+
+  /**
+   * POST /api/idle/:serverId/wake
+   * Start a server that was stopped for being idle
+   */
+  router.post('/:serverId/wake', requirePermission(PERMISSIONS.SERVERS_START), async (req: Request, res: Response) => {
+    const user = (req as AuthenticatedRequest).user!;
+    try {
+      const result = await idleService.wake(req.params.serverId, 'manual', {
+        userId: user.id,
+        username: user.username,
+        userRole: user.role,
+      });
+      res.status(result.woke ? 200 : 409).json(result);
+    } catch (error: any) {
+      logger.error('Error waking server:', error);
+      if (error.message === 'Server not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to wake server' });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Public wake endpoints, authenticated by the per-server wake token.
+ * GET is the one-click link, POST is for webhooks.
+ */
+export function createWakeRoutes(idleService: IdleService): Router {
+  const router = Router();
+
+  const handleWake = (source: 'webhook' | 'link') => async (req: Request, res: Response) => {
+    try {
+      const result = await idleService.wakeByToken(req.params.token, source);
+      res.status(result.woke ? 200 : 409).json(result);
+    } catch (error: any) {
+      if (error.message === 'Invalid wake token') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      logger.error('Error waking server:', error);
+      res.status(500).json({ error: 'Failed to wake server' });
+    }
+  };
+
+  /**
+   * GET /api/wake/:token
+   */
+  router.get('/:token', handleWake('link'));
+
+  /**
+   * POST /api/wake/:token
+   */
+  router.post('/:token', handleWake('webhook'));
+
+  return router;
+}
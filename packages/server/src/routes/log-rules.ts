@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { LogParserService, BUILTIN_LOG_RULES, validateLogRule } from '../services/LogParserService';
+import { requirePermission } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
+import logger from '../utils/logger';
+
+const MAX_TEST_LINES = 500;
+
+export function createLogRuleRoutes(logParserService: LogParserService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/log-rules
+   * List configured rules and the built-in formats used as a fallback
+   */
+  router.get('/', requirePermission(PERMISSIONS.SERVERS_CONSOLE), async (_req: Request, res: Response) => {
+    try {
+      const rules = await logParserService.getRules();
+      res.json({ rules, builtin: BUILTIN_LOG_RULES });
+    } catch (error: any) {
+      logger.error('Error getting log parse rules:', error);
+      res.status(500).json({ error: error.message || 'Failed to get log parse rules' });
+    }
+  });
+
+  /**
+   * POST /api/log-rules/test
+   * Parse sample lines with a candidate pattern, or with the rules in effect for a server/adapter type
+   * Body: { lines: string[] | string, pattern?, serverId?, adapterType? }
+   */
+  router.post('/test', requirePermission(PERMISSIONS.SERVERS_CONSOLE), async (req: Request, res: Response) => {
+    try {
+      const { lines, pattern, serverId, adapterType } = req.body;
+      const samples: string[] = Array.isArray(lines) ? lines.map(String) : String(lines ?? '').split(/\r?\n/);
+
+      if (samples.length > MAX_TEST_LINES) {
+        res.status(400).json({ error: `At most ${MAX_TEST_LINES} lines can be tested at once` });
+        return;
+      }
+      if (pattern !== undefined && pattern !== '') {
+        const validationError = validateLogRule({ pattern });
+        if (validationError) {
+          res.status(400).json({ error: validationError });
+          return;
+        }
+      }
+
+      const results = logParserService.testLines(samples, { pattern: pattern || undefined, serverId, adapterType });
+      res.json({ results });
+    } catch (error: any) {
+      logger.error('Error testing log parse rules:', error);
+      res.status(500).json({ error: error.message || 'Failed to test log parse rules' });
+    }
+  });
+
+  /**
+   * POST /api/log-rules
+   * Create a rule
+   * Body: { name, pattern, serverId?, adapterType?, priority?, enabled? }
+   */
+  router.post('/', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      const { name, pattern, serverId, adapterType, priority, enabled } = req.body;
+      const data = { name: name ?? '', pattern: pattern ?? '', serverId, adapterType, priority, enabled };
+
+      const validationError = validateLogRule(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const rule = await logParserService.createRule(data);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      logger.error('Error creating log parse rule:', error);
+      res.status(500).json({ error: error.message || 'Failed to create log parse rule' });
+    }
+  });
+
+  /**
+   * PUT /api/log-rules/:id
+   * Update a rule
+   */
+  router.put('/:id', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      const { name, pattern, serverId, adapterType, priority, enabled } = req.body;
+      const data = { name, pattern, serverId, adapterType, priority, enabled };
+
+      const validationError = validateLogRule(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const rule = await logParserService.updateRule(req.params.id, data);
+      res.json(rule);
+    } catch (error: any) {
+      logger.error('Error updating log parse rule:', error);
+      if (error.message === 'Log parse rule not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to update log parse rule' });
+    }
+  });
+
+  /**
+   * DELETE /api/log-rules/:id
+   * Delete a rule
+   */
+  router.delete('/:id', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      await logParserService.deleteRule(req.params.id);
+      res.json({ message: 'Log parse rule deleted' });
+    } catch (error: any) {
+      logger.error('Error deleting log parse rule:', error);
+      if (error.message === 'Log parse rule not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to delete log parse rule' });
+    }
+  });
+
+  return router;
+}
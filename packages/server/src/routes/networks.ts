@@ -1,8 +1,11 @@
 import { Router } from 'express';
 import { NetworkService } from '../services/NetworkService';
+import { AlertsService, AlertPolicySettings, DEFAULT_ALERT_POLICY, validateAlertPolicy } from '../services/AlertsService';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
 import logger from '../utils/logger';
 
-export function createNetworkRoutes(networkService: NetworkService): Router {
+export function createNetworkRoutes(networkService: NetworkService, alertsService: AlertsService): Router {
   const router = Router();
 
   // ==========================================
@@ -320,5 +323,122 @@ export function createNetworkRoutes(networkService: NetworkService): Router {
     }
   });
 
+  // ==========================================
+  // Network Bans
+  // ==========================================
+
+  // GET /api/networks/:id/bans - List active network bans
+  router.get('/:id/bans', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req, res) => {
+    try {
+      const bans = await networkService.getNetworkBans(req.params.id);
+      res.json(bans);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error getting network bans:', error);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // POST /api/networks/:id/bans - Ban a player on every member server
+  router.post('/:id/bans', requirePermission(PERMISSIONS.PLAYERS_BAN), async (req, res): Promise<void> => {
+    try {
+      const { uuid, username, reason, duration } = req.body;
+
+      if (!uuid || typeof uuid !== 'string') {
+        res.status(400).json({ error: 'Player UUID is required' });
+        return;
+      }
+      if (duration !== undefined && duration !== null && (typeof duration !== 'number' || duration <= 0)) {
+        res.status(400).json({ error: 'Duration must be a positive number of seconds' });
+        return;
+      }
+
+      const result = await networkService.banPlayer(req.params.id, {
+        uuid: uuid.trim().toLowerCase(),
+        username,
+        reason,
+        duration: duration || undefined,
+      }, (req as AuthenticatedRequest).user);
+      res.status(201).json(result);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error banning player on network:', error);
+      if (message.includes('not found')) {
+        res.status(404).json({ error: message });
+      } else if (message.includes('Username is required')) {
+        res.status(400).json({ error: message });
+      } else {
+        res.status(500).json({ error: message });
+      }
+    }
+  });
+
+  // DELETE /api/networks/:id/bans/:uuid - Lift a network ban from every member server
+  router.delete('/:id/bans/:uuid', requirePermission(PERMISSIONS.PLAYERS_UNBAN), async (req, res) => {
+    try {
+      const result = await networkService.unbanPlayer(
+        req.params.id,
+        req.params.uuid.toLowerCase(),
+        (req as AuthenticatedRequest).user
+      );
+      res.json(result);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error unbanning player on network:', error);
+      if (message.includes('not found') || message.includes('not banned')) {
+        res.status(404).json({ error: message });
+      } else {
+        res.status(500).json({ error: message });
+      }
+    }
+  });
+
+  // ==========================================
+  // Alert Policy (default for member servers)
+  // ==========================================
+
+  // GET /api/networks/:id/alerts/policy - Get the network default alert policy (null if unset)
+  router.get('/:id/alerts/policy', requirePermission(PERMISSIONS.ALERTS_VIEW), async (req, res) => {
+    try {
+      const policy = await alertsService.getNetworkPolicy(req.params.id);
+      res.json({ policy, defaults: DEFAULT_ALERT_POLICY });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error getting network alert policy:', error);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // PUT /api/networks/:id/alerts/policy - Set the network default alert policy
+  router.put('/:id/alerts/policy', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req, res): Promise<void> => {
+    try {
+      const current = await alertsService.getNetworkPolicy(req.params.id) || DEFAULT_ALERT_POLICY;
+      const validationError = validateAlertPolicy({ ...current, ...req.body } as AlertPolicySettings);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const policy = await alertsService.setNetworkPolicy(req.params.id, req.body);
+      res.json({ policy, defaults: DEFAULT_ALERT_POLICY });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error updating network alert policy:', error);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  // DELETE /api/networks/:id/alerts/policy - Remove the network default alert policy
+  router.delete('/:id/alerts/policy', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req, res) => {
+    try {
+      await alertsService.resetNetworkPolicy(req.params.id);
+      res.json({ message: 'Network alert policy removed' });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error removing network alert policy:', error);
+      res.status(500).json({ error: message });
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,217 @@
+import { Router, Request, Response } from 'express';
+import { PlayerService, PlayerSortField, PlayerStatusFilter } from '../services/PlayerService';
+import { PlayerFileSyncService, ConflictResolution } from '../services/PlayerFileSyncService';
+import { ModerationService } from '../services/ModerationService';
+import { requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../permissions/definitions';
+import logger from '../utils/logger';
+
+const STATUS_FILTERS: PlayerStatusFilter[] = ['all', 'online', 'offline', 'banned'];
+const SORT_FIELDS: PlayerSortField[] = ['lastSeen', 'playtime', 'username'];
+const RESOLUTIONS: ConflictResolution[] = ['file', 'manager'];
+// Kicks and bans are recorded by the actions themselves
+const MANUAL_CASE_TYPES = ['warning', 'note'];
+
+export function createPlayerRoutes(
+  playerService: PlayerService,
+  playerFileSyncService: PlayerFileSyncService,
+  moderationService: ModerationService
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/players
+   * Cross-server player directory
+   * Query: search, status (all|online|offline|banned), sortBy (lastSeen|playtime|username), sortOrder, limit, offset
+   */
+  router.get('/', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const { search, status, sortBy, sortOrder, limit, offset } = req.query;
+
+      if (status && !STATUS_FILTERS.includes(status as PlayerStatusFilter)) {
+        res.status(400).json({ error: `status must be one of: ${STATUS_FILTERS.join(', ')}` });
+        return;
+      }
+      if (sortBy && !SORT_FIELDS.includes(sortBy as PlayerSortField)) {
+        res.status(400).json({ error: `sortBy must be one of: ${SORT_FIELDS.join(', ')}` });
+        return;
+      }
+
+      const result = await playerService.getPlayerDirectory({
+        search: search as string | undefined,
+        status: status as PlayerStatusFilter | undefined,
+        sortBy: sortBy as PlayerSortField | undefined,
+        sortOrder: sortOrder === 'asc' ? 'asc' : 'desc',
+        limit: limit ? Math.min(parseInt(limit as string), 200) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Error getting player directory:', error);
+      res.status(500).json({ error: error.message || 'Failed to get players' });
+    }
+  });
+
+  /**
+   * GET /api/players/sync-conflicts
+   * Ban/whitelist/operator flags that changed both in a server's files and in the manager
+   * Query: serverId, uuid, includeResolved
+   */
+  router.get('/sync-conflicts', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const { serverId, uuid, includeResolved } = req.query;
+      const conflicts = await playerFileSyncService.getConflicts({
+        serverId: serverId as string | undefined,
+        uuid: uuid as string | undefined,
+        includeResolved: includeResolved === 'true',
+      });
+      res.json(conflicts);
+    } catch (error: any) {
+      logger.error('Error getting player sync conflicts:', error);
+      res.status(500).json({ error: error.message || 'Failed to get sync conflicts' });
+    }
+  });
+
+  /**
+   * POST /api/players/sync-conflicts/:id/resolve
+   * Keep one side of a conflict
+   * Body: { resolution: 'file' | 'manager' }
+   */
+  router.post('/sync-conflicts/:id/resolve', requirePermission(PERMISSIONS.PLAYERS_BAN), async (req: Request, res: Response) => {
+    try {
+      const { resolution } = req.body;
+      if (!RESOLUTIONS.includes(resolution)) {
+        res.status(400).json({ error: `resolution must be one of: ${RESOLUTIONS.join(', ')}` });
+        return;
+      }
+
+      const conflict = await playerFileSyncService.resolveConflict(req.params.id, resolution);
+      res.json(conflict);
+    } catch (error: any) {
+      logger.error('Error resolving player sync conflict:', error);
+      if (error.message === 'Conflict not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Conflict is already resolved') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to resolve sync conflict' });
+    }
+  });
+
+  /**
+   * GET /api/players/:uuid
+   * Get a player with their record on each server
+   */
+  router.get('/:uuid', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const profile = await playerService.getPlayerProfile(req.params.uuid);
+      if (!profile) {
+        res.status(404).json({ error: 'Player not found' });
+        return;
+      }
+
+      res.json(profile);
+    } catch (error: any) {
+      logger.error('Error getting player:', error);
+      res.status(500).json({ error: error.message || 'Failed to get player' });
+    }
+  });
+
+  /**
+   * GET /api/players/:uuid/sessions
+   * Get a player's session timeline, newest first
+   * Query: serverId, from, to (ISO dates), limit
+   */
+  router.get('/:uuid/sessions', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const { serverId, from, to, limit } = req.query;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ error: 'from and to must be valid dates' });
+        return;
+      }
+
+      const sessions = await playerService.getPlayerSessions(req.params.uuid, {
+        serverId: serverId as string | undefined,
+        from: fromDate,
+        to: toDate,
+        limit: limit ? Math.min(parseInt(limit as string), 500) : undefined,
+      });
+
+      res.json(sessions);
+    } catch (error: any) {
+      logger.error('Error getting player sessions:', error);
+      res.status(500).json({ error: error.message || 'Failed to get player sessions' });
+    }
+  });
+
+  /**
+   * GET /api/players/:uuid/cases
+   * Get a player's moderation history with escalation guidance
+   * Query: serverId, limit
+   */
+  router.get('/:uuid/cases', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const { serverId, limit } = req.query;
+      const [cases, summary] = await Promise.all([
+        moderationService.getCases(req.params.uuid, {
+          serverId: serverId as string | undefined,
+          limit: limit ? Math.min(parseInt(limit as string), 500) : undefined,
+        }),
+        moderationService.getSummary(req.params.uuid),
+      ]);
+
+      res.json({ cases, summary });
+    } catch (error: any) {
+      logger.error('Error getting moderation cases:', error);
+      res.status(500).json({ error: error.message || 'Failed to get moderation cases' });
+    }
+  });
+
+  /**
+   * POST /api/players/:uuid/cases
+   * Warn a player or add a staff note
+   * Body: { type: 'warning' | 'note', reason, serverId? }
+   */
+  router.post('/:uuid/cases', requirePermission(PERMISSIONS.PLAYERS_KICK), async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    try {
+      const { type, reason, serverId } = req.body;
+      if (!MANUAL_CASE_TYPES.includes(type)) {
+        res.status(400).json({ error: `type must be one of: ${MANUAL_CASE_TYPES.join(', ')}` });
+        return;
+      }
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        res.status(400).json({ error: 'reason is required' });
+        return;
+      }
+
+      const profile = await playerService.getPlayerProfile(req.params.uuid);
+      if (!profile) {
+        res.status(404).json({ error: 'Player not found' });
+        return;
+      }
+
+      const record = await moderationService.recordCase({
+        uuid: profile.uuid,
+        username: profile.username,
+        type,
+        reason: reason.trim(),
+        serverId: serverId || undefined,
+        actor: authReq.user!,
+      });
+      res.status(201).json(record);
+    } catch (error: any) {
+      logger.error('Error adding moderation case:', error);
+      res.status(500).json({ error: error.message || 'Failed to add moderation case' });
+    }
+  });
+
+  return router;
+}
@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { ServerService } from '../services/ServerService';
-import { ConsoleService } from '../services/ConsoleService';
+import { ServerService, RestartPolicySettings, validateRestartPolicy } from '../services/ServerService';
+import { ConsoleService, ConsoleSearchQuery, formatLogLine } from '../services/ConsoleService';
 import { ModService } from '../services/ModService';
 import { PlayerService } from '../services/PlayerService';
 import { BackupService } from '../services/BackupService';
@@ -9,9 +9,11 @@ import { SchedulerService } from '../services/SchedulerService';
 import { FileService } from '../services/FileService';
 import { MetricsService } from '../services/MetricsService';
 import { WorldsService } from '../services/WorldsService';
-import { AlertsService } from '../services/AlertsService';
+import { AlertsService, AlertPolicySettings, validateAlertPolicy } from '../services/AlertsService';
 import { AutomationRulesService } from '../services/AutomationRulesService';
 import { ModProviderService } from '../services/ModProviderService';
+import { ServerEventBus, ServerEventType } from '../services/ServerEventBus';
+import { validateReadinessConfig } from '../services/ReadinessProbe';
 import { requirePermission, AuthenticatedRequest } from '../middleware/auth';
 import { PERMISSIONS } from '../permissions/definitions';
 import { ActivityLogService } from '../services/ActivityLogService';
@@ -19,6 +21,35 @@ import { ACTIVITY_ACTIONS, RESOURCE_TYPES } from '../constants/ActivityLogAction
 import { getActivityContext } from '../middleware/activityLogger';
 import logger from '../utils/logger';
 
+const LOG_LEVELS = ['info', 'warn', 'error', 'debug'];
+
+/**
+ * Read console search filters from the query string
+ * @returns The filters, or an error message
+ */
+function parseConsoleSearch(req: Request): Omit<ConsoleSearchQuery, 'cursor' | 'limit'> | string {
+  const { q, regex, level, source, from, to } = req.query;
+  const levels = level ? (level as string).split(',').map(l => l.trim()).filter(Boolean) : undefined;
+  if (levels?.some(l => !LOG_LEVELS.includes(l))) {
+    return `level must be one of: ${LOG_LEVELS.join(', ')}`;
+  }
+
+  const fromDate = from ? new Date(from as string) : undefined;
+  const toDate = to ? new Date(to as string) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return 'from and to must be valid dates';
+  }
+
+  return {
+    query: (q as string | undefined) || undefined,
+    regex: regex === 'true',
+    levels,
+    source: (source as string | undefined) || undefined,
+    from: fromDate,
+    to: toDate,
+  };
+}
+
 export function createServerRoutes(
   serverService: ServerService,
   consoleService: ConsoleService,
@@ -31,7 +62,8 @@ export function createServerRoutes(
   worldsService: WorldsService,
   alertsService: AlertsService,
   automationRulesService: AutomationRulesService,
-  modProviderService?: ModProviderService  // Optional for backward compatibility during transition
+  modProviderService?: ModProviderService,  // Optional for backward compatibility during transition
+  eventBus?: ServerEventBus
 ): Router {
   const router = Router();
 
@@ -97,8 +129,8 @@ export function createServerRoutes(
       }
 
       // Validate backupType if provided
-      if (backupType && !['local', 'ftp'].includes(backupType)) {
-        return res.status(400).json({ error: 'Invalid backupType. Must be "local" or "ftp"' });
+      if (backupType && !['local', 'ftp', 's3'].includes(backupType)) {
+        return res.status(400).json({ error: 'Invalid backupType. Must be "local", "ftp" or "s3"' });
       }
 
       const server = await serverService.createServer({
@@ -150,6 +182,17 @@ export function createServerRoutes(
    */
   router.patch('/:id', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
     try {
+      const readinessError = validateReadinessConfig(req.body.adapterConfig);
+      if (readinessError) {
+        res.status(400).json({ error: readinessError });
+        return;
+      }
+
+      if (req.body.backupMode !== undefined && !['full', 'incremental'].includes(req.body.backupMode)) {
+        res.status(400).json({ error: 'Invalid backupMode. Must be "full" or "incremental"' });
+        return;
+      }
+
       const server = await serverService.updateServer(req.params.id, req.body);
       res.json(server);
     } catch (error) {
@@ -367,6 +410,44 @@ export function createServerRoutes(
     }
   });
 
+  /**
+   * GET /api/servers/:id/restart-policy
+   * Get the automatic restart policy and recent automatic restarts
+   */
+  router.get('/:id/restart-policy', requirePermission(PERMISSIONS.SERVERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const policy = await serverService.getRestartPolicy(req.params.id);
+      res.json(policy);
+    } catch (error: any) {
+      logger.error('Error getting restart policy:', error);
+      res.status(500).json({ error: error.message || 'Failed to get restart policy' });
+    }
+  });
+
+  /**
+   * PUT /api/servers/:id/restart-policy
+   * Update the automatic restart policy
+   * Body: { restartPolicy?, restartMaxAttempts?, restartWindowMinutes?, restartBackoffSeconds? }
+   */
+  router.put('/:id/restart-policy', requirePermission(PERMISSIONS.SERVERS_UPDATE), async (req: Request, res: Response) => {
+    try {
+      const { restartPolicy, restartMaxAttempts, restartWindowMinutes, restartBackoffSeconds } = req.body;
+      const data: Partial<RestartPolicySettings> = { restartPolicy, restartMaxAttempts, restartWindowMinutes, restartBackoffSeconds };
+
+      const validationError = validateRestartPolicy(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const policy = await serverService.setRestartPolicy(req.params.id, data);
+      res.json(policy);
+    } catch (error: any) {
+      logger.error('Error updating restart policy:', error);
+      res.status(500).json({ error: error.message || 'Failed to update restart policy' });
+    }
+  });
+
   // ============================================
   // Server Status & Metrics
   // ============================================
@@ -476,6 +557,63 @@ export function createServerRoutes(
     }
   });
 
+  /**
+   * GET /api/servers/:id/console/search
+   * Search persisted console history, newest first
+   * Query: q, regex, level (comma-separated), source, from, to (ISO dates), cursor, limit
+   */
+  router.get('/:id/console/search', requirePermission(PERMISSIONS.SERVERS_CONSOLE), async (req: Request, res: Response) => {
+    try {
+      const query = parseConsoleSearch(req);
+      if (typeof query === 'string') {
+        res.status(400).json({ error: query });
+        return;
+      }
+
+      const result = await consoleService.searchLogs(req.params.id, {
+        ...query,
+        cursor: req.query.cursor as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Error searching logs:', error);
+      if (error.message === 'Invalid regular expression' || error.message === 'Invalid cursor') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Failed to search logs' });
+    }
+  });
+
+  /**
+   * GET /api/servers/:id/console/export
+   * Download the console history matching a search as a text file, oldest first
+   * Query: same filters as /console/search
+   */
+  router.get('/:id/console/export', requirePermission(PERMISSIONS.SERVERS_CONSOLE), async (req: Request, res: Response) => {
+    try {
+      const query = parseConsoleSearch(req);
+      if (typeof query === 'string') {
+        res.status(400).json({ error: query });
+        return;
+      }
+
+      const logs = await consoleService.exportLogs(req.params.id, query);
+      const filename = `console-${req.params.id}-${new Date().toISOString().replace(/[:.]/g, '-')}.log`;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(logs.map(formatLogLine).join('\n'));
+    } catch (error: any) {
+      logger.error('Error exporting logs:', error);
+      if (error.message === 'Invalid regular expression') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Failed to export logs' });
+    }
+  });
+
   // ============================================
   // Mods
   // ============================================
@@ -984,15 +1122,37 @@ export function createServerRoutes(
     }
   });
 
+  /**
+   * GET /api/servers/:id/players/online-at
+   * Get the players that were connected at a point in time
+   * Query: at (ISO date)
+   */
+  router.get('/:id/players/online-at', requirePermission(PERMISSIONS.PLAYERS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const at = new Date(req.query.at as string);
+      if (!req.query.at || isNaN(at.getTime())) {
+        res.status(400).json({ error: 'at must be a valid date' });
+        return;
+      }
+
+      const sessions = await playerService.getOnlineAt(req.params.id, at);
+      res.json(sessions);
+    } catch (error) {
+      logger.error('Error getting players online at time:', error);
+      res.status(500).json({ error: 'Failed to get players online at time' });
+    }
+  });
+
   /**
    * POST /api/servers/:serverId/players/:uuid/kick
    * Kick a player
    */
   router.post('/:serverId/players/:uuid/kick', requirePermission(PERMISSIONS.PLAYERS_KICK), async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
     try {
       const { reason } = req.body;
       const adapter = await serverService.getAdapterForServer(req.params.serverId);
-      await playerService.kickPlayer(adapter, req.params.uuid, reason);
+      await playerService.kickPlayer(adapter, req.params.serverId, req.params.uuid, reason, authReq.user!);
       res.json({ message: 'Player kicked' });
     } catch (error) {
       logger.error('Error kicking player:', error);
@@ -1005,10 +1165,18 @@ export function createServerRoutes(
    * Ban a player
    */
   router.post('/:serverId/players/:uuid/ban', requirePermission(PERMISSIONS.PLAYERS_BAN), async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
     try {
       const { reason, duration } = req.body;
       const adapter = await serverService.getAdapterForServer(req.params.serverId);
-      const player = await playerService.banPlayer(adapter, req.params.uuid, reason, duration);
+      const player = await playerService.banPlayer(
+        adapter,
+        req.params.serverId,
+        req.params.uuid,
+        reason,
+        duration,
+        authReq.user!
+      );
       res.json(player);
     } catch (error) {
       logger.error('Error banning player:', error);
@@ -1021,9 +1189,17 @@ export function createServerRoutes(
    * Unban a player
    */
   router.post('/:serverId/players/:uuid/unban', requirePermission(PERMISSIONS.PLAYERS_UNBAN), async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
     try {
+      const { reason } = req.body;
       const adapter = await serverService.getAdapterForServer(req.params.serverId);
-      const player = await playerService.unbanPlayer(adapter, req.params.uuid);
+      const player = await playerService.unbanPlayer(
+        adapter,
+        req.params.serverId,
+        req.params.uuid,
+        reason,
+        authReq.user!
+      );
       res.json(player);
     } catch (error) {
       logger.error('Error unbanning player:', error);
@@ -1162,6 +1338,14 @@ export function createServerRoutes(
         return;
       }
 
+      // Incremental backups are assembled into a zip from the chunk store
+      if (backup.format === 'incremental') {
+        res.setHeader('Content-Disposition', `attachment; filename="${backup.name}.zip"`);
+        res.setHeader('Content-Type', 'application/zip');
+        await backupService.streamIncrementalArchive(backup.id, res);
+        return;
+      }
+
       const stat = await fs.stat(filePath);
       const filename = backup.name.endsWith('.zip') ? backup.name : `${backup.name}.zip`;
 
@@ -1173,10 +1357,153 @@ export function createServerRoutes(
       stream.pipe(res);
     } catch (error: any) {
       logger.error('Error downloading backup:', error);
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
       res.status(500).json({ error: error.message || 'Failed to download backup' });
     }
   });
 
+  /**
+   * GET /api/backups/:id/contents
+   * List the files in a backup as a tree, without extracting it
+   */
+  router.get('/backups/:id/contents', requirePermission(PERMISSIONS.BACKUPS_VIEW), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tree = await backupService.listBackupContents(req.params.id);
+      res.json(tree);
+    } catch (error: any) {
+      logger.error('Error listing backup contents:', error);
+      if (error.message === 'Backup not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Backup is not completed') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to list backup contents' });
+    }
+  });
+
+  /**
+   * GET /api/backups/:id/file?path=...
+   * Download a single file from a backup
+   */
+  router.get('/backups/:id/file', requirePermission(PERMISSIONS.BACKUPS_VIEW), async (req: Request, res: Response): Promise<void> => {
+    const filePath = req.query.path;
+    if (typeof filePath !== 'string' || !filePath) {
+      res.status(400).json({ error: 'path query parameter is required' });
+      return;
+    }
+
+    try {
+      const file = await backupService.openBackupFile(req.params.id, filePath);
+
+      res.setHeader('Content-Disposition', `attachment; filename="${file.name}"`);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Length', file.size);
+
+      file.stream.on('error', (error) => {
+        logger.error('Error streaming backup file:', error);
+        res.destroy(error);
+      });
+      file.stream.pipe(res);
+    } catch (error: any) {
+      logger.error('Error downloading backup file:', error);
+      if (error.message === 'Backup not found' || error.message === 'File not found in backup') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Backup is not completed' || error.message.startsWith('Invalid backup path')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to download backup file' });
+    }
+  });
+
+  /**
+   * GET /api/backups/:id/diff?base=<backupId>
+   * Compare a backup with another backup, or with the live server when no base is given (restore preview)
+   */
+  router.get('/backups/:id/diff', requirePermission(PERMISSIONS.BACKUPS_VIEW), async (req: Request, res: Response): Promise<void> => {
+    const base = typeof req.query.base === 'string' && req.query.base ? req.query.base : undefined;
+    try {
+      const diff = await backupService.diffBackup(req.params.id, base);
+      res.json(diff);
+    } catch (error: any) {
+      logger.error('Error comparing backups:', error);
+      if (error.message === 'Backup not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Backup is not completed') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to compare backups' });
+    }
+  });
+
+  /**
+   * POST /api/backups/:id/restore-files
+   * Restore selected files or directories from a backup
+   * Body: paths (string[]), target ("server" to overwrite the live server, "folder" for a side folder)
+   */
+  router.post('/backups/:id/restore-files', requirePermission(PERMISSIONS.BACKUPS_RESTORE), async (req: Request, res: Response): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const { paths, target } = req.body;
+
+    if (!Array.isArray(paths) || paths.length === 0 || !paths.every((p) => typeof p === 'string')) {
+      res.status(400).json({ error: 'paths must be a non-empty array of strings' });
+      return;
+    }
+    if (target !== 'server' && target !== 'folder') {
+      res.status(400).json({ error: 'target must be "server" or "folder"' });
+      return;
+    }
+
+    try {
+      const backup = await backupService.getBackup(req.params.id);
+      const result = await backupService.restoreBackupFiles(req.params.id, paths, target);
+
+      // Log activity (user is guaranteed by requirePermission middleware)
+      const activityLogService: ActivityLogService = req.app.get('activityLogService');
+      const context = getActivityContext(req);
+      const user = authReq.user!;
+      activityLogService.logAsync({
+        userId: user.id,
+        username: user.username,
+        userRole: user.role,
+        action: ACTIVITY_ACTIONS.BACKUP_RESTORE,
+        resourceType: RESOURCE_TYPES.BACKUP,
+        resourceId: req.params.id,
+        resourceName: backup.name,
+        details: { paths, target, restoredFiles: result.restoredFiles },
+        status: 'success',
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Error restoring backup files:', error);
+      if (error.message === 'Backup not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Backup is not completed'
+        || error.message === 'None of the selected paths are in this backup'
+        || error.message.startsWith('Invalid backup path')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: error.message || 'Failed to restore backup files' });
+    }
+  });
+
   /**
    * POST /api/backups/:id/restore
    * Restore a server from a backup
@@ -1866,6 +2193,54 @@ export function createServerRoutes(
     }
   });
 
+  /**
+   * GET /api/servers/:id/alerts/policy
+   * Get the alert policy in effect for a server (own, network default or built-in)
+   */
+  router.get('/:id/alerts/policy', requirePermission(PERMISSIONS.ALERTS_VIEW), async (req: Request, res: Response) => {
+    try {
+      const policy = await alertsService.getEffectivePolicy(req.params.id);
+      return res.json(policy);
+    } catch (error: any) {
+      logger.error('Error getting alert policy:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get alert policy' });
+    }
+  });
+
+  /**
+   * PUT /api/servers/:id/alerts/policy
+   * Set the server's own alert policy (omitted fields keep their current value)
+   */
+  router.put('/:id/alerts/policy', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const current = await alertsService.getEffectivePolicy(req.params.id);
+      const error = validateAlertPolicy({ ...current, ...req.body } as AlertPolicySettings);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const policy = await alertsService.setServerPolicy(req.params.id, req.body);
+      return res.json(policy);
+    } catch (error: any) {
+      logger.error('Error updating alert policy:', error);
+      return res.status(500).json({ error: error.message || 'Failed to update alert policy' });
+    }
+  });
+
+  /**
+   * DELETE /api/servers/:id/alerts/policy
+   * Remove the server's own policy so it inherits the network default again
+   */
+  router.delete('/:id/alerts/policy', requirePermission(PERMISSIONS.ALERTS_MANAGE), async (req: Request, res: Response) => {
+    try {
+      const policy = await alertsService.resetServerPolicy(req.params.id);
+      return res.json(policy);
+    } catch (error: any) {
+      logger.error('Error resetting alert policy:', error);
+      return res.status(500).json({ error: error.message || 'Failed to reset alert policy' });
+    }
+  });
+
   /**
    * PUT /api/servers/:id/alerts/:alertId/read
    * Mark alert as read
@@ -1940,6 +2315,29 @@ export function createServerRoutes(
     }
   });
 
+  /**
+   * GET /api/servers/:id/events
+   * Get the event dispatch log (which subscribers handled each event and why)
+   */
+  router.get('/:id/events', async (req: Request, res: Response) => {
+    try {
+      if (!eventBus) {
+        return res.status(503).json({ error: 'Event bus not available' });
+      }
+
+      const { eventType, limit, offset } = req.query;
+      const result = await eventBus.getDispatches(req.params.id, {
+        eventType: eventType as ServerEventType | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+      });
+      return res.json(result);
+    } catch (error: any) {
+      logger.error('Error getting server events:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get server events' });
+    }
+  });
+
   /**
    * GET /api/servers/:id/automation-rules/:ruleId
    * Get automation rule details
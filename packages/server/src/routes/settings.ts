@@ -6,6 +6,7 @@ import {
   NotificationEvent,
 } from '../services/DiscordNotificationService';
 import { FtpStorageService } from '../services/FtpStorageService';
+import { S3StorageService } from '../services/S3StorageService';
 import { SettingsService } from '../services/SettingsService';
 import { PERMISSIONS } from '../permissions/definitions';
 import logger from '../utils/logger';
@@ -13,7 +14,8 @@ import logger from '../utils/logger';
 export function createSettingsRoutes(
   settingsService: SettingsService,
   discordService: DiscordNotificationService,
-  ftpService: FtpStorageService
+  ftpService: FtpStorageService,
+  s3Service: S3StorageService
 ): Router {
   const router = Router();
 
@@ -297,6 +299,165 @@ export function createSettingsRoutes(
     }
   );
 
+  // ============================================
+  // S3 Storage Settings
+  // ============================================
+
+  /**
+   * GET /api/settings/s3
+   * Get S3 storage settings (credentials masked)
+   */
+  router.get('/s3', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (_req, res: Response) => {
+    try {
+      const settings = await settingsService.getCategoryMasked('s3');
+
+      const response = {
+        enabled: settings['s3.enabled'] === 'true',
+        endpoint: settings['s3.endpoint'] || '',
+        region: settings['s3.region'] || 'us-east-1',
+        bucket: settings['s3.bucket'] || '',
+        prefix: settings['s3.prefix'] || '',
+        accessKeyId: settings['s3.accessKeyId'] || '',
+        secretAccessKey: settings['s3.secretAccessKey'] || '',
+        forcePathStyle: settings['s3.forcePathStyle'] !== 'false',
+        configured: !!(settings['s3.endpoint'] && settings['s3.bucket'] && settings['s3.accessKeyId']),
+      };
+
+      res.json(response);
+    } catch (error: any) {
+      logger.error('Error getting S3 settings:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * PUT /api/settings/s3
+   * Update S3 storage settings
+   */
+  router.put(
+    '/s3',
+    requirePermission(PERMISSIONS.SETTINGS_UPDATE),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { enabled, endpoint, region, bucket, prefix, accessKeyId, secretAccessKey, forcePathStyle } = req.body;
+
+        const settingsUpdates: Record<string, string> = {};
+
+        if (enabled !== undefined) {
+          settingsUpdates['s3.enabled'] = String(enabled);
+        }
+        if (endpoint !== undefined) {
+          settingsUpdates['s3.endpoint'] = endpoint;
+        }
+        if (region !== undefined) {
+          settingsUpdates['s3.region'] = region;
+        }
+        if (bucket !== undefined) {
+          settingsUpdates['s3.bucket'] = bucket;
+        }
+        if (prefix !== undefined) {
+          settingsUpdates['s3.prefix'] = prefix;
+        }
+        if (accessKeyId !== undefined) {
+          settingsUpdates['s3.accessKeyId'] = accessKeyId;
+        }
+        if (secretAccessKey && secretAccessKey !== '***') {
+          settingsUpdates['s3.secretAccessKey'] = secretAccessKey;
+        }
+        if (forcePathStyle !== undefined) {
+          settingsUpdates['s3.forcePathStyle'] = String(forcePathStyle);
+        }
+
+        await settingsService.updateCategory('s3', settingsUpdates, req.user?.id);
+
+        // Apply to S3 service
+        await applyS3Settings(settingsService, s3Service);
+
+        res.json({ success: true, message: 'S3 settings updated successfully' });
+      } catch (error: any) {
+        logger.error('Error updating S3 settings:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  /**
+   * GET /api/settings/s3/status
+   * Get S3 connection status
+   */
+  router.get(
+    '/s3/status',
+    requirePermission(PERMISSIONS.SETTINGS_VIEW),
+    async (_req, res: Response) => {
+      try {
+        if (!s3Service.isEnabled()) {
+          res.json({
+            enabled: false,
+            connected: false,
+            message: 'S3 is not configured',
+          });
+          return;
+        }
+
+        const result = await s3Service.testConnection();
+        res.json({
+          enabled: true,
+          connected: result.success,
+          message: result.message,
+        });
+      } catch (error: any) {
+        logger.error('Error checking S3 status:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  /**
+   * POST /api/settings/s3/test
+   * Test S3 connection with provided credentials
+   */
+  router.post(
+    '/s3/test',
+    requirePermission(PERMISSIONS.SETTINGS_UPDATE),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { endpoint, region, bucket, prefix, accessKeyId, forcePathStyle } = req.body;
+        let { secretAccessKey } = req.body;
+
+        // The form sends the masked secret back when it wasn't changed
+        if (secretAccessKey === '***') {
+          secretAccessKey = await settingsService.get('s3.secretAccessKey');
+        }
+
+        if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+          res.status(400).json({ error: 'Endpoint, bucket, access key ID, and secret access key are required' });
+          return;
+        }
+
+        // Create temporary service with provided credentials
+        const testService = new S3StorageService({
+          endpoint,
+          region: region || 'us-east-1',
+          bucket,
+          prefix: prefix || '',
+          accessKeyId,
+          secretAccessKey,
+          forcePathStyle: forcePathStyle ?? true,
+        });
+
+        const result = await testService.testConnection();
+
+        res.json({
+          success: result.success,
+          message: result.message,
+        });
+      } catch (error: any) {
+        logger.error('Error testing S3 connection:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
   // ============================================
   // Modtale Settings
   // ============================================
@@ -385,7 +546,7 @@ export function createSettingsRoutes(
         await settingsService.updateCategory(category, updates, req.user?.id);
 
         // Apply settings to services
-        await applySettingsToServices(category, settingsService, discordService, ftpService);
+        await applySettingsToServices(category, settingsService, discordService, ftpService, s3Service);
 
         const settings = await settingsService.getCategoryMasked(category);
         res.json({ success: true, category, settings });
@@ -406,7 +567,8 @@ async function applySettingsToServices(
   category: string,
   settingsService: SettingsService,
   discordService: DiscordNotificationService,
-  ftpService: FtpStorageService
+  ftpService: FtpStorageService,
+  s3Service: S3StorageService
 ): Promise<void> {
   switch (category) {
     case 'discord':
@@ -415,6 +577,9 @@ async function applySettingsToServices(
     case 'ftp':
       await applyFtpSettings(settingsService, ftpService);
       break;
+    case 's3':
+      await applyS3Settings(settingsService, s3Service);
+      break;
   }
 }
 
@@ -466,5 +631,38 @@ async function applyFtpSettings(
   }
 }
 
+/**
+ * Apply S3 settings to service
+ */
+async function applyS3Settings(
+  settingsService: SettingsService,
+  s3Service: S3StorageService
+): Promise<void> {
+  const enabled = await settingsService.getBoolean('s3.enabled');
+  const endpoint = await settingsService.get('s3.endpoint');
+  const region = await settingsService.get('s3.region');
+  const bucket = await settingsService.get('s3.bucket');
+  const prefix = await settingsService.get('s3.prefix');
+  const accessKeyId = await settingsService.get('s3.accessKeyId');
+  const secretAccessKey = await settingsService.get('s3.secretAccessKey');
+  // Self-hosted servers rarely have per-bucket DNS, so path-style is the default
+  const forcePathStyle = (await settingsService.get('s3.forcePathStyle')) !== 'false';
+
+  if (enabled && endpoint && bucket && accessKeyId && secretAccessKey) {
+    s3Service.updateConfig({
+      endpoint,
+      region: region || 'us-east-1',
+      bucket,
+      prefix: prefix || '',
+      accessKeyId,
+      secretAccessKey,
+      forcePathStyle,
+    });
+    logger.info('Applied S3 settings to service');
+  } else if (s3Service.isEnabled()) {
+    s3Service.updateConfig(null);
+  }
+}
+
 // Export for use in app initialization
-export { applyDiscordSettings, applyFtpSettings };
+export { applyDiscordSettings, applyFtpSettings, applyS3Settings };
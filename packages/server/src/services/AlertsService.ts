@@ -1,12 +1,95 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, AlertPolicy } from '@prisma/client';
 import logger from '../utils/logger';
 import { DiscordNotificationService } from './DiscordNotificationService';
+import { ServerEventBus } from './ServerEventBus';
 
 const prisma = new PrismaClient();
 
-export type AlertType = 'server_down' | 'high_cpu' | 'high_memory' | 'high_disk' | 'player_join' | 'player_leave' | 'custom';
+export type AlertType = 'server_down' | 'crash_loop' | 'high_cpu' | 'high_memory' | 'high_disk' | 'high_players' | 'player_join' | 'player_leave' | 'custom';
 export type AlertSeverity = 'info' | 'warning' | 'critical';
 
+/**
+ * Alert types raised by monitoring and controlled by an alert policy
+ */
+export type PolicyAlertType = 'server_down' | 'high_cpu' | 'high_memory' | 'high_disk' | 'high_players';
+
+export const POLICY_ALERT_TYPES: PolicyAlertType[] = ['server_down', 'high_cpu', 'high_memory', 'high_disk', 'high_players'];
+
+export interface AlertPolicySettings {
+  cpuWarning: number;
+  cpuCritical: number;
+  memoryWarning: number;
+  memoryCritical: number;
+  diskWarning: number;
+  diskCritical: number;
+  playersWarning: number | null;
+  playersCritical: number | null;
+  minDurationMinutes: number;
+  enabledTypes: PolicyAlertType[];
+}
+
+export type AlertPolicySource = 'server' | 'network' | 'default';
+
+export interface EffectiveAlertPolicy extends AlertPolicySettings {
+  source: AlertPolicySource;
+  networkId?: string;
+}
+
+export const DEFAULT_ALERT_POLICY: AlertPolicySettings = {
+  cpuWarning: 80,
+  cpuCritical: 95,
+  memoryWarning: 85,
+  memoryCritical: 95,
+  diskWarning: 85,
+  diskCritical: 95,
+  playersWarning: null,
+  playersCritical: null,
+  minDurationMinutes: 0,
+  enabledTypes: [...POLICY_ALERT_TYPES],
+};
+
+/**
+ * Validate alert policy settings
+ * @returns Error message, or null if valid
+ */
+export function validateAlertPolicy(policy: AlertPolicySettings): string | null {
+  const percentPairs: Array<[string, number, number]> = [
+    ['CPU', policy.cpuWarning, policy.cpuCritical],
+    ['Memory', policy.memoryWarning, policy.memoryCritical],
+    ['Disk', policy.diskWarning, policy.diskCritical],
+  ];
+  for (const [label, warning, critical] of percentPairs) {
+    if (typeof warning !== 'number' || typeof critical !== 'number' || isNaN(warning) || isNaN(critical)) {
+      return `${label} thresholds must be numbers`;
+    }
+    if (warning < 0 || warning > 100 || critical < 0 || critical > 100) {
+      return `${label} thresholds must be between 0 and 100`;
+    }
+    if (warning > critical) {
+      return `${label} warning threshold must not exceed the critical threshold`;
+    }
+  }
+
+  for (const value of [policy.playersWarning, policy.playersCritical]) {
+    if (value !== null && (!Number.isInteger(value) || value < 1)) {
+      return 'Player count thresholds must be positive whole numbers';
+    }
+  }
+  if (policy.playersWarning !== null && policy.playersCritical !== null && policy.playersWarning > policy.playersCritical) {
+    return 'Player count warning threshold must not exceed the critical threshold';
+  }
+
+  if (!Number.isInteger(policy.minDurationMinutes) || policy.minDurationMinutes < 0) {
+    return 'Minimum duration must be a non-negative whole number of minutes';
+  }
+
+  if (!Array.isArray(policy.enabledTypes) || policy.enabledTypes.some(type => !POLICY_ALERT_TYPES.includes(type))) {
+    return `Enabled types must be a list of: ${POLICY_ALERT_TYPES.join(', ')}`;
+  }
+
+  return null;
+}
+
 export interface AlertInfo {
   id: string;
   serverId: string;
@@ -28,6 +111,8 @@ export interface CreateAlertData {
   title: string;
   message: string;
   metadata?: any;
+  /** Set false to keep this alert out of Discord */
+  notifyDiscord?: boolean;
 }
 
 export class AlertsService {
@@ -36,17 +121,14 @@ export class AlertsService {
   private readonly MONITORING_INTERVAL_MS = 60000; // 1 minute
   private readonly RETENTION_DAYS = 90; // Keep alerts for 90 days
   private discordService?: DiscordNotificationService;
+  private eventBus?: ServerEventBus;
 
-  // Alert thresholds
-  private readonly CPU_WARNING_THRESHOLD = 80;
-  private readonly CPU_CRITICAL_THRESHOLD = 95;
-  private readonly MEMORY_WARNING_THRESHOLD = 85;
-  private readonly MEMORY_CRITICAL_THRESHOLD = 95;
-  private readonly DISK_WARNING_THRESHOLD = 85;
-  private readonly DISK_CRITICAL_THRESHOLD = 95;
+  // When each threshold condition was first seen (serverId:type), for the policy's minimum duration
+  private conditionSince: Map<string, Date> = new Map();
 
-  constructor(discordService?: DiscordNotificationService) {
+  constructor(discordService?: DiscordNotificationService, eventBus?: ServerEventBus) {
     this.discordService = discordService;
+    this.eventBus = eventBus;
   }
 
   /**
@@ -74,7 +156,7 @@ export class AlertsService {
     logger.info(`Alert created: ${data.title} (${data.severity})`);
 
     // Send Discord notification for alerts
-    if (this.discordService) {
+    if (this.discordService && data.notifyDiscord !== false) {
       const server = await prisma.server.findUnique({
         where: { id: data.serverId },
       });
@@ -119,6 +201,41 @@ export class AlertsService {
     return alertInfo;
   }
 
+  /**
+   * Raise the server_down alert for a crash right away instead of on the next monitoring pass,
+   * or add the details to the crash alert that is already open
+   */
+  async raiseCrashAlert(serverId: string, metadata: Record<string, any>): Promise<void> {
+    const server = await prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) return;
+
+    const policy = await this.getEffectivePolicy(serverId);
+    if (!policy.enabledTypes.includes('server_down')) return;
+
+    const existingAlert = await prisma.alert.findFirst({
+      where: { serverId, type: 'server_down', isResolved: false },
+    });
+
+    if (existingAlert) {
+      const current = existingAlert.metadata ? JSON.parse(existingAlert.metadata) : {};
+      await prisma.alert.update({
+        where: { id: existingAlert.id },
+        data: { metadata: JSON.stringify({ ...current, ...metadata }) },
+      });
+      return;
+    }
+
+    const [title, message] = this.crashAlertText(server.name);
+    await this.createAlert({
+      serverId,
+      type: 'server_down',
+      severity: 'critical',
+      title,
+      message,
+      metadata,
+    });
+  }
+
   /**
    * Get alerts for a server
    */
@@ -301,105 +418,58 @@ export class AlertsService {
    * Check for alert conditions
    */
   private async checkAlertConditions(): Promise<void> {
-    const servers = await prisma.server.findMany({
-      include: {
-        metrics: {
-          orderBy: { timestamp: 'desc' },
-          take: 1,
+    const [servers, policies] = await Promise.all([
+      prisma.server.findMany({
+        include: {
+          metrics: {
+            orderBy: { timestamp: 'desc' },
+            take: 1,
+          },
+          networkMemberships: {
+            include: { network: { select: { sortOrder: true } } },
+          },
         },
-      },
-    });
+      }),
+      prisma.alertPolicy.findMany(),
+    ]);
 
     for (const server of servers) {
+      const networkIds = server.networkMemberships
+        .sort((a, b) => a.network.sortOrder - b.network.sortOrder)
+        .map(m => m.networkId);
+      const policy = this.resolvePolicy(server.id, networkIds, policies);
+      const enabled = (type: PolicyAlertType) => policy.enabledTypes.includes(type);
+
       // Only alert for crashed servers - 'stopped' means intentional/clean shutdown
-      if (server.status === 'crashed') {
+      if (server.status === 'crashed' && enabled('server_down')) {
         await this.checkAndCreateAlert(
           server.id,
           'server_down',
           'critical',
-          `Server ${server.name} has crashed`,
-          `The server ${server.name} has crashed unexpectedly.`
+          ...this.crashAlertText(server.name)
         );
-      } else if (server.status === 'running' || server.status === 'stopped') {
+      } else if (server.status === 'running' || server.status === 'stopped' || !enabled('server_down')) {
         // Auto-resolve server_down alerts when server is back online or cleanly stopped
         await this.autoResolveAlerts(server.id, 'server_down');
       }
 
+      // A crash loop ends once someone starts or stops the server
+      if (server.status === 'running' || server.status === 'stopped') {
+        await this.autoResolveAlerts(server.id, 'crash_loop');
+      }
+
       // Check metrics if available
       if (server.metrics.length > 0) {
         const metric = server.metrics[0];
 
-        // Check CPU usage
-        if (metric.cpuUsage >= this.CPU_CRITICAL_THRESHOLD) {
-          await this.checkAndCreateAlert(
-            server.id,
-            'high_cpu',
-            'critical',
-            `Critical CPU usage on ${server.name}`,
-            `CPU usage is at ${metric.cpuUsage.toFixed(1)}%`,
-            { cpuUsage: metric.cpuUsage }
-          );
-        } else if (metric.cpuUsage >= this.CPU_WARNING_THRESHOLD) {
-          await this.checkAndCreateAlert(
-            server.id,
-            'high_cpu',
-            'warning',
-            `High CPU usage on ${server.name}`,
-            `CPU usage is at ${metric.cpuUsage.toFixed(1)}%`,
-            { cpuUsage: metric.cpuUsage }
-          );
-        } else {
-          // Auto-resolve high_cpu alerts when CPU is back to normal
-          await this.autoResolveAlerts(server.id, 'high_cpu');
-        }
-
-        // Check memory usage
-        if (metric.memoryUsage >= this.MEMORY_CRITICAL_THRESHOLD) {
-          await this.checkAndCreateAlert(
-            server.id,
-            'high_memory',
-            'critical',
-            `Critical memory usage on ${server.name}`,
-            `Memory usage is at ${metric.memoryUsage.toFixed(1)}%`,
-            { memoryUsage: metric.memoryUsage }
-          );
-        } else if (metric.memoryUsage >= this.MEMORY_WARNING_THRESHOLD) {
-          await this.checkAndCreateAlert(
-            server.id,
-            'high_memory',
-            'warning',
-            `High memory usage on ${server.name}`,
-            `Memory usage is at ${metric.memoryUsage.toFixed(1)}%`,
-            { memoryUsage: metric.memoryUsage }
-          );
-        } else {
-          // Auto-resolve high_memory alerts when memory is back to normal
-          await this.autoResolveAlerts(server.id, 'high_memory');
-        }
-
-        // Check disk usage
-        if (metric.diskUsage >= this.DISK_CRITICAL_THRESHOLD) {
-          await this.checkAndCreateAlert(
-            server.id,
-            'high_disk',
-            'critical',
-            `Critical disk usage on ${server.name}`,
-            `Disk usage is at ${metric.diskUsage.toFixed(1)}%`,
-            { diskUsage: metric.diskUsage }
-          );
-        } else if (metric.diskUsage >= this.DISK_WARNING_THRESHOLD) {
-          await this.checkAndCreateAlert(
-            server.id,
-            'high_disk',
-            'warning',
-            `High disk usage on ${server.name}`,
-            `Disk usage is at ${metric.diskUsage.toFixed(1)}%`,
-            { diskUsage: metric.diskUsage }
-          );
-        } else {
-          // Auto-resolve high_disk alerts when disk usage is back to normal
-          await this.autoResolveAlerts(server.id, 'high_disk');
-        }
+        await this.checkThreshold(server, policy, 'high_cpu', metric.cpuUsage, policy.cpuWarning, policy.cpuCritical,
+          'CPU usage', `${metric.cpuUsage.toFixed(1)}%`, { cpuUsage: metric.cpuUsage });
+        await this.checkThreshold(server, policy, 'high_memory', metric.memoryUsage, policy.memoryWarning, policy.memoryCritical,
+          'memory usage', `${metric.memoryUsage.toFixed(1)}%`, { memoryUsage: metric.memoryUsage });
+        await this.checkThreshold(server, policy, 'high_disk', metric.diskUsage, policy.diskWarning, policy.diskCritical,
+          'disk usage', `${metric.diskUsage.toFixed(1)}%`, { diskUsage: metric.diskUsage });
+        await this.checkThreshold(server, policy, 'high_players', metric.playerCount, policy.playersWarning, policy.playersCritical,
+          'player count', `${metric.playerCount}`, { playerCount: metric.playerCount });
       }
     }
 
@@ -410,6 +480,213 @@ export class AlertsService {
     }
   }
 
+  /**
+   * Raise a warning/critical alert once a value has stayed over its threshold for the
+   * policy's minimum duration, and auto-resolve it when the value is back to normal
+   */
+  private async checkThreshold(
+    server: { id: string; name: string },
+    policy: EffectiveAlertPolicy,
+    type: PolicyAlertType,
+    value: number,
+    warning: number | null,
+    critical: number | null,
+    label: string,
+    display: string,
+    metadata: Record<string, number>
+  ): Promise<void> {
+    const key = `${server.id}:${type}`;
+    const severity: AlertSeverity | null = !policy.enabledTypes.includes(type)
+      ? null
+      : critical !== null && value >= critical
+        ? 'critical'
+        : warning !== null && value >= warning
+          ? 'warning'
+          : null;
+
+    if (!severity) {
+      this.conditionSince.delete(key);
+      await this.autoResolveAlerts(server.id, type);
+      return;
+    }
+
+    const now = new Date();
+    const since = this.conditionSince.get(key) || now;
+    this.conditionSince.set(key, since);
+    if (now.getTime() - since.getTime() < policy.minDurationMinutes * 60 * 1000) {
+      return;
+    }
+
+    const capitalized = label.charAt(0).toUpperCase() + label.slice(1);
+    await this.checkAndCreateAlert(
+      server.id,
+      type,
+      severity,
+      `${severity === 'critical' ? 'Critical' : 'High'} ${label} on ${server.name}`,
+      `${capitalized} is at ${display}`,
+      metadata
+    );
+  }
+
+  /**
+   * Get the policy in effect for a server: its own policy, else the first network default, else built-in defaults
+   */
+  async getEffectivePolicy(serverId: string): Promise<EffectiveAlertPolicy> {
+    const memberships = await prisma.serverNetworkMember.findMany({
+      where: { serverId },
+      include: { network: { select: { sortOrder: true } } },
+    });
+    const networkIds = memberships
+      .sort((a, b) => a.network.sortOrder - b.network.sortOrder)
+      .map(m => m.networkId);
+
+    const policies = await prisma.alertPolicy.findMany({
+      where: { OR: [{ serverId }, { networkId: { in: networkIds } }] },
+    });
+
+    return this.resolvePolicy(serverId, networkIds, policies);
+  }
+
+  /**
+   * Create or update a server's own policy. Omitted fields keep their currently effective value.
+   */
+  async setServerPolicy(serverId: string, data: Partial<AlertPolicySettings>): Promise<EffectiveAlertPolicy> {
+    const current = await this.getEffectivePolicy(serverId);
+    const settings = this.mergePolicy(current, data);
+
+    await prisma.alertPolicy.upsert({
+      where: { serverId },
+      create: { serverId, ...this.toPolicyData(settings) },
+      update: this.toPolicyData(settings),
+    });
+    this.clearConditionState(serverId);
+
+    return { ...settings, source: 'server' };
+  }
+
+  /**
+   * Remove a server's own policy so it inherits the network default again
+   */
+  async resetServerPolicy(serverId: string): Promise<EffectiveAlertPolicy> {
+    await prisma.alertPolicy.deleteMany({ where: { serverId } });
+    this.clearConditionState(serverId);
+    return this.getEffectivePolicy(serverId);
+  }
+
+  /**
+   * Get a network's default policy, or null if none is set
+   */
+  async getNetworkPolicy(networkId: string): Promise<AlertPolicySettings | null> {
+    const policy = await prisma.alertPolicy.findUnique({ where: { networkId } });
+    return policy ? this.mapToPolicySettings(policy) : null;
+  }
+
+  /**
+   * Create or update a network's default policy. Omitted fields keep their current (or built-in) value.
+   */
+  async setNetworkPolicy(networkId: string, data: Partial<AlertPolicySettings>): Promise<AlertPolicySettings> {
+    const current = await this.getNetworkPolicy(networkId) || DEFAULT_ALERT_POLICY;
+    const settings = this.mergePolicy(current, data);
+
+    await prisma.alertPolicy.upsert({
+      where: { networkId },
+      create: { networkId, ...this.toPolicyData(settings) },
+      update: this.toPolicyData(settings),
+    });
+    this.conditionSince.clear();
+
+    return settings;
+  }
+
+  /**
+   * Remove a network's default policy
+   */
+  async resetNetworkPolicy(networkId: string): Promise<void> {
+    await prisma.alertPolicy.deleteMany({ where: { networkId } });
+    this.conditionSince.clear();
+  }
+
+  private resolvePolicy(serverId: string, networkIds: string[], policies: AlertPolicy[]): EffectiveAlertPolicy {
+    const own = policies.find(p => p.serverId === serverId);
+    if (own) {
+      return { ...this.mapToPolicySettings(own), source: 'server' };
+    }
+
+    for (const networkId of networkIds) {
+      const networkDefault = policies.find(p => p.networkId === networkId);
+      if (networkDefault) {
+        return { ...this.mapToPolicySettings(networkDefault), source: 'network', networkId };
+      }
+    }
+
+    return { ...DEFAULT_ALERT_POLICY, enabledTypes: [...DEFAULT_ALERT_POLICY.enabledTypes], source: 'default' };
+  }
+
+  private mergePolicy(current: AlertPolicySettings, data: Partial<AlertPolicySettings>): AlertPolicySettings {
+    const settings: AlertPolicySettings = {
+      cpuWarning: data.cpuWarning ?? current.cpuWarning,
+      cpuCritical: data.cpuCritical ?? current.cpuCritical,
+      memoryWarning: data.memoryWarning ?? current.memoryWarning,
+      memoryCritical: data.memoryCritical ?? current.memoryCritical,
+      diskWarning: data.diskWarning ?? current.diskWarning,
+      diskCritical: data.diskCritical ?? current.diskCritical,
+      // null is meaningful here (no player count alert at that level)
+      playersWarning: data.playersWarning !== undefined ? data.playersWarning : current.playersWarning,
+      playersCritical: data.playersCritical !== undefined ? data.playersCritical : current.playersCritical,
+      minDurationMinutes: data.minDurationMinutes ?? current.minDurationMinutes,
+      enabledTypes: data.enabledTypes ?? current.enabledTypes,
+    };
+
+    const error = validateAlertPolicy(settings);
+    if (error) {
+      throw new Error(error);
+    }
+
+    return settings;
+  }
+
+  private toPolicyData(settings: AlertPolicySettings) {
+    return {
+      cpuWarning: settings.cpuWarning,
+      cpuCritical: settings.cpuCritical,
+      memoryWarning: settings.memoryWarning,
+      memoryCritical: settings.memoryCritical,
+      diskWarning: settings.diskWarning,
+      diskCritical: settings.diskCritical,
+      playersWarning: settings.playersWarning,
+      playersCritical: settings.playersCritical,
+      minDurationMinutes: settings.minDurationMinutes,
+      enabledTypes: JSON.stringify(settings.enabledTypes),
+    };
+  }
+
+  private mapToPolicySettings(policy: AlertPolicy): AlertPolicySettings {
+    return {
+      cpuWarning: policy.cpuWarning,
+      cpuCritical: policy.cpuCritical,
+      memoryWarning: policy.memoryWarning,
+      memoryCritical: policy.memoryCritical,
+      diskWarning: policy.diskWarning,
+      diskCritical: policy.diskCritical,
+      playersWarning: policy.playersWarning,
+      playersCritical: policy.playersCritical,
+      minDurationMinutes: policy.minDurationMinutes,
+      enabledTypes: JSON.parse(policy.enabledTypes),
+    };
+  }
+
+  private clearConditionState(serverId: string): void {
+    for (const key of Array.from(this.conditionSince.keys())) {
+      if (key.startsWith(`${serverId}:`)) {
+        this.conditionSince.delete(key);
+      }
+    }
+  }
+
+  private crashAlertText(serverName: string): [title: string, message: string] {
+    return [`Server ${serverName} has crashed`, `The server ${serverName} has crashed unexpectedly.`];
+  }
+
   /**
    * Check if similar unresolved alert exists, create if not
    */
@@ -440,6 +717,13 @@ export class AlertsService {
         message,
         metadata,
       });
+
+      // Resource alerts are also server events (automation rules can react to them)
+      if (this.eventBus && (type === 'high_cpu' || type === 'high_memory' || type === 'high_disk')) {
+        this.eventBus.publish(type, serverId, 'alerts', { severity, ...metadata }).catch((error) => {
+          logger.error(`Failed to publish ${type} for server ${serverId}:`, error);
+        });
+      }
     }
   }
 
@@ -5,11 +5,13 @@ import { ServerService } from './ServerService';
 import { BackupService } from './BackupService';
 import { ActivityLogService } from './ActivityLogService';
 import { ACTIVITY_ACTIONS, RESOURCE_TYPES } from '../constants/ActivityLogActions';
+import { ServerEvent, DispatchResult } from './ServerEventBus';
+import { MetricData } from './MetricsService';
 
 const prisma = new PrismaClient();
 
 export type TriggerType = 'scheduled' | 'event' | 'condition';
-export type EventType = 'server_start' | 'server_stop' | 'player_join' | 'player_leave' | 'high_cpu' | 'high_memory';
+export type EventType = 'server_start' | 'server_stop' | 'server_crash' | 'player_join' | 'player_leave' | 'high_cpu' | 'high_memory' | 'high_disk';
 export type ConditionType = 'cpu_usage' | 'memory_usage' | 'disk_usage' | 'player_count';
 export type ConditionOperator = 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
 export type ActionType = 'start_server' | 'stop_server' | 'restart_server' | 'send_command' | 'create_backup' | 'send_alert';
@@ -23,6 +25,10 @@ export interface TriggerConfig {
     diskUsage?: number;
     playerCount?: number;
   };
+  // Condition triggers: conditions must hold for this long before firing (0 = first matching sample)
+  sustainedMinutes?: number;
+  // Condition triggers: minimum time between firings
+  cooldownMinutes?: number;
 }
 
 export interface Condition {
@@ -31,6 +37,16 @@ export interface Condition {
   value: number;
 }
 
+export interface ConditionGroup {
+  operator: 'and' | 'or';
+  conditions: Array<Condition | ConditionGroup>;
+}
+
+// A plain array is an implicit AND group
+export type RuleConditions = Condition[] | ConditionGroup;
+
+type MetricValues = Pick<MetricData, 'cpuUsage' | 'memoryUsage' | 'diskUsage' | 'playerCount'>;
+
 export interface Action {
   type: ActionType;
   config: any;
@@ -44,7 +60,7 @@ export interface AutomationRuleInfo {
   enabled: boolean;
   triggerType: TriggerType;
   triggerConfig: TriggerConfig;
-  conditions?: Condition[];
+  conditions?: RuleConditions;
   actions: Action[];
   backupLimit: number;
   lastTriggered?: Date;
@@ -55,6 +71,15 @@ export interface AutomationRuleInfo {
   updatedAt: Date;
 }
 
+export interface RuleExecutionResult {
+  status: 'success' | 'skipped' | 'failed';
+  message?: string;
+}
+
+export const AUTOMATION_EVENT_TYPES: EventType[] = [
+  'server_start', 'server_stop', 'server_crash', 'player_join', 'player_leave', 'high_cpu', 'high_memory', 'high_disk',
+];
+
 export interface CreateRuleData {
   serverId: string;
   name: string;
@@ -62,13 +87,16 @@ export interface CreateRuleData {
   enabled?: boolean;
   triggerType: TriggerType;
   triggerConfig: TriggerConfig;
-  conditions?: Condition[];
+  conditions?: RuleConditions;
   actions: Action[];
   backupLimit?: number;
 }
 
 export class AutomationRulesService {
   private scheduledTasks: Map<string, cron.ScheduledTask> = new Map();
+  // Condition rules: when the conditions started holding continuously
+  private conditionMetSince: Map<string, Date> = new Map();
+  private executingRules: Set<string> = new Set();
   private serverService: ServerService;
   private backupService: BackupService;
   private activityLogService?: ActivityLogService;
@@ -105,6 +133,8 @@ export class AutomationRulesService {
    * Create automation rule
    */
   async createRule(data: CreateRuleData): Promise<AutomationRuleInfo> {
+    this.validateConditions(data.triggerType, data.conditions);
+
     const rule = await prisma.automationRule.create({
       data: {
         serverId: data.serverId,
@@ -167,6 +197,14 @@ export class AutomationRulesService {
    * Update automation rule
    */
   async updateRule(ruleId: string, data: Partial<CreateRuleData>): Promise<AutomationRuleInfo> {
+    if (data.triggerType !== undefined || data.conditions !== undefined) {
+      const existing = await this.getRule(ruleId);
+      this.validateConditions(
+        data.triggerType ?? existing?.triggerType ?? 'scheduled',
+        data.conditions !== undefined ? data.conditions : existing?.conditions
+      );
+    }
+
     const updateData: any = {};
 
     if (data.name !== undefined) updateData.name = data.name;
@@ -183,6 +221,9 @@ export class AutomationRulesService {
       data: updateData,
     });
 
+    // Conditions may have changed - restart the sustained window
+    this.conditionMetSince.delete(ruleId);
+
     // Reschedule if it's a scheduled trigger
     if (rule.triggerType === 'scheduled') {
       await this.unscheduleRule(ruleId);
@@ -199,6 +240,7 @@ export class AutomationRulesService {
    */
   async deleteRule(ruleId: string): Promise<void> {
     await this.unscheduleRule(ruleId);
+    this.conditionMetSince.delete(ruleId);
 
     await prisma.automationRule.delete({
       where: { id: ruleId },
@@ -216,6 +258,8 @@ export class AutomationRulesService {
       data: { enabled },
     });
 
+    this.conditionMetSince.delete(ruleId);
+
     if (rule.triggerType === 'scheduled') {
       if (enabled) {
         await this.scheduleRule(ruleId);
@@ -228,7 +272,7 @@ export class AutomationRulesService {
   /**
    * Execute rule manually
    */
-  async executeRule(ruleId: string): Promise<void> {
+  async executeRule(ruleId: string): Promise<RuleExecutionResult> {
     const rule = await prisma.automationRule.findUnique({
       where: { id: ruleId },
     });
@@ -239,7 +283,7 @@ export class AutomationRulesService {
 
     const ruleInfo = this.mapToRuleInfo(rule);
 
-    await this.executeActions(ruleInfo);
+    return this.executeActions(ruleInfo);
   }
 
   /**
@@ -292,16 +336,19 @@ export class AutomationRulesService {
   /**
    * Execute rule actions
    */
-  private async executeActions(rule: AutomationRuleInfo): Promise<void> {
+  private async executeActions(
+    rule: AutomationRuleInfo,
+    options?: { conditionsChecked?: boolean }
+  ): Promise<RuleExecutionResult> {
     logger.info(`Executing automation rule: ${rule.name}`);
 
     try {
       // Check conditions if any
-      if (rule.conditions && rule.conditions.length > 0) {
+      if (!options?.conditionsChecked && this.hasConditions(rule.conditions)) {
         const conditionsMet = await this.checkConditions(rule.serverId, rule.conditions);
         if (!conditionsMet) {
           logger.info(`Conditions not met for rule ${rule.name}, skipping`);
-          return;
+          return { status: 'skipped', message: 'Conditions not met' };
         }
       }
 
@@ -341,6 +388,7 @@ export class AutomationRulesService {
       });
 
       logger.info(`Successfully executed automation rule: ${rule.name}`);
+      return { status: 'success' };
     } catch (error: any) {
       logger.error(`Error executing automation rule ${rule.name}:`, error);
 
@@ -373,13 +421,15 @@ export class AutomationRulesService {
           actions: rule.actions.map(a => a.type),
         },
       });
+
+      return { status: 'failed', message: error.message };
     }
   }
 
   /**
    * Check if conditions are met
    */
-  private async checkConditions(serverId: string, conditions: Condition[]): Promise<boolean> {
+  private async checkConditions(serverId: string, conditions: RuleConditions): Promise<boolean> {
     const latestMetric = await prisma.serverMetric.findFirst({
       where: { serverId },
       orderBy: { timestamp: 'desc' },
@@ -389,31 +439,52 @@ export class AutomationRulesService {
       return false;
     }
 
-    for (const condition of conditions) {
-      let value = 0;
-
-      switch (condition.type) {
-        case 'cpu_usage':
-          value = latestMetric.cpuUsage;
-          break;
-        case 'memory_usage':
-          value = latestMetric.memoryUsage;
-          break;
-        case 'disk_usage':
-          value = latestMetric.diskUsage;
-          break;
-        case 'player_count':
-          value = latestMetric.playerCount;
-          break;
-      }
+    return this.evaluateConditions(conditions, latestMetric);
+  }
 
-      const met = this.checkCondition(value, condition.operator, condition.value);
-      if (!met) {
-        return false;
-      }
+  /**
+   * Evaluate a condition tree against a metrics sample
+   */
+  private evaluateConditions(conditions: RuleConditions, values: MetricValues): boolean {
+    const group: ConditionGroup = Array.isArray(conditions) ? { operator: 'and', conditions } : conditions;
+
+    const results = group.conditions.map(condition =>
+      'conditions' in condition
+        ? this.evaluateConditions(condition, values)
+        : this.checkCondition(this.getConditionValue(condition.type, values), condition.operator, condition.value)
+    );
+
+    return group.operator === 'or' ? results.some(Boolean) : results.every(Boolean);
+  }
+
+  /**
+   * Get the metric value a condition refers to
+   */
+  private getConditionValue(type: ConditionType, values: MetricValues): number {
+    switch (type) {
+      case 'cpu_usage': return values.cpuUsage;
+      case 'memory_usage': return values.memoryUsage;
+      case 'disk_usage': return values.diskUsage;
+      case 'player_count': return values.playerCount;
+      default: return 0;
     }
+  }
 
-    return true;
+  /**
+   * Check whether a rule has any conditions
+   */
+  private hasConditions(conditions?: RuleConditions): conditions is RuleConditions {
+    if (!conditions) return false;
+    return Array.isArray(conditions) ? conditions.length > 0 : conditions.conditions.length > 0;
+  }
+
+  /**
+   * Reject condition-triggered rules without conditions (they would fire on every sample)
+   */
+  private validateConditions(triggerType: TriggerType, conditions?: RuleConditions): void {
+    if (triggerType === 'condition' && !this.hasConditions(conditions)) {
+      throw new Error('Condition-triggered rules require at least one condition');
+    }
   }
 
   /**
@@ -472,8 +543,12 @@ export class AutomationRulesService {
 
   /**
    * Trigger event-based rules
+   * @returns Outcome per matching rule
    */
-  async triggerEvent(serverId: string, event: EventType): Promise<void> {
+  async triggerEvent(
+    serverId: string,
+    event: EventType
+  ): Promise<Array<RuleExecutionResult & { ruleId: string; ruleName: string }>> {
     const rules = await prisma.automationRule.findMany({
       where: {
         serverId,
@@ -482,14 +557,89 @@ export class AutomationRulesService {
       },
     });
 
+    const results: Array<RuleExecutionResult & { ruleId: string; ruleName: string }> = [];
+
     for (const rule of rules) {
       const triggerConfig: TriggerConfig = JSON.parse(rule.triggerConfig);
 
       if (triggerConfig.event === event) {
         const ruleInfo = this.mapToRuleInfo(rule);
-        await this.executeActions(ruleInfo);
+        const result = await this.executeActions(ruleInfo);
+        results.push({ ruleId: rule.id, ruleName: rule.name, ...result });
       }
     }
+
+    return results;
+  }
+
+  /**
+   * Evaluate condition-triggered rules against a new metrics sample.
+   * A rule fires once its conditions have held for sustainedMinutes,
+   * and not again until cooldownMinutes have passed since it last fired.
+   */
+  async evaluateConditionRules(serverId: string, sample: MetricData): Promise<void> {
+    const rules = await prisma.automationRule.findMany({
+      where: {
+        serverId,
+        enabled: true,
+        triggerType: 'condition',
+      },
+    });
+
+    for (const rule of rules) {
+      const ruleInfo = this.mapToRuleInfo(rule);
+      if (!this.hasConditions(ruleInfo.conditions)) continue;
+
+      if (!this.evaluateConditions(ruleInfo.conditions, sample)) {
+        this.conditionMetSince.delete(rule.id);
+        continue;
+      }
+
+      const since = this.conditionMetSince.get(rule.id) || sample.timestamp;
+      this.conditionMetSince.set(rule.id, since);
+
+      const sustainedMs = (ruleInfo.triggerConfig.sustainedMinutes || 0) * 60 * 1000;
+      if (sample.timestamp.getTime() - since.getTime() < sustainedMs) continue;
+
+      const cooldownMs = (ruleInfo.triggerConfig.cooldownMinutes || 0) * 60 * 1000;
+      if (ruleInfo.lastTriggered && sample.timestamp.getTime() - ruleInfo.lastTriggered.getTime() < cooldownMs) continue;
+
+      if (this.executingRules.has(rule.id)) continue;
+
+      logger.info(`Condition rule ${rule.name} met on server ${serverId}, executing`);
+
+      // Each firing needs a new full sustained window, even without a cooldown
+      this.conditionMetSince.delete(rule.id);
+
+      // Don't hold up metrics collection while actions (e.g. stop server) run
+      this.executingRules.add(rule.id);
+      this.executeActions(ruleInfo, { conditionsChecked: true })
+        .catch((error) => logger.error(`Error executing condition rule ${rule.id}:`, error))
+        .finally(() => this.executingRules.delete(rule.id));
+    }
+  }
+
+  /**
+   * Event bus subscriber - runs matching event rules and explains the outcome
+   */
+  async handleEvent(event: ServerEvent): Promise<Omit<DispatchResult, 'subscriber'>> {
+    const results = await this.triggerEvent(event.serverId, event.type as EventType);
+
+    if (results.length === 0) {
+      return { status: 'skipped', detail: `No enabled event rules for ${event.type}` };
+    }
+
+    const detail = results
+      .map(result => `${result.ruleName}: ${result.status}${result.message ? ` (${result.message})` : ''}`)
+      .join('; ');
+
+    if (results.some(result => result.status === 'failed')) {
+      return { status: 'failed', detail };
+    }
+    if (results.every(result => result.status === 'skipped')) {
+      return { status: 'skipped', detail };
+    }
+    return { status: 'handled', detail };
   }
 
   /**
@@ -524,6 +674,7 @@ export class AutomationRulesService {
       task.stop();
     }
     this.scheduledTasks.clear();
+    this.conditionMetSince.clear();
     logger.info('Cleaned up all automation rule schedules');
   }
 }
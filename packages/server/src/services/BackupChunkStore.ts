@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import logger from '../utils/logger';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const MANIFEST_VERSION = 1;
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const CHUNK_NAME = /^[0-9a-f]{64}$/;
+
+export interface ManifestFile {
+  /** Path inside the backup, always with forward slashes */
+  path: string;
+  size: number;
+  mtimeMs: number;
+  mode: number;
+  /** sha256 of each chunk of the file, in order */
+  chunks: string[];
+}
+
+export interface BackupManifest {
+  version: number;
+  chunkSize: number;
+  createdAt: string;
+  files: ManifestFile[];
+}
+
+export interface StoredFile {
+  entry: ManifestFile;
+  /** Compressed bytes of chunks that were not in the store yet */
+  storedBytes: number;
+  /** True when the file was unchanged since the previous manifest and was not read */
+  reused: boolean;
+}
+
+export interface GarbageCollectionResult {
+  removedChunks: number;
+  freedBytes: number;
+}
+
+// Backups and garbage collection on the same store must not interleave, or a sweep
+// could remove chunks a running backup has written but not yet referenced
+const storeLocks: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Content-addressed chunk store for incremental backups.
+ *
+ * Files are split into fixed-size chunks that are stored once under their sha256, gzipped.
+ * Each backup is a JSON manifest listing its files and their chunks, so unchanged files and
+ * chunks cost nothing after the first backup. Chunks no manifest references are removed by
+ * collectGarbage().
+ *
+ * Layout:
+ *   <root>/chunks/ab/abcdef...   chunk data
+ *   <root>/manifests/<name>.json one manifest per backup
+ */
+export class BackupChunkStore {
+  readonly rootPath: string;
+  readonly chunkSize: number;
+
+  constructor(rootPath: string, chunkSize: number = DEFAULT_CHUNK_SIZE) {
+    this.rootPath = path.resolve(rootPath);
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * The store a manifest belongs to
+   */
+  static forManifest(manifestPath: string, chunkSize?: number): BackupChunkStore {
+    return new BackupChunkStore(path.dirname(path.dirname(manifestPath)), chunkSize);
+  }
+
+  get manifestsPath(): string {
+    return path.join(this.rootPath, 'manifests');
+  }
+
+  manifestPath(name: string): string {
+    return path.join(this.manifestsPath, `${name}.json`);
+  }
+
+  /**
+   * Run an operation with exclusive access to this store
+   */
+  async exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = storeLocks.get(this.rootPath) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(operation);
+    const settled = run.catch(() => undefined);
+    storeLocks.set(this.rootPath, settled);
+
+    try {
+      return await run;
+    } finally {
+      if (storeLocks.get(this.rootPath) === settled) {
+        storeLocks.delete(this.rootPath);
+      }
+    }
+  }
+
+  /**
+   * Add a file to the store. When the previous manifest has the file with the same size and
+   * modification time its chunks are reused without reading the file.
+   */
+  async storeFile(absolutePath: string, relativePath: string, previous?: ManifestFile): Promise<StoredFile> {
+    const stat = await fs.stat(absolutePath);
+
+    if (previous && previous.size === stat.size && previous.mtimeMs === stat.mtimeMs
+      && await this.hasChunks(previous.chunks)) {
+      return {
+        entry: { ...previous, path: relativePath, mode: stat.mode },
+        storedBytes: 0,
+        reused: true,
+      };
+    }
+
+    const chunks: string[] = [];
+    let storedBytes = 0;
+    let size = 0;
+
+    const handle = await fs.promises.open(absolutePath, 'r');
+    try {
+      const buffer = Buffer.alloc(this.chunkSize);
+      for (;;) {
+        const { bytesRead } = await handle.read(buffer, 0, this.chunkSize, size);
+        if (bytesRead === 0) break;
+
+        const data = buffer.subarray(0, bytesRead);
+        const hash = crypto.createHash('sha256').update(data).digest('hex');
+        storedBytes += await this.writeChunk(hash, data);
+        chunks.push(hash);
+        size += bytesRead;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    return {
+      entry: { path: relativePath, size, mtimeMs: stat.mtimeMs, mode: stat.mode, chunks },
+      storedBytes,
+      reused: false,
+    };
+  }
+
+  /**
+   * Write a manifest, returning its size in bytes
+   */
+  async writeManifest(manifestPath: string, files: ManifestFile[]): Promise<number> {
+    const manifest: BackupManifest = {
+      version: MANIFEST_VERSION,
+      chunkSize: this.chunkSize,
+      createdAt: new Date().toISOString(),
+      files,
+    };
+    const content = JSON.stringify(manifest);
+    await fs.ensureDir(path.dirname(manifestPath));
+    await fs.writeFile(manifestPath, content);
+    return Buffer.byteLength(content);
+  }
+
+  async readManifest(manifestPath: string): Promise<BackupManifest> {
+    const manifest: BackupManifest = await fs.readJson(manifestPath);
+    if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.files)) {
+      throw new Error(`Unsupported backup manifest: ${manifestPath}`);
+    }
+    return manifest;
+  }
+
+  /**
+   * Files of a manifest by path, for passing to storeFile(). Manifests written with a different
+   * chunk size can't share chunks, so they give an empty index.
+   */
+  indexManifest(manifest: BackupManifest): Map<string, ManifestFile> {
+    if (manifest.chunkSize !== this.chunkSize) {
+      return new Map();
+    }
+    return new Map(manifest.files.map((file) => [file.path, file]));
+  }
+
+  /**
+   * Stream the contents of a file in a manifest
+   */
+  openFile(entry: ManifestFile): Readable {
+    const store = this;
+    return Readable.from((async function* () {
+      for (const hash of entry.chunks) {
+        yield await store.readChunk(hash);
+      }
+    })());
+  }
+
+  /**
+   * Rebuild a file from its chunks, restoring its mode and modification time
+   */
+  async restoreFile(entry: ManifestFile, destinationPath: string): Promise<void> {
+    await fs.ensureDir(path.dirname(destinationPath));
+    await pipeline(this.openFile(entry), fs.createWriteStream(destinationPath, { mode: entry.mode }));
+    const mtime = new Date(entry.mtimeMs);
+    await fs.utimes(destinationPath, mtime, mtime);
+  }
+
+  /**
+   * Remove chunks no manifest in the store references.
+   * Callers should hold exclusive() so a backup in progress can't lose its chunks.
+   */
+  async collectGarbage(): Promise<GarbageCollectionResult> {
+    const referenced = new Set<string>();
+    if (await fs.pathExists(this.manifestsPath)) {
+      for (const name of await fs.readdir(this.manifestsPath)) {
+        if (!name.endsWith('.json')) continue;
+        const manifest = await this.readManifest(path.join(this.manifestsPath, name));
+        for (const file of manifest.files) {
+          for (const hash of file.chunks) {
+            referenced.add(hash);
+          }
+        }
+      }
+    }
+
+    const result: GarbageCollectionResult = { removedChunks: 0, freedBytes: 0 };
+    const chunksPath = path.join(this.rootPath, 'chunks');
+    if (!await fs.pathExists(chunksPath)) {
+      return result;
+    }
+
+    for (const prefix of await fs.readdir(chunksPath)) {
+      const prefixPath = path.join(chunksPath, prefix);
+      for (const name of await fs.readdir(prefixPath)) {
+        if (CHUNK_NAME.test(name) && referenced.has(name)) continue;
+
+        const chunkPath = path.join(prefixPath, name);
+        const { size } = await fs.stat(chunkPath);
+        await fs.remove(chunkPath);
+        result.removedChunks++;
+        result.freedBytes += size;
+      }
+      if ((await fs.readdir(prefixPath)).length === 0) {
+        await fs.remove(prefixPath);
+      }
+    }
+
+    if (result.removedChunks > 0) {
+      logger.info(`Removed ${result.removedChunks} unreferenced backup chunks (${result.freedBytes} bytes) from ${this.rootPath}`);
+    }
+    return result;
+  }
+
+  private chunkPath(hash: string): string {
+    return path.join(this.rootPath, 'chunks', hash.slice(0, 2), hash);
+  }
+
+  private async hasChunks(hashes: string[]): Promise<boolean> {
+    for (const hash of hashes) {
+      if (!await fs.pathExists(this.chunkPath(hash))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Store a chunk unless it already exists, returning the bytes written
+   */
+  private async writeChunk(hash: string, data: Buffer): Promise<number> {
+    const chunkPath = this.chunkPath(hash);
+    if (await fs.pathExists(chunkPath)) {
+      return 0;
+    }
+
+    const compressed = await gzip(data);
+    const tempPath = `${chunkPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.ensureDir(path.dirname(chunkPath));
+    await fs.writeFile(tempPath, compressed);
+    await fs.rename(tempPath, chunkPath);
+    return compressed.length;
+  }
+
+  private async readChunk(hash: string): Promise<Buffer> {
+    const data = await gunzip(await fs.readFile(this.chunkPath(hash)));
+    if (crypto.createHash('sha256').update(data).digest('hex') !== hash) {
+      throw new Error(`Backup chunk ${hash} is corrupt`);
+    }
+    return data;
+  }
+}
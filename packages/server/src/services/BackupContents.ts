@@ -0,0 +1,174 @@
+/**
+ * Helpers for browsing the contents of a backup without extracting it
+ */
+
+export interface BackupFileEntry {
+  /** Path inside the backup, always with forward slashes */
+  path: string;
+  size: number;
+  modifiedAt: Date;
+  /** Content checksum prefixed with its kind, e.g. "crc32:1c291ca3". Only checksums of the same kind are comparable. */
+  checksum?: string;
+}
+
+export interface BackupTreeNode {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  /** File size, or the total size of everything below a directory */
+  size: number;
+  modifiedAt?: Date;
+  children?: BackupTreeNode[];
+}
+
+export type BackupChange = 'added' | 'removed' | 'modified';
+
+export interface BackupDiffEntry {
+  path: string;
+  change: BackupChange;
+  oldSize: number | null;
+  newSize: number | null;
+  sizeDelta: number;
+}
+
+export interface BackupDiff {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  /** Total size change going from the old file set to the new one */
+  sizeDelta: number;
+  entries: BackupDiffEntry[];
+}
+
+// Zip archives store modification times with two second precision
+const MTIME_TOLERANCE_MS = 2000;
+
+/**
+ * Normalize a path selected from a backup, rejecting anything that could escape the destination
+ */
+export function normalizeBackupPath(selected: string): string {
+  const parts = selected.replace(/\\/g, '/').split('/').filter((part) => part !== '' && part !== '.');
+  if (parts.length === 0 || parts.includes('..')) {
+    throw new Error(`Invalid backup path: ${selected}`);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Whether a backup entry is one of the selected paths or inside a selected directory
+ */
+export function matchesBackupPaths(entryPath: string, selected: string[]): boolean {
+  return selected.some((selectedPath) => entryPath === selectedPath || entryPath.startsWith(`${selectedPath}/`));
+}
+
+function parentPath(entryPath: string): string {
+  const separator = entryPath.lastIndexOf('/');
+  return separator === -1 ? '' : entryPath.slice(0, separator);
+}
+
+function baseName(entryPath: string): string {
+  return entryPath.slice(entryPath.lastIndexOf('/') + 1);
+}
+
+/**
+ * Build a directory tree from a backup's file entries.
+ * Directories come before files and both are sorted by name.
+ */
+export function buildBackupTree(entries: BackupFileEntry[]): BackupTreeNode[] {
+  const root: BackupTreeNode = { name: '', path: '', type: 'directory', size: 0, children: [] };
+  const directories = new Map<string, BackupTreeNode>([['', root]]);
+
+  const getDirectory = (dirPath: string): BackupTreeNode => {
+    const existing = directories.get(dirPath);
+    if (existing) return existing;
+
+    const parent = getDirectory(parentPath(dirPath));
+    const node: BackupTreeNode = {
+      name: baseName(dirPath),
+      path: dirPath,
+      type: 'directory',
+      size: 0,
+      children: [],
+    };
+    parent.children!.push(node);
+    directories.set(dirPath, node);
+    return node;
+  };
+
+  for (const entry of entries) {
+    const dirPath = parentPath(entry.path);
+    getDirectory(dirPath).children!.push({
+      name: baseName(entry.path),
+      path: entry.path,
+      type: 'file',
+      size: entry.size,
+      modifiedAt: entry.modifiedAt,
+    });
+
+    // Roll the size up through every parent directory
+    for (let dir = dirPath; ; dir = parentPath(dir)) {
+      directories.get(dir)!.size += entry.size;
+      if (dir === '') break;
+    }
+  }
+
+  const sortChildren = (node: BackupTreeNode) => {
+    node.children?.sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1));
+    node.children?.forEach(sortChildren);
+  };
+  sortChildren(root);
+
+  return root.children!;
+}
+
+function isModified(oldFile: BackupFileEntry, newFile: BackupFileEntry): boolean {
+  if (oldFile.size !== newFile.size) {
+    return true;
+  }
+  const oldKind = oldFile.checksum?.split(':')[0];
+  if (oldKind && oldKind === newFile.checksum?.split(':')[0]) {
+    return oldFile.checksum !== newFile.checksum;
+  }
+  return Math.abs(oldFile.modifiedAt.getTime() - newFile.modifiedAt.getTime()) > MTIME_TOLERANCE_MS;
+}
+
+/**
+ * Compare two file sets, e.g. the live server against a backup to preview a restore.
+ * Files are matched by path; a file is modified when its size differs, its checksum differs
+ * (if both sides have one of the same kind), or otherwise its modification time differs.
+ */
+export function diffBackupFiles(oldFiles: BackupFileEntry[], newFiles: BackupFileEntry[]): BackupDiff {
+  const diff: BackupDiff = { added: 0, removed: 0, modified: 0, unchanged: 0, sizeDelta: 0, entries: [] };
+  const oldByPath = new Map(oldFiles.map((file) => [file.path, file]));
+
+  for (const newFile of newFiles) {
+    const oldFile = oldByPath.get(newFile.path);
+    oldByPath.delete(newFile.path);
+
+    if (!oldFile) {
+      diff.added++;
+      diff.entries.push({ path: newFile.path, change: 'added', oldSize: null, newSize: newFile.size, sizeDelta: newFile.size });
+    } else if (isModified(oldFile, newFile)) {
+      diff.modified++;
+      diff.entries.push({
+        path: newFile.path,
+        change: 'modified',
+        oldSize: oldFile.size,
+        newSize: newFile.size,
+        sizeDelta: newFile.size - oldFile.size,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const oldFile of oldByPath.values()) {
+    diff.removed++;
+    diff.entries.push({ path: oldFile.path, change: 'removed', oldSize: oldFile.size, newSize: null, sizeDelta: -oldFile.size });
+  }
+
+  diff.entries.sort((a, b) => a.path.localeCompare(b.path));
+  diff.sizeDelta = diff.entries.reduce((total, entry) => total + entry.sizeDelta, 0);
+  return diff;
+}
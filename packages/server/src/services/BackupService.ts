@@ -2,11 +2,26 @@ import { PrismaClient } from '@prisma/client';
 import archiver from 'archiver';
 import fs from 'fs-extra';
 import * as fsNative from 'fs';
+import crypto from 'crypto';
 import path from 'path';
+import { Readable } from 'stream';
 import micromatch from 'micromatch';
 import yauzl from 'yauzl';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { BackupChunkStore, ManifestFile } from './BackupChunkStore';
+import { prepareConsistentSnapshot } from './BackupSnapshot';
+import {
+  BackupDiff,
+  BackupFileEntry,
+  BackupTreeNode,
+  buildBackupTree,
+  diffBackupFiles,
+  matchesBackupPaths,
+  normalizeBackupPath,
+} from './BackupContents';
 import { DiscordNotificationService } from './DiscordNotificationService';
 import { FtpStorageService } from './FtpStorageService';
+import { S3StorageService } from './S3StorageService';
 import config from '../config';
 import logger from '../utils/logger';
 
@@ -15,6 +30,29 @@ const prisma = new PrismaClient();
 // Error codes for locked/busy files
 const LOCKED_FILE_ERRORS = ['EBUSY', 'EACCES', 'EPERM', 'ETXTBSY'];
 
+// Directory inside a server's backup directory holding incremental backups
+const CHUNK_STORE_DIR = '.chunk-store';
+
+// How long a remote backup downloaded for browsing is kept for follow-up requests
+const REMOTE_ARCHIVE_CACHE_MS = 10 * 60 * 1000;
+
+const STORAGE_LABELS: Record<string, string> = {
+  local: 'Local',
+  ftp: 'FTP',
+  s3: 'S3',
+};
+
+/**
+ * Operations BackupService needs from a remote storage target (FTP or S3)
+ */
+interface RemoteStorage {
+  isEnabled(): boolean;
+  upload(localPath: string, remotePath: string): Promise<void>;
+  download(remotePath: string, localPath: string): Promise<void>;
+  delete(remotePath: string): Promise<void>;
+  exists(remotePath: string): Promise<boolean>;
+}
+
 interface BackupResult {
   fileSize: number;
   skippedFiles: string[];
@@ -22,19 +60,50 @@ interface BackupResult {
   backedUpFiles: number;
 }
 
+export type RestoreTarget = 'server' | 'folder';
+
+export interface RestoreFilesResult {
+  restoredFiles: number;
+  /** Directory the files were restored into */
+  destination: string;
+}
+
+export interface BackupFileStream {
+  stream: Readable;
+  name: string;
+  size: number;
+}
+
+interface BackupFileList {
+  filesToBackup: { absolutePath: string; relativePath: string }[];
+  skippedFiles: string[];
+  totalFiles: number;
+}
+
 export class BackupService {
   private backupsPath: string;
   private discordService?: DiscordNotificationService;
   private ftpService: FtpStorageService;
+  private s3Service: S3StorageService;
+  private remoteArchiveCache: Map<string, { download: Promise<string>; timer?: NodeJS.Timeout }> = new Map();
+  private adapters: Map<string, IServerAdapter> = new Map();
 
-  constructor(discordService?: DiscordNotificationService) {
+  constructor(discordService?: DiscordNotificationService, s3Service?: S3StorageService) {
     this.discordService = discordService;
     this.ftpService = new FtpStorageService();
+    this.s3Service = s3Service || new S3StorageService();
     // Store backups in configured backups directory
     this.backupsPath = config.backupsBasePath;
     fs.ensureDirSync(this.backupsPath);
   }
 
+  /**
+   * Track a server's adapter, used to flush saves before backing up a running server
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.adapters.set(serverId, adapter);
+  }
+
   /**
    * Get the backup directory path for a server
    */
@@ -62,6 +131,31 @@ export class BackupService {
     return `/backups/${serverSlug}/${backupName}`;
   }
 
+  /**
+   * Get the S3 object key for a backup, below the configured key prefix
+   */
+  private getS3ObjectKey(server: { backupPath: string | null; name: string }, backupName: string): string {
+    // A custom backup path is used as a key prefix inside the bucket
+    const serverPrefix = server.backupPath
+      ? server.backupPath.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')
+      : server.name.toLowerCase().replace(/\s+/g, '-');
+    return this.s3Service.objectKey(serverPrefix ? `${serverPrefix}/${backupName}` : backupName);
+  }
+
+  /**
+   * Remote storage for a storage type, or null for local storage
+   */
+  private getRemoteStorage(storageType: string): RemoteStorage | null {
+    switch (storageType) {
+      case 'ftp':
+        return this.ftpService;
+      case 's3':
+        return this.s3Service;
+      default:
+        return null;
+    }
+  }
+
   /**
    * Create a backup of a server
    * @param serverId - Server ID to backup
@@ -82,25 +176,40 @@ export class BackupService {
       throw new Error('Server not found');
     }
 
-    const useFtp = server.backupType === 'ftp';
+    const remoteStorage = this.getRemoteStorage(server.backupType);
+    const storageType = remoteStorage ? server.backupType : 'local';
+    const incremental = server.backupMode === 'incremental';
+
+    // Check if the remote storage is configured when backing up to it
+    if (remoteStorage && !remoteStorage.isEnabled()) {
+      const label = STORAGE_LABELS[storageType];
+      throw new Error(`${label} storage is not configured. Please configure ${label} settings first.`);
+    }
 
-    // Check if FTP is enabled when using FTP backup type
-    if (useFtp && !this.ftpService.isEnabled()) {
-      throw new Error('FTP storage is not configured. Please configure FTP settings first.');
+    if (remoteStorage && incremental) {
+      throw new Error('Incremental backups are only supported with local storage');
     }
 
     // Generate backup name with timestamp
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupName = `${server.name.toLowerCase().replace(/\s+/g, '-')}-${timestamp}.zip`;
+    const baseName = `${server.name.toLowerCase().replace(/\s+/g, '-')}-${timestamp}`;
+    const backupName = incremental ? baseName : `${baseName}.zip`;
 
-    // Local path for creating the archive (temp location if using FTP)
-    const localBackupPath = useFtp
+    // Local path for creating the archive (temp location if using remote storage)
+    const localBackupPath = remoteStorage
       ? path.join(this.backupsPath, 'temp', serverId)
       : this.getBackupDirectory(server);
     await fs.ensureDir(localBackupPath);
 
-    const localFilePath = path.join(localBackupPath, backupName);
-    const remotePath = useFtp ? this.getFtpRemotePath(server, backupName) : null;
+    // Incremental backups are a manifest in the server's chunk store
+    const localFilePath = incremental
+      ? new BackupChunkStore(path.join(localBackupPath, CHUNK_STORE_DIR)).manifestPath(backupName)
+      : path.join(localBackupPath, backupName);
+    const remotePath = storageType === 'ftp'
+      ? this.getFtpRemotePath(server, backupName)
+      : storageType === 's3'
+        ? this.getS3ObjectKey(server, backupName)
+        : null;
 
     // Create backup record first
     const backup = await prisma.backup.create({
@@ -108,11 +217,12 @@ export class BackupService {
         serverId,
         name: backupName,
         description: description || `Backup created at ${new Date().toLocaleString()}`,
-        filePath: useFtp ? remotePath! : localFilePath,
+        filePath: remotePath ?? localFilePath,
         fileSize: 0,
         status: 'creating',
-        storageType: useFtp ? 'ftp' : 'local',
+        storageType,
         remotePath: remotePath,
+        format: incremental ? 'incremental' : 'zip',
         automationRuleId: automationRuleId || null,
         scheduledTaskId: scheduledTaskId || null,
       },
@@ -123,13 +233,13 @@ export class BackupService {
 
     // If running in background, start the backup process and return immediately
     if (runInBackground) {
-      this.processBackup(backup, server, localFilePath, remotePath, useFtp, automationRuleId, scheduledTaskId)
+      this.processBackup(backup, server, localFilePath, remotePath, storageType, automationRuleId, scheduledTaskId)
         .catch(error => logger.error('Background backup failed:', error));
       return backup;
     }
 
     // Otherwise, wait for the backup to complete
-    return this.processBackup(backup, server, localFilePath, remotePath, useFtp, automationRuleId, scheduledTaskId);
+    return this.processBackup(backup, server, localFilePath, remotePath, storageType, automationRuleId, scheduledTaskId);
   }
 
   /**
@@ -140,7 +250,7 @@ export class BackupService {
     server: any,
     localFilePath: string,
     remotePath: string | null,
-    useFtp: boolean,
+    storageType: string,
     automationRuleId?: string,
     scheduledTaskId?: string
   ): Promise<any> {
@@ -206,15 +316,29 @@ export class BackupService {
         }
       }
 
-      // Create zip archive locally
-      logger.info(`Creating backup archive: ${localFilePath}`);
-      logger.info(`Source server path: ${absoluteServerPath}`);
-      const result = await this.createZipArchive(absoluteServerPath, localFilePath, excludePatterns, additionalFiles);
+      const resumeSaving = await this.prepareSnapshot(server);
 
-      // If using FTP, upload and delete local file
-      if (useFtp) {
-        logger.info(`Uploading backup to FTP: ${remotePath}`);
-        await this.ftpService.upload(localFilePath, remotePath!);
+      let result: BackupResult;
+      try {
+        if (backup.format === 'incremental') {
+          logger.info(`Creating incremental backup: ${localFilePath}`);
+          logger.info(`Source server path: ${absoluteServerPath}`);
+          result = await this.createIncrementalBackup(server.id, absoluteServerPath, localFilePath, excludePatterns, additionalFiles);
+        } else {
+          // Create zip archive locally
+          logger.info(`Creating backup archive: ${localFilePath}`);
+          logger.info(`Source server path: ${absoluteServerPath}`);
+          result = await this.createZipArchive(absoluteServerPath, localFilePath, excludePatterns, additionalFiles);
+        }
+      } finally {
+        await resumeSaving?.();
+      }
+
+      // If using remote storage, upload and delete local file
+      const remoteStorage = this.getRemoteStorage(storageType);
+      if (remoteStorage) {
+        logger.info(`Uploading backup to ${STORAGE_LABELS[storageType]}: ${remotePath}`);
+        await remoteStorage.upload(localFilePath, remotePath!);
 
         // Delete local file after successful upload
         logger.info(`Deleting local temp file: ${localFilePath}`);
@@ -259,7 +383,7 @@ export class BackupService {
         // Format details as a string for Discord embed
         let detailsText = `**Name:** ${backup.name}\n`;
         detailsText += `**Size:** ${(result.fileSize / 1024 / 1024).toFixed(2)} MB\n`;
-        detailsText += `**Storage:** ${useFtp ? 'FTP' : 'Local'}\n`;
+        detailsText += `**Storage:** ${STORAGE_LABELS[storageType]}${backup.format === 'incremental' ? ' (incremental)' : ''}\n`;
         detailsText += `**Files:** ${result.backedUpFiles}/${result.totalFiles}`;
 
         if (result.skippedFiles.length > 0) {
@@ -306,14 +430,9 @@ export class BackupService {
   }
 
   /**
-   * Create a zip archive of a directory with retry logic for locked files
+   * List the files of a server directory to back up, applying exclusion patterns
    */
-  private async createZipArchive(
-    sourcePath: string,
-    outputPath: string,
-    excludePatterns: string[] = [],
-    additionalFiles?: { absolutePath: string; archiveName: string }[]
-  ): Promise<BackupResult> {
+  private async collectBackupFiles(sourcePath: string, excludePatterns: string[]): Promise<BackupFileList> {
     // Validate source directory exists
     if (!fs.existsSync(sourcePath)) {
       throw new Error(`Source directory does not exist: ${sourcePath}`);
@@ -332,12 +451,9 @@ export class BackupService {
     }
 
     const skippedFiles: string[] = [];
-    let totalFiles = 0;
-    let backedUpFiles = 0;
 
     // Get all files recursively
     const allFiles = await this.getFilesRecursively(sourcePath);
-    totalFiles = allFiles.length;
 
     // Filter out excluded files based on server-specific patterns
     const filesToBackup: { absolutePath: string; relativePath: string }[] = [];
@@ -357,6 +473,42 @@ export class BackupService {
 
     logger.info(`Files to backup: ${filesToBackup.length} (${skippedFiles.length} excluded by pattern)`);
 
+    return { filesToBackup, skippedFiles, totalFiles: allFiles.length };
+  }
+
+  /**
+   * Flush saves on a running server whose adapter type has consistent snapshots enabled.
+   * Returns the function that resumes saving, or null when the server is backed up as-is.
+   */
+  private async prepareSnapshot(server: { id: string; name: string; adapterType: string }): Promise<(() => Promise<void>) | null> {
+    const settings = config.backup.consistentSnapshot[server.adapterType];
+    const adapter = this.adapters.get(server.id);
+    if (!settings?.enabled || !adapter) {
+      return null;
+    }
+
+    const { status } = await adapter.getStatus();
+    if (status !== 'running') {
+      return null;
+    }
+
+    logger.info(`Flushing saves on ${server.name} before backing up`);
+    return prepareConsistentSnapshot(adapter, settings, server.name);
+  }
+
+  /**
+   * Create a zip archive of a directory with retry logic for locked files
+   */
+  private async createZipArchive(
+    sourcePath: string,
+    outputPath: string,
+    excludePatterns: string[] = [],
+    additionalFiles?: { absolutePath: string; archiveName: string }[]
+  ): Promise<BackupResult> {
+    const { filesToBackup, skippedFiles, totalFiles: listedFiles } = await this.collectBackupFiles(sourcePath, excludePatterns);
+    let totalFiles = listedFiles;
+    let backedUpFiles = 0;
+
     return new Promise((resolve, reject) => {
       const output = fs.createWriteStream(outputPath);
       const archive = archiver('zip', {
@@ -436,6 +588,87 @@ export class BackupService {
     });
   }
 
+  /**
+   * Create an incremental backup: store the files' chunks in the chunk store and write a manifest.
+   * Files unchanged since the server's previous incremental backup are not read again.
+   */
+  private async createIncrementalBackup(
+    serverId: string,
+    sourcePath: string,
+    manifestPath: string,
+    excludePatterns: string[] = [],
+    additionalFiles?: { absolutePath: string; archiveName: string }[]
+  ): Promise<BackupResult> {
+    const { filesToBackup, skippedFiles, totalFiles: listedFiles } = await this.collectBackupFiles(sourcePath, excludePatterns);
+    let totalFiles = listedFiles;
+
+    const sources = [...filesToBackup];
+    for (const file of additionalFiles || []) {
+      if (fs.existsSync(file.absolutePath)) {
+        sources.push({ absolutePath: file.absolutePath, relativePath: file.archiveName });
+        totalFiles++;
+      }
+    }
+
+    const store = BackupChunkStore.forManifest(manifestPath);
+    return store.exclusive(async () => {
+      const previous = await this.loadPreviousManifest(serverId, store);
+      const entries: ManifestFile[] = [];
+      let storedBytes = 0;
+      let unchangedFiles = 0;
+
+      for (const { absolutePath, relativePath } of sources) {
+        const stored = await this.withLockedFileRetry(relativePath, () =>
+          store.storeFile(absolutePath, relativePath, previous.get(relativePath))
+        );
+        if (!stored) {
+          skippedFiles.push(`${relativePath} (locked/inaccessible)`);
+          continue;
+        }
+        entries.push(stored.entry);
+        storedBytes += stored.storedBytes;
+        if (stored.reused) unchangedFiles++;
+      }
+
+      const manifestSize = await store.writeManifest(manifestPath, entries);
+      logger.info(
+        `Incremental backup complete: ${entries.length}/${totalFiles} files (${unchangedFiles} unchanged, ` +
+        `${skippedFiles.length} skipped), ${storedBytes} bytes of new chunks`
+      );
+
+      if (skippedFiles.length > 0) {
+        logger.warn(`Skipped files: ${skippedFiles.join(', ')}`);
+      }
+
+      return {
+        fileSize: storedBytes + manifestSize,
+        skippedFiles,
+        totalFiles,
+        backedUpFiles: entries.length,
+      };
+    });
+  }
+
+  /**
+   * Files of the server's latest incremental backup in the same store, by path
+   */
+  private async loadPreviousManifest(serverId: string, store: BackupChunkStore): Promise<Map<string, ManifestFile>> {
+    const previous = await prisma.backup.findFirst({
+      where: { serverId, format: 'incremental', status: 'completed' },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!previous || path.dirname(path.resolve(previous.filePath)) !== store.manifestsPath) {
+      return new Map();
+    }
+
+    try {
+      return store.indexManifest(await store.readManifest(previous.filePath));
+    } catch (error: any) {
+      logger.warn(`Failed to read previous backup manifest, storing all files: ${error.message}`);
+      return new Map();
+    }
+  }
+
   /**
    * Recursively get all files in a directory
    */
@@ -465,26 +698,38 @@ export class BackupService {
     absolutePath: string,
     relativePath: string
   ): Promise<boolean> {
-    const { retryAttempts, retryDelayMs } = config.backup;
+    const added = await this.withLockedFileRetry(relativePath, async () => {
+      // Get file metadata first
+      const fileStat = await fs.stat(absolutePath);
 
-    for (let attempt = 1; attempt <= retryAttempts; attempt++) {
-      try {
-        // Get file metadata first
-        const fileStat = await fs.stat(absolutePath);
+      // Test file accessibility
+      await fs.access(absolutePath, fs.constants.R_OK);
 
-        // Test file accessibility
-        await fs.access(absolutePath, fs.constants.R_OK);
+      // Always use streaming - avoids Node.js 2GB buffer limit entirely
+      const readStream = fsNative.createReadStream(absolutePath);
 
-        // Always use streaming - avoids Node.js 2GB buffer limit entirely
-        const readStream = fsNative.createReadStream(absolutePath);
+      archive.append(readStream, {
+        name: relativePath,
+        date: fileStat.mtime,
+        mode: fileStat.mode,
+      });
 
-        archive.append(readStream, {
-          name: relativePath,
-          date: fileStat.mtime,
-          mode: fileStat.mode,
-        });
+      return true;
+    });
+
+    return added ?? false;
+  }
+
+  /**
+   * Run a file operation, retrying while the file is locked.
+   * Returns null if the file stayed locked or could not be read.
+   */
+  private async withLockedFileRetry<T>(relativePath: string, operation: () => Promise<T>): Promise<T | null> {
+    const { retryAttempts, retryDelayMs } = config.backup;
 
-        return true;
+    for (let attempt = 1; attempt <= retryAttempts; attempt++) {
+      try {
+        return await operation();
       } catch (error: any) {
         const isLockedFile = LOCKED_FILE_ERRORS.includes(error.code);
 
@@ -497,18 +742,18 @@ export class BackupService {
           logger.warn(
             `Skipping locked file after ${retryAttempts} attempts: ${relativePath} (${error.code})`
           );
-          return false;
+          return null;
         } else if (error.code === 'ENOENT') {
           logger.warn(`File no longer exists, skipping: ${relativePath}`);
-          return false;
+          return null;
         } else {
           logger.error(`Error accessing file ${relativePath}:`, error);
-          return false;
+          return null;
         }
       }
     }
 
-    return false;
+    return null;
   }
 
   /**
@@ -531,30 +776,19 @@ export class BackupService {
       throw new Error('Backup not found');
     }
 
-    const isFtpBackup = backup.storageType === 'ftp';
+    const remoteStorage = this.getRemoteStorage(backup.storageType);
     let localArchivePath = backup.filePath;
     let tempDownloadPath: string | null = null;
 
-    // If FTP backup, download to temp location first
-    if (isFtpBackup) {
-      if (!backup.remotePath) {
-        throw new Error('FTP backup missing remote path');
-      }
-      if (!this.ftpService.isEnabled()) {
-        throw new Error('FTP storage is not configured');
-      }
-
-      // Check if file exists on FTP
-      const exists = await this.ftpService.exists(backup.remotePath);
-      if (!exists) {
-        throw new Error('Backup file not found on FTP server');
-      }
+    // If remote backup, download to temp location first
+    if (remoteStorage) {
+      const remotePath = await this.checkRemoteBackup(backup, remoteStorage);
 
       // Download to temp location
       tempDownloadPath = path.join(this.backupsPath, 'temp', `restore-${backup.id}-${Date.now()}.zip`);
       await fs.ensureDir(path.dirname(tempDownloadPath));
-      logger.info(`Downloading backup from FTP: ${backup.remotePath}`);
-      await this.ftpService.download(backup.remotePath, tempDownloadPath);
+      logger.info(`Downloading backup from ${STORAGE_LABELS[backup.storageType]}: ${remotePath}`);
+      await remoteStorage.download(remotePath, tempDownloadPath);
       localArchivePath = tempDownloadPath;
     } else {
       // Check local file exists
@@ -586,7 +820,11 @@ export class BackupService {
 
       // Extract backup
       logger.info(`Extracting backup to: ${absoluteServerPath}`);
-      await this.extractZipArchive(localArchivePath, absoluteServerPath);
+      if (backup.format === 'incremental') {
+        await this.restoreIncrementalBackup(localArchivePath, absoluteServerPath);
+      } else {
+        await this.extractZipArchive(localArchivePath, absoluteServerPath);
+      }
 
       // Remove temporary backup of old server data
       if (fs.existsSync(tempBackupPath)) {
@@ -626,7 +864,11 @@ export class BackupService {
    * Extract a zip archive using yauzl (handles files of any size)
    * Cross-platform: works on Windows, Linux, and Docker
    */
-  private async extractZipArchive(archivePath: string, destinationPath: string): Promise<void> {
+  private async extractZipArchive(
+    archivePath: string,
+    destinationPath: string,
+    filter?: (fileName: string) => boolean
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       yauzl.open(archivePath, { lazyEntries: true }, (err, zipfile) => {
         if (err || !zipfile) {
@@ -646,6 +888,12 @@ export class BackupService {
         zipfile.on('entry', (entry: yauzl.Entry) => {
           const entryPath = path.join(destinationPath, entry.fileName);
 
+          // Only extracting some files: parent directories are created along with them
+          if (filter && (entry.fileName.endsWith('/') || !filter(entry.fileName))) {
+            zipfile.readEntry();
+            return;
+          }
+
           // Handle directory entries
           if (entry.fileName.endsWith('/')) {
             fs.ensureDir(entryPath)
@@ -695,6 +943,73 @@ export class BackupService {
     });
   }
 
+  /**
+   * Rebuild every file of an incremental backup from the chunk store
+   */
+  private async restoreIncrementalBackup(manifestPath: string, destinationPath: string): Promise<void> {
+    const store = BackupChunkStore.forManifest(manifestPath);
+    const manifest = await store.readManifest(manifestPath);
+    const root = path.resolve(destinationPath);
+
+    for (const file of manifest.files) {
+      const filePath = path.resolve(root, file.path);
+      if (!filePath.startsWith(root + path.sep)) {
+        throw new Error(`Invalid path in backup manifest: ${file.path}`);
+      }
+      await store.restoreFile(file, filePath);
+    }
+
+    logger.info(`Restored ${manifest.files.length} files from incremental backup`);
+  }
+
+  /**
+   * Write an incremental backup to a stream as a zip archive, e.g. for downloading
+   */
+  async streamIncrementalArchive(backupId: string, output: NodeJS.WritableStream): Promise<void> {
+    const backup = await prisma.backup.findUnique({ where: { id: backupId } });
+    if (!backup) {
+      throw new Error('Backup not found');
+    }
+    if (backup.format !== 'incremental') {
+      throw new Error('Backup is not incremental');
+    }
+
+    const store = BackupChunkStore.forManifest(backup.filePath);
+    const manifest = await store.readManifest(backup.filePath);
+
+    // Built on the fly, so favour speed over size
+    const archive = archiver('zip', { zlib: { level: 1 } });
+    const done = new Promise<void>((resolve, reject) => {
+      archive.on('error', reject);
+      output.on('close', resolve);
+      output.on('finish', resolve);
+      output.on('error', reject);
+    });
+
+    archive.pipe(output);
+    for (const file of manifest.files) {
+      archive.append(store.openFile(file), {
+        name: file.path,
+        date: new Date(file.mtimeMs),
+        mode: file.mode,
+      });
+    }
+    await archive.finalize();
+    await done;
+  }
+
+  /**
+   * Remove chunks of an incremental backup store that no remaining backup references
+   */
+  private async collectChunkGarbage(manifestPath: string): Promise<void> {
+    const store = BackupChunkStore.forManifest(manifestPath);
+    try {
+      await store.exclusive(() => store.collectGarbage());
+    } catch (error: any) {
+      logger.warn(`Failed to collect unreferenced backup chunks in ${store.rootPath}: ${error.message}`);
+    }
+  }
+
   /**
    * Delete a backup
    */
@@ -705,19 +1020,22 @@ export class BackupService {
       throw new Error('Backup not found');
     }
 
+    this.evictRemoteArchive(backupId);
+
     // Delete file based on storage type
-    if (backup.storageType === 'ftp' && backup.remotePath) {
-      // Delete from FTP
-      if (this.ftpService.isEnabled()) {
+    const remoteStorage = this.getRemoteStorage(backup.storageType);
+    if (remoteStorage && backup.remotePath) {
+      // Delete from remote storage
+      if (remoteStorage.isEnabled()) {
         try {
-          await this.ftpService.delete(backup.remotePath);
+          await remoteStorage.delete(backup.remotePath);
         } catch (error: any) {
-          logger.warn(`Failed to delete FTP file: ${error.message}`);
-          // Continue with database deletion even if FTP deletion fails
+          logger.warn(`Failed to delete ${STORAGE_LABELS[backup.storageType]} file: ${error.message}`);
+          // Continue with database deletion even if remote deletion fails
         }
       }
     } else {
-      // Delete local file
+      // Delete local file (the manifest for incremental backups)
       if (fs.existsSync(backup.filePath)) {
         await fs.remove(backup.filePath);
       }
@@ -725,6 +1043,298 @@ export class BackupService {
 
     // Delete backup record from database
     await prisma.backup.delete({ where: { id: backupId } });
+
+    // Chunks only this backup used are now garbage
+    if (backup.format === 'incremental') {
+      await this.collectChunkGarbage(backup.filePath);
+    }
+  }
+
+  // ==========================================
+  // Browsing and selective restore
+  // ==========================================
+
+  /**
+   * List the files in a backup as a tree, without extracting it
+   */
+  async listBackupContents(backupId: string): Promise<BackupTreeNode[]> {
+    const backup = await this.getCompletedBackup(backupId);
+    return buildBackupTree(await this.listBackupFiles(backup));
+  }
+
+  /**
+   * Restore selected files or directories from a backup, either over the live server
+   * or into a folder next to it
+   */
+  async restoreBackupFiles(backupId: string, paths: string[], target: RestoreTarget): Promise<RestoreFilesResult> {
+    const selected = paths.map(normalizeBackupPath);
+    if (selected.length === 0) {
+      throw new Error('No paths selected');
+    }
+
+    const backup = await this.getCompletedBackup(backupId);
+    const files = (await this.listBackupFiles(backup)).filter((file) => matchesBackupPaths(file.path, selected));
+    if (files.length === 0) {
+      throw new Error('None of the selected paths are in this backup');
+    }
+
+    const absoluteServerPath = path.resolve(backup.server.serverPath);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const destination = target === 'folder' ? `${absoluteServerPath}-restore-${timestamp}` : absoluteServerPath;
+    await fs.ensureDir(destination);
+
+    logger.info(`Restoring ${files.length} files from backup ${backup.name} to ${destination}`);
+    if (backup.format === 'incremental') {
+      const store = BackupChunkStore.forManifest(backup.filePath);
+      const manifest = await store.readManifest(backup.filePath);
+      for (const file of manifest.files) {
+        if (matchesBackupPaths(file.path, selected)) {
+          await store.restoreFile(file, path.join(destination, file.path));
+        }
+      }
+    } else {
+      const archivePath = await this.getLocalArchivePath(backup);
+      await this.extractZipArchive(archivePath, destination, (fileName) => matchesBackupPaths(fileName, selected));
+    }
+
+    return { restoredFiles: files.length, destination };
+  }
+
+  /**
+   * Open a single file from a backup for downloading
+   */
+  async openBackupFile(backupId: string, filePath: string): Promise<BackupFileStream> {
+    const normalized = normalizeBackupPath(filePath);
+    const backup = await this.getCompletedBackup(backupId);
+    const name = path.posix.basename(normalized);
+
+    if (backup.format === 'incremental') {
+      const store = BackupChunkStore.forManifest(backup.filePath);
+      const manifest = await store.readManifest(backup.filePath);
+      const file = manifest.files.find((entry) => entry.path === normalized);
+      if (!file) {
+        throw new Error('File not found in backup');
+      }
+      return { stream: store.openFile(file), name, size: file.size };
+    }
+
+    const archivePath = await this.getLocalArchivePath(backup);
+    const entry = await this.openZipEntry(archivePath, normalized);
+    if (!entry) {
+      throw new Error('File not found in backup');
+    }
+    return { ...entry, name };
+  }
+
+  /**
+   * Compare a backup against another backup, or against the live server directory when no
+   * base backup is given. Against the live server this is a preview of what restoreBackup
+   * would change: "removed" files are on the server but not in the backup.
+   */
+  async diffBackup(backupId: string, baseBackupId?: string): Promise<BackupDiff> {
+    const backup = await this.getCompletedBackup(backupId);
+    const newFiles = await this.listBackupFiles(backup);
+
+    if (baseBackupId) {
+      const base = await this.getCompletedBackup(baseBackupId);
+      return diffBackupFiles(await this.listBackupFiles(base), newFiles);
+    }
+
+    return diffBackupFiles(await this.listServerFiles(path.resolve(backup.server.serverPath)), newFiles);
+  }
+
+  /**
+   * Files currently in a server directory, in the same form as a backup's entries
+   */
+  private async listServerFiles(serverPath: string): Promise<BackupFileEntry[]> {
+    if (!fs.existsSync(serverPath)) {
+      return [];
+    }
+
+    const entries: BackupFileEntry[] = [];
+    for (const file of await this.getFilesRecursively(serverPath)) {
+      try {
+        const stat = await fs.stat(file);
+        entries.push({
+          path: path.relative(serverPath, file).replace(/\\/g, '/'),
+          size: stat.size,
+          modifiedAt: stat.mtime,
+        });
+      } catch (error: any) {
+        // Files can disappear while a running server is being scanned
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    return entries;
+  }
+
+  private async getCompletedBackup(backupId: string) {
+    const backup = await prisma.backup.findUnique({
+      where: { id: backupId },
+      include: { server: true },
+    });
+    if (!backup) {
+      throw new Error('Backup not found');
+    }
+    if (backup.status !== 'completed') {
+      throw new Error('Backup is not completed');
+    }
+    return backup;
+  }
+
+  private async listBackupFiles(backup: { id: string; format: string; filePath: string; storageType: string; remotePath: string | null }): Promise<BackupFileEntry[]> {
+    if (backup.format === 'incremental') {
+      const manifest = await BackupChunkStore.forManifest(backup.filePath).readManifest(backup.filePath);
+      return manifest.files.map((file) => ({
+        path: file.path,
+        size: file.size,
+        modifiedAt: new Date(file.mtimeMs),
+        checksum: `chunks:${crypto.createHash('sha256').update(file.chunks.join(',')).digest('hex')}`,
+      }));
+    }
+    return this.listZipEntries(await this.getLocalArchivePath(backup));
+  }
+
+  /**
+   * Path of a zip backup on local disk. Remote backups are downloaded once and kept for a
+   * few minutes, since browsing a backup usually means several requests in a row.
+   */
+  private async getLocalArchivePath(backup: { id: string; filePath: string; storageType: string; remotePath: string | null }): Promise<string> {
+    const remoteStorage = this.getRemoteStorage(backup.storageType);
+    if (!remoteStorage) {
+      if (!fs.existsSync(backup.filePath)) {
+        throw new Error('Backup file not found on disk');
+      }
+      return backup.filePath;
+    }
+
+    let cached = this.remoteArchiveCache.get(backup.id);
+    if (!cached) {
+      cached = { download: this.downloadRemoteArchive(backup, remoteStorage) };
+      this.remoteArchiveCache.set(backup.id, cached);
+    }
+
+    try {
+      const localPath = await cached.download;
+      if (cached.timer) clearTimeout(cached.timer);
+      cached.timer = setTimeout(() => this.evictRemoteArchive(backup.id), REMOTE_ARCHIVE_CACHE_MS);
+      cached.timer.unref();
+      return localPath;
+    } catch (error) {
+      this.remoteArchiveCache.delete(backup.id);
+      throw error;
+    }
+  }
+
+  private async downloadRemoteArchive(
+    backup: { id: string; storageType: string; remotePath: string | null },
+    remoteStorage: RemoteStorage
+  ): Promise<string> {
+    const remotePath = await this.checkRemoteBackup(backup, remoteStorage);
+
+    const localPath = path.join(this.backupsPath, 'temp', `browse-${backup.id}.zip`);
+    await fs.ensureDir(path.dirname(localPath));
+    logger.info(`Downloading backup from ${STORAGE_LABELS[backup.storageType]} for browsing: ${remotePath}`);
+    await remoteStorage.download(remotePath, localPath);
+    return localPath;
+  }
+
+  /**
+   * Make sure a remote backup can be downloaded, returning its remote path
+   */
+  private async checkRemoteBackup(
+    backup: { storageType: string; remotePath: string | null },
+    remoteStorage: RemoteStorage
+  ): Promise<string> {
+    const label = STORAGE_LABELS[backup.storageType];
+    if (!backup.remotePath) {
+      throw new Error(`${label} backup missing remote path`);
+    }
+    if (!remoteStorage.isEnabled()) {
+      throw new Error(`${label} storage is not configured`);
+    }
+    if (!await remoteStorage.exists(backup.remotePath)) {
+      throw new Error(`Backup file not found on ${label} storage`);
+    }
+    return backup.remotePath;
+  }
+
+  private evictRemoteArchive(backupId: string): void {
+    const cached = this.remoteArchiveCache.get(backupId);
+    if (!cached) return;
+
+    this.remoteArchiveCache.delete(backupId);
+    if (cached.timer) clearTimeout(cached.timer);
+    cached.download
+      .then((localPath) => fs.remove(localPath))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Read the file entries of a zip archive from its central directory
+   */
+  private async listZipEntries(archivePath: string): Promise<BackupFileEntry[]> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(archivePath, { lazyEntries: true }, (err, zipfile) => {
+        if (err || !zipfile) {
+          reject(err || new Error('Failed to open zip file'));
+          return;
+        }
+
+        const entries: BackupFileEntry[] = [];
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          if (!entry.fileName.endsWith('/')) {
+            entries.push({
+              path: entry.fileName,
+              size: entry.uncompressedSize,
+              modifiedAt: entry.getLastModDate(),
+              checksum: `crc32:${entry.crc32.toString(16)}`,
+            });
+          }
+          zipfile.readEntry();
+        });
+        zipfile.on('end', () => resolve(entries));
+        zipfile.on('error', reject);
+        zipfile.readEntry();
+      });
+    });
+  }
+
+  /**
+   * Open a read stream for one entry of a zip archive, or null if it isn't there
+   */
+  private async openZipEntry(archivePath: string, fileName: string): Promise<{ stream: Readable; size: number } | null> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(archivePath, { lazyEntries: true, autoClose: false }, (err, zipfile) => {
+        if (err || !zipfile) {
+          reject(err || new Error('Failed to open zip file'));
+          return;
+        }
+
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          if (entry.fileName !== fileName) {
+            zipfile.readEntry();
+            return;
+          }
+
+          zipfile.openReadStream(entry, (streamErr, readStream) => {
+            if (streamErr || !readStream) {
+              zipfile.close();
+              reject(streamErr || new Error('Failed to open read stream'));
+              return;
+            }
+            readStream.on('close', () => zipfile.close());
+            resolve({ stream: readStream, size: entry.uncompressedSize });
+          });
+        });
+        zipfile.on('end', () => {
+          zipfile.close();
+          resolve(null);
+        });
+        zipfile.on('error', reject);
+        zipfile.readEntry();
+      });
+    });
   }
 
   /**
@@ -0,0 +1,66 @@
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { ConsistentSnapshotConfig } from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Send the pre-backup commands to a running server and wait for the log line confirming
+ * the save, so the files are consistent while they are archived.
+ *
+ * Returns a function that sends the post-backup commands (re-enabling saving). Callers must
+ * run it once archiving is done, whether or not it succeeded. If preparing fails, the
+ * post-backup commands are sent before the error is thrown.
+ */
+export async function prepareConsistentSnapshot(
+  adapter: IServerAdapter,
+  settings: ConsistentSnapshotConfig,
+  serverName: string
+): Promise<() => Promise<void>> {
+  const resume = async () => {
+    for (const command of settings.postCommands) {
+      const response = await adapter.sendCommand(command);
+      if (!response.success) {
+        logger.error(`Failed to send post-backup command "${command}" to ${serverName}: ${response.output}`);
+      }
+    }
+  };
+
+  const confirmPattern = settings.confirmPattern ? new RegExp(settings.confirmPattern) : null;
+  let timer: NodeJS.Timeout | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  // Subscribe before sending anything so a fast confirmation isn't missed
+  const confirmed = new Promise<void>((resolve, reject) => {
+    if (!confirmPattern) {
+      resolve();
+      return;
+    }
+    timer = setTimeout(() => {
+      reject(new Error(`${serverName} did not confirm the save within ${settings.confirmTimeoutMs / 1000}s`));
+    }, settings.confirmTimeoutMs);
+    unsubscribe = adapter.onLog((log) => {
+      if (confirmPattern.test(log.message)) {
+        resolve();
+      }
+    });
+  });
+  confirmed.catch(() => undefined);
+
+  try {
+    for (const command of settings.preCommands) {
+      const response = await adapter.sendCommand(command);
+      if (!response.success) {
+        throw new Error(`Failed to send pre-backup command "${command}": ${response.output}`);
+      }
+    }
+    await confirmed;
+    logger.info(`${serverName} confirmed its save, archiving a consistent snapshot`);
+  } catch (error) {
+    await resume();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    unsubscribe?.();
+  }
+
+  return resume;
+}
@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import { ACTIVITY_ACTIONS, RESOURCE_TYPES } from '../constants/ActivityLogActions';
+import { ActivityLogService } from './ActivityLogService';
+import { PlayerService } from './PlayerService';
+import { ModerationActor } from './ModerationService';
+import { ServerService } from './ServerService';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const EXPIRY_ACTOR: ModerationActor = { username: 'Ban Expiry' };
+
+/**
+ * Ban Expiry Service
+ * Lifts temporary bans once Player.bannedUntil has passed. The ban console command has no
+ * duration, so the manager is what makes a ban temporary.
+ */
+export class BanExpiryService {
+  private prisma: PrismaClient;
+  private serverService: ServerService;
+  private playerService: PlayerService;
+  private activityLogService?: ActivityLogService;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    prisma: PrismaClient,
+    serverService: ServerService,
+    playerService: PlayerService,
+    activityLogService?: ActivityLogService
+  ) {
+    this.prisma = prisma;
+    this.serverService = serverService;
+    this.playerService = playerService;
+    this.activityLogService = activityLogService;
+  }
+
+  /**
+   * Lift bans that expired while the manager was down, then keep checking
+   */
+  async start(): Promise<void> {
+    if (this.checkInterval) {
+      logger.warn('Ban expiry checks already running');
+      return;
+    }
+
+    await this.liftExpiredBans();
+
+    this.checkInterval = setInterval(() => {
+      this.liftExpiredBans().catch((error) => {
+        logger.error('Error lifting expired bans:', error);
+      });
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Unban every player whose ban has run out
+   * @returns Number of bans lifted
+   */
+  async liftExpiredBans(): Promise<number> {
+    // A slow adapter could outlast the interval
+    if (this.checking) return 0;
+    this.checking = true;
+
+    try {
+      // Member servers carry their own copy of a network ban with the same expiry
+      const { count } = await this.prisma.networkBan.deleteMany({
+        where: { bannedUntil: { lte: new Date() } },
+      });
+      if (count > 0) {
+        logger.info(`Removed ${count} expired network ban(s)`);
+      }
+
+      const expired = await this.prisma.player.findMany({
+        where: { isBanned: true, bannedUntil: { lte: new Date() } },
+        include: { server: { select: { name: true } } },
+      });
+
+      let lifted = 0;
+      for (const player of expired) {
+        try {
+          const adapter = await this.serverService.getAdapterForServer(player.serverId);
+          await this.playerService.unbanPlayer(adapter, player.serverId, player.uuid, 'Ban expired', EXPIRY_ACTOR);
+          lifted++;
+
+          logger.info(`Ban on ${player.username} expired on server ${player.serverId}`);
+          this.activityLogService?.logAsync({
+            userId: 'system',
+            username: EXPIRY_ACTOR.username,
+            userRole: 'system',
+            action: ACTIVITY_ACTIONS.PLAYER_UNBAN,
+            resourceType: RESOURCE_TYPES.PLAYER,
+            resourceId: player.uuid,
+            resourceName: player.username,
+            status: 'success',
+            details: {
+              serverId: player.serverId,
+              serverName: player.server.name,
+              banReason: player.banReason,
+              bannedUntil: player.bannedUntil,
+              reason: 'expired',
+            },
+          });
+        } catch (error: any) {
+          logger.error(`Failed to lift expired ban on ${player.uuid} (server ${player.serverId}):`, error);
+          this.activityLogService?.logAsync({
+            userId: 'system',
+            username: EXPIRY_ACTOR.username,
+            userRole: 'system',
+            action: ACTIVITY_ACTIONS.PLAYER_UNBAN,
+            resourceType: RESOURCE_TYPES.PLAYER,
+            resourceId: player.uuid,
+            resourceName: player.username,
+            status: 'failed',
+            errorMessage: error.message,
+            details: { serverId: player.serverId, bannedUntil: player.bannedUntil, reason: 'expired' },
+          });
+        }
+      }
+
+      return lifted;
+    } finally {
+      this.checking = false;
+    }
+  }
+}
@@ -0,0 +1,370 @@
+import { PrismaClient, ChatMessage, ChatFilter, Prisma } from '@prisma/client';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { LogEntry } from '../types';
+import logger from '../utils/logger';
+import { AlertsService } from './AlertsService';
+import { ModerationService, ModerationActor } from './ModerationService';
+
+export type ChatFilterAction = 'warn' | 'mute' | 'alert';
+
+export const CHAT_FILTER_ACTIONS: ChatFilterAction[] = ['warn', 'mute', 'alert'];
+
+export interface ChatMatch {
+  username: string;
+  message: string;
+}
+
+export interface ChatFilterData {
+  serverId?: string | null;
+  name: string;
+  pattern: string;
+  isRegex?: boolean;
+  action: ChatFilterAction;
+  command?: string | null;
+  enabled?: boolean;
+}
+
+export interface ChatSearchQuery {
+  serverId?: string;
+  uuid?: string;
+  username?: string;
+  search?: string;
+  from?: Date;
+  to?: Date;
+  /** Only lines a filter matched */
+  flaggedOnly?: boolean;
+  /** Only flagged lines nobody has reviewed yet */
+  unreviewedOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+const NAME = `(?<username>[A-Za-z0-9_.-]{1,32})`;
+// Only timestamp/level/source tags may come before the sender, so chat text can't name another player
+const PREFIX = `^(?:\\[[^\\]]*\\]:?\\s*)*`;
+
+/**
+ * Console/log line patterns for player chat
+ */
+export const CHAT_PATTERNS: RegExp[] = [
+  // <Steve> hello
+  new RegExp(`${PREFIX}<${NAME}>\\s(?<message>.+)$`),
+  // [Chat] Steve: hello / [CHAT] [Global] Steve: hello
+  new RegExp(`${PREFIX}\\[chat\\]\\s*(?:\\[[^\\]]*\\]\\s*)?${NAME}\\s*:\\s(?<message>.+)$`, 'i'),
+];
+
+// Default console command for the mute action
+export const DEFAULT_MUTE_COMMAND = 'mute {player}';
+
+const FILTER_ACTOR: ModerationActor = { username: 'Chat Filter' };
+
+/**
+ * Detect a chat message in a single log message
+ */
+export function parseChatLine(message: string): ChatMatch | null {
+  for (const pattern of CHAT_PATTERNS) {
+    const match = message.match(pattern);
+    if (match?.groups?.username && match.groups.message?.trim()) {
+      return { username: match.groups.username, message: match.groups.message.trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the matcher for a filter. Plain patterns match whole words, case-insensitively.
+ */
+export function compileChatFilter(filter: Pick<ChatFilter, 'pattern' | 'isRegex'>): RegExp {
+  if (filter.isRegex) {
+    return new RegExp(filter.pattern, 'i');
+  }
+  const escaped = filter.pattern.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'i');
+}
+
+/**
+ * Validate chat filter settings
+ * @returns Error message, or null when valid
+ */
+export function validateChatFilter(data: Partial<ChatFilterData>): string | null {
+  if (data.name !== undefined && !data.name.trim()) {
+    return 'name is required';
+  }
+  if (data.pattern !== undefined) {
+    if (!data.pattern.trim()) {
+      return 'pattern is required';
+    }
+    if (data.isRegex) {
+      try {
+        new RegExp(data.pattern);
+      } catch {
+        return 'pattern is not a valid regular expression';
+      }
+    }
+  }
+  if (data.action !== undefined && !CHAT_FILTER_ACTIONS.includes(data.action)) {
+    return `action must be one of: ${CHAT_FILTER_ACTIONS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Chat Service
+ * Captures player chat from server log output into a searchable log and applies word/regex filters.
+ */
+export class ChatService {
+  private prisma: PrismaClient;
+  private moderationService?: ModerationService;
+  private alertsService?: AlertsService;
+  private adapters: Map<string, IServerAdapter> = new Map();
+  private subscriptions: Map<string, () => void> = new Map();
+  private filters: { filter: ChatFilter; matcher: RegExp }[] | null = null;
+
+  constructor(prisma: PrismaClient, moderationService?: ModerationService, alertsService?: AlertsService) {
+    this.prisma = prisma;
+    this.moderationService = moderationService;
+    this.alertsService = alertsService;
+  }
+
+  /**
+   * Start following an adapter's log output
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.detach(serverId);
+    this.adapters.set(serverId, adapter);
+    this.subscriptions.set(serverId, adapter.onLog((log) => this.handleLog(serverId, log)));
+  }
+
+  /**
+   * Stop following an adapter
+   */
+  detach(serverId: string): void {
+    this.subscriptions.get(serverId)?.();
+    this.subscriptions.delete(serverId);
+    this.adapters.delete(serverId);
+  }
+
+  /**
+   * Feed a log entry from any source
+   */
+  handleLog(serverId: string, log: LogEntry): void {
+    // Skip the manager's own messages and echoed commands
+    if (log.source === 'system' || log.source === 'user') return;
+
+    // Log parsing rules may have lifted a leading tag such as "[Chat]" into the source
+    const line = log.source && log.source !== 'server' ? `[${log.source}] ${log.message}` : log.message;
+    const match = parseChatLine(line);
+    if (!match) return;
+
+    this.recordMessage(serverId, match.username, match.message, log.timestamp).catch((error) => {
+      logger.error(`[Chat] Failed to record chat on server ${serverId}:`, error);
+    });
+  }
+
+  /**
+   * Store a chat line and run it through the filters
+   */
+  async recordMessage(serverId: string, username: string, message: string, timestamp = new Date()): Promise<ChatMessage> {
+    const player = await this.prisma.player.findFirst({
+      where: { serverId, username },
+      orderBy: { lastSeen: 'desc' },
+    });
+    const matched = (await this.loadFilters()).find(({ filter, matcher }) =>
+      (!filter.serverId || filter.serverId === serverId) && matcher.test(message)
+    )?.filter;
+
+    const record = await this.prisma.chatMessage.create({
+      data: {
+        serverId,
+        uuid: player?.uuid || null,
+        username,
+        message,
+        timestamp,
+        matchedFilter: matched?.name || null,
+        filterAction: matched?.action || null,
+      },
+    });
+
+    if (matched) {
+      await this.applyFilter(matched, record);
+    }
+    return record;
+  }
+
+  /**
+   * Search the chat log, newest first
+   */
+  async searchMessages(query: ChatSearchQuery = {}): Promise<{ messages: ChatMessage[]; total: number }> {
+    const where: Prisma.ChatMessageWhereInput = {
+      ...(query.serverId ? { serverId: query.serverId } : {}),
+      ...(query.uuid ? { uuid: query.uuid } : {}),
+      ...(query.username ? { username: query.username } : {}),
+      ...(query.search ? { message: { contains: query.search } } : {}),
+      ...(query.flaggedOnly || query.unreviewedOnly ? { matchedFilter: { not: null } } : {}),
+      ...(query.unreviewedOnly ? { reviewedAt: null } : {}),
+    };
+    if (query.from || query.to) {
+      where.timestamp = {
+        ...(query.from ? { gte: query.from } : {}),
+        ...(query.to ? { lte: query.to } : {}),
+      };
+    }
+
+    const [messages, total] = await Promise.all([
+      this.prisma.chatMessage.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        take: query.limit || 100,
+        skip: query.offset || 0,
+      }),
+      this.prisma.chatMessage.count({ where }),
+    ]);
+
+    return { messages, total };
+  }
+
+  /**
+   * Mark a flagged line as reviewed
+   */
+  async reviewMessage(id: string, reviewedBy: string): Promise<ChatMessage> {
+    const existing = await this.prisma.chatMessage.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Chat message not found');
+    }
+
+    return this.prisma.chatMessage.update({
+      where: { id },
+      data: { reviewedAt: new Date(), reviewedBy },
+    });
+  }
+
+  // ==========================================
+  // Filters
+  // ==========================================
+
+  async getFilters(): Promise<ChatFilter[]> {
+    return this.prisma.chatFilter.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  async getFilter(id: string): Promise<ChatFilter | null> {
+    return this.prisma.chatFilter.findUnique({ where: { id } });
+  }
+
+  async createFilter(data: ChatFilterData): Promise<ChatFilter> {
+    const filter = await this.prisma.chatFilter.create({
+      data: {
+        serverId: data.serverId || null,
+        name: data.name.trim(),
+        pattern: data.pattern,
+        isRegex: data.isRegex ?? false,
+        action: data.action,
+        command: data.command || null,
+        enabled: data.enabled ?? true,
+      },
+    });
+    this.filters = null;
+    return filter;
+  }
+
+  async updateFilter(id: string, data: Partial<ChatFilterData>): Promise<ChatFilter> {
+    const existing = await this.prisma.chatFilter.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Chat filter not found');
+    }
+
+    const filter = await this.prisma.chatFilter.update({
+      where: { id },
+      data: {
+        ...(data.serverId !== undefined ? { serverId: data.serverId || null } : {}),
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.pattern !== undefined ? { pattern: data.pattern } : {}),
+        ...(data.isRegex !== undefined ? { isRegex: data.isRegex } : {}),
+        ...(data.action !== undefined ? { action: data.action } : {}),
+        ...(data.command !== undefined ? { command: data.command || null } : {}),
+        ...(data.enabled !== undefined ? { enabled: data.enabled } : {}),
+      },
+    });
+    this.filters = null;
+    return filter;
+  }
+
+  async deleteFilter(id: string): Promise<void> {
+    const existing = await this.prisma.chatFilter.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Chat filter not found');
+    }
+
+    await this.prisma.chatFilter.delete({ where: { id } });
+    this.filters = null;
+  }
+
+  cleanup(): void {
+    for (const serverId of Array.from(this.subscriptions.keys())) {
+      this.detach(serverId);
+    }
+  }
+
+  private async loadFilters(): Promise<{ filter: ChatFilter; matcher: RegExp }[]> {
+    if (!this.filters) {
+      const filters = await this.prisma.chatFilter.findMany({ where: { enabled: true }, orderBy: { createdAt: 'asc' } });
+      this.filters = [];
+      for (const filter of filters) {
+        try {
+          this.filters.push({ filter, matcher: compileChatFilter(filter) });
+        } catch (error) {
+          logger.warn(`[Chat] Skipping filter "${filter.name}" with an invalid pattern:`, error);
+        }
+      }
+    }
+    return this.filters;
+  }
+
+  private async applyFilter(filter: ChatFilter, record: ChatMessage): Promise<void> {
+    logger.info(`[Chat] Filter "${filter.name}" matched ${record.username} on server ${record.serverId}`);
+
+    try {
+      switch (filter.action as ChatFilterAction) {
+        case 'warn':
+          if (!record.uuid || !this.moderationService) {
+            logger.warn(`[Chat] Cannot warn ${record.username}: no player record`);
+            return;
+          }
+          await this.moderationService.recordCase({
+            uuid: record.uuid,
+            username: record.username,
+            type: 'warning',
+            reason: `Chat filter "${filter.name}": ${record.message}`,
+            serverId: record.serverId,
+            actor: FILTER_ACTOR,
+          });
+          break;
+
+        case 'mute': {
+          const adapter = this.adapters.get(record.serverId);
+          if (!adapter) return;
+          const command = (filter.command || DEFAULT_MUTE_COMMAND)
+            .replace(/\{player\}/g, record.username)
+            .replace(/\{uuid\}/g, record.uuid || record.username);
+          const result = await adapter.sendCommand(command);
+          if (!result.success) {
+            logger.warn(`[Chat] Mute command failed for ${record.username}: ${result.error || result.output}`);
+          }
+          break;
+        }
+
+        case 'alert':
+          await this.alertsService?.createAlert({
+            serverId: record.serverId,
+            type: 'custom',
+            severity: 'warning',
+            title: `Chat filter "${filter.name}" matched`,
+            message: `${record.username}: ${record.message}`,
+            metadata: { chatMessageId: record.id, filterId: filter.id, uuid: record.uuid },
+          });
+          break;
+      }
+    } catch (error) {
+      logger.error(`[Chat] Failed to apply filter "${filter.name}":`, error);
+    }
+  }
+}
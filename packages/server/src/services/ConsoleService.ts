@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, ConsoleLog } from '@prisma/client';
 import { IServerAdapter } from '../adapters/IServerAdapter';
 import { LogEntry, CommandResponse } from '../types';
 import logger from '../utils/logger';
@@ -8,6 +8,59 @@ interface QueuedLog {
   log: LogEntry;
 }
 
+export interface ConsoleSearchQuery {
+  /** Text to find; a regular expression when regex is set */
+  query?: string;
+  regex?: boolean;
+  levels?: string[];
+  source?: string;
+  from?: Date;
+  to?: Date;
+  /** Opaque cursor from a previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ConsoleSearchResult {
+  logs: LogEntry[];
+  /** Pass back to continue older; null once history is exhausted */
+  nextCursor: string | null;
+}
+
+// Regex searches run in process - cap the rows scanned per request so one search can't stall the API
+const REGEX_SCAN_BATCH = 500;
+const REGEX_SCAN_LIMIT = 20000;
+
+function encodeCursor(log: Pick<ConsoleLog, 'timestamp' | 'id'>): string {
+  return Buffer.from(`${log.timestamp.toISOString()}|${log.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { timestamp: Date; id: string } {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const date = new Date(timestamp);
+  if (!id || isNaN(date.getTime())) {
+    throw new Error('Invalid cursor');
+  }
+  return { timestamp: date, id };
+}
+
+function toLogEntry(log: ConsoleLog): LogEntry {
+  return {
+    id: log.id,
+    timestamp: log.timestamp,
+    level: log.level as LogEntry['level'],
+    message: log.message,
+    source: log.source || undefined,
+  };
+}
+
+/**
+ * Format a log entry as a line of plain text for export
+ */
+export function formatLogLine(log: LogEntry): string {
+  return `[${log.timestamp.toISOString()}] [${log.level.toUpperCase()}] [${log.source || 'server'}] ${log.message}`;
+}
+
 export class ConsoleService {
   private prisma: PrismaClient;
   private logQueue: QueuedLog[] = [];
@@ -61,6 +114,104 @@ export class ConsoleService {
     }));
   }
 
+  /**
+   * Search persisted console history, newest first
+   */
+  async searchLogs(serverId: string, query: ConsoleSearchQuery = {}): Promise<ConsoleSearchResult> {
+    const limit = Math.min(query.limit || 100, 1000);
+    let matcher: RegExp | null = null;
+    if (query.query && query.regex) {
+      try {
+        matcher = new RegExp(query.query, 'i');
+      } catch {
+        throw new Error('Invalid regular expression');
+      }
+    }
+
+    const where: Prisma.ConsoleLogWhereInput = {
+      serverId,
+      ...(query.levels?.length ? { level: { in: query.levels } } : {}),
+      ...(query.source ? { source: query.source } : {}),
+      ...(query.query && !query.regex ? { message: { contains: query.query } } : {}),
+    };
+    if (query.from || query.to) {
+      where.timestamp = {
+        ...(query.from ? { gte: query.from } : {}),
+        ...(query.to ? { lte: query.to } : {}),
+      };
+    }
+
+    const orderBy: Prisma.ConsoleLogOrderByWithRelationInput[] = [{ timestamp: 'desc' }, { id: 'desc' }];
+    let cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    const page = (take: number) => this.prisma.consoleLog.findMany({
+      where: cursor
+        ? {
+          AND: [where, {
+            OR: [
+              { timestamp: { lt: cursor.timestamp } },
+              { timestamp: cursor.timestamp, id: { lt: cursor.id } },
+            ],
+          }],
+        }
+        : where,
+      orderBy,
+      take,
+    });
+
+    if (!matcher) {
+      const rows = await page(limit + 1);
+      const logs = rows.slice(0, limit);
+      return {
+        logs: logs.map(toLogEntry),
+        nextCursor: rows.length > limit ? encodeCursor(logs[logs.length - 1]) : null,
+      };
+    }
+
+    // SQLite has no REGEXP - scan in batches and stop at the page size or the scan cap
+    const matches: ConsoleLog[] = [];
+    let scanned = 0;
+    while (matches.length < limit && scanned < REGEX_SCAN_LIMIT) {
+      const rows = await page(REGEX_SCAN_BATCH);
+      for (const row of rows) {
+        scanned++;
+        cursor = { timestamp: row.timestamp, id: row.id };
+        if (matcher.test(row.message)) {
+          matches.push(row);
+          if (matches.length === limit) break;
+        }
+      }
+      if (rows.length < REGEX_SCAN_BATCH && matches.length < limit) {
+        return { logs: matches.map(toLogEntry), nextCursor: null };
+      }
+    }
+
+    // Resume after the last row looked at, matched or not
+    return {
+      logs: matches.map(toLogEntry),
+      nextCursor: cursor ? encodeCursor(cursor) : null,
+    };
+  }
+
+  /**
+   * Collect every log matching a search in chronological order, for export.
+   * Keeps the newest maxLines when there are more.
+   */
+  async exportLogs(
+    serverId: string,
+    query: Omit<ConsoleSearchQuery, 'cursor' | 'limit'>,
+    maxLines = 100000
+  ): Promise<LogEntry[]> {
+    const logs: LogEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.searchLogs(serverId, { ...query, cursor, limit: 1000 });
+      logs.push(...result.logs);
+      cursor = result.nextCursor || undefined;
+    } while (cursor && logs.length < maxLines);
+
+    return logs.slice(0, maxLines).reverse();
+  }
+
   /**
    * Save a log entry to the database (queued for batch insert)
    */
@@ -0,0 +1,249 @@
+import { PrismaClient, CrashReport } from '@prisma/client';
+import archiver from 'archiver';
+import fs from 'fs-extra';
+import path from 'path';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { LogEntry } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { AlertsService } from './AlertsService';
+import { formatLogLine } from './ConsoleService';
+import { MetricsService } from './MetricsService';
+import { ModService } from './ModService';
+
+// Console lines taken from the adapter log buffer
+const CRASH_LOG_LINES = 500;
+
+// Metrics history included in the bundle
+const CRASH_METRICS_MINUTES = 30;
+
+// Diagnostic files older than this were not written by this crash
+const CRASH_FILE_MAX_AGE_MS = 15 * 60 * 1000;
+
+// Bundles kept per server, oldest are removed first
+const MAX_REPORTS_PER_SERVER = 20;
+
+export interface CrashReportInfo {
+  id: string;
+  serverId: string;
+  summary: string | null;
+  logLines: number;
+  files: string[];
+  fileSize: number;
+  createdAt: Date;
+}
+
+interface DiagnosticFile {
+  absolutePath: string;
+  archiveName: string;
+}
+
+/**
+ * Find JVM error logs (hs_err_pid*.log) and crash report files written around the time of a crash
+ */
+export async function findDiagnosticFiles(serverPath: string, since: Date): Promise<DiagnosticFile[]> {
+  const found: DiagnosticFile[] = [];
+
+  const collect = async (dir: string, prefix: string, matches: (name: string) => boolean) => {
+    if (!await fs.pathExists(dir)) return;
+    for (const name of await fs.readdir(dir)) {
+      if (!matches(name)) continue;
+      const absolutePath = path.join(dir, name);
+      const stat = await fs.stat(absolutePath);
+      if (stat.isFile() && stat.mtime >= since) {
+        found.push({ absolutePath, archiveName: `${prefix}${name}` });
+      }
+    }
+  };
+
+  await collect(serverPath, '', (name) => /^hs_err_pid\d+\.log$/.test(name));
+  await collect(path.join(serverPath, 'crash-reports'), 'crash-reports/', () => true);
+
+  return found;
+}
+
+/**
+ * Crash Report Service
+ * Captures a diagnostic bundle whenever a server crashes: the last console lines, JVM error
+ * logs and crash reports from the server directory, recent metrics and the installed mods.
+ */
+export class CrashReportService {
+  private prisma: PrismaClient;
+  private modService: ModService;
+  private metricsService: MetricsService;
+  private alertsService: AlertsService;
+  private crashesPath: string;
+  private adapters: Map<string, IServerAdapter> = new Map();
+
+  constructor(prisma: PrismaClient, modService: ModService, metricsService: MetricsService, alertsService: AlertsService) {
+    this.prisma = prisma;
+    this.modService = modService;
+    this.metricsService = metricsService;
+    this.alertsService = alertsService;
+    this.crashesPath = path.join(config.dataPath, 'crashes');
+  }
+
+  /**
+   * Keep track of the adapter so its log buffer can be read when the server crashes
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.adapters.set(serverId, adapter);
+  }
+
+  detach(serverId: string): void {
+    this.adapters.delete(serverId);
+  }
+
+  /**
+   * Capture a crash bundle and link it from the server's crash alert
+   */
+  async captureCrash(serverId: string): Promise<CrashReportInfo> {
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) {
+      throw new Error('Server not found');
+    }
+
+    const now = new Date();
+    const adapter = this.adapters.get(serverId);
+    const logs: LogEntry[] = adapter ? await adapter.getLogs(CRASH_LOG_LINES) : [];
+    const [diagnostics, metrics, mods] = await Promise.all([
+      findDiagnosticFiles(server.serverPath, new Date(now.getTime() - CRASH_FILE_MAX_AGE_MS)),
+      this.metricsService.queryMetrics({
+        serverId,
+        startTime: new Date(now.getTime() - CRASH_METRICS_MINUTES * 60 * 1000),
+        limit: CRASH_METRICS_MINUTES,
+      }),
+      this.modService.getServerMods(serverId),
+    ]);
+
+    const lastError = [...logs].reverse().find((log) => log.level === 'error');
+    const summary = lastError ? lastError.message.slice(0, 500) : null;
+
+    const serverDir = path.join(this.crashesPath, serverId);
+    await fs.ensureDir(serverDir);
+    const filePath = path.join(serverDir, `crash-${now.toISOString().replace(/[:.]/g, '-')}.zip`);
+
+    const manifest = {
+      server: { id: server.id, name: server.name, version: server.version, adapterType: server.adapterType },
+      crashedAt: now.toISOString(),
+      summary,
+      logLines: logs.length,
+      files: diagnostics.map((file) => file.archiveName),
+      jvmArgs: server.jvmArgs,
+      serverArgs: server.serverArgs,
+    };
+
+    const fileSize = await this.writeBundle(filePath, {
+      'crash.json': JSON.stringify(manifest, null, 2),
+      'console.log': logs.map(formatLogLine).join('\n'),
+      'metrics.json': JSON.stringify(metrics.reverse(), null, 2),
+      'mods.json': JSON.stringify(mods.map((mod) => ({
+        name: mod.projectTitle,
+        version: mod.versionName,
+        enabled: mod.enabled,
+        files: mod.files.map((file) => file.fileName),
+      })), null, 2),
+    }, diagnostics);
+
+    const report = await this.prisma.crashReport.create({
+      data: {
+        serverId,
+        summary,
+        logLines: logs.length,
+        files: JSON.stringify(manifest.files),
+        filePath,
+        fileSize,
+      },
+    });
+
+    logger.info(`[CrashReports] Captured crash bundle for ${server.name} (${logs.length} lines, ${diagnostics.length} file(s))`);
+
+    await this.alertsService.raiseCrashAlert(serverId, { crashReportId: report.id, summary });
+    await this.pruneReports(serverId);
+
+    return this.mapToInfo(report);
+  }
+
+  /**
+   * Crash history for a server, newest first
+   */
+  async getReports(serverId: string, limit: number = MAX_REPORTS_PER_SERVER): Promise<CrashReportInfo[]> {
+    const reports = await this.prisma.crashReport.findMany({
+      where: { serverId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return reports.map((report) => this.mapToInfo(report));
+  }
+
+  /**
+   * Get a report with its bundle location
+   */
+  async getReport(id: string): Promise<CrashReport> {
+    const report = await this.prisma.crashReport.findUnique({ where: { id } });
+    if (!report) {
+      throw new Error('Crash report not found');
+    }
+    return report;
+  }
+
+  async deleteReport(id: string): Promise<void> {
+    const report = await this.getReport(id);
+    await this.prisma.crashReport.delete({ where: { id } });
+    await fs.remove(report.filePath).catch((error) => {
+      logger.warn(`[CrashReports] Failed to remove bundle ${report.filePath}:`, error);
+    });
+  }
+
+  cleanup(): void {
+    this.adapters.clear();
+  }
+
+  private async pruneReports(serverId: string): Promise<void> {
+    const stale = await this.prisma.crashReport.findMany({
+      where: { serverId },
+      orderBy: { createdAt: 'desc' },
+      skip: MAX_REPORTS_PER_SERVER,
+    });
+    for (const report of stale) {
+      await this.deleteReport(report.id);
+    }
+  }
+
+  /**
+   * Write the bundle zip
+   * @returns Bundle size in bytes
+   */
+  private writeBundle(filePath: string, entries: Record<string, string>, files: DiagnosticFile[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const output = fs.createWriteStream(filePath);
+      const archive = archiver('zip', { zlib: { level: 9 } });
+
+      output.on('close', () => resolve(archive.pointer()));
+      archive.on('error', reject);
+      archive.on('warning', (err) => logger.warn('[CrashReports] Archive warning:', err));
+      archive.pipe(output);
+
+      for (const [name, content] of Object.entries(entries)) {
+        archive.append(content, { name });
+      }
+      for (const file of files) {
+        archive.file(file.absolutePath, { name: file.archiveName });
+      }
+
+      archive.finalize();
+    });
+  }
+
+  private mapToInfo(report: CrashReport): CrashReportInfo {
+    return {
+      id: report.id,
+      serverId: report.serverId,
+      summary: report.summary,
+      logLines: report.logLines,
+      files: JSON.parse(report.files),
+      fileSize: report.fileSize,
+      createdAt: report.createdAt,
+    };
+  }
+}
@@ -259,6 +259,12 @@ export class DiscordNotificationService {
           title: '✅ Player Unbanned',
           description: `**${data.playerName}** was unbanned from **${data.serverName}**`,
           color: 0x00ff00, // Green
+          fields: data.reason ? [
+            {
+              name: 'Reason',
+              value: data.reason,
+            },
+          ] : [],
         };
         break;
 
@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import cron from 'node-cron';
+import { PrismaClient, Server } from '@prisma/client';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { ACTIVITY_ACTIONS, RESOURCE_TYPES } from '../constants/ActivityLogActions';
+import { ActivityLogService } from './ActivityLogService';
+import { MetricData } from './MetricsService';
+import { ServerService } from './ServerService';
+import logger from '../utils/logger';
+
+/** What brought an idle server back */
+export type WakeSource = 'schedule' | 'webhook' | 'link' | 'manual';
+
+export interface IdlePolicySettings {
+  idleStopEnabled: boolean;
+  /** Minutes with zero players before the server is stopped */
+  idleStopMinutes: number;
+  /** Cron expression (UTC) for starting the server again after an idle stop */
+  idleWakeCron: string | null;
+}
+
+export interface IdlePolicyInfo extends IdlePolicySettings {
+  /** Set while the server is stopped by the idle policy */
+  idleSince: Date | null;
+  hasWakeToken: boolean;
+  /** When the server was first seen empty, if it is running empty right now */
+  emptySince: Date | null;
+}
+
+export interface WakeResult {
+  serverId: string;
+  serverName: string;
+  woke: boolean;
+  message: string;
+}
+
+export interface IdleActor {
+  userId: string;
+  username: string;
+  userRole: string;
+}
+
+const SYSTEM_ACTOR: IdleActor = { userId: 'system', username: 'Idle Policy', userRole: 'system' };
+const MAX_IDLE_MINUTES = 24 * 60;
+
+/**
+ * Validate idle policy settings, returning an error message or null
+ */
+export function validateIdlePolicy(data: Partial<IdlePolicySettings>): string | null {
+  if (data.idleStopEnabled !== undefined && typeof data.idleStopEnabled !== 'boolean') {
+    return 'idleStopEnabled must be a boolean';
+  }
+  if (data.idleStopMinutes !== undefined
+    && (!Number.isInteger(data.idleStopMinutes) || data.idleStopMinutes < 1 || data.idleStopMinutes > MAX_IDLE_MINUTES)) {
+    return `idleStopMinutes must be an integer between 1 and ${MAX_IDLE_MINUTES}`;
+  }
+  if (data.idleWakeCron && (typeof data.idleWakeCron !== 'string' || !cron.validate(data.idleWakeCron))) {
+    return 'idleWakeCron must be a valid cron expression';
+  }
+  return null;
+}
+
+export function hashWakeToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Idle Service
+ * Stops servers that have had no players for a while, using the player count from each
+ * metrics sample, and starts them again on a schedule or through a wake link/webhook.
+ * Only servers stopped by the idle policy can be woken, so a manual stop stays stopped.
+ */
+export class IdleService {
+  private prisma: PrismaClient;
+  private serverService: ServerService;
+  private activityLogService?: ActivityLogService;
+  private emptySince: Map<string, number> = new Map();
+  private stopping: Set<string> = new Set();
+  private subscriptions: Map<string, () => void> = new Map();
+  private wakeJobs: Map<string, cron.ScheduledTask> = new Map();
+
+  constructor(prisma: PrismaClient, serverService: ServerService, activityLogService?: ActivityLogService) {
+    this.prisma = prisma;
+    this.serverService = serverService;
+    this.activityLogService = activityLogService;
+  }
+
+  /**
+   * Reset the empty timer whenever a server leaves the running state
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.detach(serverId);
+    const unsubscribe = adapter.onStatusChange((status) => {
+      if (status !== 'running') {
+        this.emptySince.delete(serverId);
+      }
+    });
+    this.subscriptions.set(serverId, unsubscribe);
+  }
+
+  detach(serverId: string): void {
+    this.subscriptions.get(serverId)?.();
+    this.subscriptions.delete(serverId);
+  }
+
+  /**
+   * Feed a metrics sample; stops the server once it has been empty for the policy's duration
+   */
+  async handleSample(serverId: string, metrics: MetricData): Promise<void> {
+    if (metrics.playerCount > 0) {
+      this.emptySince.delete(serverId);
+      return;
+    }
+
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server?.idleStopEnabled || server.status !== 'running') {
+      this.emptySince.delete(serverId);
+      return;
+    }
+
+    const now = metrics.timestamp.getTime();
+    const since = this.emptySince.get(serverId);
+    if (since === undefined) {
+      this.emptySince.set(serverId, now);
+      return;
+    }
+
+    if (now - since >= server.idleStopMinutes * 60 * 1000) {
+      await this.stopForIdle(server);
+    }
+  }
+
+  /**
+   * Start a server that was stopped by the idle policy
+   */
+  async wake(serverId: string, source: WakeSource, actor: IdleActor = SYSTEM_ACTOR): Promise<WakeResult> {
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) {
+      throw new Error('Server not found');
+    }
+
+    const result = { serverId, serverName: server.name };
+    if (server.status !== 'stopped') {
+      return { ...result, woke: false, message: `Server is already ${server.status}` };
+    }
+    if (!server.idleSince) {
+      return { ...result, woke: false, message: 'Server was not stopped for being idle' };
+    }
+
+    try {
+      await this.serverService.startServer(serverId);
+    } catch (error: any) {
+      this.logActivity(ACTIVITY_ACTIONS.SERVER_WAKE, server, actor, { source }, error.message);
+      throw error;
+    }
+
+    logger.info(`Woke idle server ${server.name} (${source})`);
+    this.logActivity(ACTIVITY_ACTIONS.SERVER_WAKE, server, actor, { source, idleSince: server.idleSince });
+    return { ...result, woke: true, message: 'Server is starting' };
+  }
+
+  /**
+   * Wake the server a wake link/webhook token belongs to
+   */
+  async wakeByToken(token: string, source: 'webhook' | 'link'): Promise<WakeResult> {
+    const server = await this.prisma.server.findUnique({
+      where: { wakeTokenHash: hashWakeToken(token) },
+      select: { id: true },
+    });
+    if (!server) {
+      throw new Error('Invalid wake token');
+    }
+    return this.wake(server.id, source);
+  }
+
+  // ==========================================
+  // Policy
+  // ==========================================
+
+  async getPolicy(serverId: string): Promise<IdlePolicyInfo> {
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) {
+      throw new Error('Server not found');
+    }
+    return this.mapToInfo(server);
+  }
+
+  async setPolicy(serverId: string, data: Partial<IdlePolicySettings>): Promise<IdlePolicyInfo> {
+    const server = await this.prisma.server.update({
+      where: { id: serverId },
+      data: {
+        idleStopEnabled: data.idleStopEnabled,
+        idleStopMinutes: data.idleStopMinutes,
+        idleWakeCron: data.idleWakeCron === undefined ? undefined : data.idleWakeCron || null,
+      },
+    });
+
+    if (!server.idleStopEnabled) {
+      this.emptySince.delete(serverId);
+    }
+    this.scheduleWake(serverId, server.idleWakeCron);
+
+    logger.info(`Updated idle policy for server ${server.name}`);
+    return this.mapToInfo(server);
+  }
+
+  /**
+   * Issue a new wake token, replacing any previous one. The token is only returned here.
+   */
+  async createWakeToken(serverId: string): Promise<string> {
+    const token = crypto.randomBytes(24).toString('hex');
+    await this.prisma.server.update({
+      where: { id: serverId },
+      data: { wakeTokenHash: hashWakeToken(token) },
+    });
+    return token;
+  }
+
+  async revokeWakeToken(serverId: string): Promise<void> {
+    await this.prisma.server.update({
+      where: { id: serverId },
+      data: { wakeTokenHash: null },
+    });
+  }
+
+  // ==========================================
+  // Wake schedules
+  // ==========================================
+
+  /**
+   * Schedule wakes for every server with a wake cron
+   */
+  async loadWakeSchedules(): Promise<void> {
+    const servers = await this.prisma.server.findMany({
+      where: { idleWakeCron: { not: null } },
+      select: { id: true, idleWakeCron: true },
+    });
+    for (const server of servers) {
+      this.scheduleWake(server.id, server.idleWakeCron);
+    }
+  }
+
+  cleanup(): void {
+    for (const job of this.wakeJobs.values()) {
+      job.stop();
+    }
+    this.wakeJobs.clear();
+    for (const serverId of [...this.subscriptions.keys()]) {
+      this.detach(serverId);
+    }
+    this.emptySince.clear();
+  }
+
+  private scheduleWake(serverId: string, cronExpression: string | null): void {
+    this.wakeJobs.get(serverId)?.stop();
+    this.wakeJobs.delete(serverId);
+
+    if (!cronExpression || !cron.validate(cronExpression)) return;
+
+    const job = cron.schedule(
+      cronExpression,
+      () => {
+        this.wake(serverId, 'schedule').catch((error) => {
+          logger.error(`Scheduled wake failed for server ${serverId}:`, error);
+        });
+      },
+      {
+        scheduled: true,
+        timezone: 'UTC',
+      }
+    );
+    this.wakeJobs.set(serverId, job);
+  }
+
+  private async stopForIdle(server: Server): Promise<void> {
+    // A slow stop could outlast the next sample
+    if (this.stopping.has(server.id)) return;
+    this.stopping.add(server.id);
+
+    const details = { idleMinutes: server.idleStopMinutes };
+    try {
+      await this.serverService.stopServer(server.id);
+      await this.prisma.server.update({
+        where: { id: server.id },
+        data: { idleSince: new Date() },
+      });
+      this.emptySince.delete(server.id);
+
+      logger.info(`Stopped server ${server.name} after ${server.idleStopMinutes} minutes without players`);
+      this.logActivity(ACTIVITY_ACTIONS.SERVER_IDLE_STOP, server, SYSTEM_ACTOR, details);
+    } catch (error: any) {
+      logger.error(`Failed to stop idle server ${server.name}:`, error);
+      this.logActivity(ACTIVITY_ACTIONS.SERVER_IDLE_STOP, server, SYSTEM_ACTOR, details, error.message);
+    } finally {
+      this.stopping.delete(server.id);
+    }
+  }
+
+  private logActivity(
+    action: string,
+    server: Server,
+    actor: IdleActor,
+    details: Record<string, unknown>,
+    errorMessage?: string
+  ): void {
+    this.activityLogService?.logAsync({
+      ...actor,
+      action,
+      resourceType: RESOURCE_TYPES.SERVER,
+      resourceId: server.id,
+      resourceName: server.name,
+      status: errorMessage ? 'failed' : 'success',
+      errorMessage,
+      details,
+    });
+  }
+
+  private mapToInfo(server: Server): IdlePolicyInfo {
+    const emptySince = this.emptySince.get(server.id);
+    return {
+      idleStopEnabled: server.idleStopEnabled,
+      idleStopMinutes: server.idleStopMinutes,
+      idleWakeCron: server.idleWakeCron,
+      idleSince: server.idleSince,
+      hasWakeToken: !!server.wakeTokenHash,
+      emptySince: emptySince !== undefined ? new Date(emptySince) : null,
+    };
+  }
+}
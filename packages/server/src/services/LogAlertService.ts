@@ -0,0 +1,294 @@
+import { PrismaClient, LogAlertRule } from '@prisma/client';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { LogEntry } from '../types';
+import logger from '../utils/logger';
+import { AlertsService, AlertSeverity } from './AlertsService';
+import { AutomationRulesService } from './AutomationRulesService';
+
+const LOG_LEVELS: LogEntry['level'][] = ['info', 'warn', 'error', 'debug'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+// Longest matched line quoted in an alert message
+const MAX_QUOTED_LINE = 300;
+
+export interface LogAlertRuleData {
+  serverId?: string | null;
+  name: string;
+  pattern: string;
+  level?: LogEntry['level'] | null;
+  threshold?: number;
+  windowMinutes?: number;
+  severity: AlertSeverity;
+  notifyDiscord?: boolean;
+  automationRuleId?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Build the matcher for a rule (case-insensitive)
+ */
+export function compileLogAlertRule(rule: Pick<LogAlertRule, 'pattern'>): RegExp {
+  return new RegExp(rule.pattern, 'i');
+}
+
+/**
+ * Validate log alert rule settings
+ * @returns Error message, or null when valid
+ */
+export function validateLogAlertRule(data: Partial<LogAlertRuleData>): string | null {
+  if (data.name !== undefined && !data.name.trim()) {
+    return 'name is required';
+  }
+  if (data.pattern !== undefined) {
+    if (!data.pattern.trim()) {
+      return 'pattern is required';
+    }
+    try {
+      compileLogAlertRule({ pattern: data.pattern });
+    } catch {
+      return 'pattern is not a valid regular expression';
+    }
+  }
+  if (data.level && !LOG_LEVELS.includes(data.level)) {
+    return `level must be one of: ${LOG_LEVELS.join(', ')}`;
+  }
+  if (data.threshold !== undefined && (!Number.isInteger(data.threshold) || data.threshold < 1)) {
+    return 'threshold must be a positive whole number';
+  }
+  if (data.windowMinutes !== undefined && (!Number.isInteger(data.windowMinutes) || data.windowMinutes < 1)) {
+    return 'windowMinutes must be a positive whole number';
+  }
+  if (data.severity !== undefined && !SEVERITIES.includes(data.severity)) {
+    return `severity must be one of: ${SEVERITIES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Log Alert Service
+ * Watches server output for user-defined patterns and raises a custom alert once a pattern
+ * matches `threshold` times within `windowMinutes`. The count starts over after each alert.
+ */
+export class LogAlertService {
+  private prisma: PrismaClient;
+  private alertsService: AlertsService;
+  private automationRulesService?: AutomationRulesService;
+  private subscriptions: Map<string, () => void> = new Map();
+  private rules: { rule: LogAlertRule; matcher: RegExp }[] | null = null;
+
+  // Recent match times per rule and server (ruleId:serverId)
+  private matches: Map<string, number[]> = new Map();
+
+  constructor(prisma: PrismaClient, alertsService: AlertsService, automationRulesService?: AutomationRulesService) {
+    this.prisma = prisma;
+    this.alertsService = alertsService;
+    this.automationRulesService = automationRulesService;
+  }
+
+  /**
+   * Start following an adapter's log output
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.detach(serverId);
+    this.subscriptions.set(serverId, adapter.onLog((log) => this.handleLog(serverId, log)));
+  }
+
+  /**
+   * Stop following an adapter
+   */
+  detach(serverId: string): void {
+    this.subscriptions.get(serverId)?.();
+    this.subscriptions.delete(serverId);
+  }
+
+  /**
+   * Feed a log entry from any source
+   */
+  handleLog(serverId: string, log: LogEntry): void {
+    // Skip the manager's own messages and echoed commands
+    if (log.source === 'system' || log.source === 'user') return;
+
+    this.checkLog(serverId, log).catch((error) => {
+      logger.error(`[LogAlerts] Failed to check log line on server ${serverId}:`, error);
+    });
+  }
+
+  /**
+   * Count a line against every matching rule and fire the rules that reach their threshold
+   */
+  async checkLog(serverId: string, log: LogEntry): Promise<void> {
+    const now = Date.now();
+
+    for (const { rule, matcher } of await this.loadRules()) {
+      if (rule.serverId && rule.serverId !== serverId) continue;
+      if (rule.level && rule.level !== log.level) continue;
+      if (!matcher.test(log.message)) continue;
+
+      const key = `${rule.id}:${serverId}`;
+      const windowStart = now - rule.windowMinutes * 60 * 1000;
+      const recent = (this.matches.get(key) || []).filter((time) => time > windowStart);
+      recent.push(now);
+
+      if (recent.length < rule.threshold) {
+        this.matches.set(key, recent);
+        continue;
+      }
+
+      this.matches.delete(key);
+      await this.fire(rule, serverId, log, recent.length);
+    }
+  }
+
+  // ==========================================
+  // Rules
+  // ==========================================
+
+  async getRules(serverId?: string): Promise<LogAlertRule[]> {
+    return this.prisma.logAlertRule.findMany({
+      where: serverId ? { OR: [{ serverId }, { serverId: null }] } : undefined,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async createRule(data: LogAlertRuleData): Promise<LogAlertRule> {
+    await this.assertAutomationRule(data.automationRuleId, data.serverId);
+    const rule = await this.prisma.logAlertRule.create({
+      data: {
+        serverId: data.serverId || null,
+        name: data.name.trim(),
+        pattern: data.pattern,
+        level: data.level || null,
+        threshold: data.threshold ?? 1,
+        windowMinutes: data.windowMinutes ?? 5,
+        severity: data.severity,
+        notifyDiscord: data.notifyDiscord ?? true,
+        automationRuleId: data.automationRuleId || null,
+        enabled: data.enabled ?? true,
+      },
+    });
+    this.rules = null;
+    return rule;
+  }
+
+  async updateRule(id: string, data: Partial<LogAlertRuleData>): Promise<LogAlertRule> {
+    const existing = await this.prisma.logAlertRule.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Log alert rule not found');
+    }
+    await this.assertAutomationRule(
+      data.automationRuleId !== undefined ? data.automationRuleId : existing.automationRuleId,
+      data.serverId !== undefined ? data.serverId : existing.serverId
+    );
+
+    const rule = await this.prisma.logAlertRule.update({
+      where: { id },
+      data: {
+        ...(data.serverId !== undefined ? { serverId: data.serverId || null } : {}),
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.pattern !== undefined ? { pattern: data.pattern } : {}),
+        ...(data.level !== undefined ? { level: data.level || null } : {}),
+        ...(data.threshold !== undefined ? { threshold: data.threshold } : {}),
+        ...(data.windowMinutes !== undefined ? { windowMinutes: data.windowMinutes } : {}),
+        ...(data.severity !== undefined ? { severity: data.severity } : {}),
+        ...(data.notifyDiscord !== undefined ? { notifyDiscord: data.notifyDiscord } : {}),
+        ...(data.automationRuleId !== undefined ? { automationRuleId: data.automationRuleId || null } : {}),
+        ...(data.enabled !== undefined ? { enabled: data.enabled } : {}),
+      },
+    });
+    this.rules = null;
+    this.clearMatches(id);
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const existing = await this.prisma.logAlertRule.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Log alert rule not found');
+    }
+
+    await this.prisma.logAlertRule.delete({ where: { id } });
+    this.rules = null;
+    this.clearMatches(id);
+  }
+
+  cleanup(): void {
+    for (const serverId of Array.from(this.subscriptions.keys())) {
+      this.detach(serverId);
+    }
+    this.matches.clear();
+  }
+
+  private async fire(rule: LogAlertRule, serverId: string, log: LogEntry, count: number): Promise<void> {
+    const line = log.message.length > MAX_QUOTED_LINE ? `${log.message.slice(0, MAX_QUOTED_LINE)}...` : log.message;
+    const message = rule.threshold > 1
+      ? `Matched ${count} times in ${rule.windowMinutes} minute(s). Latest: ${line}`
+      : line;
+
+    logger.info(`[LogAlerts] Rule "${rule.name}" fired on server ${serverId}`);
+
+    await this.alertsService.createAlert({
+      serverId,
+      type: 'custom',
+      severity: rule.severity as AlertSeverity,
+      title: `Log alert: ${rule.name}`,
+      message,
+      metadata: {
+        source: 'log_alert',
+        ruleId: rule.id,
+        pattern: rule.pattern,
+        matches: count,
+        windowMinutes: rule.windowMinutes,
+        line: log.message,
+      },
+      notifyDiscord: rule.notifyDiscord,
+    });
+
+    await this.prisma.logAlertRule.update({
+      where: { id: rule.id },
+      data: { lastTriggeredAt: new Date() },
+    }).catch((error) => logger.warn(`[LogAlerts] Failed to record trigger time for rule ${rule.id}:`, error));
+
+    if (rule.automationRuleId && this.automationRulesService) {
+      try {
+        const result = await this.automationRulesService.executeRule(rule.automationRuleId);
+        logger.info(`[LogAlerts] Automation rule ${rule.automationRuleId} ${result.status}${result.message ? `: ${result.message}` : ''}`);
+      } catch (error) {
+        logger.error(`[LogAlerts] Failed to run automation rule ${rule.automationRuleId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Automation rules belong to a server, so only a rule watching that same server may trigger one
+   */
+  private async assertAutomationRule(automationRuleId: string | null | undefined, serverId: string | null | undefined): Promise<void> {
+    if (!automationRuleId) return;
+    const automationRule = await this.prisma.automationRule.findUnique({ where: { id: automationRuleId } });
+    if (!automationRule || automationRule.serverId !== serverId) {
+      throw new Error('Automation rule must belong to the watched server');
+    }
+  }
+
+  private clearMatches(ruleId: string): void {
+    for (const key of Array.from(this.matches.keys())) {
+      if (key.startsWith(`${ruleId}:`)) {
+        this.matches.delete(key);
+      }
+    }
+  }
+
+  private async loadRules(): Promise<{ rule: LogAlertRule; matcher: RegExp }[]> {
+    if (!this.rules) {
+      const rules = await this.prisma.logAlertRule.findMany({ where: { enabled: true }, orderBy: { createdAt: 'asc' } });
+      this.rules = [];
+      for (const rule of rules) {
+        try {
+          this.rules.push({ rule, matcher: compileLogAlertRule(rule) });
+        } catch (error) {
+          logger.warn(`[LogAlerts] Skipping rule "${rule.name}" with an invalid pattern:`, error);
+        }
+      }
+    }
+    return this.rules;
+  }
+}
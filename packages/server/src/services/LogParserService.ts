@@ -0,0 +1,338 @@
+import { PrismaClient, LogParseRule } from '@prisma/client';
+import { LogEntry } from '../types';
+import logger from '../utils/logger';
+
+type LogLevel = LogEntry['level'];
+
+/**
+ * Turns one raw console line into a log entry, or null for blank lines
+ */
+export type LogLineParser = (line: string) => LogEntry | null;
+
+export interface LogParseRuleData {
+  serverId?: string | null;
+  adapterType?: string | null;
+  name: string;
+  pattern: string;
+  priority?: number;
+  enabled?: boolean;
+}
+
+export interface LogParseScope {
+  serverId?: string | null;
+  adapterType?: string | null;
+}
+
+export interface LogParseTestResult {
+  line: string;
+  /** Name of the rule that matched, null when the line fell through to the fallback */
+  rule: string | null;
+  groups: Record<string, string>;
+  entry: LogEntry | null;
+}
+
+interface CompiledRule {
+  name: string;
+  matcher: RegExp;
+  rule?: LogParseRule;
+}
+
+export const LOG_RULE_GROUPS = ['timestamp', 'level', 'thread', 'source', 'message'] as const;
+
+/**
+ * Formats recognized when no configured rule matches
+ */
+export const BUILTIN_LOG_RULES: { name: string; pattern: string }[] = [
+  {
+    // [2026/01/14 10:12:01   INFO]   [World|default] Message
+    name: 'Hytale',
+    pattern: '^\\[(?<timestamp>\\d{4}/\\d{2}/\\d{2} \\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?)\\s+(?<level>[A-Z]+)\\]\\s+(?:\\[(?<source>[^\\]]+)\\]\\s*)?(?<message>.*)$',
+  },
+  {
+    // [12:00:00] [Server thread/INFO]: Message
+    name: 'Thread and level',
+    pattern: '^\\[(?<timestamp>\\d{2}:\\d{2}:\\d{2})\\]\\s*\\[(?<thread>[^\\]]+)/(?<level>[A-Z]+)\\]:\\s*(?<message>.*)$',
+  },
+  {
+    // [12:00:00 INFO]: Message
+    name: 'Time and level',
+    pattern: '^\\[(?<timestamp>\\d{2}:\\d{2}:\\d{2})\\s+(?<level>[A-Z]+)\\]:\\s*(?<message>.*)$',
+  },
+  {
+    // 2026-01-14 10:12:01 [INFO] Message
+    name: 'Date and level',
+    pattern: '^(?<timestamp>\\d{4}-\\d{2}-\\d{2}[ T]\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?)\\s+\\[?(?<level>[A-Z]+)\\]?:?\\s+(?<message>.*)$',
+  },
+];
+
+// A bracketed level token anywhere in an unrecognized line, e.g. "[WARN]" or "/ERROR]"
+const FALLBACK_LEVEL = /(?:^|[\s[/])(SEVERE|FATAL|ERROR|WARNING|WARN|DEBUG|TRACE)\]/;
+
+/**
+ * Map a level name from a log line onto our levels
+ */
+export function normalizeLogLevel(level: string | undefined): LogLevel {
+  switch (level?.trim().toUpperCase()) {
+    case 'ERROR':
+    case 'ERR':
+    case 'SEVERE':
+    case 'FATAL':
+      return 'error';
+    case 'WARN':
+    case 'WARNING':
+      return 'warn';
+    case 'DEBUG':
+    case 'TRACE':
+    case 'FINE':
+    case 'FINER':
+    case 'FINEST':
+      return 'debug';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Parse a captured timestamp. Time-only values are placed on today's date;
+ * anything unreadable falls back to now.
+ */
+export function parseLogTimestamp(value: string | undefined, now: Date = new Date()): Date {
+  if (!value) return now;
+
+  const time = value.match(/^(\d{1,2}):(\d{2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (time) {
+    const timestamp = new Date(now);
+    timestamp.setHours(Number(time[1]), Number(time[2]), Number(time[3]), Number((time[4] || '0').padEnd(3, '0')));
+    return timestamp;
+  }
+
+  const dateTime = value.match(/^(\d{4})[-/](\d{2})[-/](\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:[.,](\d{1,3}))?\d*$/);
+  if (dateTime) {
+    const [, year, month, day, hours, minutes, seconds, ms] = dateTime;
+    return new Date(
+      Number(year), Number(month) - 1, Number(day),
+      Number(hours), Number(minutes), Number(seconds), Number((ms || '0').padEnd(3, '0'))
+    );
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? now : parsed;
+}
+
+/**
+ * Build the matcher for a rule
+ */
+export function compileLogRule(rule: Pick<LogParseRule, 'pattern'>): RegExp {
+  return new RegExp(rule.pattern);
+}
+
+/**
+ * Validate log parse rule settings
+ * @returns Error message, or null when valid
+ */
+export function validateLogRule(data: Partial<LogParseRuleData>): string | null {
+  if (data.name !== undefined && !data.name.trim()) {
+    return 'name is required';
+  }
+  if (data.pattern !== undefined) {
+    if (!data.pattern.trim()) {
+      return 'pattern is required';
+    }
+    try {
+      new RegExp(data.pattern);
+    } catch {
+      return 'pattern is not a valid regular expression';
+    }
+    if (!data.pattern.includes('(?<message>')) {
+      return 'pattern must capture a named group "message"';
+    }
+  }
+  if (data.serverId && data.adapterType) {
+    return 'a rule applies to either a server or an adapter type, not both';
+  }
+  if (data.priority !== undefined && !Number.isInteger(data.priority)) {
+    return 'priority must be a whole number';
+  }
+  return null;
+}
+
+const BUILTIN_RULES: CompiledRule[] = BUILTIN_LOG_RULES.map((rule) => ({ name: rule.name, matcher: compileLogRule(rule) }));
+
+/**
+ * Parse a line with the first matching rule, then the built-in formats
+ */
+function applyRules(
+  line: string,
+  rules: CompiledRule[],
+  defaultSource?: string
+): { entry: LogEntry | null; rule: string | null; groups: Record<string, string> } {
+  const text = line.replace(/\r$/, '');
+  if (!text.trim()) {
+    return { entry: null, rule: null, groups: {} };
+  }
+
+  for (const rule of rules) {
+    const match = text.match(rule.matcher);
+    if (!match) continue;
+
+    const groups: Record<string, string> = {};
+    for (const [name, value] of Object.entries(match.groups || {})) {
+      if (value !== undefined) groups[name] = value;
+    }
+    return {
+      rule: rule.name,
+      groups,
+      entry: {
+        timestamp: parseLogTimestamp(groups.timestamp),
+        level: normalizeLogLevel(groups.level),
+        message: groups.message ?? text,
+        source: groups.source?.trim() || defaultSource,
+        thread: groups.thread?.trim() || undefined,
+      },
+    };
+  }
+
+  const level = text.match(FALLBACK_LEVEL);
+  return {
+    rule: null,
+    groups: {},
+    entry: { timestamp: new Date(), level: normalizeLogLevel(level?.[1]), message: text, source: defaultSource },
+  };
+}
+
+/**
+ * Parser for the built-in formats only, used when no rules are configured
+ */
+export function createDefaultLogParser(defaultSource?: string): LogLineParser {
+  return (line) => applyRules(line, BUILTIN_RULES, defaultSource).entry;
+}
+
+/**
+ * Log Parser Service
+ * Holds the configurable rules that turn console output into structured log entries.
+ * Rules are kept in memory so adapters can parse synchronously; server rules run before
+ * adapter type rules, then rules for every server, then the built-in formats.
+ */
+export class LogParserService {
+  private prisma: PrismaClient;
+  private rules: CompiledRule[] = [];
+  private scopes: Map<string, CompiledRule[]> = new Map();
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Load rules from the database
+   */
+  async initialize(): Promise<void> {
+    await this.loadRules();
+    logger.info(`[LogParser] Loaded ${this.rules.length} log parsing rules`);
+  }
+
+  /**
+   * Get a parser for a server's output. Rule changes apply to parsers already handed out.
+   */
+  getParser(serverId: string, adapterType: string, defaultSource: string = 'server'): LogLineParser {
+    return (line) => applyRules(line, this.getRulesFor({ serverId, adapterType }), defaultSource).entry;
+  }
+
+  /**
+   * Run sample lines through either a candidate pattern or the rules in effect for a scope
+   */
+  testLines(lines: string[], options: LogParseScope & { pattern?: string } = {}): LogParseTestResult[] {
+    const rules = options.pattern
+      ? [{ name: 'Candidate', matcher: compileLogRule({ pattern: options.pattern }) }]
+      : this.getRulesFor(options);
+
+    return lines
+      .filter((line) => line.trim())
+      .map((line) => ({ line, ...applyRules(line, rules, 'server') }));
+  }
+
+  // ==========================================
+  // Rules
+  // ==========================================
+
+  async getRules(): Promise<LogParseRule[]> {
+    return this.prisma.logParseRule.findMany({ orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }] });
+  }
+
+  async createRule(data: LogParseRuleData): Promise<LogParseRule> {
+    const rule = await this.prisma.logParseRule.create({
+      data: {
+        serverId: data.serverId || null,
+        adapterType: data.adapterType || null,
+        name: data.name.trim(),
+        pattern: data.pattern,
+        priority: data.priority ?? 0,
+        enabled: data.enabled ?? true,
+      },
+    });
+    await this.loadRules();
+    return rule;
+  }
+
+  async updateRule(id: string, data: Partial<LogParseRuleData>): Promise<LogParseRule> {
+    const existing = await this.prisma.logParseRule.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Log parse rule not found');
+    }
+
+    const rule = await this.prisma.logParseRule.update({
+      where: { id },
+      data: {
+        ...(data.serverId !== undefined ? { serverId: data.serverId || null } : {}),
+        ...(data.adapterType !== undefined ? { adapterType: data.adapterType || null } : {}),
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.pattern !== undefined ? { pattern: data.pattern } : {}),
+        ...(data.priority !== undefined ? { priority: data.priority } : {}),
+        ...(data.enabled !== undefined ? { enabled: data.enabled } : {}),
+      },
+    });
+    await this.loadRules();
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const existing = await this.prisma.logParseRule.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Log parse rule not found');
+    }
+
+    await this.prisma.logParseRule.delete({ where: { id } });
+    await this.loadRules();
+  }
+
+  private async loadRules(): Promise<void> {
+    const rules = await this.prisma.logParseRule.findMany({
+      where: { enabled: true },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    this.rules = [];
+    for (const rule of rules) {
+      try {
+        this.rules.push({ name: rule.name, matcher: compileLogRule(rule), rule });
+      } catch (error) {
+        logger.warn(`[LogParser] Skipping rule "${rule.name}" with an invalid pattern:`, error);
+      }
+    }
+    this.scopes.clear();
+  }
+
+  private getRulesFor(scope: LogParseScope): CompiledRule[] {
+    const key = `${scope.serverId || ''}|${scope.adapterType || ''}`;
+    let rules = this.scopes.get(key);
+    if (!rules) {
+      const serverRules = this.rules.filter(({ rule }) => scope.serverId && rule!.serverId === scope.serverId);
+      const adapterRules = this.rules.filter(
+        ({ rule }) => !rule!.serverId && scope.adapterType && rule!.adapterType === scope.adapterType
+      );
+      const globalRules = this.rules.filter(({ rule }) => !rule!.serverId && !rule!.adapterType);
+      rules = [...serverRules, ...adapterRules, ...globalRules, ...BUILTIN_RULES];
+      this.scopes.set(key, rules);
+    }
+    return rules;
+  }
+}
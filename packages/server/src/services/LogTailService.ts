@@ -4,6 +4,7 @@ import * as readline from 'readline';
 import chokidar, { FSWatcher } from 'chokidar';
 import { LogEntry } from '../types';
 import logger from '../utils/logger';
+import { LogLineParser, createDefaultLogParser } from './LogParserService';
 
 interface TailState {
   serverId: string;
@@ -11,6 +12,7 @@ interface TailState {
   watcher: FSWatcher;
   filePosition: number;
   callback: (log: LogEntry) => void;
+  parseLine: LogLineParser;
   isActive: boolean;
 }
 
@@ -24,12 +26,14 @@ export class LogTailService {
   /**
    * Start tailing a log file
    * @param readRecentLines Number of recent lines to read from existing log content (0 to skip)
+   * @param parseLine Parser for the server's log format (built-in formats by default)
    */
   async startTailing(
     serverId: string,
     logPath: string,
     onLog: (log: LogEntry) => void,
-    readRecentLines: number = 100
+    readRecentLines: number = 100,
+    parseLine: LogLineParser = createDefaultLogParser()
   ): Promise<void> {
     // Stop existing tail if any
     await this.stopTailing(serverId);
@@ -50,7 +54,7 @@ export class LogTailService {
         logger.info(`[LogTail] Reading last ${readRecentLines} lines from ${logPath}`);
         const recentLines = this.readLastNLines(logPath, readRecentLines);
         for (const line of recentLines) {
-          const logEntry = this.parseLogLine(line);
+          const logEntry = parseLine(line);
           if (logEntry) {
             onLog(logEntry);
           }
@@ -67,6 +71,7 @@ export class LogTailService {
       watcher: null as any,
       filePosition,
       callback: onLog,
+      parseLine,
       isActive: true,
     };
 
@@ -180,7 +185,7 @@ export class LogTailService {
       for await (const line of rl) {
         if (!state.isActive) break;
 
-        const logEntry = this.parseLogLine(line);
+        const logEntry = state.parseLine(line);
         if (logEntry) {
           state.callback(logEntry);
         }
@@ -204,91 +209,6 @@ export class LogTailService {
     }
   }
 
-  /**
-   * Parse a log line into a structured LogEntry
-   * Handles common Java server log formats
-   */
-  private parseLogLine(line: string): LogEntry | null {
-    if (!line.trim()) return null;
-
-    // Common log formats:
-    // [HH:MM:SS] [Thread/LEVEL]: Message
-    // [HH:MM:SS INFO]: Message
-    // YYYY-MM-DD HH:MM:SS [LEVEL] Message
-
-    const timestamp = new Date();
-    let level: 'info' | 'warn' | 'error' | 'debug' = 'info';
-    let message = line;
-    let source: string | undefined;
-
-    // Try to parse format: [HH:MM:SS] [Source/LEVEL]: Message
-    const minecraftMatch = line.match(/^\[(\d{2}:\d{2}:\d{2})\]\s*\[([^\]]+)\/([A-Z]+)\]:\s*(.+)$/);
-    if (minecraftMatch) {
-      const [, time, src, lvl, msg] = minecraftMatch;
-      source = src;
-      message = msg;
-      level = this.normalizeLevel(lvl);
-
-      // Set time on today's date
-      const [hours, minutes, seconds] = time.split(':').map(Number);
-      timestamp.setHours(hours, minutes, seconds, 0);
-    } else {
-      // Try simpler format: [HH:MM:SS LEVEL]: Message
-      const simpleMatch = line.match(/^\[(\d{2}:\d{2}:\d{2})\s+([A-Z]+)\]:\s*(.+)$/);
-      if (simpleMatch) {
-        const [, time, lvl, msg] = simpleMatch;
-        message = msg;
-        level = this.normalizeLevel(lvl);
-
-        const [hours, minutes, seconds] = time.split(':').map(Number);
-        timestamp.setHours(hours, minutes, seconds, 0);
-      }
-    }
-
-    // Detect level from message content if not parsed
-    if (level === 'info') {
-      const lowerLine = line.toLowerCase();
-      if (lowerLine.includes('error') || lowerLine.includes('exception') || lowerLine.includes('failed')) {
-        level = 'error';
-      } else if (lowerLine.includes('warn')) {
-        level = 'warn';
-      } else if (lowerLine.includes('debug')) {
-        level = 'debug';
-      }
-    }
-
-    return {
-      timestamp,
-      level,
-      message,
-      source,
-    };
-  }
-
-  /**
-   * Normalize log level string to our enum
-   */
-  private normalizeLevel(level: string): 'info' | 'warn' | 'error' | 'debug' {
-    const upper = level.toUpperCase();
-    switch (upper) {
-      case 'ERROR':
-      case 'SEVERE':
-      case 'FATAL':
-        return 'error';
-      case 'WARN':
-      case 'WARNING':
-        return 'warn';
-      case 'DEBUG':
-      case 'TRACE':
-      case 'FINE':
-      case 'FINER':
-      case 'FINEST':
-        return 'debug';
-      default:
-        return 'info';
-    }
-  }
-
   /**
    * Stop all tailing (for cleanup)
    */
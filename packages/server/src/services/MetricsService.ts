@@ -27,10 +27,61 @@ export interface MetricsQuery {
   interval?: '5m' | '15m' | '1h' | '6h' | '24h';
 }
 
+export interface AnalyticsQuery {
+  /** Limit to one server - omit for fleet-wide analytics */
+  serverId?: string;
+  startTime: Date;
+  endTime: Date;
+  /** Viewer's offset from UTC in minutes, as returned by Date.getTimezoneOffset() */
+  timezoneOffset?: number;
+}
+
+export interface ServerAnalytics {
+  serverId: string;
+  name: string;
+  avgCpu: number;
+  avgMemory: number;
+  peakPlayers: number;
+  uptimePercent: number | null;
+}
+
+export interface AnalyticsReport {
+  range: { start: string; end: string; bucketMinutes: number };
+  trends: {
+    timestamps: string[];
+    cpu: number[];
+    memory: number[];
+    players: number[];
+    peakPlayers: number[];
+  };
+  peakByHour: number[]; // 24 entries, local hour of day
+  peakByWeekday: number[]; // 7 entries, 0 = Sunday
+  peakByWeekdayHour: number[][]; // [weekday][hour]
+  summary: {
+    avgCpu: number;
+    avgMemory: number;
+    avgPlayers: number;
+    peakPlayers: number;
+    peakAt: string | null;
+    uptimePercent: number | null;
+    sampleCount: number;
+  };
+  servers: ServerAnalytics[];
+}
+
+/** How long raw metric samples are kept, and so how far back analytics can look */
+export const METRICS_RETENTION_DAYS = 30;
+
+// Trend bucket sizes in minutes, smallest first
+const ANALYTICS_BUCKETS = [5, 15, 60, 360, 1440];
+const MAX_TREND_POINTS = 96;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length * 100) / 100 : 0;
+
 export class MetricsService {
   private collectionInterval: NodeJS.Timeout | null = null;
   private readonly COLLECTION_INTERVAL_MS = 60000; // 1 minute
-  private readonly RETENTION_DAYS = 30; // Keep metrics for 30 days
 
   // Store previous CPU measurements per server for delta calculation
   private previousCpuTimes: Map<string, { idle: number; total: number }> = new Map();
@@ -40,6 +91,8 @@ export class MetricsService {
   private previousHostCpuTimes: { idle: number; total: number } | null = null;
   private lastHostCpuUsage: number = 0;
 
+  private sampleListeners: Array<(serverId: string, metrics: MetricData) => void | Promise<void>> = [];
+
   /**
    * Start collecting metrics for all running servers
    */
@@ -192,6 +245,29 @@ export class MetricsService {
     });
 
     logger.debug(`Collected metrics for server ${serverId}`);
+
+    for (const listener of this.sampleListeners) {
+      try {
+        await listener(serverId, metrics);
+      } catch (error) {
+        logger.error(`Error in metrics sample listener for ${serverId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to each server metrics sample as it is collected
+   */
+  onSample(callback: (serverId: string, metrics: MetricData) => void | Promise<void>): () => void {
+    this.sampleListeners.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.sampleListeners.indexOf(callback);
+      if (index > -1) {
+        this.sampleListeners.splice(index, 1);
+      }
+    };
   }
 
   /**
@@ -539,12 +615,149 @@ export class MetricsService {
     return { timestamps, cpu, memory, players };
   }
 
+  /**
+   * Build trend, peak-time and uptime analytics for one server or the whole fleet
+   *
+   * Player counts are summed across servers per collection minute, so fleet peaks
+   * are true concurrent totals. Uptime is the share of minutes the manager was
+   * collecting host metrics in which the server was running.
+   */
+  async getAnalytics(query: AnalyticsQuery): Promise<AnalyticsReport> {
+    const { serverId, startTime, endTime } = query;
+    const offsetMs = (query.timezoneOffset || 0) * 60000;
+    const rangeMs = endTime.getTime() - startTime.getTime();
+
+    const bucketMinutes = ANALYTICS_BUCKETS.find(minutes => rangeMs / (minutes * 60000) <= MAX_TREND_POINTS)
+      || ANALYTICS_BUCKETS[ANALYTICS_BUCKETS.length - 1];
+    const bucketMs = bucketMinutes * 60000;
+    const bucketCount = Math.max(1, Math.ceil(rangeMs / bucketMs));
+
+    const [servers, serverMetrics, hostMetrics] = await Promise.all([
+      prisma.server.findMany({
+        where: serverId ? { id: serverId } : {},
+        select: { id: true, name: true, createdAt: true },
+      }),
+      prisma.serverMetric.findMany({
+        where: {
+          ...(serverId && { serverId }),
+          timestamp: { gte: startTime, lte: endTime },
+        },
+        select: { serverId: true, timestamp: true, cpuUsage: true, memoryUsage: true, playerCount: true },
+        orderBy: { timestamp: 'asc' },
+      }),
+      prisma.hostMetric.findMany({
+        where: { timestamp: { gte: startTime, lte: endTime } },
+        select: { timestamp: true },
+      }),
+    ]);
+
+    // Concurrent players per collection minute
+    const playersByMinute = new Map<number, number>();
+    const cpuBuckets: number[][] = Array.from({ length: bucketCount }, () => []);
+    const memoryBuckets: number[][] = Array.from({ length: bucketCount }, () => []);
+    const perServer = new Map<string, { cpu: number[]; memory: number[]; peakPlayers: number; samples: number }>();
+
+    for (const metric of serverMetrics) {
+      const time = metric.timestamp.getTime();
+      const minute = Math.floor(time / 60000) * 60000;
+      playersByMinute.set(minute, (playersByMinute.get(minute) || 0) + metric.playerCount);
+
+      const bucketIndex = Math.min(bucketCount - 1, Math.floor((time - startTime.getTime()) / bucketMs));
+      cpuBuckets[bucketIndex].push(metric.cpuUsage);
+      memoryBuckets[bucketIndex].push(metric.memoryUsage);
+
+      const stats = perServer.get(metric.serverId) || { cpu: [], memory: [], peakPlayers: 0, samples: 0 };
+      stats.cpu.push(metric.cpuUsage);
+      stats.memory.push(metric.memoryUsage);
+      stats.peakPlayers = Math.max(stats.peakPlayers, metric.playerCount);
+      stats.samples++;
+      perServer.set(metric.serverId, stats);
+    }
+
+    const playerBuckets: number[][] = Array.from({ length: bucketCount }, () => []);
+    const peakByHour = new Array(24).fill(0);
+    const peakByWeekday = new Array(7).fill(0);
+    const peakByWeekdayHour = Array.from({ length: 7 }, () => new Array(24).fill(0));
+    let peakPlayers = 0;
+    let peakAt: number | null = null;
+
+    for (const [minute, players] of playersByMinute) {
+      const bucketIndex = Math.min(bucketCount - 1, Math.floor((minute - startTime.getTime()) / bucketMs));
+      if (bucketIndex >= 0) {
+        playerBuckets[bucketIndex].push(players);
+      }
+
+      // Shift into the viewer's local time before reading hour and weekday
+      const local = new Date(minute - offsetMs);
+      const hour = local.getUTCHours();
+      const weekday = local.getUTCDay();
+      peakByHour[hour] = Math.max(peakByHour[hour], players);
+      peakByWeekday[weekday] = Math.max(peakByWeekday[weekday], players);
+      peakByWeekdayHour[weekday][hour] = Math.max(peakByWeekdayHour[weekday][hour], players);
+
+      if (players > peakPlayers) {
+        peakPlayers = players;
+        peakAt = minute;
+      }
+    }
+
+    const timestamps: string[] = [];
+    for (let i = 0; i < bucketCount; i++) {
+      timestamps.push(new Date(startTime.getTime() + i * bucketMs).toISOString());
+    }
+
+    const serverAnalytics: ServerAnalytics[] = servers.map(server => {
+      const stats = perServer.get(server.id);
+      // Only count observed minutes after the server existed
+      const observedMinutes = hostMetrics.filter(metric => metric.timestamp >= server.createdAt).length;
+
+      return {
+        serverId: server.id,
+        name: server.name,
+        avgCpu: average(stats?.cpu || []),
+        avgMemory: average(stats?.memory || []),
+        peakPlayers: stats?.peakPlayers || 0,
+        uptimePercent: observedMinutes > 0
+          ? Math.min(100, Math.round((stats?.samples || 0) / observedMinutes * 10000) / 100)
+          : null,
+      };
+    });
+
+    const uptimes = serverAnalytics
+      .map(server => server.uptimePercent)
+      .filter((uptime): uptime is number => uptime !== null);
+
+    return {
+      range: { start: startTime.toISOString(), end: endTime.toISOString(), bucketMinutes },
+      trends: {
+        timestamps,
+        cpu: cpuBuckets.map(average),
+        memory: memoryBuckets.map(average),
+        players: playerBuckets.map(bucket => Math.round(average(bucket))),
+        peakPlayers: playerBuckets.map(bucket => (bucket.length > 0 ? Math.max(...bucket) : 0)),
+      },
+      peakByHour,
+      peakByWeekday,
+      peakByWeekdayHour,
+      summary: {
+        avgCpu: average(serverMetrics.map(metric => metric.cpuUsage)),
+        avgMemory: average(serverMetrics.map(metric => metric.memoryUsage)),
+        avgPlayers: average(Array.from(playersByMinute.values())),
+        peakPlayers,
+        peakAt: peakAt !== null ? new Date(peakAt).toISOString() : null,
+        uptimePercent: uptimes.length > 0 ? average(uptimes) : null,
+        sampleCount: serverMetrics.length,
+      },
+      servers: serverAnalytics,
+    };
+  }
+
   /**
    * Clean up old metrics (older than retention period)
    */
   private async cleanupOldMetrics(): Promise<void> {
     const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - this.RETENTION_DAYS);
+    cutoffDate.setDate(cutoffDate.getDate() - METRICS_RETENTION_DAYS);
 
     const serverResult = await prisma.serverMetric.deleteMany({
       where: {
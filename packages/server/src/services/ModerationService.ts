@@ -0,0 +1,129 @@
+import { PrismaClient, ModerationCase } from '@prisma/client';
+import logger from '../utils/logger';
+
+export type ModerationCaseType = 'kick' | 'ban' | 'unban' | 'warning' | 'note';
+export type EscalationStep = 'temp_ban' | 'permanent_ban';
+
+export const MODERATION_CASE_TYPES: ModerationCaseType[] = ['kick', 'ban', 'unban', 'warning', 'note'];
+
+/**
+ * Who took a moderation action. Omit id for system actions (e.g. ban expiry).
+ */
+export interface ModerationActor {
+  id?: string;
+  username: string;
+}
+
+export interface RecordCaseInput {
+  uuid: string;
+  username: string;
+  type: ModerationCaseType;
+  reason?: string;
+  duration?: number; // seconds
+  serverId?: string;
+  networkId?: string;
+  actor: ModerationActor;
+}
+
+export interface ModerationCaseQuery {
+  serverId?: string;
+  type?: ModerationCaseType;
+  limit?: number;
+}
+
+export interface ModerationSummary {
+  windowDays: number;
+  warnings: number; // since the last ban, within the window
+  kicks: number;
+  bans: number;
+  suggestion: EscalationStep | null;
+}
+
+/**
+ * When to suggest the next step up. Counts only look back windowDays.
+ */
+export const ESCALATION_POLICY = {
+  windowDays: 90,
+  warningsBeforeTempBan: 3,
+  bansBeforePermanentBan: 2,
+};
+
+/**
+ * Moderation Service
+ * Case log of every kick, ban, unban, warning and staff note per player UUID.
+ */
+export class ModerationService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Add a case to a player's log
+   */
+  async recordCase(input: RecordCaseInput): Promise<ModerationCase> {
+    const record = await this.prisma.moderationCase.create({
+      data: {
+        uuid: input.uuid,
+        username: input.username,
+        type: input.type,
+        reason: input.reason || null,
+        duration: input.duration || null,
+        serverId: input.serverId || null,
+        networkId: input.networkId || null,
+        actorId: input.actor.id || null,
+        actorName: input.actor.username,
+      },
+    });
+
+    logger.info(`[Moderation] ${input.actor.username} recorded ${input.type} for ${input.username}`);
+    return record;
+  }
+
+  /**
+   * Get a player's cases, newest first
+   */
+  async getCases(uuid: string, query: ModerationCaseQuery = {}): Promise<ModerationCase[]> {
+    return this.prisma.moderationCase.findMany({
+      where: {
+        uuid,
+        ...(query.serverId ? { serverId: query.serverId } : {}),
+        ...(query.type ? { type: query.type } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit || 100,
+    });
+  }
+
+  /**
+   * Count recent cases and suggest the next escalation step, if any
+   */
+  async getSummary(uuid: string): Promise<ModerationSummary> {
+    const since = new Date(Date.now() - ESCALATION_POLICY.windowDays * 24 * 60 * 60 * 1000);
+    const cases = await this.prisma.moderationCase.findMany({
+      where: { uuid, createdAt: { gte: since }, type: { in: ['kick', 'ban', 'warning'] } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const bans = cases.filter(c => c.type === 'ban');
+    const lastBan = bans[bans.length - 1];
+    // A ban answers the warnings before it
+    const warnings = cases.filter(c => c.type === 'warning' && (!lastBan || c.createdAt > lastBan.createdAt)).length;
+
+    let suggestion: EscalationStep | null = null;
+    if (bans.length >= ESCALATION_POLICY.bansBeforePermanentBan) {
+      suggestion = 'permanent_ban';
+    } else if (warnings >= ESCALATION_POLICY.warningsBeforeTempBan) {
+      suggestion = 'temp_ban';
+    }
+
+    return {
+      windowDays: ESCALATION_POLICY.windowDays,
+      warnings,
+      kicks: cases.filter(c => c.type === 'kick').length,
+      bans: bans.length,
+      suggestion,
+    };
+  }
+}
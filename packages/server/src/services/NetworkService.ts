@@ -1,6 +1,8 @@
-import { PrismaClient, ServerNetwork as PrismaNetwork } from '@prisma/client';
+import { PrismaClient, ServerNetwork as PrismaNetwork, NetworkBan } from '@prisma/client';
 import { ServerService } from './ServerService';
 import { BackupService } from './BackupService';
+import { PlayerService } from './PlayerService';
+import { ModerationService, ModerationActor, RecordCaseInput } from './ModerationService';
 import {
   NetworkType,
   NetworkStatusType,
@@ -34,19 +36,33 @@ interface UpdateNetworkDto {
   bulkActionsEnabled?: boolean;
 }
 
+interface CreateNetworkBanDto {
+  uuid: string;
+  username?: string;
+  reason?: string;
+  duration?: number; // seconds, omit for a permanent ban
+  bannedBy?: string;
+}
+
 export class NetworkService {
   private prisma: PrismaClient;
   private serverService: ServerService;
   private backupService: BackupService;
+  private playerService: PlayerService;
+  private moderationService?: ModerationService;
 
   constructor(
     prisma: PrismaClient,
     serverService: ServerService,
-    backupService: BackupService
+    backupService: BackupService,
+    playerService: PlayerService,
+    moderationService?: ModerationService
   ) {
     this.prisma = prisma;
     this.serverService = serverService;
     this.backupService = backupService;
+    this.playerService = playerService;
+    this.moderationService = moderationService;
   }
 
   // ==========================================
@@ -206,6 +222,12 @@ export class NetworkService {
     });
 
     logger.info(`Added server ${server.name} to network ${networkId} with role ${role}`);
+
+    // Network bans cover servers added later too
+    const bans = await this.getNetworkBans(networkId);
+    for (const ban of bans) {
+      await this.applyBanSafe(ban, serverId, server.name);
+    }
   }
 
   async removeServer(networkId: string, serverId: string): Promise<void> {
@@ -372,7 +394,8 @@ export class NetworkService {
 
   private async startServerSafe(serverId: string, serverName: string): Promise<ServerOperationResult> {
     try {
-      await this.serverService.startServer(serverId);
+      // Wait for readiness so start order means something for proxy networks
+      await this.serverService.startServer(serverId, { waitForReady: true });
       return { serverId, serverName, success: true };
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -561,6 +584,192 @@ export class NetworkService {
     return players;
   }
 
+  // ==========================================
+  // Network Bans
+  // ==========================================
+
+  async getNetworkBans(networkId: string): Promise<NetworkBan[]> {
+    return this.prisma.networkBan.findMany({
+      where: {
+        networkId,
+        OR: [{ bannedUntil: null }, { bannedUntil: { gt: new Date() } }],
+      },
+      orderBy: { bannedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Ban a player on the network and every member server
+   * @param actor Who issued the ban; logged once as a network case rather than per server
+   */
+  async banPlayer(
+    networkId: string,
+    data: CreateNetworkBanDto,
+    actor?: ModerationActor
+  ): Promise<{ ban: NetworkBan; results: ServerOperationResult[] }> {
+    const network = await this.getNetwork(networkId);
+    if (!network) {
+      throw new Error(`Network ${networkId} not found`);
+    }
+
+    // Players who never joined any server still need a name for their per-server records
+    const username = data.username || (await this.prisma.player.findFirst({
+      where: { uuid: data.uuid },
+      orderBy: { lastSeen: 'desc' },
+    }))?.username;
+    if (!username) {
+      throw new Error('Username is required for a player who has not joined any server');
+    }
+
+    const fields = {
+      username,
+      reason: data.reason || null,
+      bannedBy: data.bannedBy || actor?.username || null,
+      bannedAt: new Date(),
+      bannedUntil: data.duration ? new Date(Date.now() + data.duration * 1000) : null,
+    };
+    const ban = await this.prisma.networkBan.upsert({
+      where: { networkId_uuid: { networkId, uuid: data.uuid } },
+      create: { networkId, uuid: data.uuid, ...fields },
+      update: fields,
+    });
+
+    const results: ServerOperationResult[] = [];
+    for (const member of network.members) {
+      results.push(await this.applyBanSafe(ban, member.serverId, member.server.name));
+    }
+
+    await this.recordCase(actor, {
+      uuid: data.uuid,
+      username,
+      type: 'ban',
+      reason: data.reason,
+      duration: data.duration,
+      networkId,
+    });
+
+    logger.info(`Banned ${username} on network ${network.name}`);
+    return { ban, results };
+  }
+
+  /**
+   * Lift a network ban from the network and every member server
+   */
+  async unbanPlayer(networkId: string, uuid: string, actor?: ModerationActor): Promise<BulkOperationResult> {
+    const network = await this.getNetwork(networkId);
+    if (!network) {
+      throw new Error(`Network ${networkId} not found`);
+    }
+
+    const ban = await this.prisma.networkBan.findUnique({
+      where: { networkId_uuid: { networkId, uuid } },
+    });
+    if (!ban) {
+      throw new Error('Player is not banned on this network');
+    }
+
+    await this.prisma.networkBan.delete({ where: { id: ban.id } });
+
+    const results: ServerOperationResult[] = [];
+    for (const member of network.members) {
+      results.push(await this.liftBanSafe(ban, member.serverId, member.server.name));
+    }
+
+    await this.recordCase(actor, { uuid, username: ban.username, type: 'unban', networkId });
+
+    logger.info(`Unbanned ${ban.username} on network ${network.name}`);
+    return { networkId, results, success: results.every(r => r.success) };
+  }
+
+  /**
+   * Re-apply network bans to any member server that lost them (e.g. unbanned locally)
+   */
+  async enforceNetworkBans(): Promise<void> {
+    const networks = await this.getAllNetworks();
+    for (const network of networks) {
+      const bans = await this.getNetworkBans(network.id);
+      for (const ban of bans) {
+        for (const member of network.members) {
+          await this.applyBanSafe(ban, member.serverId, member.server.name);
+        }
+      }
+    }
+  }
+
+  private async recordCase(
+    actor: ModerationActor | undefined,
+    input: Omit<RecordCaseInput, 'actor'>
+  ): Promise<void> {
+    if (!actor || !this.moderationService) return;
+    try {
+      await this.moderationService.recordCase({ ...input, actor });
+    } catch (error) {
+      logger.error(`Failed to record network ${input.type} case for ${input.uuid}:`, error);
+    }
+  }
+
+  private async applyBanSafe(ban: NetworkBan, serverId: string, serverName: string): Promise<ServerOperationResult> {
+    try {
+      const player = await this.prisma.player.findUnique({
+        where: { serverId_uuid: { serverId, uuid: ban.uuid } },
+      });
+      // Keep a local ban that lasts at least as long; replace a shorter one so it can't
+      // expire (and be lifted by BanExpiryService) while the network ban still holds
+      if (player?.isBanned && (!player.bannedUntil || (ban.bannedUntil && player.bannedUntil >= ban.bannedUntil))) {
+        return { serverId, serverName, success: true };
+      }
+      if (!player) {
+        await this.prisma.player.create({
+          data: { serverId, uuid: ban.uuid, username: ban.username },
+        });
+      }
+
+      const remaining = ban.bannedUntil
+        ? Math.max(1, Math.ceil((ban.bannedUntil.getTime() - Date.now()) / 1000))
+        : undefined;
+      const adapter = await this.serverService.getAdapterForServer(serverId);
+      await this.playerService.banPlayer(adapter, serverId, ban.uuid, ban.reason || undefined, remaining);
+
+      // Mirror the network ban exactly, so lifting it can tell this ban from a local one
+      await this.prisma.player.update({
+        where: { serverId_uuid: { serverId, uuid: ban.uuid } },
+        data: { banReason: ban.reason, bannedUntil: ban.bannedUntil },
+      });
+      return { serverId, serverName, success: true };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to apply network ban on ${ban.uuid} to server ${serverName}:`, error);
+      return { serverId, serverName, success: false, error: message };
+    }
+  }
+
+  private async liftBanSafe(ban: NetworkBan, serverId: string, serverName: string): Promise<ServerOperationResult> {
+    try {
+      const player = await this.prisma.player.findUnique({
+        where: { serverId_uuid: { serverId, uuid: ban.uuid } },
+      });
+      if (!player?.isBanned) {
+        return { serverId, serverName, success: true };
+      }
+
+      // A ban set by a server moderator stays in place
+      const fromNetworkBan = (player.banReason ?? null) === (ban.reason ?? null)
+        && (player.bannedUntil?.getTime() ?? null) === (ban.bannedUntil?.getTime() ?? null);
+      if (!fromNetworkBan) {
+        logger.info(`Keeping local ban on ${ban.uuid} on server ${serverName}, it was not set by the network ban`);
+        return { serverId, serverName, success: true, skipped: 'Player has a local ban that was not set by the network ban' };
+      }
+
+      const adapter = await this.serverService.getAdapterForServer(serverId);
+      await this.playerService.unbanPlayer(adapter, serverId, ban.uuid);
+      return { serverId, serverName, success: true };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to lift network ban on ${ban.uuid} from server ${serverName}:`, error);
+      return { serverId, serverName, success: false, error: message };
+    }
+  }
+
   // ==========================================
   // Network Backups
   // ==========================================
@@ -0,0 +1,669 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import chokidar, { FSWatcher } from 'chokidar';
+import { PrismaClient, Player as PrismaPlayer, PlayerSyncConflict } from '@prisma/client';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { ServerStatus } from '../types';
+import logger from '../utils/logger';
+import { PlayerService } from './PlayerService';
+
+export type SyncedFile = 'bans' | 'whitelist' | 'permissions';
+export type SyncedField = 'banned' | 'whitelisted' | 'operator';
+export type ConflictResolution = 'file' | 'manager';
+
+/**
+ * Flag values keyed by player UUID. A missing UUID means the flag is not set.
+ * Bans hold "permanent" or the ISO expiry; whitelist and operator entries hold "true".
+ */
+export type FlagEntries = Record<string, string>;
+
+export interface ParsedPlayerFile {
+  entries: FlagEntries;
+  /** Extra per-player detail found in the file (ban reason, player name) */
+  reasons: Record<string, string>;
+  names: Record<string, string>;
+}
+
+export interface ReconcileResult {
+  /** Agreed state to store as the next base */
+  merged: FlagEntries;
+  /** UUIDs whose manager value should be written to the file */
+  toFile: string[];
+  /** UUIDs whose file value should be applied to the manager */
+  toManager: string[];
+  /** UUIDs changed on both sides since the base */
+  conflicts: string[];
+}
+
+export interface SyncConflictQuery {
+  serverId?: string;
+  uuid?: string;
+  includeResolved?: boolean;
+}
+
+export const SYNCED_FILES: Record<SyncedFile, { fileName: string; field: SyncedField }> = {
+  bans: { fileName: 'bans.json', field: 'banned' },
+  whitelist: { fileName: 'whitelist.json', field: 'whitelisted' },
+  permissions: { fileName: 'permissions.json', field: 'operator' },
+};
+
+const PERMANENT = 'permanent';
+const OPERATOR_GROUP = 'op';
+// Server and manager compute temp ban expiry separately, so allow some drift
+const EXPIRY_TOLERANCE_MS = 60 * 1000;
+const SYNC_DEBOUNCE_MS = 1000;
+
+function entryUuid(entry: any): string | undefined {
+  const uuid = typeof entry === 'string' ? entry : entry?.target ?? entry?.uuid ?? entry?.id;
+  return typeof uuid === 'string' && uuid.trim() ? uuid.trim().toLowerCase() : undefined;
+}
+
+function parseExpiry(entry: any): string {
+  const raw = entry?.expiresOn ?? entry?.expires ?? entry?.until;
+  if (entry?.type === 'infinite' || raw === undefined || raw === null || raw === 'forever') {
+    return PERMANENT;
+  }
+
+  // Epoch values may be in seconds or milliseconds
+  const date = typeof raw === 'number' ? new Date(raw < 1e12 ? raw * 1000 : raw) : new Date(raw);
+  return isNaN(date.getTime()) ? PERMANENT : date.toISOString();
+}
+
+function listOf(raw: any, key: string): any[] {
+  if (Array.isArray(raw)) return raw;
+  if (raw && Array.isArray(raw[key])) return raw[key];
+  return [];
+}
+
+type PermissionUsers = Record<string, { groups?: unknown } | null>;
+
+function permissionUsers(raw: unknown): PermissionUsers {
+  if (!raw || typeof raw !== 'object') return {};
+  const users = (raw as { users?: unknown }).users;
+  return users && typeof users === 'object' && !Array.isArray(users) ? users as PermissionUsers : {};
+}
+
+function userGroups(user: PermissionUsers[string]): unknown[] {
+  return Array.isArray(user?.groups) ? user.groups : [];
+}
+
+function isOperatorGroup(group: unknown): boolean {
+  return typeof group === 'string' && group.toLowerCase() === OPERATOR_GROUP;
+}
+
+/**
+ * Parse bans.json - an array of { target|uuid, reason?, expiresOn? } entries
+ */
+export function parseBans(raw: unknown): ParsedPlayerFile {
+  const parsed: ParsedPlayerFile = { entries: {}, reasons: {}, names: {} };
+  for (const entry of listOf(raw, 'bans')) {
+    const uuid = entryUuid(entry);
+    if (!uuid) continue;
+    parsed.entries[uuid] = parseExpiry(entry);
+    if (typeof entry.reason === 'string' && entry.reason) parsed.reasons[uuid] = entry.reason;
+    if (typeof entry.name === 'string' && entry.name) parsed.names[uuid] = entry.name;
+  }
+  return parsed;
+}
+
+/**
+ * Parse whitelist.json - { enabled, list: [uuid] } or a bare array
+ */
+export function parseWhitelist(raw: unknown): ParsedPlayerFile {
+  const parsed: ParsedPlayerFile = { entries: {}, reasons: {}, names: {} };
+  for (const entry of listOf(raw, 'list')) {
+    const uuid = entryUuid(entry);
+    if (!uuid) continue;
+    parsed.entries[uuid] = 'true';
+    if (typeof entry?.name === 'string' && entry.name) parsed.names[uuid] = entry.name;
+  }
+  return parsed;
+}
+
+/**
+ * Parse permissions.json - { users: { [uuid]: { groups: [...] } } }, operators are members of the OP group
+ */
+export function parsePermissions(raw: unknown): ParsedPlayerFile {
+  const parsed: ParsedPlayerFile = { entries: {}, reasons: {}, names: {} };
+  for (const [key, user] of Object.entries(permissionUsers(raw))) {
+    if (userGroups(user).some(isOperatorGroup)) {
+      parsed.entries[key.toLowerCase()] = 'true';
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Rewrite bans.json with the desired entries, keeping unknown fields of existing entries
+ */
+export function writeBans(raw: unknown, entries: FlagEntries, reasons: Record<string, string>): unknown {
+  const kept = listOf(raw, 'bans').filter(entry => {
+    const uuid = entryUuid(entry);
+    return uuid && entries[uuid] !== undefined;
+  });
+  const present = new Set(kept.map(entryUuid));
+
+  const bans = kept.map(entry => {
+    const value = entries[entryUuid(entry)!];
+    return sameValue('banned', parseExpiry(entry), value) ? entry : { ...entry, ...banFields(value) };
+  });
+  for (const [uuid, value] of Object.entries(entries)) {
+    if (present.has(uuid)) continue;
+    bans.push({
+      target: uuid,
+      timestamp: Date.now(),
+      ...(reasons[uuid] ? { reason: reasons[uuid] } : {}),
+      ...banFields(value),
+    });
+  }
+
+  return Array.isArray(raw) || !raw ? bans : { ...(raw as object), bans };
+}
+
+function banFields(value: string): Record<string, unknown> {
+  return value === PERMANENT
+    ? { type: 'infinite', expiresOn: undefined }
+    : { type: 'timed', expiresOn: new Date(value).getTime() };
+}
+
+/**
+ * Rewrite whitelist.json with the desired entries, keeping its shape and the enabled flag
+ */
+export function writeWhitelist(raw: unknown, entries: FlagEntries): unknown {
+  const existing = listOf(raw, 'list');
+  const kept = existing.filter(entry => {
+    const uuid = entryUuid(entry);
+    return uuid && entries[uuid] !== undefined;
+  });
+  const present = new Set(kept.map(entryUuid));
+  const list = [...kept, ...Object.keys(entries).filter(uuid => !present.has(uuid))];
+
+  return Array.isArray(raw) ? list : { ...(raw as object || { enabled: false }), list };
+}
+
+/**
+ * Add or remove the OP group in permissions.json, leaving every other group untouched
+ */
+export function writePermissions(raw: unknown, entries: FlagEntries): unknown {
+  const result: Record<string, unknown> = raw && typeof raw === 'object' ? { ...raw } : {};
+  const users: PermissionUsers = { ...permissionUsers(raw) };
+
+  for (const [key, user] of Object.entries(users)) {
+    const groups = userGroups(user);
+    const isOperator = groups.some(isOperatorGroup);
+    const wanted = entries[key.toLowerCase()] !== undefined;
+    if (isOperator && !wanted) {
+      users[key] = { ...user, groups: groups.filter(g => !isOperatorGroup(g)) };
+    } else if (!isOperator && wanted) {
+      users[key] = { ...user, groups: [...groups, 'OP'] };
+    }
+  }
+
+  const known = new Set(Object.keys(users).map(key => key.toLowerCase()));
+  for (const uuid of Object.keys(entries)) {
+    if (!known.has(uuid)) {
+      users[uuid] = { groups: ['OP'] };
+    }
+  }
+
+  result.users = users;
+  return result;
+}
+
+/**
+ * Compare two flag values, allowing temp ban expiries to drift slightly
+ */
+export function sameValue(field: SyncedField, a: string | undefined, b: string | undefined): boolean {
+  if (a === b) return true;
+  if (field !== 'banned' || !a || !b || a === PERMANENT || b === PERMANENT) return false;
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) <= EXPIRY_TOLERANCE_MS;
+}
+
+/**
+ * Three-way merge of a file's entries and the manager's against the last agreed base
+ */
+export function reconcileEntries(
+  field: SyncedField,
+  base: FlagEntries,
+  file: FlagEntries,
+  manager: FlagEntries
+): ReconcileResult {
+  const result: ReconcileResult = { merged: {}, toFile: [], toManager: [], conflicts: [] };
+  const uuids = new Set([...Object.keys(base), ...Object.keys(file), ...Object.keys(manager)]);
+
+  for (const uuid of uuids) {
+    const [baseValue, fileValue, managerValue] = [base[uuid], file[uuid], manager[uuid]];
+    let merged: string | undefined;
+
+    if (sameValue(field, fileValue, managerValue)) {
+      merged = fileValue;
+    } else if (sameValue(field, fileValue, baseValue)) {
+      result.toFile.push(uuid);
+      merged = managerValue;
+    } else if (sameValue(field, managerValue, baseValue)) {
+      result.toManager.push(uuid);
+      merged = fileValue;
+    } else {
+      result.conflicts.push(uuid);
+      merged = baseValue;
+    }
+
+    if (merged !== undefined) {
+      result.merged[uuid] = merged;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Player File Sync Service
+ * Keeps Player.isBanned/bannedUntil, isWhitelisted and isOperator in step with the server's
+ * bans.json, whitelist.json and permissions.json. Changes on either side since the last sync are
+ * carried over to the other; flags changed on both sides are recorded as conflicts.
+ * Files are only rewritten while the server is stopped - a running server owns them and
+ * receives manager changes as console commands instead.
+ */
+export class PlayerFileSyncService {
+  private prisma: PrismaClient;
+  private playerService: PlayerService;
+  private watchers: Map<string, FSWatcher> = new Map();
+  private subscriptions: Map<string, () => void> = new Map();
+  private statuses: Map<string, ServerStatus['status']> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private pending: Map<string, Promise<void>> = new Map();
+  private unsubscribeState?: () => void;
+
+  constructor(prisma: PrismaClient, playerService: PlayerService) {
+    this.prisma = prisma;
+    this.playerService = playerService;
+    this.unsubscribeState = this.playerService.onPlayerStateChange((serverId) => this.schedule(serverId));
+  }
+
+  /**
+   * Watch every server's player files and run an initial sync
+   */
+  async initialize(): Promise<void> {
+    const servers = await this.prisma.server.findMany({ select: { id: true } });
+    for (const server of servers) {
+      await this.watch(server.id);
+      await this.sync(server.id);
+    }
+  }
+
+  /**
+   * Follow an adapter's status so files are written back once the server stops
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.subscriptions.get(serverId)?.();
+    this.subscriptions.set(serverId, adapter.onStatusChange((status) => {
+      this.statuses.set(serverId, status);
+      if (status === 'stopped' || status === 'crashed') {
+        this.schedule(serverId);
+      }
+    }));
+    this.watch(serverId).catch((error) => {
+      logger.error(`[PlayerSync] Failed to watch player files for server ${serverId}:`, error);
+    });
+  }
+
+  /**
+   * Reconcile all player files of a server now
+   */
+  async sync(serverId: string): Promise<void> {
+    const previous = this.pending.get(serverId) || Promise.resolve();
+    const next = previous
+      .then(() => this.syncServer(serverId))
+      .catch((error) => {
+        logger.error(`[PlayerSync] Failed to sync player files for server ${serverId}:`, error);
+      });
+    this.pending.set(serverId, next);
+    return next;
+  }
+
+  /**
+   * Get sync conflicts, unresolved only unless includeResolved is set
+   */
+  async getConflicts(query: SyncConflictQuery = {}): Promise<PlayerSyncConflict[]> {
+    return this.prisma.playerSyncConflict.findMany({
+      where: {
+        ...(query.serverId ? { serverId: query.serverId } : {}),
+        ...(query.uuid ? { uuid: query.uuid.toLowerCase() } : {}),
+        ...(query.includeResolved ? {} : { resolvedAt: null }),
+      },
+      orderBy: { detectedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Resolve a conflict by keeping the file's value or the manager's
+   */
+  async resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<PlayerSyncConflict> {
+    const conflict = await this.prisma.playerSyncConflict.findUnique({ where: { id: conflictId } });
+    if (!conflict) {
+      throw new Error('Conflict not found');
+    }
+    if (conflict.resolvedAt) {
+      throw new Error('Conflict is already resolved');
+    }
+
+    // Move the base to the losing side's value so the next sync sees only the winner as changed
+    const file = this.fileForField(conflict.field as SyncedField);
+    const base = await this.getSnapshot(conflict.serverId, file);
+    const losing = resolution === 'file' ? conflict.managerValue : conflict.fileValue;
+    if (losing === null) {
+      delete base[conflict.uuid];
+    } else {
+      base[conflict.uuid] = losing;
+    }
+    await this.saveSnapshot(conflict.serverId, file, base);
+
+    const resolved = await this.prisma.playerSyncConflict.update({
+      where: { id: conflictId },
+      data: { resolvedAt: new Date(), resolution },
+    });
+    logger.info(`[PlayerSync] Conflict ${conflictId} resolved in favour of the ${resolution}`);
+
+    await this.sync(conflict.serverId);
+    return resolved;
+  }
+
+  /**
+   * Stop watching a server's files
+   */
+  unwatch(serverId: string): void {
+    this.watchers.get(serverId)?.close().catch(() => {});
+    this.watchers.delete(serverId);
+    this.subscriptions.get(serverId)?.();
+    this.subscriptions.delete(serverId);
+    const timer = this.timers.get(serverId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(serverId);
+  }
+
+  /**
+   * Cleanup - close watchers and listeners
+   */
+  cleanup(): void {
+    for (const serverId of new Set([...this.watchers.keys(), ...this.subscriptions.keys()])) {
+      this.unwatch(serverId);
+    }
+    this.unsubscribeState?.();
+    this.statuses.clear();
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  private async watch(serverId: string): Promise<void> {
+    if (this.watchers.has(serverId)) return;
+
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) return;
+
+    const dir = this.getServerDir(server);
+    const fileNames = Object.values(SYNCED_FILES).map(f => f.fileName);
+    const watcher = chokidar.watch(dir, {
+      persistent: true,
+      usePolling: true,
+      interval: 1000,
+      depth: 0,
+      ignoreInitial: true,
+    });
+
+    const onChange = (changedPath: string) => {
+      if (fileNames.includes(path.basename(changedPath))) {
+        this.schedule(serverId);
+      }
+    };
+    watcher.on('add', onChange);
+    watcher.on('change', onChange);
+    watcher.on('unlink', onChange);
+    watcher.on('error', (error) => {
+      logger.error(`[PlayerSync] Watcher error for ${serverId}:`, error);
+    });
+
+    this.watchers.set(serverId, watcher);
+  }
+
+  /**
+   * Debounce syncs so a burst of writes is handled once
+   */
+  private schedule(serverId: string): void {
+    const existing = this.timers.get(serverId);
+    if (existing) clearTimeout(existing);
+
+    this.timers.set(serverId, setTimeout(() => {
+      this.timers.delete(serverId);
+      this.sync(serverId);
+    }, SYNC_DEBOUNCE_MS));
+  }
+
+  private async syncServer(serverId: string): Promise<void> {
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) {
+      this.unwatch(serverId);
+      return;
+    }
+
+    const status = this.statuses.get(serverId) || server.status;
+    const canWrite = status === 'stopped' || status === 'crashed' || status === 'crash_loop';
+    const dir = this.getServerDir(server);
+    const players = await this.prisma.player.findMany({ where: { serverId } });
+
+    for (const file of Object.keys(SYNCED_FILES) as SyncedFile[]) {
+      await this.syncFile(serverId, file, path.join(dir, SYNCED_FILES[file].fileName), players, canWrite);
+    }
+  }
+
+  private async syncFile(
+    serverId: string,
+    file: SyncedFile,
+    filePath: string,
+    players: PrismaPlayer[],
+    canWrite: boolean
+  ): Promise<void> {
+    const { field } = SYNCED_FILES[file];
+
+    // Servers create these files themselves - never invent one
+    if (!(await fs.pathExists(filePath))) return;
+
+    let raw: unknown;
+    try {
+      raw = await fs.readJson(filePath);
+    } catch (error) {
+      // Most likely caught mid-write; the next change event retries
+      logger.warn(`[PlayerSync] Could not parse ${filePath}:`, error);
+      return;
+    }
+
+    const parsed = this.parseFile(file, raw);
+    const manager = this.managerEntries(field, players);
+
+    // Console bans are permanent on disk; a temporary ban's expiry lives in the manager (BanExpiryService)
+    if (field === 'banned') {
+      for (const [uuid, value] of Object.entries(parsed.entries)) {
+        if (value === PERMANENT && manager[uuid] !== undefined) {
+          parsed.entries[uuid] = manager[uuid];
+        }
+      }
+    }
+    const base = await this.getSnapshot(serverId, file);
+    const result = reconcileEntries(field, base, parsed.entries, manager);
+
+    for (const uuid of result.toManager) {
+      await this.applyToManager(serverId, uuid, field, parsed.entries[uuid], parsed, players);
+    }
+
+    if (result.toFile.length > 0) {
+      if (canWrite) {
+        const desired = { ...parsed.entries };
+        for (const uuid of result.toFile) {
+          if (manager[uuid] === undefined) delete desired[uuid];
+          else desired[uuid] = manager[uuid];
+        }
+        const reasons = Object.fromEntries(
+          players.filter(p => p.banReason).map(p => [p.uuid.toLowerCase(), p.banReason!])
+        );
+        await fs.writeJson(filePath, this.writeFile(file, raw, desired, reasons), { spaces: 2 });
+        logger.info(`[PlayerSync] Wrote ${result.toFile.length} change(s) to ${filePath}`);
+      } else {
+        // Keep the old base for these so the write is retried once the server stops
+        for (const uuid of result.toFile) {
+          if (base[uuid] === undefined) delete result.merged[uuid];
+          else result.merged[uuid] = base[uuid];
+        }
+      }
+    }
+
+    await this.recordConflicts(serverId, field, result.conflicts, parsed, manager, players);
+    await this.saveSnapshot(serverId, file, result.merged);
+  }
+
+  private async applyToManager(
+    serverId: string,
+    uuid: string,
+    field: SyncedField,
+    value: string | undefined,
+    parsed: ParsedPlayerFile,
+    players: PrismaPlayer[]
+  ): Promise<void> {
+    const player = players.find(p => p.uuid.toLowerCase() === uuid);
+    if (!player && value === undefined) return;
+
+    let data: Partial<PrismaPlayer>;
+    if (field === 'banned') {
+      data = value === undefined
+        ? { isBanned: false, banReason: null, bannedAt: null, bannedUntil: null }
+        : {
+            isBanned: true,
+            banReason: parsed.reasons[uuid] ?? player?.banReason ?? null,
+            bannedAt: player?.bannedAt ?? new Date(),
+            bannedUntil: value === PERMANENT ? null : new Date(value),
+            isOnline: false,
+          };
+    } else if (field === 'whitelisted') {
+      data = { isWhitelisted: value !== undefined };
+    } else {
+      data = { isOperator: value !== undefined };
+    }
+
+    if (player) {
+      await this.prisma.player.update({ where: { id: player.id }, data });
+    } else {
+      // Known to the server but never seen by the manager
+      await this.prisma.player.create({
+        data: { serverId, uuid, username: parsed.names[uuid] || uuid, ...data },
+      });
+    }
+
+    logger.info(`[PlayerSync] Applied ${field}=${value ?? 'unset'} for ${uuid} on server ${serverId} from file`);
+  }
+
+  private async recordConflicts(
+    serverId: string,
+    field: SyncedField,
+    uuids: string[],
+    parsed: ParsedPlayerFile,
+    manager: FlagEntries,
+    players: PrismaPlayer[]
+  ): Promise<void> {
+    const open = await this.prisma.playerSyncConflict.findMany({
+      where: { serverId, field, resolvedAt: null },
+    });
+
+    for (const uuid of uuids) {
+      const data = {
+        fileValue: parsed.entries[uuid] ?? null,
+        managerValue: manager[uuid] ?? null,
+        username: players.find(p => p.uuid.toLowerCase() === uuid)?.username ?? parsed.names[uuid] ?? null,
+      };
+      const existing = open.find(c => c.uuid === uuid);
+      if (existing) {
+        await this.prisma.playerSyncConflict.update({ where: { id: existing.id }, data });
+      } else {
+        await this.prisma.playerSyncConflict.create({ data: { serverId, uuid, field, ...data } });
+        logger.warn(`[PlayerSync] Conflict on ${field} for ${uuid} on server ${serverId}`);
+      }
+    }
+
+    // Both sides came to agree on their own
+    const settled = open.filter(c => !uuids.includes(c.uuid)).map(c => c.id);
+    if (settled.length > 0) {
+      await this.prisma.playerSyncConflict.updateMany({
+        where: { id: { in: settled } },
+        data: { resolvedAt: new Date(), resolution: 'converged' },
+      });
+    }
+  }
+
+  private managerEntries(field: SyncedField, players: PrismaPlayer[]): FlagEntries {
+    const entries: FlagEntries = {};
+    for (const player of players) {
+      const uuid = player.uuid.toLowerCase();
+      if (field === 'banned' && player.isBanned) {
+        entries[uuid] = player.bannedUntil ? player.bannedUntil.toISOString() : PERMANENT;
+      } else if (field === 'whitelisted' && player.isWhitelisted) {
+        entries[uuid] = 'true';
+      } else if (field === 'operator' && player.isOperator) {
+        entries[uuid] = 'true';
+      }
+    }
+    return entries;
+  }
+
+  private parseFile(file: SyncedFile, raw: unknown): ParsedPlayerFile {
+    switch (file) {
+      case 'bans': return parseBans(raw);
+      case 'whitelist': return parseWhitelist(raw);
+      case 'permissions': return parsePermissions(raw);
+    }
+  }
+
+  private writeFile(file: SyncedFile, raw: unknown, entries: FlagEntries, reasons: Record<string, string>): unknown {
+    switch (file) {
+      case 'bans': return writeBans(raw, entries, reasons);
+      case 'whitelist': return writeWhitelist(raw, entries);
+      case 'permissions': return writePermissions(raw, entries);
+    }
+  }
+
+  private fileForField(field: SyncedField): SyncedFile {
+    const file = (Object.keys(SYNCED_FILES) as SyncedFile[]).find(f => SYNCED_FILES[f].field === field);
+    if (!file) {
+      throw new Error(`Unknown sync field: ${field}`);
+    }
+    return file;
+  }
+
+  private async getSnapshot(serverId: string, file: SyncedFile): Promise<FlagEntries> {
+    const snapshot = await this.prisma.playerFileSnapshot.findUnique({
+      where: { serverId_file: { serverId, file } },
+    });
+    return snapshot ? JSON.parse(snapshot.entries) : {};
+  }
+
+  private async saveSnapshot(serverId: string, file: SyncedFile, entries: FlagEntries): Promise<void> {
+    await this.prisma.playerFileSnapshot.upsert({
+      where: { serverId_file: { serverId, file } },
+      create: { serverId, file, entries: JSON.stringify(entries) },
+      update: { entries: JSON.stringify(entries), syncedAt: new Date() },
+    });
+  }
+
+  /**
+   * The server process runs from the JAR's directory, which is where it keeps these files
+   */
+  private getServerDir(server: { serverPath: string; adapterConfig: string | null }): string {
+    let jarFile = 'Server/HytaleServer.jar';
+    if (server.adapterConfig) {
+      try {
+        jarFile = JSON.parse(server.adapterConfig).jarFile || jarFile;
+      } catch {
+        // Fall back to the default layout
+      }
+    }
+    return path.dirname(path.join(path.resolve(server.serverPath), jarFile));
+  }
+}
@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import { PrismaClient, Player as PrismaPlayer } from '@prisma/client';
+import { IServerAdapter } from '../adapters/IServerAdapter';
+import { LogEntry, ServerStatus } from '../types';
+import logger from '../utils/logger';
+import { PlayerService, SessionEnd, SessionEndReason } from './PlayerService';
+import { ServerEventBus } from './ServerEventBus';
+
+export type PresenceEventType = 'joined' | 'left';
+
+export interface PlayerPresenceEvent {
+  serverId: string;
+  player: PrismaPlayer;
+  event: PresenceEventType;
+}
+
+export interface PresenceMatch {
+  type: 'join' | 'leave';
+  username: string;
+  uuid?: string;
+  /** Disconnect reason text following a leave line, e.g. "Timed out" */
+  reason?: string;
+}
+
+interface TrackedSession {
+  uuid: string;
+  username: string;
+  joinedAt: Date;
+}
+
+// Player name, optionally quoted, optionally followed by "(uuid)" or "[uuid]"
+const NAME = `'?(?<username>[A-Za-z0-9_.-]{1,32})'?`;
+const UUID = `(?:\\s*[(\\[](?<uuid>[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})[)\\]])?`;
+
+/**
+ * Console/log line patterns that indicate a player joined the server
+ */
+export const PLAYER_JOIN_PATTERNS: RegExp[] = [
+  new RegExp(`\\bplayer\\s+${NAME}${UUID}\\s+(?:has\\s+)?(?:joined|connected)\\b`, 'i'),
+  new RegExp(`\\badding player\\s+${NAME}${UUID}`, 'i'),
+  new RegExp(`${NAME}${UUID}\\s+(?:has\\s+)?joined the (?:game|server)\\b`, 'i'),
+];
+
+/**
+ * Console/log line patterns that indicate a player left the server
+ */
+export const PLAYER_LEAVE_PATTERNS: RegExp[] = [
+  new RegExp(`\\bplayer\\s+${NAME}${UUID}\\s+(?:has\\s+)?(?:left|disconnected)\\b`, 'i'),
+  new RegExp(`\\bremoving player\\s+${NAME}${UUID}`, 'i'),
+  new RegExp(`${NAME}${UUID}\\s+(?:has\\s+)?left the (?:game|server)\\b`, 'i'),
+  new RegExp(`${NAME}${UUID}\\s+lost connection\\b`, 'i'),
+];
+
+// Text after a leave match such as ": Timed out", " (Kicked by an operator)" or " - reason: Flying"
+const LEAVE_REASON = /^\s*(?::|-|\(|,)\s*(?:reason:?\s*)?(?<reason>[^()]+?)\)?\s*$/i;
+
+/**
+ * Detect a join/leave event in a single log message
+ */
+export function parsePresenceLine(message: string): PresenceMatch | null {
+  for (const [type, patterns] of [['join', PLAYER_JOIN_PATTERNS], ['leave', PLAYER_LEAVE_PATTERNS]] as const) {
+    for (const pattern of patterns) {
+      const match = message.match(pattern);
+      if (match?.groups?.username) {
+        const result: PresenceMatch = {
+          type,
+          username: match.groups.username,
+          uuid: match.groups.uuid?.toLowerCase(),
+        };
+
+        if (type === 'leave') {
+          const reason = message.slice((match.index || 0) + match[0].length).match(LEAVE_REASON)?.groups?.reason;
+          if (reason) {
+            result.reason = reason;
+          }
+        }
+
+        return result;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Stable UUID for a player whose UUID never appears in the logs (same scheme as offline-mode servers)
+ */
+export function offlineUuid(username: string): string {
+  const hash = crypto.createHash('md5').update(`OfflinePlayer:${username}`).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x30; // version 3
+  hash[8] = (hash[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = hash.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Player Presence Service
+ * Follows server log output to keep Player.isOnline, lastSeen and playtime up to date.
+ */
+export class PlayerPresenceService {
+  private prisma: PrismaClient;
+  private playerService: PlayerService;
+  private eventBus?: ServerEventBus;
+  private sessions: Map<string, Map<string, TrackedSession>> = new Map(); // serverId -> uuid -> session
+  private subscriptions: Map<string, (() => void)[]> = new Map();
+  private pending: Map<string, Promise<void>> = new Map();
+  private listeners: ((event: PlayerPresenceEvent) => void)[] = [];
+
+  constructor(prisma: PrismaClient, playerService: PlayerService, eventBus?: ServerEventBus) {
+    this.prisma = prisma;
+    this.playerService = playerService;
+    this.eventBus = eventBus;
+  }
+
+  /**
+   * Start following an adapter's log output and status transitions
+   */
+  attach(serverId: string, adapter: IServerAdapter): void {
+    this.detach(serverId);
+
+    const unsubscribeLog = adapter.onLog((log) => this.handleLog(serverId, log));
+    const unsubscribeStatus = adapter.onStatusChange((status) => this.handleStatusChange(serverId, status));
+
+    this.subscriptions.set(serverId, [unsubscribeLog, unsubscribeStatus]);
+  }
+
+  /**
+   * Stop following an adapter
+   */
+  detach(serverId: string): void {
+    const unsubscribers = this.subscriptions.get(serverId);
+    if (unsubscribers) {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      this.subscriptions.delete(serverId);
+    }
+  }
+
+  /**
+   * Feed a log entry from any source (stdout, tailed log file)
+   */
+  handleLog(serverId: string, log: LogEntry): void {
+    const match = parsePresenceLine(log.message);
+    if (!match) return;
+
+    this.enqueue(serverId, () => match.type === 'join'
+      ? this.handleJoin(serverId, match.username, match.uuid)
+      : this.handleLeave(serverId, match.username, match.uuid, match.reason));
+  }
+
+  /**
+   * Register a listener for join/leave events
+   * @returns Function that removes the listener
+   */
+  onPresenceChange(callback: (event: PlayerPresenceEvent) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * Get the players currently tracked as online for a server
+   */
+  getOnlineUuids(serverId: string): string[] {
+    return Array.from(this.sessions.get(serverId)?.keys() || []);
+  }
+
+  /**
+   * Close every open session on a server (server stopped, crashed or restarted)
+   */
+  async endAllSessions(serverId: string, reason: SessionEndReason = 'server_stopped'): Promise<void> {
+    const sessions = this.sessions.get(serverId);
+    if (sessions) {
+      for (const session of Array.from(sessions.values())) {
+        await this.closeSession(serverId, session, { reason });
+      }
+    }
+
+    // Session rows left open by players we were not tracking
+    await this.playerService.closeServerSessions(serverId, { reason });
+
+    // Anyone still flagged online without a tracked session
+    const { count } = await this.prisma.player.updateMany({
+      where: { serverId, isOnline: true },
+      data: { isOnline: false },
+    });
+    if (count > 0) {
+      logger.info(`[Presence] Marked ${count} untracked player(s) offline on server ${serverId}`);
+    }
+  }
+
+  /**
+   * Reconcile persisted presence with reality after a manager restart.
+   * Call after orphaned servers have been recovered.
+   */
+  async reconcile(): Promise<void> {
+    const servers = await this.prisma.server.findMany({
+      select: { id: true, status: true },
+    });
+
+    for (const server of servers) {
+      if (server.status === 'running') {
+        // Server survived the restart - resume sessions, counting playtime from now
+        const online = await this.prisma.player.findMany({
+          where: { serverId: server.id, isOnline: true },
+        });
+        const sessions = this.getSessions(server.id);
+        const now = new Date();
+        for (const player of online) {
+          sessions.set(player.uuid, { uuid: player.uuid, username: player.username, joinedAt: now });
+        }
+        if (online.length > 0) {
+          logger.info(`[Presence] Resumed ${online.length} session(s) on server ${server.id}`);
+        }
+      } else {
+        await this.endAllSessions(server.id);
+      }
+    }
+  }
+
+  /**
+   * Cleanup - drop subscriptions without touching persisted state
+   */
+  cleanup(): void {
+    for (const serverId of Array.from(this.subscriptions.keys())) {
+      this.detach(serverId);
+    }
+    this.sessions.clear();
+    this.listeners = [];
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  private handleStatusChange(serverId: string, status: ServerStatus['status']): void {
+    // A fresh or dead process has nobody connected
+    if (status === 'starting' || status === 'stopped' || status === 'crashed') {
+      const reason = status === 'crashed' ? 'server_crashed' : 'server_stopped';
+      this.enqueue(serverId, () => this.endAllSessions(serverId, reason));
+    }
+  }
+
+  private async handleJoin(serverId: string, username: string, uuid?: string): Promise<void> {
+    const resolvedUuid = uuid || await this.resolveUuid(serverId, username);
+    const sessions = this.getSessions(serverId);
+
+    if (sessions.has(resolvedUuid)) {
+      return;
+    }
+
+    const player = await this.playerService.upsertPlayer(serverId, resolvedUuid, username);
+    sessions.set(resolvedUuid, { uuid: resolvedUuid, username, joinedAt: new Date() });
+
+    logger.info(`[Presence] ${username} joined server ${serverId}`);
+    this.emit({ serverId, player, event: 'joined' });
+  }
+
+  private async handleLeave(serverId: string, username: string, uuid?: string, message?: string): Promise<void> {
+    const sessions = this.getSessions(serverId);
+    const session = uuid
+      ? sessions.get(uuid)
+      : Array.from(sessions.values()).find(s => s.username === username);
+    const end: SessionEnd = { reason: 'left', message };
+
+    if (session) {
+      await this.closeSession(serverId, session, end);
+      return;
+    }
+
+    // No session (e.g. joined while the manager was down) - mark offline without crediting playtime
+    const player = uuid
+      ? await this.playerService.getPlayerByUuid(serverId, uuid)
+      : await this.prisma.player.findFirst({ where: { serverId, username, isOnline: true } });
+
+    if (player?.isOnline) {
+      const updated = await this.playerService.setPlayerOffline(serverId, player.uuid, undefined, end);
+      logger.info(`[Presence] ${username} left server ${serverId}`);
+      this.emit({ serverId, player: updated, event: 'left' });
+    }
+  }
+
+  private async closeSession(serverId: string, session: TrackedSession, end: SessionEnd): Promise<void> {
+    this.sessions.get(serverId)?.delete(session.uuid);
+
+    const player = await this.playerService.getPlayerByUuid(serverId, session.uuid);
+    if (!player) return;
+
+    const elapsed = Math.max(0, Math.floor((Date.now() - session.joinedAt.getTime()) / 1000));
+    const updated = await this.playerService.setPlayerOffline(serverId, session.uuid, player.playtime + elapsed, end);
+
+    logger.info(`[Presence] ${session.username} left server ${serverId} after ${elapsed}s`);
+    this.emit({ serverId, player: updated, event: 'left' });
+  }
+
+  /**
+   * Find a known UUID for a username, preferring players seen on this server
+   */
+  private async resolveUuid(serverId: string, username: string): Promise<string> {
+    const known = await this.prisma.player.findFirst({
+      where: { serverId, username },
+    }) || await this.prisma.player.findFirst({
+      where: { username },
+      orderBy: { lastSeen: 'desc' },
+    });
+
+    return known?.uuid || offlineUuid(username);
+  }
+
+  private getSessions(serverId: string): Map<string, TrackedSession> {
+    let sessions = this.sessions.get(serverId);
+    if (!sessions) {
+      sessions = new Map();
+      this.sessions.set(serverId, sessions);
+    }
+    return sessions;
+  }
+
+  /**
+   * Run presence updates for a server one at a time so a quick join/leave can't race
+   */
+  private enqueue(serverId: string, task: () => Promise<void>): void {
+    const previous = this.pending.get(serverId) || Promise.resolve();
+    const next = previous
+      .then(task)
+      .catch((error) => {
+        logger.error(`[Presence] Failed to update presence for server ${serverId}:`, error);
+      });
+    this.pending.set(serverId, next);
+  }
+
+  private emit(event: PlayerPresenceEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error('[Presence] Error in presence listener:', error);
+      }
+    });
+
+    this.eventBus?.publish(event.event === 'joined' ? 'player_join' : 'player_leave', event.serverId, 'presence', {
+      playerName: event.player.username,
+      player: event.player,
+    }).catch((error) => {
+      logger.error('[Presence] Failed to publish presence event:', error);
+    });
+  }
+}
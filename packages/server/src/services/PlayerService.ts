@@ -1,15 +1,85 @@
-import { PrismaClient, Player as PrismaPlayer } from '@prisma/client';
+import { PrismaClient, Player as PrismaPlayer, PlayerSession } from '@prisma/client';
 import { IServerAdapter } from '../adapters/IServerAdapter';
 import logger from '../utils/logger';
 import { DiscordNotificationService } from './DiscordNotificationService';
+import { ModerationService, ModerationActor, RecordCaseInput } from './ModerationService';
+
+export type PlayerStatusFilter = 'all' | 'online' | 'offline' | 'banned';
+export type PlayerSortField = 'lastSeen' | 'playtime' | 'username';
+
+export interface PlayerDirectoryOptions {
+  search?: string;
+  status?: PlayerStatusFilter;
+  sortBy?: PlayerSortField;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A player across every server they have joined
+ */
+export interface PlayerSummary {
+  uuid: string;
+  username: string;
+  isOnline: boolean;
+  onlineServerIds: string[];
+  isBanned: boolean;
+  bannedServerIds: string[];
+  serverCount: number;
+  playtime: number; // seconds, summed over servers
+  firstJoined: Date;
+  lastSeen: Date;
+}
+
+export type PlayerServerRecord = PrismaPlayer & {
+  server: { id: string; name: string; status: string };
+};
+
+export interface PlayerProfile extends PlayerSummary {
+  records: PlayerServerRecord[];
+}
+
+export type SessionEndReason = 'left' | 'kicked' | 'banned' | 'server_stopped' | 'server_crashed';
+
+export interface SessionEnd {
+  reason: SessionEndReason;
+  /** Reason text from the server log, if any */
+  message?: string;
+}
+
+export interface PlayerSessionQuery {
+  serverId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export type PlayerSessionWithServer = PlayerSession & {
+  server: { id: string; name: string };
+};
 
 export class PlayerService {
   private prisma: PrismaClient;
   private discordService?: DiscordNotificationService;
+  private moderationService?: ModerationService;
+  private stateListeners: ((serverId: string, uuid: string) => void)[] = [];
 
-  constructor(prisma: PrismaClient, discordService?: DiscordNotificationService) {
+  constructor(prisma: PrismaClient, discordService?: DiscordNotificationService, moderationService?: ModerationService) {
     this.prisma = prisma;
     this.discordService = discordService;
+    this.moderationService = moderationService;
+  }
+
+  /**
+   * Register a listener for ban/whitelist changes made through the manager
+   * @returns Function that removes the listener
+   */
+  onPlayerStateChange(callback: (serverId: string, uuid: string) => void): () => void {
+    this.stateListeners.push(callback);
+    return () => {
+      this.stateListeners = this.stateListeners.filter(cb => cb !== callback);
+    };
   }
 
   /**
@@ -37,49 +107,132 @@ export class PlayerService {
   }
 
   /**
-   * Get a player by UUID
+   * Get a player's record on a server
    */
-  async getPlayerByUuid(uuid: string): Promise<PrismaPlayer | null> {
+  async getPlayerByUuid(serverId: string, uuid: string): Promise<PrismaPlayer | null> {
     return this.prisma.player.findUnique({
+      where: { serverId_uuid: { serverId, uuid } },
+    });
+  }
+
+  /**
+   * Search players across all servers, one entry per player
+   */
+  async getPlayerDirectory(options: PlayerDirectoryOptions = {}): Promise<{ players: PlayerSummary[]; total: number }> {
+    const where: any = {};
+    const search = options.search?.trim();
+    if (search) {
+      where.OR = [
+        { username: { contains: search } },
+        { uuid: { startsWith: search.toLowerCase() } },
+      ];
+    }
+
+    const records = await this.prisma.player.findMany({ where });
+
+    const byUuid = new Map<string, PrismaPlayer[]>();
+    for (const record of records) {
+      const list = byUuid.get(record.uuid) || [];
+      list.push(record);
+      byUuid.set(record.uuid, list);
+    }
+
+    let players = Array.from(byUuid.values()).map(list => this.summarize(list));
+
+    switch (options.status) {
+      case 'online':
+        players = players.filter(p => p.isOnline);
+        break;
+      case 'offline':
+        players = players.filter(p => !p.isOnline);
+        break;
+      case 'banned':
+        players = players.filter(p => p.isBanned);
+        break;
+    }
+
+    const direction = options.sortOrder === 'asc' ? 1 : -1;
+    const sortBy = options.sortBy || 'lastSeen';
+    players.sort((a, b) => {
+      if (sortBy === 'username') {
+        return direction * a.username.localeCompare(b.username);
+      }
+      if (sortBy === 'playtime') {
+        return direction * (a.playtime - b.playtime);
+      }
+      return direction * (a.lastSeen.getTime() - b.lastSeen.getTime());
+    });
+
+    const offset = options.offset || 0;
+    const limit = options.limit || 50;
+
+    return {
+      players: players.slice(offset, offset + limit),
+      total: players.length,
+    };
+  }
+
+  /**
+   * Get a player with their record on each server
+   */
+  async getPlayerProfile(uuid: string): Promise<PlayerProfile | null> {
+    const records = await this.prisma.player.findMany({
       where: { uuid },
+      include: { server: { select: { id: true, name: true, status: true } } },
+      orderBy: { lastSeen: 'desc' },
     });
+
+    if (records.length === 0) {
+      return null;
+    }
+
+    return { ...this.summarize(records), records };
   }
 
   /**
-   * Update or create a player (called when player joins)
+   * Update or create a player's record on a server and open a session (called when player joins)
    */
   async upsertPlayer(serverId: string, uuid: string, username: string): Promise<PrismaPlayer> {
-    const existingPlayer = await this.getPlayerByUuid(uuid);
+    const now = new Date();
+
+    const player = await this.prisma.player.upsert({
+      where: { serverId_uuid: { serverId, uuid } },
+      update: {
+        username,
+        isOnline: true,
+        lastSeen: now,
+      },
+      create: {
+        serverId,
+        uuid,
+        username,
+        isOnline: true,
+        firstJoined: now,
+        lastSeen: now,
+      },
+    });
 
-    if (existingPlayer) {
-      // Update existing player
-      return this.prisma.player.update({
-        where: { uuid },
-        data: {
-          username,
-          isOnline: true,
-          lastSeen: new Date(),
-        },
-      });
-    } else {
-      // Create new player
-      return this.prisma.player.create({
-        data: {
-          serverId,
-          uuid,
-          username,
-          isOnline: true,
-          firstJoined: new Date(),
-          lastSeen: new Date(),
-        },
+    const open = await this.prisma.playerSession.findFirst({
+      where: { serverId, uuid, leftAt: null },
+    });
+    if (!open) {
+      await this.prisma.playerSession.create({
+        data: { serverId, uuid, username, joinedAt: now },
       });
     }
+
+    return player;
   }
 
   /**
-   * Mark player as offline
+   * Mark player as offline on a server and close their open session
    */
-  async setPlayerOffline(uuid: string, playtime?: number): Promise<PrismaPlayer> {
+  async setPlayerOffline(
+    serverId: string,
+    uuid: string,
+    playtime?: number,
+    end: SessionEnd = { reason: 'left' }
+  ): Promise<PrismaPlayer> {
     const data: any = {
       isOnline: false,
       lastSeen: new Date(),
@@ -89,20 +242,80 @@ export class PlayerService {
       data.playtime = playtime;
     }
 
-    return this.prisma.player.update({
-      where: { uuid },
+    const player = await this.prisma.player.update({
+      where: { serverId_uuid: { serverId, uuid } },
       data,
     });
+
+    await this.closeSessions({ serverId, uuid }, end);
+
+    return player;
+  }
+
+  /**
+   * Close every open session on a server (server stopped or crashed)
+   * @returns Number of sessions closed
+   */
+  async closeServerSessions(serverId: string, end: SessionEnd): Promise<number> {
+    return this.closeSessions({ serverId }, end);
+  }
+
+  /**
+   * Get the sessions that were open on a server at a point in time
+   */
+  async getOnlineAt(serverId: string, at: Date): Promise<PlayerSession[]> {
+    return this.prisma.playerSession.findMany({
+      where: {
+        serverId,
+        joinedAt: { lte: at },
+        OR: [{ leftAt: null }, { leftAt: { gte: at } }],
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get a player's session timeline, newest first
+   */
+  async getPlayerSessions(uuid: string, query: PlayerSessionQuery = {}): Promise<PlayerSessionWithServer[]> {
+    const where: any = { uuid };
+    if (query.serverId) {
+      where.serverId = query.serverId;
+    }
+    // Sessions overlapping the window
+    if (query.to) {
+      where.joinedAt = { lte: query.to };
+    }
+    if (query.from) {
+      where.OR = [{ leftAt: null }, { leftAt: { gte: query.from } }];
+    }
+
+    return this.prisma.playerSession.findMany({
+      where,
+      include: { server: { select: { id: true, name: true } } },
+      orderBy: { joinedAt: 'desc' },
+      take: query.limit || 100,
+    });
   }
 
   /**
    * Kick a player
+   * @param actor Who kicked the player; when given, the kick is added to the moderation log
    */
-  async kickPlayer(adapter: IServerAdapter, uuid: string, reason?: string): Promise<void> {
-    const player = await this.getPlayerByUuid(uuid);
+  async kickPlayer(
+    adapter: IServerAdapter,
+    serverId: string,
+    uuid: string,
+    reason?: string,
+    actor?: ModerationActor
+  ): Promise<void> {
+    const player = await this.getPlayerByUuid(serverId, uuid);
     logger.info(`Kicking player ${uuid}: ${reason || 'No reason'}`);
     await adapter.kickPlayer(uuid, reason);
-    await this.setPlayerOffline(uuid);
+    if (player) {
+      await this.setPlayerOffline(serverId, uuid, undefined, { reason: 'kicked', message: reason });
+    }
+    await this.recordCase(actor, { uuid, username: player?.username || uuid, type: 'kick', reason, serverId });
 
     // Send Discord notification
     if (this.discordService && player) {
@@ -122,9 +335,11 @@ export class PlayerService {
    */
   async banPlayer(
     adapter: IServerAdapter,
+    serverId: string,
     uuid: string,
     reason?: string,
-    duration?: number
+    duration?: number,
+    actor?: ModerationActor
   ): Promise<PrismaPlayer> {
     logger.info(`Banning player ${uuid}: ${reason || 'No reason'}`);
 
@@ -133,7 +348,7 @@ export class PlayerService {
     const bannedUntil = duration ? new Date(Date.now() + duration * 1000) : undefined;
 
     const player = await this.prisma.player.update({
-      where: { uuid },
+      where: { serverId_uuid: { serverId, uuid } },
       data: {
         isBanned: true,
         banReason: reason,
@@ -143,6 +358,10 @@ export class PlayerService {
       },
     });
 
+    await this.closeSessions({ serverId, uuid }, { reason: 'banned', message: reason });
+    this.notifyStateChange(serverId, uuid);
+    await this.recordCase(actor, { uuid, username: player.username, type: 'ban', reason, duration, serverId });
+
     // Send Discord notification
     if (this.discordService) {
       const server = await this.prisma.server.findUnique({
@@ -160,14 +379,22 @@ export class PlayerService {
 
   /**
    * Unban a player
+   * @param reason Why the ban was lifted, shown in notifications (e.g. "Ban expired")
+   * @param actor Who lifted the ban; when given, the unban is added to the moderation log
    */
-  async unbanPlayer(adapter: IServerAdapter, uuid: string): Promise<PrismaPlayer> {
+  async unbanPlayer(
+    adapter: IServerAdapter,
+    serverId: string,
+    uuid: string,
+    reason?: string,
+    actor?: ModerationActor
+  ): Promise<PrismaPlayer> {
     logger.info(`Unbanning player ${uuid}`);
 
     await adapter.unbanPlayer(uuid);
 
     const player = await this.prisma.player.update({
-      where: { uuid },
+      where: { serverId_uuid: { serverId, uuid } },
       data: {
         isBanned: false,
         banReason: null,
@@ -175,6 +402,8 @@ export class PlayerService {
         bannedUntil: null,
       },
     });
+    this.notifyStateChange(serverId, uuid);
+    await this.recordCase(actor, { uuid, username: player.username, type: 'unban', reason, serverId });
 
     // Send Discord notification
     if (this.discordService) {
@@ -184,6 +413,7 @@ export class PlayerService {
       await this.discordService.notify('player_unban', {
         playerName: player.username,
         serverName: server?.name,
+        reason,
       });
     }
 
@@ -193,15 +423,16 @@ export class PlayerService {
   /**
    * Whitelist a player
    */
-  async whitelistPlayer(adapter: IServerAdapter, uuid: string): Promise<PrismaPlayer> {
+  async whitelistPlayer(adapter: IServerAdapter, serverId: string, uuid: string): Promise<PrismaPlayer> {
     logger.info(`Whitelisting player ${uuid}`);
 
     await adapter.whitelistPlayer(uuid);
 
     const player = await this.prisma.player.update({
-      where: { uuid },
+      where: { serverId_uuid: { serverId, uuid } },
       data: { isWhitelisted: true },
     });
+    this.notifyStateChange(serverId, uuid);
 
     return player;
   }
@@ -209,15 +440,16 @@ export class PlayerService {
   /**
    * Remove player from whitelist
    */
-  async unwhitelistPlayer(adapter: IServerAdapter, uuid: string): Promise<PrismaPlayer> {
+  async unwhitelistPlayer(adapter: IServerAdapter, serverId: string, uuid: string): Promise<PrismaPlayer> {
     logger.info(`Removing player ${uuid} from whitelist`);
 
     await adapter.unwhitelistPlayer(uuid);
 
     const player = await this.prisma.player.update({
-      where: { uuid },
+      where: { serverId_uuid: { serverId, uuid } },
       data: { isWhitelisted: false },
     });
+    this.notifyStateChange(serverId, uuid);
 
     return player;
   }
@@ -238,4 +470,73 @@ export class PlayerService {
       whitelisted,
     };
   }
+
+  /**
+   * Add an action to the moderation log. A failed write must not undo the action itself.
+   */
+  private async recordCase(
+    actor: ModerationActor | undefined,
+    input: Omit<RecordCaseInput, 'actor'>
+  ): Promise<void> {
+    if (!actor || !this.moderationService) return;
+    try {
+      await this.moderationService.recordCase({ ...input, actor });
+    } catch (error) {
+      logger.error(`Failed to record ${input.type} case for ${input.uuid}:`, error);
+    }
+  }
+
+  private notifyStateChange(serverId: string, uuid: string): void {
+    for (const listener of this.stateListeners) {
+      try {
+        listener(serverId, uuid);
+      } catch (error) {
+        logger.error('Error in player state listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Stamp leave time, duration and reason on open sessions
+   */
+  private async closeSessions(where: { serverId: string; uuid?: string }, end: SessionEnd): Promise<number> {
+    const open = await this.prisma.playerSession.findMany({
+      where: { ...where, leftAt: null },
+    });
+
+    const now = new Date();
+    for (const session of open) {
+      await this.prisma.playerSession.update({
+        where: { id: session.id },
+        data: {
+          leftAt: now,
+          duration: Math.max(0, Math.floor((now.getTime() - session.joinedAt.getTime()) / 1000)),
+          disconnectReason: end.reason,
+          disconnectMessage: end.message,
+        },
+      });
+    }
+
+    return open.length;
+  }
+
+  /**
+   * Combine a player's per-server records into one directory entry
+   */
+  private summarize(records: PrismaPlayer[]): PlayerSummary {
+    const latest = records.reduce((a, b) => (b.lastSeen > a.lastSeen ? b : a));
+
+    return {
+      uuid: latest.uuid,
+      username: latest.username,
+      isOnline: records.some(r => r.isOnline),
+      onlineServerIds: records.filter(r => r.isOnline).map(r => r.serverId),
+      isBanned: records.some(r => r.isBanned),
+      bannedServerIds: records.filter(r => r.isBanned).map(r => r.serverId),
+      serverCount: records.length,
+      playtime: records.reduce((sum, r) => sum + r.playtime, 0),
+      firstJoined: records.reduce((min, r) => (r.firstJoined < min ? r.firstJoined : min), records[0].firstJoined),
+      lastSeen: latest.lastSeen,
+    };
+  }
 }
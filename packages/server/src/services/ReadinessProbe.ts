@@ -0,0 +1,180 @@
+import dgram from 'dgram';
+
+/**
+ * How to tell that a started server is accepting players.
+ * Stored in the server's adapterConfig; all configured checks must pass.
+ */
+export interface ReadinessConfig {
+  /** Regex matched against console lines, e.g. "Server started" */
+  readyLogPattern?: string;
+  /** Probe the game port over UDP until something answers or stops refusing */
+  readyUdpCheck?: boolean;
+  /** Give up after this long; the server is then stopped */
+  readyTimeoutSeconds?: number;
+}
+
+export interface ReadinessCallbacks {
+  onReady: () => void;
+  onTimeout: () => void;
+}
+
+export const DEFAULT_READY_TIMEOUT_SECONDS = 120;
+
+/** Used when nothing is configured, alongside the legacy 30 second fallback */
+const DEFAULT_READY_PATTERN = /Done.*For help/;
+const LEGACY_READY_TIMEOUT_SECONDS = 30;
+const UDP_POLL_INTERVAL_MS = 2000;
+
+export function isReadinessConfigured(config: ReadinessConfig): boolean {
+  return !!config.readyLogPattern || !!config.readyUdpCheck;
+}
+
+/**
+ * Validate readiness keys in an adapterConfig update, returning an error message or null
+ */
+export function validateReadinessConfig(config: Record<string, unknown> | undefined): string | null {
+  if (!config) return null;
+
+  const { readyLogPattern, readyUdpCheck, readyTimeoutSeconds } = config;
+  if (readyLogPattern !== undefined && readyLogPattern !== null && readyLogPattern !== '') {
+    if (typeof readyLogPattern !== 'string') return 'readyLogPattern must be a string';
+    try {
+      new RegExp(readyLogPattern);
+    } catch (error: any) {
+      return `Invalid readyLogPattern: ${error.message}`;
+    }
+  }
+  if (readyUdpCheck !== undefined && typeof readyUdpCheck !== 'boolean') {
+    return 'readyUdpCheck must be a boolean';
+  }
+  if (readyTimeoutSeconds !== undefined && readyTimeoutSeconds !== null
+    && (!Number.isInteger(readyTimeoutSeconds) || (readyTimeoutSeconds as number) < 5)) {
+    return 'readyTimeoutSeconds must be an integer of at least 5';
+  }
+  return null;
+}
+
+/**
+ * Check whether something is listening on a UDP port.
+ * A closed port answers with ICMP port unreachable, which a connected socket
+ * surfaces as an error; silence (or a reply) means the port is open.
+ */
+export function probeUdpPort(host: string, port: number, timeoutMs = 1000): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket(host.includes(':') ? 'udp6' : 'udp4');
+    let settled = false;
+
+    const finish = (reachable: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      resolve(reachable);
+    };
+
+    const timer = setTimeout(() => finish(true), timeoutMs);
+    socket.on('error', () => finish(false));
+    socket.on('message', () => finish(true));
+    socket.connect(port, host, () => {
+      socket.send(Buffer.alloc(1), (error) => {
+        if (error) finish(false);
+      });
+    });
+  });
+}
+
+/**
+ * Watches a starting server until its readiness checks pass or the start timeout expires.
+ * Without any configured checks it falls back to the default "Done" line and treats the
+ * timeout as ready, matching how servers were marked running before probes existed.
+ */
+export class ReadinessProbe {
+  private config: ReadinessConfig;
+  private host: string;
+  private port: number;
+  private callbacks: ReadinessCallbacks;
+  private logPattern: RegExp | null;
+  private logMatched = false;
+  private portReachable = false;
+  private timeout: NodeJS.Timeout | null = null;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private settled = false;
+
+  constructor(config: ReadinessConfig, address: string, port: number, callbacks: ReadinessCallbacks) {
+    this.config = config;
+    // Wildcard binds are reachable on loopback
+    this.host = !address || address === '0.0.0.0' ? '127.0.0.1' : address === '::' ? '::1' : address;
+    this.port = port;
+    this.callbacks = callbacks;
+
+    if (config.readyLogPattern) {
+      this.logPattern = new RegExp(config.readyLogPattern);
+    } else {
+      this.logPattern = config.readyUdpCheck ? null : DEFAULT_READY_PATTERN;
+    }
+  }
+
+  get configured(): boolean {
+    return isReadinessConfigured(this.config);
+  }
+
+  get timeoutSeconds(): number {
+    if (!this.configured) return LEGACY_READY_TIMEOUT_SECONDS;
+    return this.config.readyTimeoutSeconds || DEFAULT_READY_TIMEOUT_SECONDS;
+  }
+
+  start(): void {
+    this.timeout = setTimeout(() => {
+      if (this.settled) return;
+      this.stop();
+      if (this.configured) {
+        this.callbacks.onTimeout();
+      } else {
+        this.callbacks.onReady();
+      }
+    }, this.timeoutSeconds * 1000);
+
+    if (this.config.readyUdpCheck) {
+      this.pollInterval = setInterval(() => {
+        probeUdpPort(this.host, this.port).then((reachable) => {
+          if (reachable && !this.settled) {
+            this.portReachable = true;
+            this.check();
+          }
+        });
+      }, UDP_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Feed a console line to the log pattern check
+   */
+  handleLog(message: string): void {
+    if (this.settled || !this.logPattern || this.logMatched) return;
+    if (this.logPattern.test(message)) {
+      this.logMatched = true;
+      this.check();
+    }
+  }
+
+  stop(): void {
+    this.settled = true;
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private check(): void {
+    const logReady = !this.logPattern || this.logMatched;
+    const portReady = !this.config.readyUdpCheck || this.portReachable;
+    if (logReady && portReady) {
+      this.stop();
+      this.callbacks.onReady();
+    }
+  }
+}
@@ -0,0 +1,408 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import fs from 'fs-extra';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import logger from '../utils/logger';
+
+export interface S3Config {
+  /** Endpoint URL, e.g. https://minio.example.com:9000 */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  /** Key prefix every backup is stored under */
+  prefix: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket as https://endpoint/bucket instead of https://bucket.endpoint */
+  forcePathStyle: boolean;
+}
+
+export interface S3Object {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface S3SignableRequest {
+  method: string;
+  host: string;
+  /** URI-encoded path */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+interface S3Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+interface S3RequestOptions {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Buffer;
+}
+
+// Archives above this size are uploaded in parts; S3 requires at least 5 MiB per part
+const MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+const MAX_MULTIPART_PARTS = 10000;
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Percent-encode a string the way SigV4 expects (RFC 3986, unlike encodeURIComponent)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * Compute the AWS Signature Version 4 headers for a request. MinIO, Garage and the other
+ * S3-compatible servers all implement the same scheme.
+ */
+export function signS3Request(
+  request: S3SignableRequest,
+  credentials: { accessKeyId: string; secretAccessKey: string; region: string },
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value])),
+    host: request.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+  const signedHeaders = signedHeaderNames.join(';');
+  const canonicalQuery = Object.keys(request.query)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(request.query[name])}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), 's3'),
+    'aws4_request'
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+export class S3StorageService {
+  private config: S3Config | null;
+
+  constructor(s3Config?: S3Config) {
+    this.config = s3Config || null;
+  }
+
+  /**
+   * Check if S3 storage is enabled and configured
+   */
+  isEnabled(): boolean {
+    return !!this.config?.endpoint && !!this.config.bucket;
+  }
+
+  /**
+   * Update S3 configuration, or disable S3 storage with null
+   */
+  updateConfig(s3Config: S3Config | null): void {
+    this.config = s3Config;
+    logger.info(s3Config ? 'S3 configuration updated' : 'S3 storage disabled');
+  }
+
+  /**
+   * Object key for a path below the configured prefix
+   */
+  objectKey(relativePath: string): string {
+    const prefix = (this.getConfig().prefix || '').replace(/^\/+|\/+$/g, '');
+    const key = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+    return prefix ? `${prefix}/${key}` : key;
+  }
+
+  /**
+   * Test S3 connection by listing the bucket
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const config = this.getConfig();
+      await this.request('GET', null, {
+        query: { 'list-type': '2', 'max-keys': '1', prefix: this.objectKey('') },
+      });
+      return { success: true, message: `Connected successfully. Bucket "${config.bucket}" is accessible` };
+    } catch (error: any) {
+      return { success: false, message: error.message };
+    }
+  }
+
+  /**
+   * Upload a file to S3, in parts when it is too large for a single request
+   * @param localPath - Local file path
+   * @param key - Object key
+   */
+  async upload(localPath: string, key: string): Promise<void> {
+    if (!fs.existsSync(localPath)) {
+      throw new Error(`Local file not found: ${localPath}`);
+    }
+
+    const { size } = await fs.stat(localPath);
+    logger.info(`Uploading ${localPath} to S3: ${key}`);
+
+    if (size <= MULTIPART_PART_SIZE) {
+      await this.request('PUT', key, { body: await fs.readFile(localPath) });
+    } else {
+      await this.uploadMultipart(localPath, key, size);
+    }
+    logger.info(`Upload complete: ${key}`);
+  }
+
+  /**
+   * Download an object from S3
+   * @param key - Object key
+   * @param localPath - Local destination path
+   */
+  async download(key: string, localPath: string): Promise<void> {
+    await fs.ensureDir(path.dirname(localPath));
+
+    logger.info(`Downloading from S3: ${key} to ${localPath}`);
+    const response = await this.send('GET', key, {});
+    if (response.statusCode !== 200) {
+      throw this.toError(response.statusCode || 0, await this.readBody(response));
+    }
+    await pipeline(response, fs.createWriteStream(localPath));
+    logger.info(`Download complete: ${localPath}`);
+  }
+
+  /**
+   * Delete an object from S3. Deleting a missing object is not an error.
+   * @param key - Object key
+   */
+  async delete(key: string): Promise<void> {
+    logger.info(`Deleting from S3: ${key}`);
+    await this.request('DELETE', key, {});
+    logger.info(`Delete complete: ${key}`);
+  }
+
+  /**
+   * Check if an object exists on S3
+   * @param key - Object key
+   */
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.request('HEAD', key, {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List the objects under a key prefix
+   * @param prefix - Key prefix
+   */
+  async list(prefix: string): Promise<S3Object[]> {
+    const objects: S3Object[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const xml = (await this.request('GET', null, { query })).body.toString('utf-8');
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        objects.push({
+          key: xmlValue(match[1], 'Key') || '',
+          size: parseInt(xmlValue(match[1], 'Size') || '0', 10),
+          lastModified: new Date(xmlValue(match[1], 'LastModified') || 0),
+        });
+      }
+
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  private async uploadMultipart(localPath: string, key: string, size: number): Promise<void> {
+    const partSize = Math.max(MULTIPART_PART_SIZE, Math.ceil(size / MAX_MULTIPART_PARTS));
+    const created = await this.request('POST', key, { query: { uploads: '' } });
+    const uploadId = xmlValue(created.body.toString('utf-8'), 'UploadId');
+    if (!uploadId) {
+      throw new Error('S3 did not return an upload ID');
+    }
+
+    const fd = await fs.open(localPath, 'r');
+    try {
+      const etags: string[] = [];
+      const buffer = Buffer.alloc(partSize);
+
+      for (let offset = 0; offset < size; offset += partSize) {
+        const { bytesRead } = await fs.read(fd, buffer, 0, Math.min(partSize, size - offset), offset);
+        const partNumber = etags.length + 1;
+        const response = await this.request('PUT', key, {
+          query: { partNumber: String(partNumber), uploadId },
+          body: buffer.subarray(0, bytesRead),
+        });
+        etags.push(String(response.headers.etag));
+        logger.debug(`Uploaded part ${partNumber} of ${key}`);
+      }
+
+      const parts = etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`).join('');
+      const completed = await this.request('POST', key, {
+        query: { uploadId },
+        body: Buffer.from(`<CompleteMultipartUpload>${parts}</CompleteMultipartUpload>`),
+        headers: { 'content-type': 'application/xml' },
+      });
+
+      // Completing can fail with a 200 response once the upload has started streaming back
+      const completedXml = completed.body.toString('utf-8');
+      if (completedXml.includes('<Error>')) {
+        throw this.toError(completed.status, completed.body);
+      }
+    } catch (error) {
+      await this.request('DELETE', key, { query: { uploadId } }).catch((abortError: any) => {
+        logger.warn(`Failed to abort multipart upload of ${key}: ${abortError.message}`);
+      });
+      throw error;
+    } finally {
+      await fs.close(fd);
+    }
+  }
+
+  private getConfig(): S3Config {
+    if (!this.config) {
+      throw new Error('S3 storage is not configured');
+    }
+    return this.config;
+  }
+
+  /**
+   * Send a request and buffer the response, failing on error statuses
+   */
+  private async request(method: string, key: string | null, options: S3RequestOptions): Promise<S3Response> {
+    const response = await this.send(method, key, options);
+    const body = await this.readBody(response);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && !(method === 'DELETE' && status === 404)) {
+      throw this.toError(status, body);
+    }
+    return { status, headers: response.headers, body };
+  }
+
+  private send(method: string, key: string | null, options: S3RequestOptions): Promise<http.IncomingMessage> {
+    const config = this.getConfig();
+    const endpoint = new URL(/^https?:\/\//.test(config.endpoint) ? config.endpoint : `https://${config.endpoint}`);
+    const host = config.forcePathStyle ? endpoint.host : `${config.bucket}.${endpoint.host}`;
+    const objectPath = key === null ? '' : encodeKey(key);
+    const requestPath = config.forcePathStyle
+      ? `/${encodeRfc3986(config.bucket)}${key === null ? '' : `/${objectPath}`}`
+      : `/${objectPath}`;
+    const query = options.query || {};
+    const body = options.body;
+
+    const headers = signS3Request(
+      {
+        method,
+        host,
+        path: requestPath,
+        query,
+        headers: {
+          ...options.headers,
+          ...(body ? { 'content-length': String(body.length) } : {}),
+        },
+        payloadHash: body ? crypto.createHash('sha256').update(body).digest('hex') : EMPTY_PAYLOAD_HASH,
+      },
+      { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey, region: config.region || 'us-east-1' }
+    );
+
+    const queryString = Object.keys(query)
+      .map((name) => (query[name] === '' ? encodeRfc3986(name) : `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`))
+      .join('&');
+    const transport = endpoint.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(
+        {
+          protocol: endpoint.protocol,
+          hostname: config.forcePathStyle ? endpoint.hostname : `${config.bucket}.${endpoint.hostname}`,
+          port: endpoint.port || undefined,
+          method,
+          path: queryString ? `${requestPath}?${queryString}` : requestPath,
+          headers,
+        },
+        resolve
+      );
+      req.on('error', (error) => reject(new Error(`S3 request failed: ${error.message}`)));
+      req.end(body);
+    });
+  }
+
+  private async readBody(response: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private toError(status: number, body: Buffer): Error {
+    const xml = body.toString('utf-8');
+    const code = xmlValue(xml, 'Code');
+    const message = xmlValue(xml, 'Message');
+    if (code) {
+      return new Error(`S3 request failed (${status} ${code}): ${message || 'no message'}`);
+    }
+    return new Error(`S3 request failed with status ${status}`);
+  }
+}
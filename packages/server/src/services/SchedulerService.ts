@@ -154,7 +154,7 @@ export class SchedulerService {
    * Execute restart task
    */
   private async executeRestartTask(serverId: string): Promise<void> {
-    await this.serverService.restartServer(serverId);
+    await this.serverService.restartServer(serverId, { waitForReady: true });
     logger.info(`Server ${serverId} restarted`);
   }
 
@@ -162,7 +162,7 @@ export class SchedulerService {
    * Execute start task
    */
   private async executeStartTask(serverId: string): Promise<void> {
-    await this.serverService.startServer(serverId);
+    await this.serverService.startServer(serverId, { waitForReady: true });
     logger.info(`Server ${serverId} started`);
   }
 
@@ -0,0 +1,215 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+
+export type ServerEventType =
+  | 'server_start'
+  | 'server_stop'
+  | 'server_restart'
+  | 'server_crash'
+  | 'server_crash_loop'
+  | 'player_join'
+  | 'player_leave'
+  | 'high_cpu'
+  | 'high_memory'
+  | 'high_disk';
+
+export interface ServerEvent {
+  type: ServerEventType;
+  serverId: string;
+  source: string;
+  timestamp: Date;
+  data?: Record<string, any>;
+}
+
+export type DispatchStatus = 'handled' | 'skipped' | 'failed';
+
+export interface DispatchResult {
+  subscriber: string;
+  status: DispatchStatus;
+  detail?: string;
+}
+
+/**
+ * Subscriber handler. Return a result to explain what happened
+ * (e.g. why no rule fired); returning nothing counts as handled.
+ */
+export type ServerEventHandler = (
+  event: ServerEvent
+) => Promise<Omit<DispatchResult, 'subscriber'> | void> | Omit<DispatchResult, 'subscriber'> | void;
+
+export interface ServerEventDispatchInfo {
+  id: string;
+  serverId: string;
+  eventType: ServerEventType;
+  source: string;
+  payload?: Record<string, any>;
+  results: DispatchResult[];
+  createdAt: Date;
+}
+
+interface Subscription {
+  name: string;
+  types: ServerEventType[] | null; // null = all events
+  handler: ServerEventHandler;
+}
+
+/**
+ * Server Event Bus
+ * Single place where lifecycle, alert and player presence events are published.
+ * Every dispatch is recorded with the outcome of each subscriber.
+ */
+export class ServerEventBus {
+  private prisma: PrismaClient;
+  private subscriptions: Subscription[] = [];
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private readonly RETENTION_DAYS = 30;
+  private readonly CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // daily
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Subscribe to events
+   * @param name Subscriber name shown in the dispatch log
+   * @param types Event types to receive, or null for all
+   * @returns Unsubscribe function
+   */
+  subscribe(name: string, types: ServerEventType[] | null, handler: ServerEventHandler): () => void {
+    const subscription: Subscription = { name, types, handler };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  /**
+   * Publish an event to all matching subscribers and record the outcome
+   */
+  async publish(
+    type: ServerEventType,
+    serverId: string,
+    source: string,
+    data?: Record<string, any>
+  ): Promise<DispatchResult[]> {
+    const event: ServerEvent = { type, serverId, source, timestamp: new Date(), data };
+    const subscribers = this.subscriptions.filter(s => !s.types || s.types.includes(type));
+
+    logger.debug(`[EventBus] ${type} on ${serverId} from ${source} -> ${subscribers.length} subscriber(s)`);
+
+    const results = await Promise.all(subscribers.map(async (subscription): Promise<DispatchResult> => {
+      try {
+        const result = await subscription.handler(event);
+        return { subscriber: subscription.name, status: 'handled', ...(result || {}) };
+      } catch (error: any) {
+        logger.error(`[EventBus] Subscriber ${subscription.name} failed on ${type}:`, error);
+        return { subscriber: subscription.name, status: 'failed', detail: error.message };
+      }
+    }));
+
+    await this.recordDispatch(event, results);
+
+    return results;
+  }
+
+  /**
+   * Get recorded dispatches for a server (newest first)
+   */
+  async getDispatches(serverId: string, options?: {
+    eventType?: ServerEventType;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ dispatches: ServerEventDispatchInfo[]; total: number }> {
+    const where: any = { serverId };
+    if (options?.eventType) {
+      where.eventType = options.eventType;
+    }
+
+    const [dispatches, total] = await Promise.all([
+      this.prisma.serverEventDispatch.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: options?.limit || 50,
+        skip: options?.offset || 0,
+      }),
+      this.prisma.serverEventDispatch.count({ where }),
+    ]);
+
+    return {
+      dispatches: dispatches.map(d => ({
+        id: d.id,
+        serverId: d.serverId,
+        eventType: d.eventType as ServerEventType,
+        source: d.source,
+        payload: d.payload ? JSON.parse(d.payload) : undefined,
+        results: JSON.parse(d.results),
+        createdAt: d.createdAt,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Delete dispatch records older than the retention window
+   */
+  async cleanupOldDispatches(): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - this.RETENTION_DAYS);
+
+    const result = await this.prisma.serverEventDispatch.deleteMany({
+      where: { createdAt: { lt: cutoffDate } },
+    });
+
+    if (result.count > 0) {
+      logger.info(`[EventBus] Cleaned up ${result.count} old event dispatches`);
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Start daily cleanup of old dispatch records
+   */
+  startCleanup(): void {
+    if (this.cleanupInterval) return;
+
+    this.cleanupOldDispatches().catch((error) => {
+      logger.error('[EventBus] Failed to clean up dispatches:', error);
+    });
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupOldDispatches().catch((error) => {
+        logger.error('[EventBus] Failed to clean up dispatches:', error);
+      });
+    }, this.CLEANUP_INTERVAL_MS);
+  }
+
+  /**
+   * Cleanup - stop retention timer and drop subscribers
+   */
+  cleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.subscriptions = [];
+  }
+
+  private async recordDispatch(event: ServerEvent, results: DispatchResult[]): Promise<void> {
+    try {
+      await this.prisma.serverEventDispatch.create({
+        data: {
+          serverId: event.serverId,
+          eventType: event.type,
+          source: event.source,
+          payload: event.data ? JSON.stringify(event.data) : null,
+          results: JSON.stringify(results),
+          createdAt: event.timestamp,
+        },
+      });
+    } catch (error) {
+      // Server may have been deleted between publish and record
+      logger.warn(`[EventBus] Failed to record ${event.type} dispatch for ${event.serverId}:`, error);
+    }
+  }
+}
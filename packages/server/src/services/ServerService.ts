@@ -3,22 +3,109 @@ import fs from 'fs-extra';
 import path from 'path';
 import { IServerAdapter } from '../adapters/IServerAdapter';
 import { JavaServerAdapter } from '../adapters/JavaServerAdapter';
-import { ServerConfig, ServerStatus, ServerMetrics } from '../types';
+import { ServerConfig, ServerStatus, ServerMetrics, ProcessExit } from '../types';
 import logger from '../utils/logger';
-import { DiscordNotificationService } from './DiscordNotificationService';
 import { RconService } from './RconService';
 import { LogTailService } from './LogTailService';
+import { LogParserService } from './LogParserService';
+import { ServerEventBus, ServerEventType } from './ServerEventBus';
+
+export interface StartOptions {
+  /** Resolve only once the server is ready (status 'running'), rejecting if it stops first */
+  waitForReady?: boolean;
+}
+
+export type RestartPolicyMode = 'never' | 'on-crash' | 'always';
+
+export const RESTART_POLICY_MODES: RestartPolicyMode[] = ['never', 'on-crash', 'always'];
+
+// Longest wait between automatic restarts
+const MAX_RESTART_BACKOFF_MS = 5 * 60 * 1000;
+
+export interface RestartPolicySettings {
+  restartPolicy: RestartPolicyMode;
+  restartMaxAttempts: number;
+  restartWindowMinutes: number;
+  restartBackoffSeconds: number;
+}
+
+export interface RestartPolicyInfo extends RestartPolicySettings {
+  // Automatic restarts within the current window
+  recentRestarts: number;
+  nextRestartAt: Date | null;
+}
+
+export type RestartDecision =
+  | { action: 'none' }
+  | { action: 'restart'; delayMs: number }
+  | { action: 'crash_loop'; restarts: number };
+
+/**
+ * Validate restart policy settings
+ * @returns Error message, or null if valid
+ */
+export function validateRestartPolicy(data: Partial<RestartPolicySettings>): string | null {
+  if (data.restartPolicy !== undefined && !RESTART_POLICY_MODES.includes(data.restartPolicy)) {
+    return `restartPolicy must be one of: ${RESTART_POLICY_MODES.join(', ')}`;
+  }
+  const counts: Array<[string, number | undefined, number]> = [
+    ['restartMaxAttempts', data.restartMaxAttempts, 1],
+    ['restartWindowMinutes', data.restartWindowMinutes, 1],
+    ['restartBackoffSeconds', data.restartBackoffSeconds, 0],
+  ];
+  for (const [field, value, min] of counts) {
+    if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+      return `${field} must be a whole number of at least ${min}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decide what to do after a server process exits. Each automatic restart within the window
+ * doubles the delay; once the window holds restartMaxAttempts restarts the server is in a crash loop.
+ * @param restartTimes When earlier automatic restarts happened (ms since epoch)
+ */
+export function planRestart(
+  policy: RestartPolicySettings,
+  exit: ProcessExit,
+  restartTimes: number[],
+  now: number
+): RestartDecision {
+  if (exit.requested || policy.restartPolicy === 'never') {
+    return { action: 'none' };
+  }
+  if (policy.restartPolicy === 'on-crash' && !exit.crashed) {
+    return { action: 'none' };
+  }
+
+  const windowStart = now - policy.restartWindowMinutes * 60 * 1000;
+  const recent = restartTimes.filter(time => time > windowStart).length;
+  if (recent >= policy.restartMaxAttempts) {
+    return { action: 'crash_loop', restarts: recent };
+  }
+
+  const delayMs = Math.min(policy.restartBackoffSeconds * 1000 * 2 ** recent, MAX_RESTART_BACKOFF_MS);
+  return { action: 'restart', delayMs };
+}
 
 export class ServerService {
   private prisma: PrismaClient;
   private adapters: Map<string, IServerAdapter> = new Map();
-  private discordService?: DiscordNotificationService;
+  private eventBus?: ServerEventBus;
   private rconService: RconService;
   private logTailService: LogTailService;
+  private logParserService?: LogParserService;
+  private adapterListeners: ((serverId: string, adapter: IServerAdapter) => void)[] = [];
+
+  // Automatic restarts per server (ms since epoch) and the restart waiting on its backoff
+  private restartHistory: Map<string, number[]> = new Map();
+  private pendingRestarts: Map<string, { timer: NodeJS.Timeout; at: Date }> = new Map();
 
-  constructor(prisma: PrismaClient, discordService?: DiscordNotificationService) {
+  constructor(prisma: PrismaClient, eventBus?: ServerEventBus, logParserService?: LogParserService) {
     this.prisma = prisma;
-    this.discordService = discordService;
+    this.eventBus = eventBus;
+    this.logParserService = logParserService;
     this.rconService = new RconService();
     this.logTailService = new LogTailService();
   }
@@ -80,7 +167,8 @@ export class ServerService {
             rconPort: server.rconPort || undefined,
             rconPassword: server.rconPassword || undefined,
             logFilePath: server.logFilePath || undefined,
-          }
+          },
+          this.logParserService?.getParser(serverId, server.adapterType)
         );
         break;
       case 'hytale':
@@ -93,9 +181,41 @@ export class ServerService {
     // Cache the adapter
     this.adapters.set(serverId, adapter);
 
+    // Crashes happen outside of any request - surface them on the event bus
+    adapter.onStatusChange((status) => {
+      if (status === 'crashed') {
+        this.publishEvent('server_crash', serverId, { serverName: server.name });
+      }
+    });
+    adapter.onExit((exit) => {
+      this.applyRestartPolicy(serverId, exit).catch((error) => {
+        logger.error(`Failed to apply restart policy for server ${serverId}:`, error);
+      });
+    });
+
+    for (const listener of this.adapterListeners) {
+      try {
+        listener(serverId, adapter);
+      } catch (error) {
+        logger.error(`Error in adapter listener for ${serverId}:`, error);
+      }
+    }
+
     return adapter;
   }
 
+  /**
+   * Register a callback invoked whenever a new adapter instance is created.
+   * Adapters are recreated after stop/config changes, so per-adapter
+   * subscriptions (logs, status) should be (re)attached here.
+   */
+  onAdapterCreated(callback: (serverId: string, adapter: IServerAdapter) => void): () => void {
+    this.adapterListeners.push(callback);
+    return () => {
+      this.adapterListeners = this.adapterListeners.filter(cb => cb !== callback);
+    };
+  }
+
   /**
    * Convert Prisma server model to config
    */
@@ -148,7 +268,7 @@ export class ServerService {
     adapterConfig?: Record<string, unknown>;
     serverPath: string;
     backupPath?: string;
-    backupType?: 'local' | 'ftp';
+    backupType?: 'local' | 'ftp' | 's3';
     jvmArgs?: string;
   }): Promise<PrismaServer> {
     // Check if server name already exists
@@ -199,8 +319,9 @@ export class ServerService {
     data: Partial<ServerConfig> & {
       serverPath?: string;
       backupPath?: string | null;
-      backupType?: 'local' | 'ftp';
+      backupType?: 'local' | 'ftp' | 's3';
       backupExclusions?: string[] | null;
+      backupMode?: 'full' | 'incremental';
       jvmArgs?: string;
       serverArgs?: string;
       adapterConfig?: Record<string, unknown>;
@@ -224,6 +345,7 @@ export class ServerService {
         ? JSON.stringify(data.backupExclusions)
         : null;
     }
+    if (data.backupMode !== undefined) updateData.backupMode = data.backupMode;
     if (data.jvmArgs !== undefined) updateData.jvmArgs = data.jvmArgs;
     if (data.serverArgs !== undefined) updateData.serverArgs = data.serverArgs;
 
@@ -305,33 +427,22 @@ export class ServerService {
   /**
    * Start a server
    */
-  async startServer(serverId: string): Promise<void> {
+  async startServer(serverId: string, options: StartOptions = {}): Promise<void> {
     const server = await this.getServer(serverId);
     if (!server) throw new Error(`Server ${serverId} not found`);
 
+    this.cancelPendingRestart(serverId);
+
     const adapter = await this.getAdapter(serverId);
 
     await this.prisma.server.update({
       where: { id: serverId },
-      data: { status: 'starting' },
+      data: { status: 'starting', idleSince: null },
     });
 
     try {
       await adapter.start();
-
-      await this.prisma.server.update({
-        where: { id: serverId },
-        data: { status: 'running' },
-      });
-
       logger.info(`Started server: ${serverId}`);
-
-      // Send Discord notification
-      if (this.discordService) {
-        await this.discordService.notify('server_start', {
-          serverName: server.name,
-        });
-      }
     } catch (error) {
       // Reset status to stopped on failure
       logger.error(`Failed to start server ${serverId}:`, error);
@@ -348,6 +459,8 @@ export class ServerService {
       // Re-throw the error so the caller knows it failed
       throw error;
     }
+
+    await this.trackReadiness(serverId, adapter, 'server_start', server.name, options);
   }
 
   /**
@@ -357,6 +470,8 @@ export class ServerService {
     const server = await this.getServer(serverId);
     if (!server) throw new Error(`Server ${serverId} not found`);
 
+    this.cancelPendingRestart(serverId);
+
     const adapter = await this.getAdapter(serverId);
     const previousStatus = server.status;
 
@@ -378,12 +493,7 @@ export class ServerService {
 
       logger.info(`Stopped server: ${serverId}`);
 
-      // Send Discord notification
-      if (this.discordService) {
-        await this.discordService.notify('server_stop', {
-          serverName: server.name,
-        });
-      }
+      this.publishEvent('server_stop', serverId, { serverName: server.name });
     } catch (error) {
       // Reset status to previous state on failure
       logger.error(`Failed to stop server ${serverId}:`, error);
@@ -400,10 +510,12 @@ export class ServerService {
   /**
    * Restart a server
    */
-  async restartServer(serverId: string): Promise<void> {
+  async restartServer(serverId: string, options: StartOptions = {}): Promise<void> {
     const server = await this.getServer(serverId);
     if (!server) throw new Error(`Server ${serverId} not found`);
 
+    this.cancelPendingRestart(serverId);
+
     // Update status to 'stopping'
     await this.prisma.server.update({
       where: { id: serverId },
@@ -427,26 +539,67 @@ export class ServerService {
     // Start the server
     await adapter.start();
 
-    // Update status to 'running'
-    await this.prisma.server.update({
-      where: { id: serverId },
-      data: { status: 'running' },
-    });
-
     logger.info(`Restarted server: ${serverId}`);
 
-    // Send Discord notification
-    if (this.discordService) {
-      await this.discordService.notify('server_restart', {
-        serverName: server.name,
+    await this.trackReadiness(serverId, adapter, 'server_restart', server.name, options);
+  }
+
+  /**
+   * Move a started server from 'starting' to 'running' once its readiness probe passes,
+   * publishing the start event then. Only blocks the caller when asked to wait.
+   */
+  private async trackReadiness(
+    serverId: string,
+    adapter: IServerAdapter,
+    event: ServerEventType,
+    serverName: string,
+    options: StartOptions
+  ): Promise<void> {
+    const ready = this.waitForReady(adapter).then(async () => {
+      await this.prisma.server.update({
+        where: { id: serverId },
+        data: { status: 'running' },
       });
+      logger.info(`Server ${serverId} is ready`);
+      this.publishEvent(event, serverId, { serverName });
+    });
+
+    if (options.waitForReady) {
+      await ready;
+      return;
     }
+
+    ready.catch((error) => {
+      logger.warn(`Server ${serverId} did not become ready: ${error.message}`);
+    });
+  }
+
+  /**
+   * Resolve when the adapter reports 'running', reject if it stops or crashes first
+   */
+  private waitForReady(adapter: IServerAdapter): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let unsubscribe = () => {};
+      const check = (status: ServerStatus['status']) => {
+        if (status === 'running') {
+          unsubscribe();
+          resolve();
+        } else if (status === 'stopped' || status === 'crashed') {
+          unsubscribe();
+          reject(new Error('Server stopped before it became ready'));
+        }
+      };
+
+      unsubscribe = adapter.onStatusChange(check);
+      adapter.getStatus().then((status) => check(status.status), reject);
+    });
   }
 
   /**
    * Kill a server
    */
   async killServer(serverId: string): Promise<void> {
+    this.cancelPendingRestart(serverId);
     const adapter = await this.getAdapter(serverId);
     await adapter.kill();
 
@@ -489,6 +642,111 @@ export class ServerService {
     return this.getAdapter(serverId);
   }
 
+  /**
+   * Get a server's restart policy and where it stands
+   */
+  async getRestartPolicy(serverId: string): Promise<RestartPolicyInfo> {
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) throw new Error(`Server ${serverId} not found`);
+
+    const policy = this.toRestartPolicy(server);
+    const windowStart = Date.now() - policy.restartWindowMinutes * 60 * 1000;
+    return {
+      ...policy,
+      recentRestarts: (this.restartHistory.get(serverId) || []).filter(time => time > windowStart).length,
+      nextRestartAt: this.pendingRestarts.get(serverId)?.at || null,
+    };
+  }
+
+  /**
+   * Update a server's restart policy (omitted fields keep their current value)
+   */
+  async setRestartPolicy(serverId: string, data: Partial<RestartPolicySettings>): Promise<RestartPolicyInfo> {
+    await this.prisma.server.update({
+      where: { id: serverId },
+      data: {
+        ...(data.restartPolicy !== undefined ? { restartPolicy: data.restartPolicy } : {}),
+        ...(data.restartMaxAttempts !== undefined ? { restartMaxAttempts: data.restartMaxAttempts } : {}),
+        ...(data.restartWindowMinutes !== undefined ? { restartWindowMinutes: data.restartWindowMinutes } : {}),
+        ...(data.restartBackoffSeconds !== undefined ? { restartBackoffSeconds: data.restartBackoffSeconds } : {}),
+      },
+    });
+
+    if (data.restartPolicy === 'never') {
+      this.cancelPendingRestart(serverId);
+    }
+
+    return this.getRestartPolicy(serverId);
+  }
+
+  /**
+   * Restart a server that exited on its own, or park it in crash_loop
+   * when it keeps going down faster than the policy allows
+   */
+  private async applyRestartPolicy(serverId: string, exit: ProcessExit): Promise<void> {
+    const server = await this.prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) return;
+
+    const history = this.restartHistory.get(serverId) || [];
+    const decision = planRestart(this.toRestartPolicy(server), exit, history, Date.now());
+
+    if (decision.action === 'crash_loop') {
+      logger.warn(`Server ${server.name} crashed ${decision.restarts + 1} times within ${server.restartWindowMinutes} minute(s) - automatic restarts paused`);
+      this.restartHistory.delete(serverId);
+      await this.prisma.server.update({
+        where: { id: serverId },
+        data: { status: 'crash_loop' },
+      });
+      this.publishEvent('server_crash_loop', serverId, {
+        serverName: server.name,
+        restarts: decision.restarts,
+        windowMinutes: server.restartWindowMinutes,
+      });
+      return;
+    }
+
+    if (decision.action === 'restart') {
+      this.cancelPendingRestart(serverId);
+      logger.info(`Restarting server ${server.name} in ${Math.round(decision.delayMs / 1000)}s (restart policy: ${server.restartPolicy})`);
+
+      const timer = setTimeout(() => {
+        this.pendingRestarts.delete(serverId);
+        this.restartHistory.set(serverId, [...(this.restartHistory.get(serverId) || []), Date.now()]);
+        this.startServer(serverId).catch((error) => {
+          logger.error(`Automatic restart of server ${server.name} failed:`, error);
+        });
+      }, decision.delayMs);
+      this.pendingRestarts.set(serverId, { timer, at: new Date(Date.now() + decision.delayMs) });
+    }
+  }
+
+  private cancelPendingRestart(serverId: string): void {
+    const pending = this.pendingRestarts.get(serverId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingRestarts.delete(serverId);
+    }
+  }
+
+  private toRestartPolicy(server: PrismaServer): RestartPolicySettings {
+    return {
+      restartPolicy: server.restartPolicy as RestartPolicyMode,
+      restartMaxAttempts: server.restartMaxAttempts,
+      restartWindowMinutes: server.restartWindowMinutes,
+      restartBackoffSeconds: server.restartBackoffSeconds,
+    };
+  }
+
+  /**
+   * Publish a lifecycle event without waiting on subscribers
+   * (automation actions may themselves start/stop this server)
+   */
+  private publishEvent(type: ServerEventType, serverId: string, data?: Record<string, any>): void {
+    this.eventBus?.publish(type, serverId, 'server', data).catch((error) => {
+      logger.error(`Failed to publish ${type} for server ${serverId}:`, error);
+    });
+  }
+
   /**
    * Recover orphaned servers after manager restart
    * Finds servers that were running before shutdown and reconnects to them
@@ -545,12 +803,8 @@ export class ServerService {
           // Remove adapter from cache since server isn't running
           this.adapters.delete(server.id);
 
-          // Send Discord notification about crash
-          if (this.discordService) {
-            await this.discordService.notify('server_crash', {
-              serverName: server.name,
-            });
-          }
+          this.publishEvent('server_crash', server.id, { serverName: server.name });
+          await this.applyRestartPolicy(server.id, { code: null, crashed: true, requested: false });
         }
       } catch (error) {
         logger.error(`Failed to recover server ${server.name}:`, error);
@@ -637,6 +891,10 @@ export class ServerService {
       }
     }
 
+    for (const serverId of Array.from(this.pendingRestarts.keys())) {
+      this.cancelPendingRestart(serverId);
+    }
+
     // Cleanup services
     await this.rconService.disconnectAll();
     await this.logTailService.stopAll();
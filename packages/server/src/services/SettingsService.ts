@@ -34,6 +34,16 @@ const SETTING_DEFINITIONS: SettingDefinition[] = [
   { key: 'ftp.password', category: 'ftp', encrypted: true, description: 'FTP password', envVar: 'FTP_PASSWORD' },
   { key: 'ftp.secure', category: 'ftp', encrypted: false, description: 'Use FTPS/TLS', defaultValue: 'false', envVar: 'FTP_SECURE' },
 
+  // S3 settings
+  { key: 's3.enabled', category: 's3', encrypted: false, description: 'Enable S3-compatible storage', defaultValue: 'false' },
+  { key: 's3.endpoint', category: 's3', encrypted: false, description: 'S3 endpoint URL' },
+  { key: 's3.region', category: 's3', encrypted: false, description: 'S3 region', defaultValue: 'us-east-1' },
+  { key: 's3.bucket', category: 's3', encrypted: false, description: 'S3 bucket name' },
+  { key: 's3.prefix', category: 's3', encrypted: false, description: 'Key prefix for backups' },
+  { key: 's3.accessKeyId', category: 's3', encrypted: false, description: 'S3 access key ID' },
+  { key: 's3.secretAccessKey', category: 's3', encrypted: true, description: 'S3 secret access key' },
+  { key: 's3.forcePathStyle', category: 's3', encrypted: false, description: 'Use path-style bucket addressing', defaultValue: 'true' },
+
   // Modtale settings
   { key: 'modtale.apiKey', category: 'modtale', encrypted: true, description: 'Modtale API key', envVar: 'MODTALE_API_KEY' },
 
@@ -50,6 +60,7 @@ const SETTING_DEFINITIONS: SettingDefinition[] = [
 const SENSITIVE_KEYS = new Set([
   'discord.webhookUrl',
   'ftp.password',
+  's3.secretAccessKey',
   'modtale.apiKey',
   'curseforge.apiKey',
 ]);
@@ -0,0 +1,95 @@
+import { PrismaClient } from '@prisma/client';
+import { AlertsService, DEFAULT_ALERT_POLICY, validateAlertPolicy } from '../AlertsService';
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    serverNetworkMember: {
+      findMany: jest.fn(),
+    },
+    alertPolicy: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const storedPolicy = {
+  id: 'policy-1',
+  serverId: null,
+  networkId: 'network-1',
+  cpuWarning: 60,
+  cpuCritical: 90,
+  memoryWarning: 85,
+  memoryCritical: 95,
+  diskWarning: 85,
+  diskCritical: 95,
+  playersWarning: 40,
+  playersCritical: null,
+  minDurationMinutes: 5,
+  enabledTypes: JSON.stringify(['server_down', 'high_cpu']),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('AlertsService alert policies', () => {
+  let service: AlertsService;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma = new PrismaClient();
+    mockPrisma.serverNetworkMember.findMany.mockResolvedValue([
+      { networkId: 'network-1', network: { sortOrder: 0 } },
+    ]);
+    mockPrisma.alertPolicy.upsert.mockResolvedValue({});
+    service = new AlertsService();
+  });
+
+  it('should fall back to built-in defaults', async () => {
+    mockPrisma.alertPolicy.findMany.mockResolvedValue([]);
+
+    const policy = await service.getEffectivePolicy('server-1');
+
+    expect(policy).toEqual({ ...DEFAULT_ALERT_POLICY, source: 'default' });
+  });
+
+  it('should inherit the network default unless the server has its own policy', async () => {
+    mockPrisma.alertPolicy.findMany.mockResolvedValue([storedPolicy]);
+    expect(await service.getEffectivePolicy('server-1')).toMatchObject({
+      source: 'network',
+      networkId: 'network-1',
+      cpuWarning: 60,
+      enabledTypes: ['server_down', 'high_cpu'],
+    });
+
+    mockPrisma.alertPolicy.findMany.mockResolvedValue([
+      storedPolicy,
+      { ...storedPolicy, id: 'policy-2', serverId: 'server-1', networkId: null, cpuWarning: 70 },
+    ]);
+    expect(await service.getEffectivePolicy('server-1')).toMatchObject({ source: 'server', cpuWarning: 70 });
+  });
+
+  it('should start a server override from the inherited values', async () => {
+    mockPrisma.alertPolicy.findMany.mockResolvedValue([storedPolicy]);
+
+    const policy = await service.setServerPolicy('server-1', { cpuCritical: 99 });
+
+    expect(policy).toMatchObject({ source: 'server', cpuWarning: 60, cpuCritical: 99, playersWarning: 40 });
+    expect(mockPrisma.alertPolicy.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { serverId: 'server-1' },
+    }));
+  });
+
+  it('should reject invalid thresholds', () => {
+    expect(validateAlertPolicy({ ...DEFAULT_ALERT_POLICY, cpuWarning: 96 }))
+      .toBe('CPU warning threshold must not exceed the critical threshold');
+    expect(validateAlertPolicy({ ...DEFAULT_ALERT_POLICY, playersWarning: 0 }))
+      .toBe('Player count thresholds must be positive whole numbers');
+    expect(validateAlertPolicy({ ...DEFAULT_ALERT_POLICY, enabledTypes: ['player_join' as any] }))
+      .toMatch(/^Enabled types must be a list of/);
+    expect(validateAlertPolicy(DEFAULT_ALERT_POLICY)).toBeNull();
+  });
+});
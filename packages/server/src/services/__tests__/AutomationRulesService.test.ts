@@ -0,0 +1,175 @@
+import { PrismaClient } from '@prisma/client';
+import { AutomationRulesService } from '../AutomationRulesService';
+import { MetricData } from '../MetricsService';
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    automationRule: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const baseRule = {
+  id: 'rule-1',
+  serverId: 'server-1',
+  name: 'Stop when empty',
+  description: null,
+  enabled: true,
+  triggerType: 'condition',
+  backupLimit: 10,
+  lastTriggered: null,
+  lastStatus: null,
+  lastError: null,
+  executionCount: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function sample(minute: number, values: Partial<MetricData> = {}): MetricData {
+  return {
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+    cpuUsage: 10,
+    memoryUsage: 40,
+    memoryUsedMB: 1024,
+    memoryTotalMB: 4096,
+    diskUsage: 5,
+    diskUsedGB: 1,
+    diskTotalGB: 100,
+    playerCount: 0,
+    ...values,
+  };
+}
+
+describe('AutomationRulesService condition rules', () => {
+  let service: AutomationRulesService;
+  let mockPrisma: any;
+  let serverService: { stopServer: jest.Mock };
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma = new PrismaClient();
+    mockPrisma.automationRule.update.mockResolvedValue({});
+    serverService = { stopServer: jest.fn().mockResolvedValue(undefined) };
+    service = new AutomationRulesService(serverService as any, {} as any);
+  });
+
+  function useRule(overrides: Record<string, any>) {
+    mockPrisma.automationRule.findMany.mockResolvedValue([{ ...baseRule, ...overrides }]);
+  }
+
+  it('should fire only after conditions hold for the sustained window', async () => {
+    useRule({
+      triggerConfig: JSON.stringify({ sustainedMinutes: 15 }),
+      conditions: JSON.stringify([{ type: 'player_count', operator: 'eq', value: 0 }]),
+      actions: JSON.stringify([{ type: 'stop_server', config: {} }]),
+    });
+
+    await service.evaluateConditionRules('server-1', sample(0));
+    await service.evaluateConditionRules('server-1', sample(10));
+    await flush();
+    expect(serverService.stopServer).not.toHaveBeenCalled();
+
+    await service.evaluateConditionRules('server-1', sample(15));
+    await flush();
+    expect(serverService.stopServer).toHaveBeenCalledWith('server-1');
+  });
+
+  it('should restart the window when conditions stop holding', async () => {
+    useRule({
+      triggerConfig: JSON.stringify({ sustainedMinutes: 15 }),
+      conditions: JSON.stringify([{ type: 'player_count', operator: 'eq', value: 0 }]),
+      actions: JSON.stringify([{ type: 'stop_server', config: {} }]),
+    });
+
+    await service.evaluateConditionRules('server-1', sample(0));
+    await service.evaluateConditionRules('server-1', sample(10, { playerCount: 2 }));
+    await service.evaluateConditionRules('server-1', sample(20));
+    await flush();
+
+    expect(serverService.stopServer).not.toHaveBeenCalled();
+  });
+
+  it('should respect the cooldown since the last firing', async () => {
+    useRule({
+      triggerConfig: JSON.stringify({ cooldownMinutes: 30 }),
+      conditions: JSON.stringify([{ type: 'cpu_usage', operator: 'gt', value: 90 }]),
+      actions: JSON.stringify([{ type: 'stop_server', config: {} }]),
+      lastTriggered: new Date(Date.UTC(2026, 0, 1, 0, 0)),
+    });
+
+    await service.evaluateConditionRules('server-1', sample(10, { cpuUsage: 95 }));
+    await flush();
+    expect(serverService.stopServer).not.toHaveBeenCalled();
+
+    await service.evaluateConditionRules('server-1', sample(31, { cpuUsage: 95 }));
+    await flush();
+    expect(serverService.stopServer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should need a new sustained window after firing when there is no cooldown', async () => {
+    useRule({
+      triggerConfig: JSON.stringify({ sustainedMinutes: 15, cooldownMinutes: 0 }),
+      conditions: JSON.stringify([{ type: 'player_count', operator: 'eq', value: 0 }]),
+      actions: JSON.stringify([{ type: 'stop_server', config: {} }]),
+    });
+
+    await service.evaluateConditionRules('server-1', sample(0));
+    await service.evaluateConditionRules('server-1', sample(15));
+    await flush();
+    expect(serverService.stopServer).toHaveBeenCalledTimes(1);
+
+    await service.evaluateConditionRules('server-1', sample(16));
+    await service.evaluateConditionRules('server-1', sample(20));
+    await flush();
+    expect(serverService.stopServer).toHaveBeenCalledTimes(1);
+
+    await service.evaluateConditionRules('server-1', sample(31));
+    await flush();
+    expect(serverService.stopServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evaluate nested AND/OR groups', async () => {
+    useRule({
+      triggerConfig: JSON.stringify({}),
+      conditions: JSON.stringify({
+        operator: 'and',
+        conditions: [
+          { type: 'player_count', operator: 'eq', value: 0 },
+          {
+            operator: 'or',
+            conditions: [
+              { type: 'cpu_usage', operator: 'gte', value: 90 },
+              { type: 'memory_usage', operator: 'gte', value: 90 },
+            ],
+          },
+        ],
+      }),
+      actions: JSON.stringify([{ type: 'stop_server', config: {} }]),
+    });
+
+    await service.evaluateConditionRules('server-1', sample(0, { cpuUsage: 50, memoryUsage: 50 }));
+    await flush();
+    expect(serverService.stopServer).not.toHaveBeenCalled();
+
+    await service.evaluateConditionRules('server-1', sample(1, { cpuUsage: 50, memoryUsage: 95 }));
+    await flush();
+    expect(serverService.stopServer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject condition rules without conditions', async () => {
+    await expect(service.createRule({
+      serverId: 'server-1',
+      name: 'Empty',
+      triggerType: 'condition',
+      triggerConfig: {},
+      actions: [],
+    })).rejects.toThrow('Condition-triggered rules require at least one condition');
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { BackupChunkStore, ManifestFile } from '../BackupChunkStore';
+
+describe('BackupChunkStore', () => {
+  let tempDir: string;
+  let sourceDir: string;
+  let store: BackupChunkStore;
+
+  const chunkCount = async () => {
+    const chunksPath = path.join(store.rootPath, 'chunks');
+    if (!await fs.pathExists(chunksPath)) return 0;
+    let count = 0;
+    for (const prefix of await fs.readdir(chunksPath)) {
+      count += (await fs.readdir(path.join(chunksPath, prefix))).length;
+    }
+    return count;
+  };
+
+  const snapshot = async (name: string, previous?: Map<string, ManifestFile>) => {
+    const files: ManifestFile[] = [];
+    let storedBytes = 0;
+    for (const relativePath of (await fs.readdir(sourceDir)).sort()) {
+      const stored = await store.storeFile(path.join(sourceDir, relativePath), relativePath, previous?.get(relativePath));
+      files.push(stored.entry);
+      storedBytes += stored.storedBytes;
+    }
+    const manifestPath = store.manifestPath(name);
+    await store.writeManifest(manifestPath, files);
+    return { manifestPath, files, storedBytes };
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunk-store-'));
+    sourceDir = path.join(tempDir, 'server');
+    await fs.ensureDir(sourceDir);
+    store = new BackupChunkStore(path.join(tempDir, 'store'), 16);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should store identical chunks only once', async () => {
+    await fs.writeFile(path.join(sourceDir, 'a.txt'), 'x'.repeat(64));
+    await fs.writeFile(path.join(sourceDir, 'b.txt'), 'x'.repeat(64));
+
+    const { files } = await snapshot('first');
+
+    expect(files[0].chunks).toHaveLength(4);
+    expect(files[1].chunks).toEqual(files[0].chunks);
+    expect(await chunkCount()).toBe(1);
+  });
+
+  it('should only store changed chunks in the next backup', async () => {
+    await fs.writeFile(path.join(sourceDir, 'region.bin'), 'aaaaaaaaaaaaaaaabbbbbbbbbbbbbbbbcccccccccccccccc');
+    await fs.writeFile(path.join(sourceDir, 'config.json'), '{"maxPlayers":10}');
+    const first = await snapshot('first');
+    const chunksAfterFirst = await chunkCount();
+
+    await fs.writeFile(path.join(sourceDir, 'region.bin'), 'aaaaaaaaaaaaaaaaBBBBBBBBBBBBBBBBcccccccccccccccc');
+    const later = new Date(Date.now() + 60 * 1000);
+    await fs.utimes(path.join(sourceDir, 'region.bin'), later, later);
+    const previous = store.indexManifest(await store.readManifest(first.manifestPath));
+    const second = await snapshot('second', previous);
+
+    expect(await chunkCount()).toBe(chunksAfterFirst + 1);
+    expect(second.storedBytes).toBeGreaterThan(0);
+    expect(second.files.find((file) => file.path === 'config.json')).toEqual(
+      first.files.find((file) => file.path === 'config.json')
+    );
+  });
+
+  it('should restore any backup from its manifest', async () => {
+    await fs.writeFile(path.join(sourceDir, 'world.dat'), 'version one of the world data');
+    const first = await snapshot('first');
+
+    await fs.writeFile(path.join(sourceDir, 'world.dat'), 'version two of the world data, now longer');
+    await snapshot('second', store.indexManifest(await store.readManifest(first.manifestPath)));
+
+    const manifest = await store.readManifest(first.manifestPath);
+    const restoredPath = path.join(tempDir, 'restored', 'world.dat');
+    await store.restoreFile(manifest.files[0], restoredPath);
+
+    expect(await fs.readFile(restoredPath, 'utf-8')).toBe('version one of the world data');
+    expect((await fs.stat(restoredPath)).mtimeMs).toBeCloseTo(manifest.files[0].mtimeMs, -1);
+  });
+
+  it('should remove chunks no manifest references', async () => {
+    await fs.writeFile(path.join(sourceDir, 'world.dat'), 'old world data that changes');
+    const first = await snapshot('first');
+    await fs.writeFile(path.join(sourceDir, 'world.dat'), 'new world data after change');
+    const second = await snapshot('second');
+
+    await fs.remove(first.manifestPath);
+    const result = await store.exclusive(() => store.collectGarbage());
+
+    expect(result.removedChunks).toBeGreaterThan(0);
+    expect(await chunkCount()).toBe(second.files[0].chunks.length);
+
+    const restoredPath = path.join(tempDir, 'restored.dat');
+    await store.restoreFile(second.files[0], restoredPath);
+    expect(await fs.readFile(restoredPath, 'utf-8')).toBe('new world data after change');
+  });
+});
@@ -0,0 +1,66 @@
+import { buildBackupTree, diffBackupFiles, matchesBackupPaths, normalizeBackupPath } from '../BackupContents';
+
+describe('BackupContents', () => {
+  const modifiedAt = new Date('2026-01-01T00:00:00Z');
+
+  it('should build a sorted tree with directory sizes', () => {
+    const tree = buildBackupTree([
+      { path: 'universe/worlds/default/chunks/0.region', size: 300, modifiedAt },
+      { path: 'config.json', size: 10, modifiedAt },
+      { path: 'universe/players/abc.json', size: 20, modifiedAt },
+      { path: 'universe/worlds/default/config.json', size: 5, modifiedAt },
+    ]);
+
+    expect(tree.map((node) => node.name)).toEqual(['universe', 'config.json']);
+
+    const universe = tree[0];
+    expect(universe.type).toBe('directory');
+    expect(universe.size).toBe(325);
+    expect(universe.children!.map((node) => node.path)).toEqual(['universe/players', 'universe/worlds']);
+
+    const world = universe.children![1].children![0];
+    expect(world.path).toBe('universe/worlds/default');
+    expect(world.size).toBe(305);
+    expect(world.children!.map((node) => node.name)).toEqual(['chunks', 'config.json']);
+  });
+
+  it('should match selected files and everything inside selected directories', () => {
+    const selected = ['universe/players', 'config.json'];
+
+    expect(matchesBackupPaths('universe/players/abc.json', selected)).toBe(true);
+    expect(matchesBackupPaths('config.json', selected)).toBe(true);
+    expect(matchesBackupPaths('universe/players-old/abc.json', selected)).toBe(false);
+    expect(matchesBackupPaths('universe/worlds/default/config.json', selected)).toBe(false);
+  });
+
+  it('should normalize selected paths and reject traversal', () => {
+    expect(normalizeBackupPath('/universe\\players/./abc.json')).toBe('universe/players/abc.json');
+    expect(() => normalizeBackupPath('universe/../../etc/passwd')).toThrow('Invalid backup path');
+    expect(() => normalizeBackupPath('/')).toThrow('Invalid backup path');
+  });
+
+  it('should report added, removed and modified files with size deltas', () => {
+    const later = new Date(modifiedAt.getTime() + 60 * 1000);
+    const diff = diffBackupFiles(
+      [
+        { path: 'config.json', size: 10, modifiedAt },
+        { path: 'universe/players/abc.json', size: 20, modifiedAt },
+        { path: 'logs/latest.log', size: 500, modifiedAt },
+        { path: 'universe/worlds/default/0.region', size: 300, modifiedAt, checksum: 'crc32:aaaa' },
+      ],
+      [
+        { path: 'config.json', size: 10, modifiedAt: new Date(modifiedAt.getTime() + 1000) },
+        { path: 'universe/players/abc.json', size: 25, modifiedAt: later },
+        { path: 'universe/players/new.json', size: 15, modifiedAt: later },
+        { path: 'universe/worlds/default/0.region', size: 300, modifiedAt: later, checksum: 'crc32:aaaa' },
+      ]
+    );
+
+    expect(diff).toMatchObject({ added: 1, removed: 1, modified: 1, unchanged: 2, sizeDelta: -480 });
+    expect(diff.entries).toEqual([
+      { path: 'logs/latest.log', change: 'removed', oldSize: 500, newSize: null, sizeDelta: -500 },
+      { path: 'universe/players/abc.json', change: 'modified', oldSize: 20, newSize: 25, sizeDelta: 5 },
+      { path: 'universe/players/new.json', change: 'added', oldSize: null, newSize: 15, sizeDelta: 15 },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { IServerAdapter } from '../../adapters/IServerAdapter';
+import { LogEntry } from '../../types';
+import { prepareConsistentSnapshot } from '../BackupSnapshot';
+
+describe('prepareConsistentSnapshot', () => {
+  const settings = {
+    enabled: true,
+    preCommands: ['save-off', 'save-all flush'],
+    confirmPattern: 'Saved the game',
+    confirmTimeoutMs: 5000,
+    postCommands: ['save-on'],
+  };
+
+  let logListeners: ((log: LogEntry) => void)[];
+  let sentCommands: string[];
+  let adapter: IServerAdapter;
+
+  const emitLog = (message: string) => {
+    logListeners.forEach((listener) => listener({ timestamp: new Date(), level: 'info', message }));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    logListeners = [];
+    sentCommands = [];
+    adapter = {
+      onLog: jest.fn().mockImplementation((callback) => {
+        logListeners.push(callback);
+        return () => {
+          logListeners = logListeners.filter((listener) => listener !== callback);
+        };
+      }),
+      sendCommand: jest.fn().mockImplementation((command: string) => {
+        sentCommands.push(command);
+        return Promise.resolve({ success: true, output: '', executedAt: new Date() });
+      }),
+    } as unknown as IServerAdapter;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should wait for the save confirmation and resume saving afterwards', async () => {
+    const preparing = prepareConsistentSnapshot(adapter, settings, 'Survival');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(sentCommands).toEqual(['save-off', 'save-all flush']);
+    emitLog('[Server] Saved the game');
+
+    const resume = await preparing;
+    expect(logListeners).toHaveLength(0);
+    expect(sentCommands).toEqual(['save-off', 'save-all flush']);
+
+    await resume();
+    expect(sentCommands).toEqual(['save-off', 'save-all flush', 'save-on']);
+  });
+
+  it('should resume saving when the save is never confirmed', async () => {
+    const preparing = prepareConsistentSnapshot(adapter, settings, 'Survival');
+    const result = expect(preparing).rejects.toThrow('Survival did not confirm the save within 5s');
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await result;
+
+    expect(sentCommands).toEqual(['save-off', 'save-all flush', 'save-on']);
+    expect(logListeners).toHaveLength(0);
+  });
+
+  it('should resume saving when a pre-backup command fails', async () => {
+    (adapter.sendCommand as jest.Mock).mockImplementationOnce((command: string) => {
+      sentCommands.push(command);
+      return Promise.resolve({ success: false, output: 'Server is not running', executedAt: new Date() });
+    });
+
+    await expect(prepareConsistentSnapshot(adapter, settings, 'Survival')).rejects.toThrow('Failed to send pre-backup command "save-off"');
+    expect(sentCommands).toEqual(['save-off', 'save-on']);
+  });
+});
@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+import { BanExpiryService } from '../BanExpiryService';
+import { ActivityLogService } from '../ActivityLogService';
+import { PlayerService } from '../PlayerService';
+import { ServerService } from '../ServerService';
+
+describe('BanExpiryService', () => {
+  const adapter = { unbanPlayer: jest.fn() };
+  let prisma: any;
+  let serverService: any;
+  let playerService: any;
+  let activityLogService: any;
+  let service: BanExpiryService;
+
+  const expiredBan = {
+    id: 'player-1',
+    serverId: 'server-1',
+    uuid: '0f3c6a52-8f1e-4b8a-9d61-2a7c5e4b9d10',
+    username: 'Steve',
+    isBanned: true,
+    banReason: 'Spam',
+    bannedUntil: new Date(Date.now() - 60 * 1000),
+    server: { name: 'Survival' },
+  };
+
+  beforeEach(() => {
+    prisma = {
+      player: { findMany: jest.fn().mockResolvedValue([expiredBan]) },
+      networkBan: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    };
+    serverService = { getAdapterForServer: jest.fn().mockResolvedValue(adapter) };
+    playerService = { unbanPlayer: jest.fn().mockResolvedValue({ ...expiredBan, isBanned: false }) };
+    activityLogService = { logAsync: jest.fn() };
+    service = new BanExpiryService(
+      prisma as unknown as PrismaClient,
+      serverService as unknown as ServerService,
+      playerService as unknown as PlayerService,
+      activityLogService as unknown as ActivityLogService
+    );
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it('should only look at bans whose expiry has passed', async () => {
+    await service.liftExpiredBans();
+
+    expect(prisma.player.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { isBanned: true, bannedUntil: { lte: expect.any(Date) } },
+    }));
+  });
+
+  it('should unban through the adapter and log the unban', async () => {
+    const lifted = await service.liftExpiredBans();
+
+    expect(lifted).toBe(1);
+    expect(playerService.unbanPlayer).toHaveBeenCalledWith(adapter, 'server-1', expiredBan.uuid, 'Ban expired', {
+      username: 'Ban Expiry',
+    });
+    expect(activityLogService.logAsync).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'player:unban',
+      resourceId: expiredBan.uuid,
+      status: 'success',
+    }));
+  });
+
+  it('should keep going when one unban fails', async () => {
+    prisma.player.findMany.mockResolvedValue([expiredBan, { ...expiredBan, id: 'player-2', serverId: 'server-2' }]);
+    playerService.unbanPlayer.mockRejectedValueOnce(new Error('Server server-1 not found'));
+
+    const lifted = await service.liftExpiredBans();
+
+    expect(lifted).toBe(1);
+    expect(activityLogService.logAsync).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      errorMessage: 'Server server-1 not found',
+    }));
+  });
+
+  it('should lift bans that expired while the manager was down on start', async () => {
+    await service.start();
+
+    expect(playerService.unbanPlayer).toHaveBeenCalledTimes(1);
+  });
+});
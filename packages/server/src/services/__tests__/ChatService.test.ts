@@ -0,0 +1,138 @@
+import { PrismaClient } from '@prisma/client';
+import { ChatService, parseChatLine, compileChatFilter, validateChatFilter } from '../ChatService';
+import { ModerationService } from '../ModerationService';
+import { AlertsService } from '../AlertsService';
+import { IServerAdapter } from '../../adapters/IServerAdapter';
+
+const UUID = '0f3c6a52-8f1e-4b8a-9d61-2a7c5e4b9d10';
+
+describe('parseChatLine', () => {
+  it('should parse tagged and bracketed chat lines', () => {
+    expect(parseChatLine('[2026/10/19 12:00:00 INFO] [Chat] Steve: hello there')).toEqual({
+      username: 'Steve',
+      message: 'hello there',
+    });
+    expect(parseChatLine('[12:00:00] [Server thread/INFO]: <Alex> gg')).toEqual({ username: 'Alex', message: 'gg' });
+  });
+
+  it('should take the sender from the start of the line only', () => {
+    expect(parseChatLine('[12:00:00] [Server thread/INFO]: <Bob> [chat] Steve: discord.gg/abc')).toEqual({
+      username: 'Bob',
+      message: '[chat] Steve: discord.gg/abc',
+    });
+    expect(parseChatLine('[12:00:00] [Chat] Bob: <Steve> discord.gg/abc')).toEqual({
+      username: 'Bob',
+      message: '<Steve> discord.gg/abc',
+    });
+    expect(parseChatLine('[12:00:00] [Server thread/INFO]: Bob says [chat] Steve: hi')).toBeNull();
+  });
+
+  it('should ignore other log lines', () => {
+    expect(parseChatLine('[12:00:00] [Server thread/INFO]: Player Steve joined the game')).toBeNull();
+    expect(parseChatLine('[12:00:00] [Server thread/INFO]: Done (3.2s)! For help, type "help"')).toBeNull();
+  });
+});
+
+describe('chat filters', () => {
+  it('should match plain patterns as whole words', () => {
+    const matcher = compileChatFilter({ pattern: 'spam', isRegex: false });
+
+    expect(matcher.test('no SPAM please')).toBe(true);
+    expect(matcher.test('spammer')).toBe(false);
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(validateChatFilter({ name: 'Bad', pattern: '(', isRegex: true, action: 'alert' })).toMatch('regular expression');
+    expect(validateChatFilter({ name: 'Ads', pattern: 'discord\\.gg', isRegex: true, action: 'alert' })).toBeNull();
+  });
+});
+
+describe('ChatService', () => {
+  const adapter = { sendCommand: jest.fn().mockResolvedValue({ success: true, output: '' }) };
+  let prisma: any;
+  let moderationService: any;
+  let alertsService: any;
+  let service: ChatService;
+
+  const filter = (action: string, command: string | null = null) => ({
+    id: 'filter-1',
+    serverId: null,
+    name: 'Ads',
+    pattern: 'discord\\.gg',
+    isRegex: true,
+    action,
+    command,
+    enabled: true,
+  });
+
+  beforeEach(() => {
+    adapter.sendCommand.mockClear();
+    prisma = {
+      player: { findFirst: jest.fn().mockResolvedValue({ uuid: UUID }) },
+      chatFilter: { findMany: jest.fn().mockResolvedValue([]) },
+      chatMessage: {
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'msg-1', ...data })),
+      },
+    };
+    moderationService = { recordCase: jest.fn() };
+    alertsService = { createAlert: jest.fn() };
+    service = new ChatService(
+      prisma as unknown as PrismaClient,
+      moderationService as unknown as ModerationService,
+      alertsService as unknown as AlertsService
+    );
+    service.attach('server-1', { ...adapter, onLog: jest.fn().mockReturnValue(jest.fn()) } as unknown as IServerAdapter);
+  });
+
+  it('should store clean messages without a filter match', async () => {
+    prisma.chatFilter.findMany.mockResolvedValue([filter('warn')]);
+
+    await service.recordMessage('server-1', 'Steve', 'hello');
+
+    expect(prisma.chatMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ uuid: UUID, message: 'hello', matchedFilter: null }),
+    });
+    expect(moderationService.recordCase).not.toHaveBeenCalled();
+  });
+
+  it('should capture chat whose tag a log parsing rule moved into the source', async () => {
+    const recordMessage = jest.spyOn(service, 'recordMessage').mockResolvedValue({} as any);
+
+    service.handleLog('server-1', { timestamp: new Date(), level: 'info', source: 'Chat', message: 'Steve: hi' });
+    service.handleLog('server-1', { timestamp: new Date(), level: 'info', source: 'system', message: '[Chat] Steve: hi' });
+
+    expect(recordMessage).toHaveBeenCalledTimes(1);
+    expect(recordMessage).toHaveBeenCalledWith('server-1', 'Steve', 'hi', expect.any(Date));
+  });
+
+  it('should auto-warn the sender', async () => {
+    prisma.chatFilter.findMany.mockResolvedValue([filter('warn')]);
+
+    await service.recordMessage('server-1', 'Steve', 'join discord.gg/abc');
+
+    expect(moderationService.recordCase).toHaveBeenCalledWith(expect.objectContaining({
+      uuid: UUID,
+      type: 'warning',
+      actor: { username: 'Chat Filter' },
+    }));
+  });
+
+  it('should mute with the configured console command', async () => {
+    prisma.chatFilter.findMany.mockResolvedValue([filter('mute', 'mute {player} 10m')]);
+
+    await service.recordMessage('server-1', 'Steve', 'join discord.gg/abc');
+
+    expect(adapter.sendCommand).toHaveBeenCalledWith('mute Steve 10m');
+  });
+
+  it('should raise an alert', async () => {
+    prisma.chatFilter.findMany.mockResolvedValue([filter('alert')]);
+
+    await service.recordMessage('server-1', 'Steve', 'join discord.gg/abc');
+
+    expect(alertsService.createAlert).toHaveBeenCalledWith(expect.objectContaining({
+      serverId: 'server-1',
+      message: 'Steve: join discord.gg/abc',
+    }));
+  });
+});
@@ -0,0 +1,82 @@
+import { PrismaClient } from '@prisma/client';
+import { ConsoleService } from '../ConsoleService';
+
+const row = (id: number, message: string) => ({
+  id: `log-${String(id).padStart(3, '0')}`,
+  serverId: 'server-1',
+  timestamp: new Date(Date.UTC(2026, 9, 19, 2, 0, id)),
+  level: 'info',
+  message,
+  source: 'server',
+});
+
+describe('ConsoleService search', () => {
+  let prisma: any;
+  let service: ConsoleService;
+
+  beforeEach(() => {
+    prisma = { consoleLog: { findMany: jest.fn().mockResolvedValue([]) } };
+    service = new ConsoleService(prisma as unknown as PrismaClient);
+  });
+
+  it('should filter text, levels and time range in the query', async () => {
+    const from = new Date('2026-10-18T00:00:00Z');
+
+    await service.searchLogs('server-1', { query: 'Exception', levels: ['error', 'warn'], from });
+
+    expect(prisma.consoleLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        serverId: 'server-1',
+        level: { in: ['error', 'warn'] },
+        message: { contains: 'Exception' },
+        timestamp: { gte: from },
+      },
+      take: 101,
+    }));
+  });
+
+  it('should return a cursor that resumes after the last row', async () => {
+    prisma.consoleLog.findMany.mockResolvedValueOnce([row(3, 'c'), row(2, 'b'), row(1, 'a')]);
+
+    const first = await service.searchLogs('server-1', { limit: 2 });
+    expect(first.logs.map(l => l.message)).toEqual(['c', 'b']);
+    expect(first.nextCursor).not.toBeNull();
+
+    await service.searchLogs('server-1', { limit: 2, cursor: first.nextCursor! });
+    expect(prisma.consoleLog.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: {
+        AND: [{ serverId: 'server-1' }, {
+          OR: [
+            { timestamp: { lt: row(2, '').timestamp } },
+            { timestamp: row(2, '').timestamp, id: { lt: 'log-002' } },
+          ],
+        }],
+      },
+    }));
+  });
+
+  it('should match regular expressions in process', async () => {
+    prisma.consoleLog.findMany.mockResolvedValueOnce([
+      row(3, 'java.lang.NullPointerException'),
+      row(2, 'Player joined'),
+      row(1, 'java.io.IOException: Broken pipe'),
+    ]);
+
+    const result = await service.searchLogs('server-1', { query: 'java\\.\\w+\\.\\w+Exception', regex: true });
+
+    expect(result.logs.map(l => l.message)).toEqual(['java.lang.NullPointerException', 'java.io.IOException: Broken pipe']);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should reject invalid regular expressions', async () => {
+    await expect(service.searchLogs('server-1', { query: '(', regex: true })).rejects.toThrow('Invalid regular expression');
+  });
+
+  it('should export oldest first', async () => {
+    prisma.consoleLog.findMany.mockResolvedValueOnce([row(2, 'second'), row(1, 'first')]);
+
+    const logs = await service.exportLogs('server-1', {});
+
+    expect(logs.map(l => l.message)).toEqual(['first', 'second']);
+  });
+});
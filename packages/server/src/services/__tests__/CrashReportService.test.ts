@@ -0,0 +1,104 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import AdmZip from 'adm-zip';
+import { PrismaClient } from '@prisma/client';
+import { CrashReportService, findDiagnosticFiles } from '../CrashReportService';
+import { AlertsService } from '../AlertsService';
+import { MetricsService } from '../MetricsService';
+import { ModService } from '../ModService';
+import { IServerAdapter } from '../../adapters/IServerAdapter';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: { dataPath: require('path').join(require('os').tmpdir(), 'hsm-crash-report-test') },
+}));
+
+describe('findDiagnosticFiles', () => {
+  let serverPath: string;
+
+  beforeEach(async () => {
+    serverPath = await fs.mkdtemp(path.join(os.tmpdir(), 'hsm-crash-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(serverPath);
+  });
+
+  it('should pick up JVM error logs and recent crash reports only', async () => {
+    await fs.writeFile(path.join(serverPath, 'hs_err_pid4242.log'), 'SIGSEGV');
+    await fs.writeFile(path.join(serverPath, 'server.log'), 'not a crash file');
+    await fs.outputFile(path.join(serverPath, 'crash-reports', 'crash-new.txt'), 'new');
+    await fs.outputFile(path.join(serverPath, 'crash-reports', 'crash-old.txt'), 'old');
+    const old = new Date(Date.now() - 60 * 60 * 1000);
+    await fs.utimes(path.join(serverPath, 'crash-reports', 'crash-old.txt'), old, old);
+
+    const files = await findDiagnosticFiles(serverPath, new Date(Date.now() - 15 * 60 * 1000));
+
+    expect(files.map((file) => file.archiveName).sort()).toEqual(['crash-reports/crash-new.txt', 'hs_err_pid4242.log']);
+  });
+});
+
+describe('CrashReportService', () => {
+  let serverPath: string;
+  let prisma: any;
+  let alertsService: any;
+  let service: CrashReportService;
+
+  beforeEach(async () => {
+    serverPath = await fs.mkdtemp(path.join(os.tmpdir(), 'hsm-crash-'));
+    await fs.writeFile(path.join(serverPath, 'hs_err_pid7.log'), 'EXCEPTION_ACCESS_VIOLATION');
+
+    prisma = {
+      server: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'server-1', name: 'Survival', version: '1.0', adapterType: 'java', serverPath, jvmArgs: '-Xmx2G', serverArgs: null,
+        }),
+      },
+      crashReport: {
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'crash-1', createdAt: new Date(), ...data })),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+    alertsService = { raiseCrashAlert: jest.fn().mockResolvedValue(undefined) };
+    const metricsService = { queryMetrics: jest.fn().mockResolvedValue([{ cpuUsage: 99 }]) };
+    const modService = {
+      getServerMods: jest.fn().mockResolvedValue([
+        { projectTitle: 'Better Maps', versionName: '2.1', enabled: true, files: [{ fileName: 'BetterMaps.jar' }] },
+      ]),
+    };
+
+    service = new CrashReportService(
+      prisma as unknown as PrismaClient,
+      modService as unknown as ModService,
+      metricsService as unknown as MetricsService,
+      alertsService as unknown as AlertsService
+    );
+    service.attach('server-1', {
+      getLogs: jest.fn().mockResolvedValue([
+        { timestamp: new Date(), level: 'info', message: 'World loaded', source: 'server' },
+        { timestamp: new Date(), level: 'error', message: 'java.lang.OutOfMemoryError: Java heap space', source: 'server' },
+      ]),
+    } as unknown as IServerAdapter);
+  });
+
+  afterEach(async () => {
+    await fs.remove(serverPath);
+    await fs.remove(path.join(os.tmpdir(), 'hsm-crash-report-test'));
+  });
+
+  it('should bundle logs, diagnostics, metrics and mods and link the crash alert', async () => {
+    const report = await service.captureCrash('server-1');
+
+    expect(report).toEqual(expect.objectContaining({
+      summary: 'java.lang.OutOfMemoryError: Java heap space',
+      logLines: 2,
+      files: ['hs_err_pid7.log'],
+    }));
+    expect(alertsService.raiseCrashAlert).toHaveBeenCalledWith('server-1', expect.objectContaining({ crashReportId: 'crash-1' }));
+
+    const { filePath } = prisma.crashReport.create.mock.calls[0][0].data;
+    const entries = new AdmZip(filePath).getEntries().map((entry) => entry.entryName).sort();
+    expect(entries).toEqual(['console.log', 'crash.json', 'hs_err_pid7.log', 'metrics.json', 'mods.json']);
+  });
+});
@@ -0,0 +1,115 @@
+import { PrismaClient } from '@prisma/client';
+import { IdleService, hashWakeToken, validateIdlePolicy } from '../IdleService';
+import { ServerService } from '../ServerService';
+import { ActivityLogService } from '../ActivityLogService';
+import { MetricData } from '../MetricsService';
+import { ACTIVITY_ACTIONS } from '../../constants/ActivityLogActions';
+
+describe('IdleService', () => {
+  let prisma: any;
+  let serverService: any;
+  let activityLogService: any;
+  let service: IdleService;
+  let server: any;
+
+  const sample = (playerCount: number, minutesFromStart: number): MetricData => ({
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, minutesFromStart)),
+    cpuUsage: 5,
+    memoryUsage: 40,
+    memoryUsedMB: 2048,
+    memoryTotalMB: 8192,
+    diskUsage: 10,
+    diskUsedGB: 5,
+    diskTotalGB: 100,
+    playerCount,
+  });
+
+  beforeEach(() => {
+    server = {
+      id: 'server-1', name: 'Survival', status: 'running', idleStopEnabled: true, idleStopMinutes: 15,
+      idleWakeCron: null, idleSince: null, wakeTokenHash: null,
+    };
+    prisma = {
+      server: {
+        findUnique: jest.fn().mockImplementation(({ where }) => Promise.resolve(
+          where.id === server.id || where.wakeTokenHash === server.wakeTokenHash ? server : null
+        )),
+        update: jest.fn().mockImplementation(({ data }) => {
+          Object.assign(server, data);
+          return Promise.resolve(server);
+        }),
+      },
+    };
+    serverService = {
+      stopServer: jest.fn().mockImplementation(() => {
+        server.status = 'stopped';
+        return Promise.resolve();
+      }),
+      startServer: jest.fn().mockResolvedValue(undefined),
+    };
+    activityLogService = { logAsync: jest.fn() };
+
+    service = new IdleService(
+      prisma as unknown as PrismaClient,
+      serverService as unknown as ServerService,
+      activityLogService as unknown as ActivityLogService
+    );
+  });
+
+  afterEach(() => {
+    service.cleanup();
+  });
+
+  it('should stop a server once it has been empty for the idle period', async () => {
+    await service.handleSample('server-1', sample(0, 0));
+    await service.handleSample('server-1', sample(0, 10));
+    expect(serverService.stopServer).not.toHaveBeenCalled();
+
+    await service.handleSample('server-1', sample(0, 15));
+
+    expect(serverService.stopServer).toHaveBeenCalledWith('server-1');
+    expect(server.idleSince).toBeInstanceOf(Date);
+    expect(activityLogService.logAsync).toHaveBeenCalledWith(expect.objectContaining({
+      action: ACTIVITY_ACTIONS.SERVER_IDLE_STOP,
+      userId: 'system',
+      status: 'success',
+    }));
+  });
+
+  it('should restart the idle clock when players join', async () => {
+    await service.handleSample('server-1', sample(0, 0));
+    await service.handleSample('server-1', sample(2, 10));
+    await service.handleSample('server-1', sample(0, 12));
+    await service.handleSample('server-1', sample(0, 20));
+
+    expect(serverService.stopServer).not.toHaveBeenCalled();
+  });
+
+  it('should only wake servers stopped by the idle policy', async () => {
+    server.status = 'stopped';
+
+    const manualStop = await service.wake('server-1', 'manual');
+    expect(manualStop.woke).toBe(false);
+    expect(serverService.startServer).not.toHaveBeenCalled();
+
+    server.idleSince = new Date();
+    const token = await service.createWakeToken('server-1');
+    expect(server.wakeTokenHash).toBe(hashWakeToken(token));
+
+    const result = await service.wakeByToken(token, 'link');
+
+    expect(result.woke).toBe(true);
+    expect(serverService.startServer).toHaveBeenCalledWith('server-1');
+    expect(activityLogService.logAsync).toHaveBeenCalledWith(expect.objectContaining({
+      action: ACTIVITY_ACTIONS.SERVER_WAKE,
+      details: expect.objectContaining({ source: 'link' }),
+    }));
+    await expect(service.wakeByToken('wrong-token', 'webhook')).rejects.toThrow('Invalid wake token');
+  });
+
+  it('should validate idle policy settings', () => {
+    expect(validateIdlePolicy({ idleStopMinutes: 0 })).toMatch('idleStopMinutes');
+    expect(validateIdlePolicy({ idleWakeCron: 'every morning' })).toMatch('idleWakeCron');
+    expect(validateIdlePolicy({ idleStopEnabled: true, idleStopMinutes: 30, idleWakeCron: '0 8 * * *' })).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { PrismaClient } from '@prisma/client';
+import { LogAlertService, validateLogAlertRule } from '../LogAlertService';
+import { AlertsService } from '../AlertsService';
+import { AutomationRulesService } from '../AutomationRulesService';
+import { LogEntry } from '../../types';
+
+const line = (message: string, level: LogEntry['level'] = 'info'): LogEntry => ({
+  timestamp: new Date(),
+  level,
+  message,
+  source: 'server',
+});
+
+describe('validateLogAlertRule', () => {
+  it('should reject invalid patterns and thresholds', () => {
+    expect(validateLogAlertRule({ name: 'Bad', pattern: '(', severity: 'warning' })).toMatch('regular expression');
+    expect(validateLogAlertRule({ name: 'Lag', pattern: "Can't keep up", threshold: 0, severity: 'warning' })).toMatch('threshold');
+    expect(validateLogAlertRule({ name: 'Lag', pattern: "Can't keep up", level: 'loud' as any, severity: 'warning' })).toMatch('level');
+    expect(validateLogAlertRule({ name: 'OOM', pattern: 'OutOfMemoryError', severity: 'critical' })).toBeNull();
+  });
+});
+
+describe('LogAlertService', () => {
+  const rule = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rule-1',
+    serverId: null,
+    name: 'Lag',
+    pattern: "can't keep up",
+    level: null,
+    threshold: 3,
+    windowMinutes: 5,
+    severity: 'warning',
+    notifyDiscord: false,
+    automationRuleId: null,
+    enabled: true,
+    ...overrides,
+  });
+
+  let prisma: any;
+  let alertsService: any;
+  let automationRulesService: any;
+  let service: LogAlertService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    prisma = {
+      logAlertRule: {
+        findMany: jest.fn().mockResolvedValue([rule()]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    alertsService = { createAlert: jest.fn().mockResolvedValue({}) };
+    automationRulesService = { executeRule: jest.fn().mockResolvedValue({ status: 'success' }) };
+    service = new LogAlertService(
+      prisma as unknown as PrismaClient,
+      alertsService as unknown as AlertsService,
+      automationRulesService as unknown as AutomationRulesService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should alert once the threshold is reached within the window', async () => {
+    await service.checkLog('server-1', line("Can't keep up! Is the server overloaded?"));
+    await service.checkLog('server-1', line("Can't keep up! Is the server overloaded?"));
+    expect(alertsService.createAlert).not.toHaveBeenCalled();
+
+    await service.checkLog('server-1', line("Can't keep up! Is the server overloaded?"));
+
+    expect(alertsService.createAlert).toHaveBeenCalledTimes(1);
+    expect(alertsService.createAlert).toHaveBeenCalledWith(expect.objectContaining({
+      serverId: 'server-1',
+      type: 'custom',
+      severity: 'warning',
+      title: 'Log alert: Lag',
+      notifyDiscord: false,
+      metadata: expect.objectContaining({ ruleId: 'rule-1', matches: 3 }),
+    }));
+  });
+
+  it('should forget matches older than the window', async () => {
+    await service.checkLog('server-1', line("Can't keep up!"));
+    await service.checkLog('server-1', line("Can't keep up!"));
+    jest.advanceTimersByTime(6 * 60 * 1000);
+    await service.checkLog('server-1', line("Can't keep up!"));
+
+    expect(alertsService.createAlert).not.toHaveBeenCalled();
+  });
+
+  it('should count each server separately and respect the level filter', async () => {
+    prisma.logAlertRule.findMany.mockResolvedValue([rule({ threshold: 2, level: 'error' })]);
+
+    await service.checkLog('server-1', line("Can't keep up!", 'error'));
+    await service.checkLog('server-2', line("Can't keep up!", 'error'));
+    await service.checkLog('server-1', line("Can't keep up!", 'warn'));
+
+    expect(alertsService.createAlert).not.toHaveBeenCalled();
+  });
+
+  it('should run the linked automation rule', async () => {
+    prisma.logAlertRule.findMany.mockResolvedValue([
+      rule({ pattern: 'OutOfMemoryError', threshold: 1, severity: 'critical', automationRuleId: 'auto-1' }),
+    ]);
+
+    await service.checkLog('server-1', line('java.lang.OutOfMemoryError: Java heap space', 'error'));
+
+    expect(alertsService.createAlert).toHaveBeenCalledWith(expect.objectContaining({ severity: 'critical' }));
+    expect(automationRulesService.executeRule).toHaveBeenCalledWith('auto-1');
+  });
+});
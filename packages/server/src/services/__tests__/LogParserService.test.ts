@@ -0,0 +1,118 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  LogParserService,
+  createDefaultLogParser,
+  parseLogTimestamp,
+  validateLogRule,
+} from '../LogParserService';
+
+describe('createDefaultLogParser', () => {
+  const parse = createDefaultLogParser('server');
+
+  it('should parse Hytale log lines', () => {
+    const entry = parse('[2026/01/14 10:12:01   WARN]   [World|default] Chunk took 120ms to save');
+
+    expect(entry).toMatchObject({
+      level: 'warn',
+      source: 'World|default',
+      message: 'Chunk took 120ms to save',
+    });
+    expect(entry!.timestamp).toEqual(new Date(2026, 0, 14, 10, 12, 1));
+  });
+
+  it('should parse thread and level lines', () => {
+    expect(parse('[12:00:00] [Server thread/ERROR]: Could not load world')).toMatchObject({
+      level: 'error',
+      thread: 'Server thread',
+      source: 'server',
+      message: 'Could not load world',
+    });
+  });
+
+  it('should not treat words in the message as a level', () => {
+    expect(parse('[12:00:00 INFO]: Login failed for Steve: wrong password')!.level).toBe('info');
+    expect(parse('Player Steve failed to connect')!.level).toBe('info');
+    expect(parse('Something went [WARN] wrong')!.level).toBe('warn');
+  });
+
+  it('should skip blank lines', () => {
+    expect(parse('   ')).toBeNull();
+  });
+});
+
+describe('parseLogTimestamp', () => {
+  const now = new Date(2026, 9, 19, 8, 0, 0);
+
+  it('should place time-only values on the current day', () => {
+    expect(parseLogTimestamp('23:15:42', now)).toEqual(new Date(2026, 9, 19, 23, 15, 42));
+  });
+
+  it('should fall back to now for unreadable values', () => {
+    expect(parseLogTimestamp('yesterday', now)).toBe(now);
+  });
+});
+
+describe('validateLogRule', () => {
+  it('should require a message group and a valid pattern', () => {
+    expect(validateLogRule({ name: 'Bad', pattern: '(' })).toMatch('regular expression');
+    expect(validateLogRule({ name: 'No message', pattern: '^(?<level>\\w+)' })).toMatch('message');
+    expect(validateLogRule({ name: 'Ok', pattern: '^(?<level>\\w+) (?<message>.*)$' })).toBeNull();
+  });
+
+  it('should reject rules scoped to both a server and an adapter type', () => {
+    expect(validateLogRule({ serverId: 'server-1', adapterType: 'java' })).toMatch('not both');
+  });
+});
+
+describe('LogParserService', () => {
+  const rule = (overrides: Record<string, unknown>) => ({
+    id: 'rule',
+    serverId: null,
+    adapterType: null,
+    name: 'Rule',
+    pattern: '^(?<message>.*)$',
+    priority: 0,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  let prisma: any;
+  let service: LogParserService;
+
+  beforeEach(async () => {
+    prisma = {
+      logParseRule: {
+        findMany: jest.fn().mockResolvedValue([
+          rule({ id: 'global', name: 'Plugin', pattern: '^\\{(?<source>\\w+)\\} (?<level>\\w+) (?<message>.*)$' }),
+          rule({ id: 'server', serverId: 'server-1', name: 'Server', pattern: '^!(?<level>\\w+)! (?<message>.*)$' }),
+          rule({ id: 'adapter', adapterType: 'hytale', name: 'Adapter', pattern: '^(?<message>.*)$' }),
+        ]),
+      },
+    };
+    service = new LogParserService(prisma as unknown as PrismaClient);
+    await service.initialize();
+  });
+
+  it('should apply rules scoped to the server, then rules for every server', () => {
+    const parse = service.getParser('server-1', 'java');
+
+    expect(parse('!SEVERE! Disk full')).toMatchObject({ level: 'error', message: 'Disk full', source: 'server' });
+    expect(parse('{Economy} WARN Balance out of sync')).toMatchObject({
+      level: 'warn',
+      source: 'Economy',
+      message: 'Balance out of sync',
+    });
+    expect(service.getParser('server-2', 'java')('!SEVERE! Disk full')!.level).toBe('info');
+  });
+
+  it('should test sample lines against a candidate pattern', () => {
+    const results = service.testLines(['ERROR boom', 'no match', ''], { pattern: '^(?<level>ERROR) (?<message>.*)$' });
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({ rule: 'Candidate', groups: { level: 'ERROR', message: 'boom' } });
+    expect(results[0].entry!.level).toBe('error');
+    expect(results[1]).toMatchObject({ rule: null, groups: {} });
+  });
+});
@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import { MetricsService } from '../MetricsService';
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    server: {
+      findMany: jest.fn(),
+    },
+    serverMetric: {
+      findMany: jest.fn(),
+    },
+    hostMetric: {
+      findMany: jest.fn(),
+    },
+  };
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+// Monday 2026-01-05, 00:00 UTC
+const START = new Date(Date.UTC(2026, 0, 5, 0, 0));
+
+const at = (minutes: number) => new Date(START.getTime() + minutes * 60000);
+
+function metric(serverId: string, minute: number, playerCount: number, cpuUsage = 10) {
+  return { serverId, timestamp: at(minute), cpuUsage, memoryUsage: 50, playerCount };
+}
+
+describe('MetricsService analytics', () => {
+  let service: MetricsService;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma = new PrismaClient();
+    mockPrisma.server.findMany.mockResolvedValue([
+      { id: 'server-1', name: 'Lobby', createdAt: new Date(0) },
+      { id: 'server-2', name: 'Survival', createdAt: new Date(0) },
+    ]);
+    // Manager observed the first 4 minutes
+    mockPrisma.hostMetric.findMany.mockResolvedValue([0, 1, 2, 3].map(minute => ({ timestamp: at(minute) })));
+    service = new MetricsService();
+  });
+
+  it('should sum players across servers per minute for fleet peaks', async () => {
+    mockPrisma.serverMetric.findMany.mockResolvedValue([
+      metric('server-1', 0, 3),
+      metric('server-2', 0, 4),
+      metric('server-1', 1, 5),
+      metric('server-1', 2, 1),
+    ]);
+
+    const report = await service.getAnalytics({ startTime: START, endTime: at(60) });
+
+    expect(report.summary.peakPlayers).toBe(7);
+    expect(report.summary.peakAt).toBe(at(0).toISOString());
+    expect(report.peakByHour[0]).toBe(7);
+    expect(report.peakByWeekday[1]).toBe(7);
+    expect(report.range.bucketMinutes).toBe(5);
+    expect(report.trends.peakPlayers[0]).toBe(7);
+  });
+
+  it('should bucket hour of day in the viewer timezone', async () => {
+    mockPrisma.serverMetric.findMany.mockResolvedValue([metric('server-1', 0, 2)]);
+
+    // UTC-3 viewers see midnight UTC Monday as 21:00 on Sunday
+    const report = await service.getAnalytics({ startTime: START, endTime: at(60), timezoneOffset: 180 });
+
+    expect(report.peakByHour[21]).toBe(2);
+    expect(report.peakByWeekdayHour[0][21]).toBe(2);
+  });
+
+  it('should report uptime against the minutes the manager was collecting', async () => {
+    mockPrisma.serverMetric.findMany.mockResolvedValue([
+      metric('server-1', 0, 0),
+      metric('server-1', 1, 0),
+      metric('server-1', 2, 0),
+      metric('server-2', 0, 0),
+    ]);
+
+    const report = await service.getAnalytics({ startTime: START, endTime: at(60) });
+
+    expect(report.servers.find(s => s.serverId === 'server-1')?.uptimePercent).toBe(75);
+    expect(report.servers.find(s => s.serverId === 'server-2')?.uptimePercent).toBe(25);
+    expect(report.summary.uptimePercent).toBe(50);
+  });
+});
@@ -0,0 +1,113 @@
+import { PrismaClient } from '@prisma/client';
+import { ModerationService } from '../ModerationService';
+import { PlayerService } from '../PlayerService';
+
+const UUID = '0f3c6a52-8f1e-4b8a-9d61-2a7c5e4b9d10';
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+describe('ModerationService', () => {
+  let prisma: any;
+  let service: ModerationService;
+
+  beforeEach(() => {
+    prisma = {
+      moderationCase: {
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'case-1', ...data })),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+    service = new ModerationService(prisma as unknown as PrismaClient);
+  });
+
+  it('should record the acting user', async () => {
+    await service.recordCase({
+      uuid: UUID,
+      username: 'Steve',
+      type: 'warning',
+      reason: 'Spam',
+      actor: { id: 'user-1', username: 'admin' },
+    });
+
+    expect(prisma.moderationCase.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ uuid: UUID, type: 'warning', actorId: 'user-1', actorName: 'admin' }),
+    });
+  });
+
+  it('should suggest a temp ban after three warnings', async () => {
+    prisma.moderationCase.findMany.mockResolvedValue([
+      { type: 'warning', createdAt: daysAgo(10) },
+      { type: 'warning', createdAt: daysAgo(5) },
+      { type: 'warning', createdAt: daysAgo(1) },
+    ]);
+
+    const summary = await service.getSummary(UUID);
+
+    expect(summary.warnings).toBe(3);
+    expect(summary.suggestion).toBe('temp_ban');
+  });
+
+  it('should only count warnings since the last ban', async () => {
+    prisma.moderationCase.findMany.mockResolvedValue([
+      { type: 'warning', createdAt: daysAgo(30) },
+      { type: 'warning', createdAt: daysAgo(25) },
+      { type: 'warning', createdAt: daysAgo(20) },
+      { type: 'ban', createdAt: daysAgo(15) },
+      { type: 'warning', createdAt: daysAgo(2) },
+    ]);
+
+    const summary = await service.getSummary(UUID);
+
+    expect(summary.warnings).toBe(1);
+    expect(summary.bans).toBe(1);
+    expect(summary.suggestion).toBeNull();
+  });
+
+  it('should suggest a permanent ban after repeated bans', async () => {
+    prisma.moderationCase.findMany.mockResolvedValue([
+      { type: 'ban', createdAt: daysAgo(40) },
+      { type: 'ban', createdAt: daysAgo(3) },
+    ]);
+
+    expect((await service.getSummary(UUID)).suggestion).toBe('permanent_ban');
+  });
+});
+
+describe('PlayerService moderation cases', () => {
+  const adapter = { kickPlayer: jest.fn(), banPlayer: jest.fn() };
+  let prisma: any;
+  let moderationService: any;
+  let playerService: PlayerService;
+
+  beforeEach(() => {
+    prisma = {
+      player: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        update: jest.fn().mockResolvedValue({ serverId: 'server-1', uuid: UUID, username: 'Steve' }),
+      },
+      playerSession: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    moderationService = { recordCase: jest.fn() };
+    playerService = new PlayerService(prisma as unknown as PrismaClient, undefined, moderationService as ModerationService);
+  });
+
+  it('should log a ban with its actor', async () => {
+    await playerService.banPlayer(adapter as any, 'server-1', UUID, 'Griefing', 3600, { id: 'user-1', username: 'admin' });
+
+    expect(moderationService.recordCase).toHaveBeenCalledWith({
+      uuid: UUID,
+      username: 'Steve',
+      type: 'ban',
+      reason: 'Griefing',
+      duration: 3600,
+      serverId: 'server-1',
+      actor: { id: 'user-1', username: 'admin' },
+    });
+  });
+
+  it('should not log actions without an actor', async () => {
+    await playerService.kickPlayer(adapter as any, 'server-1', UUID, 'AFK');
+
+    expect(moderationService.recordCase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client';
+import { NetworkService } from '../NetworkService';
+import { ServerService } from '../ServerService';
+import { BackupService } from '../BackupService';
+import { PlayerService } from '../PlayerService';
+
+const UUID = '0f3c6a52-8f1e-4b8a-9d61-2a7c5e4b9d10';
+
+describe('NetworkService network bans', () => {
+  const adapter = {};
+  let prisma: any;
+  let serverService: any;
+  let playerService: any;
+  let service: NetworkService;
+
+  const network = {
+    id: 'network-1',
+    name: 'Lobby Network',
+    members: [
+      { serverId: 'server-1', server: { id: 'server-1', name: 'Lobby', status: 'running' } },
+      { serverId: 'server-2', server: { id: 'server-2', name: 'Survival', status: 'stopped' } },
+    ],
+  };
+  const ban = { id: 'ban-1', networkId: 'network-1', uuid: UUID, username: 'Steve', reason: 'Cheating', bannedUntil: null };
+
+  beforeEach(() => {
+    prisma = {
+      serverNetwork: { findUnique: jest.fn().mockResolvedValue(network) },
+      serverNetworkMember: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        aggregate: jest.fn().mockResolvedValue({ _max: { sortOrder: 1 } }),
+        create: jest.fn(),
+      },
+      server: { findUnique: jest.fn().mockResolvedValue({ id: 'server-3', name: 'Creative' }) },
+      player: {
+        findFirst: jest.fn().mockResolvedValue({ username: 'Steve' }),
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      networkBan: {
+        findMany: jest.fn().mockResolvedValue([ban]),
+        findUnique: jest.fn().mockResolvedValue(ban),
+        upsert: jest.fn().mockResolvedValue(ban),
+        delete: jest.fn(),
+      },
+    };
+    serverService = { getAdapterForServer: jest.fn().mockResolvedValue(adapter) };
+    playerService = { banPlayer: jest.fn(), unbanPlayer: jest.fn() };
+    service = new NetworkService(
+      prisma as unknown as PrismaClient,
+      serverService as unknown as ServerService,
+      {} as BackupService,
+      playerService as unknown as PlayerService
+    );
+  });
+
+  it('should ban the player on every member server', async () => {
+    const { results } = await service.banPlayer('network-1', { uuid: UUID, reason: 'Cheating' });
+
+    expect(results.map(r => r.success)).toEqual([true, true]);
+    expect(prisma.player.create).toHaveBeenCalledTimes(2);
+    expect(playerService.banPlayer).toHaveBeenCalledWith(adapter, 'server-1', UUID, 'Cheating', undefined);
+    expect(playerService.banPlayer).toHaveBeenCalledWith(adapter, 'server-2', UUID, 'Cheating', undefined);
+  });
+
+  it('should require a username for players the manager has never seen', async () => {
+    prisma.player.findFirst.mockResolvedValue(null);
+
+    await expect(service.banPlayer('network-1', { uuid: UUID })).rejects.toThrow('Username is required');
+  });
+
+  it('should apply existing bans to a server added later', async () => {
+    await service.addServer('network-1', 'server-3');
+
+    expect(playerService.banPlayer).toHaveBeenCalledWith(adapter, 'server-3', UUID, 'Cheating', undefined);
+  });
+
+  it('should lift the ban everywhere it is in effect', async () => {
+    prisma.player.findUnique
+      .mockResolvedValueOnce({ isBanned: true, banReason: 'Cheating', bannedUntil: null })
+      .mockResolvedValueOnce({ isBanned: false });
+
+    const result = await service.unbanPlayer('network-1', UUID);
+
+    expect(result.success).toBe(true);
+    expect(prisma.networkBan.delete).toHaveBeenCalledWith({ where: { id: 'ban-1' } });
+    expect(playerService.unbanPlayer).toHaveBeenCalledTimes(1);
+    expect(playerService.unbanPlayer).toHaveBeenCalledWith(adapter, 'server-1', UUID);
+  });
+
+  it('should keep local bans the network ban did not set', async () => {
+    prisma.player.findUnique
+      .mockResolvedValueOnce({ isBanned: true, banReason: 'Griefing spawn', bannedUntil: null })
+      .mockResolvedValueOnce({ isBanned: true, banReason: 'Cheating', bannedUntil: null });
+
+    const result = await service.unbanPlayer('network-1', UUID);
+
+    expect(result.results[0].skipped).toBe('Player has a local ban that was not set by the network ban');
+    expect(result.results[1].skipped).toBeUndefined();
+    expect(playerService.unbanPlayer).toHaveBeenCalledTimes(1);
+    expect(playerService.unbanPlayer).toHaveBeenCalledWith(adapter, 'server-2', UUID);
+  });
+
+  it('should replace a local temp ban that would expire before the network ban', async () => {
+    const tempBan = { isBanned: true, banReason: 'Spam', bannedUntil: new Date(Date.now() + 60 * 60 * 1000) };
+    prisma.player.findUnique
+      .mockResolvedValueOnce(tempBan)
+      .mockResolvedValueOnce({ isBanned: true, banReason: 'Spam', bannedUntil: null });
+
+    await service.banPlayer('network-1', { uuid: UUID, reason: 'Cheating' });
+
+    expect(playerService.banPlayer).toHaveBeenCalledTimes(1);
+    expect(playerService.banPlayer).toHaveBeenCalledWith(adapter, 'server-1', UUID, 'Cheating', undefined);
+    expect(prisma.player.update).toHaveBeenCalledWith({
+      where: { serverId_uuid: { serverId: 'server-1', uuid: UUID } },
+      data: { banReason: 'Cheating', bannedUntil: null },
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { PrismaClient } from '@prisma/client';
+import {
+  PlayerFileSyncService,
+  parseBans,
+  parseWhitelist,
+  parsePermissions,
+  writeBans,
+  writePermissions,
+  writeWhitelist,
+  reconcileEntries,
+} from '../PlayerFileSyncService';
+import { PlayerService } from '../PlayerService';
+
+const STEVE = '0f3c6a52-8f1e-4b8a-9d61-2a7c5e4b9d10';
+const ALEX = '7d2b9e41-3c5a-4f6e-8b1d-9a0c2e4f6b83';
+
+describe('player file parsers', () => {
+  it('should parse permanent and timed bans', () => {
+    const parsed = parseBans([
+      { type: 'infinite', target: STEVE, reason: 'Griefing' },
+      { type: 'timed', target: ALEX.toUpperCase(), expiresOn: Date.UTC(2026, 11, 1) },
+      { reason: 'no target' },
+    ]);
+
+    expect(parsed.entries).toEqual({
+      [STEVE]: 'permanent',
+      [ALEX]: '2026-12-01T00:00:00.000Z',
+    });
+    expect(parsed.reasons[STEVE]).toBe('Griefing');
+  });
+
+  it('should parse whitelist objects and bare arrays', () => {
+    expect(parseWhitelist({ enabled: true, list: [STEVE] }).entries).toEqual({ [STEVE]: 'true' });
+    expect(parseWhitelist([{ uuid: ALEX, name: 'Alex' }]).names).toEqual({ [ALEX]: 'Alex' });
+  });
+
+  it('should treat members of the OP group as operators', () => {
+    const parsed = parsePermissions({
+      users: {
+        [STEVE]: { groups: ['Adventure', 'op'] },
+        [ALEX]: { groups: ['Adventure'] },
+      },
+    });
+
+    expect(parsed.entries).toEqual({ [STEVE]: 'true' });
+  });
+});
+
+describe('player file writers', () => {
+  it('should keep unknown fields on existing bans', () => {
+    const written = writeBans(
+      [{ type: 'infinite', target: STEVE, by: 'console', timestamp: 1 }, { type: 'infinite', target: ALEX }],
+      { [STEVE]: 'permanent' },
+      {}
+    );
+
+    expect(written).toEqual([{ type: 'infinite', target: STEVE, by: 'console', timestamp: 1 }]);
+  });
+
+  it('should keep the whitelist enabled flag', () => {
+    expect(writeWhitelist({ enabled: true, list: [STEVE] }, { [ALEX]: 'true' })).toEqual({
+      enabled: true,
+      list: [ALEX],
+    });
+  });
+
+  it('should only touch the OP group', () => {
+    const written: any = writePermissions(
+      { users: { [STEVE]: { groups: ['Adventure', 'OP'] } }, groups: { OP: ['*'] } },
+      { [ALEX]: 'true' }
+    );
+
+    expect(written.users[STEVE].groups).toEqual(['Adventure']);
+    expect(written.users[ALEX].groups).toEqual(['OP']);
+    expect(written.groups).toEqual({ OP: ['*'] });
+  });
+});
+
+describe('reconcileEntries', () => {
+  it('should carry changes from whichever side moved', () => {
+    const result = reconcileEntries(
+      'whitelisted',
+      { [STEVE]: 'true' },
+      { [STEVE]: 'true', [ALEX]: 'true' }, // Alex added in the file
+      {} // Steve removed in the manager
+    );
+
+    expect(result.toManager).toEqual([ALEX]);
+    expect(result.toFile).toEqual([STEVE]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toEqual({ [ALEX]: 'true' });
+  });
+
+  it('should report a conflict when both sides changed', () => {
+    const result = reconcileEntries(
+      'banned',
+      { [STEVE]: 'permanent' },
+      {},
+      { [STEVE]: '2026-12-01T00:00:00.000Z' }
+    );
+
+    expect(result.conflicts).toEqual([STEVE]);
+    expect(result.merged).toEqual({ [STEVE]: 'permanent' });
+  });
+
+  it('should tolerate small differences in temp ban expiry', () => {
+    const result = reconcileEntries(
+      'banned',
+      {},
+      { [STEVE]: '2026-12-01T00:00:05.000Z' },
+      { [STEVE]: '2026-12-01T00:00:00.000Z' }
+    );
+
+    expect(result.toFile).toEqual([]);
+    expect(result.toManager).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+});
+
+describe('PlayerFileSyncService', () => {
+  let serverDir: string;
+  let prisma: any;
+  let service: PlayerFileSyncService;
+
+  beforeEach(async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'player-sync-'));
+    serverDir = path.join(root, 'Server');
+    await fs.ensureDir(serverDir);
+
+    prisma = {
+      server: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'server-1', serverPath: root, adapterConfig: null, status: 'stopped' }),
+      },
+      player: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        create: jest.fn(),
+      },
+      playerFileSnapshot: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn(),
+      },
+      playerSyncConflict: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+    };
+    const playerService = new PlayerService(prisma as unknown as PrismaClient);
+    service = new PlayerFileSyncService(prisma as unknown as PrismaClient, playerService);
+  });
+
+  afterEach(async () => {
+    service.cleanup();
+    await fs.remove(path.dirname(serverDir));
+  });
+
+  it('should import bans added in the file', async () => {
+    await fs.writeJson(path.join(serverDir, 'bans.json'), [{ type: 'infinite', target: STEVE, reason: 'Griefing' }]);
+
+    await service.sync('server-1');
+
+    expect(prisma.player.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ serverId: 'server-1', uuid: STEVE, isBanned: true, banReason: 'Griefing' }),
+    });
+    expect(prisma.playerFileSnapshot.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { serverId: 'server-1', file: 'bans', entries: JSON.stringify({ [STEVE]: 'permanent' }) },
+    }));
+  });
+
+  it('should write manager changes to the file while the server is stopped', async () => {
+    await fs.writeJson(path.join(serverDir, 'whitelist.json'), { enabled: true, list: [] });
+    prisma.player.findMany.mockResolvedValue([{ id: 'p1', uuid: ALEX, username: 'Alex', isWhitelisted: true }]);
+
+    await service.sync('server-1');
+
+    expect(await fs.readJson(path.join(serverDir, 'whitelist.json'))).toEqual({ enabled: true, list: [ALEX] });
+  });
+
+  it('should not flag a temporary ban the server stored as permanent', async () => {
+    const bannedUntil = new Date(Date.UTC(2026, 11, 1));
+    await fs.writeJson(path.join(serverDir, 'bans.json'), [{ type: 'infinite', target: STEVE }]);
+    prisma.player.findMany.mockResolvedValue([{ id: 'p1', uuid: STEVE, username: 'Steve', isBanned: true, bannedUntil }]);
+
+    await service.sync('server-1');
+
+    expect(prisma.playerSyncConflict.create).not.toHaveBeenCalled();
+    expect(prisma.player.update).not.toHaveBeenCalled();
+  });
+
+  it('should leave the file alone while the server is running', async () => {
+    await fs.writeJson(path.join(serverDir, 'whitelist.json'), { enabled: true, list: [] });
+    prisma.server.findUnique.mockResolvedValue({ id: 'server-1', serverPath: path.dirname(serverDir), adapterConfig: null, status: 'running' });
+    prisma.player.findMany.mockResolvedValue([{ id: 'p1', uuid: ALEX, username: 'Alex', isWhitelisted: true }]);
+
+    await service.sync('server-1');
+
+    expect(await fs.readJson(path.join(serverDir, 'whitelist.json'))).toEqual({ enabled: true, list: [] });
+    expect(prisma.playerFileSnapshot.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { serverId: 'server-1', file: 'whitelist', entries: '{}' },
+    }));
+  });
+});
@@ -0,0 +1,158 @@
+import { PrismaClient } from '@prisma/client';
+import { PlayerPresenceService, parsePresenceLine, offlineUuid } from '../PlayerPresenceService';
+import { PlayerService } from '../PlayerService';
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    player: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    server: {
+      findMany: jest.fn(),
+    },
+  };
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+const UUID = '0f3c6a52-8f1e-4b8a-9d61-2a7c5e4b9d10';
+
+describe('parsePresenceLine', () => {
+  it('should detect a join with a UUID', () => {
+    expect(parsePresenceLine(`[2026/01/14 18:22:41 INFO] Player 'Steve' (${UUID}) joined`)).toEqual({
+      type: 'join',
+      username: 'Steve',
+      uuid: UUID,
+    });
+  });
+
+  it('should detect a join without a UUID', () => {
+    expect(parsePresenceLine('Steve joined the game')).toEqual({
+      type: 'join',
+      username: 'Steve',
+      uuid: undefined,
+    });
+  });
+
+  it('should detect leave and disconnect lines', () => {
+    expect(parsePresenceLine(`Removing player Alex [${UUID}]`)).toMatchObject({ type: 'leave', username: 'Alex' });
+    expect(parsePresenceLine('Player Alex disconnected')).toMatchObject({ type: 'leave', username: 'Alex' });
+    expect(parsePresenceLine('Alex lost connection: Timed out')).toMatchObject({ type: 'leave', username: 'Alex' });
+  });
+
+  it('should capture the disconnect reason', () => {
+    expect(parsePresenceLine('Alex lost connection: Timed out')?.reason).toBe('Timed out');
+    expect(parsePresenceLine('Player Alex disconnected (Kicked by an operator)')?.reason).toBe('Kicked by an operator');
+    expect(parsePresenceLine('Alex left the game')?.reason).toBeUndefined();
+  });
+
+  it('should ignore unrelated lines', () => {
+    expect(parsePresenceLine('Database connected')).toBeNull();
+    expect(parsePresenceLine('Done (4.2s)! For help, type "help"')).toBeNull();
+  });
+});
+
+describe('offlineUuid', () => {
+  it('should return a stable version 3 UUID', () => {
+    const uuid = offlineUuid('Steve');
+    expect(uuid).toBe(offlineUuid('Steve'));
+    expect(uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-3[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(uuid).not.toBe(offlineUuid('Alex'));
+  });
+});
+
+describe('PlayerPresenceService', () => {
+  let service: PlayerPresenceService;
+  let mockPrisma: any;
+  let playerService: jest.Mocked<Pick<PlayerService, 'upsertPlayer' | 'setPlayerOffline' | 'getPlayerByUuid' | 'closeServerSessions'>>;
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma = new PrismaClient();
+    mockPrisma.player.findFirst.mockResolvedValue(null);
+    mockPrisma.player.updateMany.mockResolvedValue({ count: 0 });
+
+    playerService = {
+      upsertPlayer: jest.fn().mockResolvedValue({ uuid: UUID, username: 'Steve', playtime: 100 }),
+      setPlayerOffline: jest.fn().mockResolvedValue({ uuid: UUID, username: 'Steve', isOnline: false }),
+      getPlayerByUuid: jest.fn().mockResolvedValue({ uuid: UUID, username: 'Steve', playtime: 100, isOnline: true }),
+      closeServerSessions: jest.fn().mockResolvedValue(0),
+    };
+
+    service = new PlayerPresenceService(mockPrisma, playerService as unknown as PlayerService);
+  });
+
+  it('should upsert the player and emit a join event', async () => {
+    const listener = jest.fn();
+    service.onPresenceChange(listener);
+
+    service.handleLog('server-1', { timestamp: new Date(), level: 'info', message: `Player Steve (${UUID}) joined` });
+    await flush();
+
+    expect(playerService.upsertPlayer).toHaveBeenCalledWith('server-1', UUID, 'Steve');
+    expect(service.getOnlineUuids('server-1')).toEqual([UUID]);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ serverId: 'server-1', event: 'joined' }));
+  });
+
+  it('should credit session playtime when the player leaves', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['setImmediate'] });
+
+    service.handleLog('server-1', { timestamp: new Date(), level: 'info', message: `Player Steve (${UUID}) joined` });
+    await flush();
+
+    jest.setSystemTime(new Date('2026-01-01T00:10:00Z'));
+    service.handleLog('server-1', { timestamp: new Date(), level: 'info', message: 'Player Steve left' });
+    await flush();
+
+    expect(playerService.setPlayerOffline).toHaveBeenCalledWith('server-1', UUID, 100 + 600, { reason: 'left' });
+    expect(service.getOnlineUuids('server-1')).toEqual([]);
+
+    jest.useRealTimers();
+  });
+
+  it('should close all sessions when the server crashes', async () => {
+    let statusCallback: (status: string) => void = () => {};
+    const adapter: any = {
+      onLog: jest.fn(() => jest.fn()),
+      onStatusChange: jest.fn((cb) => {
+        statusCallback = cb;
+        return jest.fn();
+      }),
+    };
+    service.attach('server-1', adapter);
+
+    service.handleLog('server-1', { timestamp: new Date(), level: 'info', message: `Player Steve (${UUID}) joined` });
+    await flush();
+
+    statusCallback('crashed');
+    await flush();
+
+    expect(playerService.setPlayerOffline).toHaveBeenCalledWith('server-1', UUID, expect.any(Number), { reason: 'server_crashed' });
+    expect(playerService.closeServerSessions).toHaveBeenCalledWith('server-1', { reason: 'server_crashed' });
+    expect(mockPrisma.player.updateMany).toHaveBeenCalledWith({
+      where: { serverId: 'server-1', isOnline: true },
+      data: { isOnline: false },
+    });
+  });
+
+  it('should resume sessions for running servers and clear stopped ones on reconcile', async () => {
+    mockPrisma.server.findMany.mockResolvedValue([
+      { id: 'running-1', status: 'running' },
+      { id: 'stopped-1', status: 'stopped' },
+    ]);
+    mockPrisma.player.findMany.mockResolvedValue([{ uuid: UUID, username: 'Steve' }]);
+
+    await service.reconcile();
+
+    expect(service.getOnlineUuids('running-1')).toEqual([UUID]);
+    expect(mockPrisma.player.updateMany).toHaveBeenCalledWith({
+      where: { serverId: 'stopped-1', isOnline: true },
+      data: { isOnline: false },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { PlayerService } from '../PlayerService';
+
+function record(serverId: string, uuid: string, values: Record<string, any> = {}) {
+  return {
+    id: `${serverId}-${uuid}`,
+    serverId,
+    uuid,
+    username: uuid === 'uuid-1' ? 'Steve' : 'Alex',
+    isOnline: false,
+    isBanned: false,
+    isWhitelisted: false,
+    playtime: 0,
+    firstJoined: new Date('2026-01-01T00:00:00Z'),
+    lastSeen: new Date('2026-01-01T00:00:00Z'),
+    ...values,
+  };
+}
+
+describe('PlayerService player directory', () => {
+  let service: PlayerService;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = {
+      player: {
+        findMany: jest.fn().mockResolvedValue([
+          record('server-1', 'uuid-1', { playtime: 100, isOnline: true, lastSeen: new Date('2026-01-03T00:00:00Z') }),
+          record('server-2', 'uuid-1', { playtime: 50, isBanned: true }),
+          record('server-1', 'uuid-2', { playtime: 500, lastSeen: new Date('2026-01-02T00:00:00Z') }),
+        ]),
+      },
+    };
+    service = new PlayerService(mockPrisma);
+  });
+
+  it('should merge per-server records into one entry per player', async () => {
+    const { players, total } = await service.getPlayerDirectory();
+
+    expect(total).toBe(2);
+    expect(players[0]).toMatchObject({
+      uuid: 'uuid-1',
+      isOnline: true,
+      onlineServerIds: ['server-1'],
+      isBanned: true,
+      bannedServerIds: ['server-2'],
+      serverCount: 2,
+      playtime: 150,
+    });
+  });
+
+  it('should filter by status and sort by playtime', async () => {
+    const banned = await service.getPlayerDirectory({ status: 'banned' });
+    expect(banned.players.map(p => p.uuid)).toEqual(['uuid-1']);
+
+    const offline = await service.getPlayerDirectory({ status: 'offline' });
+    expect(offline.players.map(p => p.uuid)).toEqual(['uuid-2']);
+
+    const byPlaytime = await service.getPlayerDirectory({ sortBy: 'playtime', sortOrder: 'asc' });
+    expect(byPlaytime.players.map(p => p.uuid)).toEqual(['uuid-1', 'uuid-2']);
+  });
+});
+
+describe('PlayerService sessions', () => {
+  let service: PlayerService;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = {
+      player: {
+        upsert: jest.fn().mockResolvedValue(record('server-1', 'uuid-1')),
+        update: jest.fn().mockResolvedValue(record('server-1', 'uuid-1')),
+      },
+      playerSession: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    service = new PlayerService(mockPrisma);
+  });
+
+  it('should open a session on join unless one is already open', async () => {
+    await service.upsertPlayer('server-1', 'uuid-1', 'Steve');
+    expect(mockPrisma.playerSession.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ serverId: 'server-1', uuid: 'uuid-1', username: 'Steve' }),
+    });
+
+    mockPrisma.playerSession.create.mockClear();
+    mockPrisma.playerSession.findFirst.mockResolvedValue({ id: 'session-1' });
+    await service.upsertPlayer('server-1', 'uuid-1', 'Steve');
+    expect(mockPrisma.playerSession.create).not.toHaveBeenCalled();
+  });
+
+  it('should close open sessions with duration and reason on leave', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:30:00Z') });
+    mockPrisma.playerSession.findMany.mockResolvedValue([
+      { id: 'session-1', joinedAt: new Date('2026-01-01T00:00:00Z') },
+    ]);
+
+    await service.setPlayerOffline('server-1', 'uuid-1', 1800, { reason: 'left', message: 'Timed out' });
+
+    expect(mockPrisma.playerSession.findMany).toHaveBeenCalledWith({
+      where: { serverId: 'server-1', uuid: 'uuid-1', leftAt: null },
+    });
+    expect(mockPrisma.playerSession.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: {
+        leftAt: new Date('2026-01-01T00:30:00Z'),
+        duration: 1800,
+        disconnectReason: 'left',
+        disconnectMessage: 'Timed out',
+      },
+    });
+
+    jest.useRealTimers();
+  });
+
+  it('should find sessions overlapping a point in time', async () => {
+    const at = new Date('2026-01-01T21:40:00Z');
+
+    await service.getOnlineAt('server-1', at);
+
+    expect(mockPrisma.playerSession.findMany).toHaveBeenCalledWith({
+      where: {
+        serverId: 'server-1',
+        joinedAt: { lte: at },
+        OR: [{ leftAt: null }, { leftAt: { gte: at } }],
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { ReadinessProbe, probeUdpPort, validateReadinessConfig } from '../ReadinessProbe';
+
+describe('ReadinessProbe', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should become ready when the configured log pattern appears', () => {
+    const onReady = jest.fn();
+    const onTimeout = jest.fn();
+    const probe = new ReadinessProbe({ readyLogPattern: 'Server started on port \\d+' }, '0.0.0.0', 5520, { onReady, onTimeout });
+    probe.start();
+
+    probe.handleLog('Loading world...');
+    expect(onReady).not.toHaveBeenCalled();
+
+    probe.handleLog('Server started on port 5520');
+    expect(onReady).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(200 * 1000);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should time out a configured probe', () => {
+    const onReady = jest.fn();
+    const onTimeout = jest.fn();
+    const probe = new ReadinessProbe({ readyLogPattern: 'Server started', readyTimeoutSeconds: 60 }, '0.0.0.0', 5520, { onReady, onTimeout });
+    probe.start();
+
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(onReady).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to marking the server ready when nothing is configured', () => {
+    const onReady = jest.fn();
+    const onTimeout = jest.fn();
+    const probe = new ReadinessProbe({}, '0.0.0.0', 5520, { onReady, onTimeout });
+    probe.start();
+
+    jest.advanceTimersByTime(30 * 1000);
+
+    expect(onReady).toHaveBeenCalledTimes(1);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should validate readiness settings', () => {
+    expect(validateReadinessConfig(undefined)).toBeNull();
+    expect(validateReadinessConfig({ readyLogPattern: 'Server (started' })).toMatch('Invalid readyLogPattern');
+    expect(validateReadinessConfig({ readyUdpCheck: 'yes' })).toMatch('readyUdpCheck');
+    expect(validateReadinessConfig({ readyTimeoutSeconds: 1 })).toMatch('readyTimeoutSeconds');
+    expect(validateReadinessConfig({ readyLogPattern: '', readyUdpCheck: true, readyTimeoutSeconds: 90 })).toBeNull();
+  });
+});
+
+describe('probeUdpPort', () => {
+  it('should report a bound port as reachable and a closed one as not', async () => {
+    const socket = dgram.createSocket('udp4');
+    await new Promise<void>((resolve) => socket.bind(0, '127.0.0.1', resolve));
+    const { port } = socket.address() as AddressInfo;
+
+    expect(await probeUdpPort('127.0.0.1', port, 300)).toBe(true);
+
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+    expect(await probeUdpPort('127.0.0.1', port, 300)).toBe(false);
+  });
+});
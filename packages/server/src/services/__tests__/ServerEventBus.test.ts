@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+import { ServerEventBus } from '../ServerEventBus';
+
+jest.mock('@prisma/client', () => {
+  const mockPrismaClient = {
+    serverEventDispatch: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return {
+    PrismaClient: jest.fn(() => mockPrismaClient),
+  };
+});
+
+describe('ServerEventBus', () => {
+  let bus: ServerEventBus;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma = new PrismaClient();
+    mockPrisma.serverEventDispatch.create.mockResolvedValue({});
+    bus = new ServerEventBus(mockPrisma);
+  });
+
+  it('should deliver events only to subscribers of that type', async () => {
+    const startHandler = jest.fn();
+    const playerHandler = jest.fn();
+    const allHandler = jest.fn();
+    bus.subscribe('start', ['server_start'], startHandler);
+    bus.subscribe('player', ['player_join'], playerHandler);
+    bus.subscribe('all', null, allHandler);
+
+    await bus.publish('server_start', 'server-1', 'server', { serverName: 'Test' });
+
+    expect(startHandler).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'server_start',
+      serverId: 'server-1',
+      data: { serverName: 'Test' },
+    }));
+    expect(allHandler).toHaveBeenCalled();
+    expect(playerHandler).not.toHaveBeenCalled();
+  });
+
+  it('should record each subscriber outcome', async () => {
+    bus.subscribe('automation', null, async () => ({ status: 'skipped', detail: 'No enabled event rules' }));
+    bus.subscribe('discord', null, () => undefined);
+    bus.subscribe('broken', null, () => {
+      throw new Error('boom');
+    });
+
+    const results = await bus.publish('server_crash', 'server-1', 'server');
+
+    expect(results).toEqual([
+      { subscriber: 'automation', status: 'skipped', detail: 'No enabled event rules' },
+      { subscriber: 'discord', status: 'handled' },
+      { subscriber: 'broken', status: 'failed', detail: 'boom' },
+    ]);
+    expect(mockPrisma.serverEventDispatch.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        serverId: 'server-1',
+        eventType: 'server_crash',
+        source: 'server',
+        results: JSON.stringify(results),
+      }),
+    });
+  });
+
+  it('should stop delivering after unsubscribe', async () => {
+    const handler = jest.fn();
+    const unsubscribe = bus.subscribe('test', null, handler);
+    unsubscribe();
+
+    await bus.publish('server_stop', 'server-1', 'server');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should not throw when the dispatch cannot be recorded', async () => {
+    mockPrisma.serverEventDispatch.create.mockRejectedValue(new Error('Foreign key constraint failed'));
+
+    await expect(bus.publish('server_stop', 'deleted-server', 'server')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { planRestart, validateRestartPolicy, RestartPolicySettings } from '../ServerService';
+
+describe('restart policy', () => {
+  const policy = (overrides: Partial<RestartPolicySettings> = {}): RestartPolicySettings => ({
+    restartPolicy: 'on-crash',
+    restartMaxAttempts: 3,
+    restartWindowMinutes: 10,
+    restartBackoffSeconds: 10,
+    ...overrides,
+  });
+  const crash = { code: 1, crashed: true, requested: false };
+  const cleanExit = { code: 0, crashed: false, requested: false };
+  const now = Date.now();
+
+  it('should never restart after a requested stop or when disabled', () => {
+    expect(planRestart(policy({ restartPolicy: 'always' }), { code: null, crashed: false, requested: true }, [], now)).toEqual({ action: 'none' });
+    expect(planRestart(policy({ restartPolicy: 'never' }), crash, [], now)).toEqual({ action: 'none' });
+  });
+
+  it('should only restart clean exits with the always policy', () => {
+    expect(planRestart(policy(), cleanExit, [], now)).toEqual({ action: 'none' });
+    expect(planRestart(policy({ restartPolicy: 'always' }), cleanExit, [], now)).toEqual({ action: 'restart', delayMs: 10000 });
+  });
+
+  it('should double the delay for each restart within the window', () => {
+    const twoMinutesAgo = now - 2 * 60 * 1000;
+    const hourAgo = now - 60 * 60 * 1000;
+
+    expect(planRestart(policy(), crash, [hourAgo, twoMinutesAgo], now)).toEqual({ action: 'restart', delayMs: 20000 });
+    expect(planRestart(policy({ restartMaxAttempts: 10, restartBackoffSeconds: 60 }), crash, Array(5).fill(twoMinutesAgo), now))
+      .toEqual({ action: 'restart', delayMs: 5 * 60 * 1000 });
+  });
+
+  it('should report a crash loop once the window is full', () => {
+    const recent = [now - 3 * 60 * 1000, now - 2 * 60 * 1000, now - 60 * 1000];
+    expect(planRestart(policy(), crash, recent, now)).toEqual({ action: 'crash_loop', restarts: 3 });
+  });
+
+  it('should validate settings', () => {
+    expect(validateRestartPolicy({ restartPolicy: 'sometimes' as any })).toMatch('restartPolicy');
+    expect(validateRestartPolicy({ restartMaxAttempts: 0 })).toMatch('restartMaxAttempts');
+    expect(validateRestartPolicy({ restartBackoffSeconds: 1.5 })).toMatch('restartBackoffSeconds');
+    expect(validateRestartPolicy({ restartPolicy: 'always', restartBackoffSeconds: 0 })).toBeNull();
+  });
+});
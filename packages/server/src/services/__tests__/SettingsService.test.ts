@@ -298,8 +298,10 @@ describe('SettingsService', () => {
       const categories = service.getCategories();
       expect(categories).toContain('discord');
       expect(categories).toContain('ftp');
+      expect(categories).toContain('s3');
       expect(categories).toContain('modtale');
-      expect(categories).toHaveLength(3);
+      expect(categories).toContain('curseforge');
+      expect(categories).toHaveLength(5);
     });
   });
 
@@ -1,13 +1,21 @@
 // Server Types
 export interface ServerStatus {
   serverId: string;
-  status: 'stopped' | 'starting' | 'running' | 'stopping' | 'crashed' | 'orphaned';
+  status: 'stopped' | 'starting' | 'running' | 'stopping' | 'crashed' | 'crash_loop' | 'orphaned';
   playerCount: number;
   maxPlayers: number;
   version: string;
   uptime: number;
 }
 
+export interface ProcessExit {
+  code: number | null;
+  // Exited on its own with a failure code (not a stop, kill or update exit)
+  crashed: boolean;
+  // The manager asked the process to stop (stop, restart or kill)
+  requested: boolean;
+}
+
 export interface ServerMetrics {
   cpuUsage: number; // percentage
   memoryUsage: number; // MB
@@ -38,6 +46,7 @@ export interface LogEntry {
   level: 'info' | 'warn' | 'error' | 'debug';
   message: string;
   source?: string;
+  thread?: string;
 }
 
 export interface CommandResponse {
@@ -251,6 +260,8 @@ export interface ServerOperationResult {
   serverName: string;
   success: boolean;
   error?: string;
+  /** Why the server was left untouched, when it was */
+  skipped?: string;
 }
 
 export interface NetworkBackup {
@@ -3,6 +3,7 @@ import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { ServerService } from '../services/ServerService';
 import { ConsoleService } from '../services/ConsoleService';
+import { ServerEvent } from '../services/ServerEventBus';
 import logger from '../utils/logger';
 
 const prisma = new PrismaClient();
@@ -110,8 +111,7 @@ export class ServerEvents {
 
         try {
           // Send initial status
-          const status = await this.serverService.getServerStatus(serverId);
-          socket.emit('server:status', { serverId, status });
+          socket.emit('server:status', await this.statusPayload(serverId));
 
           // Send initial metrics
           const metrics = await this.serverService.getServerMetrics(serverId);
@@ -159,17 +159,14 @@ export class ServerEvents {
     const interval = setInterval(async () => {
       try {
         const metrics = await this.serverService.getServerMetrics(serverId);
-        const status = await this.serverService.getServerStatus(serverId);
+        const statusPayload = await this.statusPayload(serverId);
 
         this.io.of('/servers').to(`server:${serverId}`).emit('server:metrics', {
           serverId,
           metrics,
         });
 
-        this.io.of('/servers').to(`server:${serverId}`).emit('server:status', {
-          serverId,
-          status,
-        });
+        this.io.of('/servers').to(`server:${serverId}`).emit('server:status', statusPayload);
       } catch (error) {
         logger.error(`Error sending metrics for server ${serverId}:`, error);
       }
@@ -196,16 +193,40 @@ export class ServerEvents {
    */
   async broadcastStatusChange(serverId: string): Promise<void> {
     try {
-      const status = await this.serverService.getServerStatus(serverId);
-      this.io.of('/servers').to(`server:${serverId}`).emit('server:status', {
-        serverId,
-        status,
-      });
+      this.io.of('/servers').to(`server:${serverId}`).emit('server:status', await this.statusPayload(serverId));
     } catch (error) {
       logger.error(`Error broadcasting status for server ${serverId}:`, error);
     }
   }
 
+  /**
+   * Status event payload, with the idle marker set by the idle policy once it has stopped the server
+   */
+  private async statusPayload(serverId: string) {
+    const status = await this.serverService.getServerStatus(serverId);
+    const server = status.status === 'stopped'
+      ? await prisma.server.findUnique({ where: { id: serverId }, select: { idleSince: true } })
+      : null;
+    return { serverId, status, idleSince: server?.idleSince ?? null };
+  }
+
+  /**
+   * Event bus subscriber - push lifecycle and player events to clients watching the server
+   */
+  async handleServerEvent(event: ServerEvent): Promise<void> {
+    if (event.type === 'player_join' || event.type === 'player_leave') {
+      const presence = event.type === 'player_join' ? 'joined' : 'left';
+      this.io.of('/servers').to(`server:${event.serverId}`).emit(`player:${presence}`, {
+        serverId: event.serverId,
+        player: event.data?.player,
+        event: presence,
+      });
+      return;
+    }
+
+    await this.broadcastStatusChange(event.serverId);
+  }
+
   /**
    * Cleanup - stop all metrics intervals
    */